@@ -0,0 +1,15 @@
+import nextJest from 'next/jest.js';
+
+// Loads next.config and .env files and compiles TypeScript with the Next.js SWC setup
+const createJestConfig = nextJest({ dir: './' });
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1'
+  },
+  testPathIgnorePatterns: ['<rootDir>/node_modules/', '<rootDir>/.next/']
+};
+
+export default createJestConfig(config);
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { parseTaskQueryParams } from '@/core/application/dto/TaskQueryDTO';
+import { MEMBER_ROLES, buildPicLabels } from '@/core/domain/entities/Member';
+import { taskFilterUtils } from '@/core/domain/entities/taskUtils';
+import { IcsComponentType, IcsCalendarGenerator } from '@/infrastructure/ics/IcsCalendarGenerator';
+import { getServerMemberRepository, getServerTaskRepository } from '@/infrastructure/repositories/serverRepositories';
+import { internalError, notFoundError } from '@/infrastructure/http/apiResponse';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ pic: string }>;
+}
+
+// Feed of every task, whoever is in charge
+const ALL_TASKS = 'all';
+
+// GET /api/calendar/:pic.ics?type=event|todo&completed=&tags=&q=...
+// A live iCalendar feed of one Person in Charge's tasks (or "all"), narrowed by the task list filters
+export async function GET(request: Request, { params }: RouteContext) {
+  const pic = decodeURIComponent((await params).pic).replace(/\.ics$/i, '');
+  const query = new URL(request.url).searchParams;
+  const { filters } = parseTaskQueryParams(query);
+  const type: IcsComponentType = query.get('type') === 'todo' ? 'todo' : 'event';
+
+  try {
+    const members = await getServerMemberRepository().findAll();
+    const member = members.find(candidate => candidate.id === pic);
+    // Tasks assigned before the member directory existed still name a role
+    const isLegacyRole = MEMBER_ROLES.some(role => role === pic);
+    if (pic !== ALL_TASKS && !member && !isLegacyRole) {
+      return notFoundError('Member', pic);
+    }
+
+    const tasks = await getServerTaskRepository().findAll();
+    const feedTasks = taskFilterUtils.filterTasks(
+      tasks,
+      pic === ALL_TASKS ? filters : { ...filters, pic },
+      buildPicLabels(members)
+    );
+
+    const name = pic === ALL_TASKS ? 'Tasks' : `Tasks – ${member?.name || pic}`;
+    const calendar = new IcsCalendarGenerator().generate(feedTasks, members, { name, type });
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${pic}.ics"`,
+        'Cache-Control': 'no-cache'
+      }
+    });
+  } catch (error) {
+    return internalError(error);
+  }
+}
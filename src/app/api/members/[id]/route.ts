@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { updateMemberSchema } from '@/core/application/dto/MemberDTO';
+import { UpdateMemberUseCase } from '@/core/domain/usecases/UpdateMemberUseCase';
+import { DeleteMemberUseCase } from '@/core/domain/usecases/DeleteMemberUseCase';
+import {
+  getServerMemberRepository,
+  getServerTaskRepository
+} from '@/infrastructure/repositories/serverRepositories';
+import {
+  apiError,
+  internalError,
+  notFoundError,
+  readJsonBody,
+  validationError
+} from '@/infrastructure/http/apiResponse';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/members/:id
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const member = await getServerMemberRepository().findById(id);
+    if (!member) {
+      return notFoundError('Member', id);
+    }
+    return NextResponse.json(member.toJSON());
+  } catch (error) {
+    return internalError(error);
+  }
+}
+
+// PUT /api/members/:id
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  const body = await readJsonBody(request);
+  if (body === null || typeof body !== 'object') {
+    return apiError(400, 'Request body must be a JSON object', 'INVALID_JSON');
+  }
+
+  const result = updateMemberSchema.safeParse(body);
+  if (!result.success) {
+    return validationError(result.error);
+  }
+
+  try {
+    const repository = getServerMemberRepository();
+    if (!(await repository.findById(id))) {
+      return notFoundError('Member', id);
+    }
+
+    const member = await new UpdateMemberUseCase(repository).execute(id, result.data);
+    return NextResponse.json(member.toJSON());
+  } catch (error) {
+    return internalError(error);
+  }
+}
+
+// DELETE /api/members/:id (409 while tasks are still assigned to the member)
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const repository = getServerMemberRepository();
+    if (!(await repository.findById(id))) {
+      return notFoundError('Member', id);
+    }
+
+    await new DeleteMemberUseCase(repository, getServerTaskRepository()).execute(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return internalError(error);
+  }
+}
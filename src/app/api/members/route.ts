@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { createMemberSchema } from '@/core/application/dto/MemberDTO';
+import { GetMembersUseCase } from '@/core/domain/usecases/GetMembersUseCase';
+import { CreateMemberUseCase } from '@/core/domain/usecases/CreateMemberUseCase';
+import { getServerMemberRepository } from '@/infrastructure/repositories/serverRepositories';
+import { apiError, internalError, readJsonBody, validationError } from '@/infrastructure/http/apiResponse';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/members
+export async function GET() {
+  try {
+    const members = await new GetMembersUseCase(getServerMemberRepository()).execute();
+    return NextResponse.json(members.map(member => member.toJSON()));
+  } catch (error) {
+    return internalError(error);
+  }
+}
+
+// POST /api/members
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (body === null) {
+    return apiError(400, 'Request body must be valid JSON', 'INVALID_JSON');
+  }
+
+  const result = createMemberSchema.safeParse(body);
+  if (!result.success) {
+    return validationError(result.error);
+  }
+
+  try {
+    const member = await new CreateMemberUseCase(getServerMemberRepository()).execute(result.data);
+    return NextResponse.json(member.toJSON(), { status: 201 });
+  } catch (error) {
+    return internalError(error);
+  }
+}
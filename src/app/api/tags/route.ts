@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { tagSchema } from '@/core/application/dto/CreateTaskDTO';
+import { GetTagsUseCase } from '@/core/domain/usecases/GetTagsUseCase';
+import { SaveTagUseCase } from '@/core/domain/usecases/SaveTagUseCase';
+import { getServerTagRepository } from '@/infrastructure/repositories/serverRepositories';
+import { apiError, internalError, readJsonBody, validationError } from '@/infrastructure/http/apiResponse';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/tags
+export async function GET() {
+  try {
+    const tags = await new GetTagsUseCase(getServerTagRepository()).execute();
+    return NextResponse.json(tags);
+  } catch (error) {
+    return internalError(error);
+  }
+}
+
+// POST /api/tags (creates the tag, or updates the color of an existing one)
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (body === null) {
+    return apiError(400, 'Request body must be valid JSON', 'INVALID_JSON');
+  }
+
+  const result = tagSchema.safeParse(body);
+  if (!result.success) {
+    return validationError(result.error);
+  }
+
+  try {
+    const tag = await new SaveTagUseCase(getServerTagRepository()).execute(result.data);
+    return NextResponse.json(tag);
+  } catch (error) {
+    return internalError(error);
+  }
+}
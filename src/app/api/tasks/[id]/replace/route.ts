@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { replaceTaskSchema } from '@/core/application/dto/CreateTaskDTO';
+import { UpdateTaskUseCase } from '@/core/domain/usecases/UpdateTaskUseCase';
+import { getServerMemberRepository, getServerTaskRepository } from '@/infrastructure/repositories/serverRepositories';
+import { getTaskWorkflow } from '@/infrastructure/config/taskWorkflow';
+import {
+  apiError,
+  internalError,
+  notFoundError,
+  readJsonBody,
+  validationError
+} from '@/infrastructure/http/apiResponse';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/tasks/:id/replace (workspace restore; the status may move to any status the workflow can reach)
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  const body = await readJsonBody(request);
+  if (body === null || typeof body !== 'object') {
+    return apiError(400, 'Request body must be a JSON object', 'INVALID_JSON');
+  }
+
+  const result = replaceTaskSchema.safeParse({ ...body, id });
+  if (!result.success) {
+    return validationError(result.error);
+  }
+
+  try {
+    const repository = getServerTaskRepository();
+    if (!(await repository.findById(id))) {
+      return notFoundError('Task', id);
+    }
+
+    const { createdAt, updatedAt, completedAt, ...fields } = result.data;
+    const task = await new UpdateTaskUseCase(repository, getServerMemberRepository(), getTaskWorkflow())
+      .execute(id, {
+        ...fields,
+        createdAt: new Date(createdAt),
+        updatedAt: new Date(updatedAt),
+        completedAt: completedAt ? new Date(completedAt) : null
+      }, { replace: true });
+    return NextResponse.json(task.toJSON());
+  } catch (error) {
+    return internalError(error);
+  }
+}
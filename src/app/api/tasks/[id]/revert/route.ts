@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { updateTaskSchema } from '@/core/application/dto/CreateTaskDTO';
+import { UpdateTaskUseCase } from '@/core/domain/usecases/UpdateTaskUseCase';
+import { getServerMemberRepository, getServerTaskRepository } from '@/infrastructure/repositories/serverRepositories';
+import { getTaskWorkflow } from '@/infrastructure/config/taskWorkflow';
+import {
+  apiError,
+  internalError,
+  notFoundError,
+  readJsonBody,
+  validationError
+} from '@/infrastructure/http/apiResponse';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/tasks/:id/revert (undo; the status may only move back along a workflow transition)
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  const body = await readJsonBody(request);
+  if (body === null || typeof body !== 'object') {
+    return apiError(400, 'Request body must be a JSON object', 'INVALID_JSON');
+  }
+
+  const result = updateTaskSchema.safeParse({ ...body, id });
+  if (!result.success) {
+    return validationError(result.error);
+  }
+
+  try {
+    const repository = getServerTaskRepository();
+    if (!(await repository.findById(id))) {
+      return notFoundError('Task', id);
+    }
+
+    const task = await new UpdateTaskUseCase(repository, getServerMemberRepository(), getTaskWorkflow())
+      .execute(id, result.data, { revert: true });
+    return NextResponse.json(task.toJSON());
+  } catch (error) {
+    return internalError(error);
+  }
+}
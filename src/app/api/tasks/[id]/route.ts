@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { updateTaskSchema } from '@/core/application/dto/CreateTaskDTO';
+import { UpdateTaskUseCase } from '@/core/domain/usecases/UpdateTaskUseCase';
+import { DeleteTaskUseCase } from '@/core/domain/usecases/DeleteTaskUseCase';
+import { getServerMemberRepository, getServerTaskRepository } from '@/infrastructure/repositories/serverRepositories';
+import { getTaskWorkflow } from '@/infrastructure/config/taskWorkflow';
+import {
+  apiError,
+  internalError,
+  notFoundError,
+  readJsonBody,
+  validationError
+} from '@/infrastructure/http/apiResponse';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/tasks/:id
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const task = await getServerTaskRepository().findById(id);
+    if (!task) {
+      return notFoundError('Task', id);
+    }
+    return NextResponse.json(task.toJSON());
+  } catch (error) {
+    return internalError(error);
+  }
+}
+
+// PUT /api/tasks/:id
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  const body = await readJsonBody(request);
+  if (body === null || typeof body !== 'object') {
+    return apiError(400, 'Request body must be a JSON object', 'INVALID_JSON');
+  }
+
+  const result = updateTaskSchema.safeParse({ ...body, id });
+  if (!result.success) {
+    return validationError(result.error);
+  }
+
+  try {
+    const repository = getServerTaskRepository();
+    if (!(await repository.findById(id))) {
+      return notFoundError('Task', id);
+    }
+
+    const task = await new UpdateTaskUseCase(repository, getServerMemberRepository(), getTaskWorkflow())
+      .execute(id, result.data);
+    return NextResponse.json(task.toJSON());
+  } catch (error) {
+    return internalError(error);
+  }
+}
+
+// DELETE /api/tasks/:id (?removeDependencies=true unlinks tasks blocked by it)
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const removeDependencies = new URL(request.url).searchParams.get('removeDependencies') === 'true';
+
+  try {
+    const repository = getServerTaskRepository();
+    if (!(await repository.findById(id))) {
+      return notFoundError('Task', id);
+    }
+
+    await new DeleteTaskUseCase(repository).execute(id, { removeDependencies });
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return internalError(error);
+  }
+}
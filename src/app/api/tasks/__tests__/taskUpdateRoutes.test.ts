@@ -0,0 +1,163 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ITask, Task } from '@/core/domain/entities/Task';
+import { Member } from '@/core/domain/entities/Member';
+
+// The server repositories read the data directory when first imported
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-routes-'));
+process.env.TASKS_DATA_DIR = dataDir;
+
+type Routes = {
+  task: typeof import('../[id]/route');
+  revert: typeof import('../[id]/revert/route');
+  replace: typeof import('../[id]/replace/route');
+  restore: typeof import('../restore/route');
+  repositories: typeof import('@/infrastructure/repositories/serverRepositories');
+};
+
+let routes: Routes;
+let member: Member;
+
+const jsonRequest = (url: string, method: string, body: unknown) =>
+  new Request(`http://localhost/api${url}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+const context = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const saveTask = async (status: Task['status']): Promise<Task> => {
+  const task = new Task(crypto.randomUUID(), 'Write the report', '', false, new Date(), new Date(), member.id, '2099-03-01', '2099-03-05');
+  task.updateStatus(status);
+  return routes.repositories.getServerTaskRepository().create(task);
+};
+
+const storedStatus = async (id: string) => (await routes.repositories.getServerTaskRepository().findById(id))?.status;
+
+describe('task update routes', () => {
+  beforeAll(async () => {
+    routes = {
+      task: await import('../[id]/route'),
+      revert: await import('../[id]/revert/route'),
+      replace: await import('../[id]/replace/route'),
+      restore: await import('../restore/route'),
+      repositories: await import('@/infrastructure/repositories/serverRepositories')
+    };
+    member = await routes.repositories.getServerMemberRepository()
+      .create(Member.create({ name: 'Ann Lee', email: 'ann@example.com' }));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('PUT /api/tasks/:id', () => {
+    it('enforces the workflow even when asked to revert', async () => {
+      const task = await saveTask('todo');
+      const response = await routes.task.PUT(
+        jsonRequest(`/tasks/${task.id}?revert=true`, 'PUT', { status: 'in_review' }),
+        context(task.id)
+      );
+
+      expect(response.status).toBe(409);
+      expect(await storedStatus(task.id)).toBe('todo');
+    });
+  });
+
+  describe('POST /api/tasks/:id/revert', () => {
+    it('moves the status back along a workflow transition', async () => {
+      const task = await saveTask('done');
+      const response = await routes.revert.POST(
+        jsonRequest(`/tasks/${task.id}/revert`, 'POST', { status: 'in_progress' }),
+        context(task.id)
+      );
+
+      expect(response.status).toBe(200);
+      expect(await storedStatus(task.id)).toBe('in_progress');
+    });
+
+    it('rejects a status the workflow could not have come from', async () => {
+      const task = await saveTask('done');
+      const response = await routes.revert.POST(
+        jsonRequest(`/tasks/${task.id}/revert`, 'POST', { status: 'cancelled' }),
+        context(task.id)
+      );
+
+      expect(response.status).toBe(409);
+      expect((await response.json()).code).toBe('INVALID_STATUS_TRANSITION');
+      expect(await storedStatus(task.id)).toBe('done');
+    });
+  });
+
+  describe('POST /api/tasks/:id/replace', () => {
+    const copyOf = (task: Task, changes: Partial<ITask>) => ({ ...task.toJSON(), ...changes });
+
+    it('writes back the copy, timestamps included, for a status the workflow can reach', async () => {
+      const task = await saveTask('todo');
+      const copy = copyOf(task, {
+        status: 'in_review',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-02T00:00:00.000Z'
+      });
+      const response = await routes.replace.POST(jsonRequest(`/tasks/${task.id}/replace`, 'POST', copy), context(task.id));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        status: 'in_review',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-02T00:00:00.000Z'
+      });
+    });
+
+    it('validates the copy like an update', async () => {
+      const task = await saveTask('todo');
+      const response = await routes.replace.POST(
+        jsonRequest(`/tasks/${task.id}/replace`, 'POST', copyOf(task, { title: 'x' })),
+        context(task.id)
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).code).toBe('VALIDATION_ERROR');
+    });
+
+    it('rejects a Person in Charge outside the member directory', async () => {
+      const task = await saveTask('todo');
+      const response = await routes.replace.POST(
+        jsonRequest(`/tasks/${task.id}/replace`, 'POST', copyOf(task, { pic: 'someone-else' })),
+        context(task.id)
+      );
+
+      expect(response.status).toBe(400);
+      expect((await routes.repositories.getServerTaskRepository().findById(task.id))?.pic).toBe(member.id);
+    });
+  });
+
+  describe('/api/tasks/restore', () => {
+    it('only puts back a task that is missing', async () => {
+      const task = await saveTask('in_progress');
+      const conflict = await routes.restore.POST(
+        jsonRequest('/tasks/restore', 'POST', { ...task.toJSON(), status: 'cancelled' })
+      );
+      expect(conflict.status).toBe(409);
+      expect(await storedStatus(task.id)).toBe('in_progress');
+
+      await routes.repositories.getServerTaskRepository().delete(task.id);
+      const restored = await routes.restore.POST(jsonRequest('/tasks/restore', 'POST', task.toJSON()));
+      expect(restored.status).toBe(201);
+      expect(await storedStatus(task.id)).toBe('in_progress');
+    });
+
+    it('no longer overwrites tasks through PUT', () => {
+      expect('PUT' in routes.restore).toBe(false);
+    });
+  });
+});
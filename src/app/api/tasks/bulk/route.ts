@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { bulkTaskOperationSchema, updateTaskSchema } from '@/core/application/dto/CreateTaskDTO';
+import { BulkTaskOperationResponse } from '@/core/domain/entities/Task';
+import { BulkTaskOperationUseCase } from '@/core/domain/usecases/BulkTaskOperationUseCase';
+import { getServerMemberRepository, getServerTaskRepository } from '@/infrastructure/repositories/serverRepositories';
+import { getTaskWorkflow } from '@/infrastructure/config/taskWorkflow';
+import { apiError, internalError, readJsonBody, validationError } from '@/infrastructure/http/apiResponse';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/tasks/bulk
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (body === null) {
+    return apiError(400, 'Request body must be valid JSON', 'INVALID_JSON');
+  }
+
+  const result = bulkTaskOperationSchema.safeParse(body);
+  if (!result.success) {
+    return validationError(result.error);
+  }
+
+  const { operation, data } = result.data;
+  if (operation === 'update_pic') {
+    if (typeof data?.pic !== 'string' || !data.pic.trim()) {
+      return apiError(400, 'data.pic is required for update_pic', 'VALIDATION_ERROR');
+    }
+
+    // Reassignment must satisfy the same PIC rules as a single-task update
+    const picResult = updateTaskSchema.safeParse({ id: 'bulk', pic: data.pic });
+    if (!picResult.success) {
+      return validationError(picResult.error);
+    }
+  }
+
+  try {
+    const outcome = await new BulkTaskOperationUseCase(
+      getServerTaskRepository(),
+      getServerMemberRepository(),
+      getTaskWorkflow()
+    ).execute(result.data);
+    const response: BulkTaskOperationResponse = {
+      ...outcome,
+      updated: outcome.updated.map(task => task.toJSON()),
+      created: outcome.created.map(task => task.toJSON())
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    return internalError(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { restoreTaskSchema } from '@/core/application/dto/CreateTaskDTO';
+import { Task } from '@/core/domain/entities/Task';
+import { RestoreTaskUseCase } from '@/core/domain/usecases/RestoreTaskUseCase';
+import { getServerTaskRepository } from '@/infrastructure/repositories/serverRepositories';
+import { apiError, internalError, readJsonBody, validationError } from '@/infrastructure/http/apiResponse';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/tasks/restore
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (body === null) {
+    return apiError(400, 'Request body must be valid JSON', 'INVALID_JSON');
+  }
+
+  const result = restoreTaskSchema.safeParse(body);
+  if (!result.success) {
+    return validationError(result.error);
+  }
+
+  try {
+    const repository = getServerTaskRepository();
+    if (await repository.findById(result.data.id)) {
+      return apiError(409, `Task with ID ${result.data.id} already exists`, 'CONFLICT');
+    }
+
+    const task = await new RestoreTaskUseCase(repository).execute(Task.fromJSON(result.data));
+    return NextResponse.json(task.toJSON(), { status: 201 });
+  } catch (error) {
+    return internalError(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { createTaskSchema } from '@/core/application/dto/CreateTaskDTO';
+import { parseTaskPaginationParams, parseTaskQueryParams } from '@/core/application/dto/TaskQueryDTO';
+import { TaskResponse } from '@/core/domain/entities/Task';
+import { CreateTaskUseCase } from '@/core/domain/usecases/CreateTaskUseCase';
+import { GetTaskPageUseCase } from '@/core/domain/usecases/GetTaskPageUseCase';
+import { getServerMemberRepository, getServerTaskRepository } from '@/infrastructure/repositories/serverRepositories';
+import { apiError, internalError, readJsonBody, validationError } from '@/infrastructure/http/apiResponse';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/tasks?completed=&status=&pic=&q=&sortBy=&sortOrder=&page=&limit=
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const { filters, sortOptions } = parseTaskQueryParams(params);
+  const pagination = parseTaskPaginationParams(params);
+
+  try {
+    const page = await new GetTaskPageUseCase(getServerTaskRepository(), getServerMemberRepository()).execute(filters, sortOptions, pagination);
+    const response: TaskResponse = {
+      data: page.tasks.map(task => task.toJSON()),
+      pagination: page.pagination
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    return internalError(error);
+  }
+}
+
+// POST /api/tasks
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (body === null) {
+    return apiError(400, 'Request body must be valid JSON', 'INVALID_JSON');
+  }
+
+  const result = createTaskSchema.safeParse(body);
+  if (!result.success) {
+    return validationError(result.error);
+  }
+
+  try {
+    const task = await new CreateTaskUseCase(getServerTaskRepository(), getServerMemberRepository()).execute(result.data);
+    return NextResponse.json(task.toJSON(), { status: 201 });
+  } catch (error) {
+    return internalError(error);
+  }
+}
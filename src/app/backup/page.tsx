@@ -0,0 +1,16 @@
+'use client';
+
+import { BackupPanel } from '@/presentation/components/features/backup/BackupPanel';
+import { Header } from '@/presentation/components/layout/Header';
+import { Container } from '@/presentation/components/common/Container';
+
+export default function BackupPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <Container className="py-8">
+        <BackupPanel />
+      </Container>
+    </div>
+  );
+}
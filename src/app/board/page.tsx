@@ -0,0 +1,16 @@
+'use client';
+
+import { TaskBoard } from '@/presentation/components/features/tasks/TaskBoard';
+import { Header } from '@/presentation/components/layout/Header';
+import { Container } from '@/presentation/components/common/Container';
+
+export default function BoardPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <Container className="py-8">
+        <TaskBoard />
+      </Container>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { TaskCalendar } from '@/presentation/components/features/tasks/TaskCalendar';
+import { Header } from '@/presentation/components/layout/Header';
+import { Container } from '@/presentation/components/common/Container';
+
+export default function CalendarPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <Container className="py-8">
+        <TaskCalendar />
+      </Container>
+    </div>
+  );
+}
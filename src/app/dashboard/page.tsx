@@ -0,0 +1,16 @@
+'use client';
+
+import { StatsDashboard } from '@/presentation/components/features/dashboard/StatsDashboard';
+import { Header } from '@/presentation/components/layout/Header';
+import { Container } from '@/presentation/components/common/Container';
+
+export default function DashboardPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <Container className="py-8">
+        <StatsDashboard />
+      </Container>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { MemberForm } from '@/presentation/components/features/members/MemberForm';
+import { MemberList } from '@/presentation/components/features/members/MemberList';
+import { Header } from '@/presentation/components/layout/Header';
+import { Container } from '@/presentation/components/common/Container';
+import { Card } from '@/presentation/components/common/Card';
+import { useMembers } from '@/presentation/hooks/useMembers';
+
+export default function MembersPage() {
+  const { createMember } = useMembers();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <Container className="py-8">
+        <Card className="mb-6">
+          <Card.Header>
+            <h2 className="text-xl font-semibold">Add Member</h2>
+          </Card.Header>
+          <Card.Body>
+            <MemberForm
+              submitLabel="Add Member"
+              onSubmit={async (data) => {
+                await createMember(data);
+              }}
+              resetOnSubmit
+              idPrefix="create-member"
+            />
+          </Card.Body>
+        </Card>
+        <MemberList />
+      </Container>
+    </div>
+  );
+}
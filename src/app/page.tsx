@@ -1,9 +1,43 @@
 'use client';
 
+import { Suspense } from 'react';
 import { TaskForm } from '@/presentation/components/features/tasks/TaskForm';
 import { TaskList } from '@/presentation/components/features/tasks/TaskList';
+import { TaskToolbar } from '@/presentation/components/features/tasks/TaskToolbar';
 import { Header } from '@/presentation/components/layout/Header';
 import { Container } from '@/presentation/components/common/Container';
+import { LoadingState } from '@/presentation/components/common/LoadingState';
+import { useTaskQueryState } from '@/presentation/hooks/useTaskQueryState';
+import { useTasks } from '@/presentation/hooks/useTasks';
+import { useMembers } from '@/presentation/hooks/useMembers';
+
+const TASK_PAGE_SIZE = 20;
+
+function TaskWorkspace() {
+  const { filters, sortOptions, setFilters, setSortOptions, resetFilters } = useTaskQueryState();
+  const { tags } = useTasks();
+  const { members } = useMembers();
+
+  return (
+    <>
+      <TaskToolbar
+        filters={filters}
+        sortOptions={sortOptions}
+        onFiltersChange={setFilters}
+        onSortChange={setSortOptions}
+        onReset={resetFilters}
+        availableTags={tags}
+        availableMembers={members}
+      />
+      <TaskList
+        filters={filters}
+        sortBy={sortOptions.sortBy}
+        sortOrder={sortOptions.sortOrder}
+        pageSize={TASK_PAGE_SIZE}
+      />
+    </>
+  );
+}
 
 export default function HomePage() {
   return (
@@ -11,7 +45,10 @@ export default function HomePage() {
       <Header />
       <Container className="py-8">
         <TaskForm />
-        <TaskList />
+        {/* useSearchParams requires a Suspense boundary */}
+        <Suspense fallback={<LoadingState message="Loading tasks..." />}>
+          <TaskWorkspace />
+        </Suspense>
       </Container>
     </div>
   );
@@ -1,11 +1,16 @@
 'use client';
 
 import { TaskProvider } from '@/presentation/providers/TaskProvider';
+import { MemberProvider } from '@/presentation/providers/MemberProvider';
+import { UndoToast } from '@/presentation/components/features/tasks/UndoToast';
 
 export function Providers({ children }: { children: React.ReactNode }) {
   return (
-    <TaskProvider>
-      {children}
-    </TaskProvider>
+    <MemberProvider>
+      <TaskProvider>
+        {children}
+        <UndoToast />
+      </TaskProvider>
+    </MemberProvider>
   );
 }
@@ -0,0 +1,16 @@
+'use client';
+
+import { TaskTimeline } from '@/presentation/components/features/tasks/TaskTimeline';
+import { Header } from '@/presentation/components/layout/Header';
+import { Container } from '@/presentation/components/common/Container';
+
+export default function TimelinePage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <Container className="py-8">
+        <TaskTimeline />
+      </Container>
+    </div>
+  );
+}
@@ -1,7 +1,95 @@
 import { z } from 'zod';
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_TASK, normalizeTaskTags } from '@/core/domain/entities/Tag';
+import {
+  MAX_CHECKLIST_ITEMS,
+  MAX_TASK_DEPENDENCIES,
+  RECURRENCE_FREQUENCIES,
+  RecurrenceFrequency,
+  normalizeRecurrence,
+  TASK_WORKFLOW_STATUSES,
+  TaskWorkflowStatus
+} from '@/core/domain/entities/Task';
 
-// PIC options validation
-const validPicOptions = ['Head', 'Manager', 'Supervisor', 'Staff', 'Intern'] as const;
+// PIC validation: the ID of a member in the directory (checked against it by the use cases)
+const picSchema = z
+  .string({ required_error: 'Please select a Person in Charge' })
+  .trim()
+  .min(1, 'Please select a Person in Charge');
+
+// Priority validation
+const validPriorityOptions = ['low', 'medium', 'high', 'critical'] as const;
+
+const prioritySchema = z.enum(validPriorityOptions, {
+  errorMap: () => ({ message: 'Please select a valid priority' })
+});
+
+// Tag validation (commas are reserved as the query string separator)
+const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Tag name is required')
+  .max(MAX_TAG_LENGTH, `Tags must be less than ${MAX_TAG_LENGTH} characters`)
+  .regex(/^[^,]+$/, 'Tags cannot contain commas');
+
+const tagsSchema = z
+  .array(tagNameSchema)
+  .max(MAX_TAGS_PER_TASK, `A task can have at most ${MAX_TAGS_PER_TASK} tags`)
+  .transform(normalizeTaskTags);
+
+// Checklist validation
+const checklistItemSchema = z.object({
+  id: z.string().min(1, 'Checklist item ID is required'),
+  title: z
+    .string()
+    .trim()
+    .min(1, 'Checklist items need a title')
+    .max(200, 'Checklist items must be less than 200 characters'),
+  completed: z.boolean().default(false)
+});
+
+const checklistSchema = z
+  .array(checklistItemSchema)
+  .max(MAX_CHECKLIST_ITEMS, `A task can have at most ${MAX_CHECKLIST_ITEMS} checklist items`)
+  .refine(items => new Set(items.map(item => item.id)).size === items.length, {
+    message: 'Checklist item IDs must be unique'
+  });
+
+// Dependency validation (IDs of blocking tasks)
+const blockedBySchema = z
+  .array(z.string().min(1, 'Blocking task ID is required'))
+  .max(MAX_TASK_DEPENDENCIES, `A task can be blocked by at most ${MAX_TASK_DEPENDENCIES} tasks`)
+  .transform(ids => Array.from(new Set(ids)));
+
+// Workflow status validation (transitions are checked by UpdateTaskUseCase)
+const workflowStatusSchema = z.enum(TASK_WORKFLOW_STATUSES as [TaskWorkflowStatus, ...TaskWorkflowStatus[]], {
+  errorMap: () => ({ message: 'Please select a valid status' })
+});
+
+// Recurrence validation
+const recurrenceSchema = z
+  .object({
+    frequency: z.enum(RECURRENCE_FREQUENCIES as [RecurrenceFrequency, ...RecurrenceFrequency[]], {
+      errorMap: () => ({ message: 'Please select a valid repeat frequency' })
+    }),
+    interval: z
+      .number()
+      .int('Repeat interval must be a whole number of days')
+      .min(1, 'Repeat interval must be at least 1 day')
+      .max(365, 'Repeat interval must be at most 365 days')
+      .optional(),
+    weekdays: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+    dayOfMonth: z.number().int().min(1, 'Day of month must be 1-31').max(31, 'Day of month must be 1-31').optional(),
+    until: z
+      .string()
+      .refine(date => !isNaN(new Date(date).getTime()), { message: 'Invalid repeat end date' })
+      .optional()
+      .or(z.literal('').transform(() => undefined))
+  })
+  .refine(rule => rule.frequency !== 'interval' || rule.interval !== undefined, {
+    message: 'Enter how many days between occurrences',
+    path: ['interval']
+  })
+  .transform(rule => normalizeRecurrence(rule));
 
 // Date validation helper
 const dateStringSchema = z.string().refine((date) => {
@@ -41,14 +129,32 @@ export const createTaskSchema = z.object({
     .optional()
     .or(z.literal('')),
     
-  pic: z
-    .enum(validPicOptions, {
-      errorMap: () => ({ message: 'Please select a valid Person in Charge' })
-    }),
+  pic: picSchema,
     
   startDate: futureDateSchema,
   
-  endDate: dateStringSchema
+  endDate: dateStringSchema,
+
+  priority: prioritySchema.default('medium'),
+
+  tags: tagsSchema.default([]),
+
+  checklist: checklistSchema.default([]),
+
+  blockedBy: blockedBySchema.default([]),
+
+  recurrence: recurrenceSchema.nullable().default(null),
+
+  status: workflowStatusSchema.optional()
+}).refine((data) => {
+  // The series must not end before it starts
+  if (data.recurrence?.until && data.startDate) {
+    return new Date(data.recurrence.until) >= new Date(data.startDate);
+  }
+  return true;
+}, {
+  message: 'Repeat end date must be on or after the start date',
+  path: ['recurrence']
 }).refine((data) => {
   // Validate that end date is after start date
   const startDate = new Date(data.startDate);
@@ -77,11 +183,7 @@ export const updateTaskSchema = z.object({
     .transform(val => val.trim())
     .optional(),
     
-  pic: z
-    .enum(validPicOptions, {
-      errorMap: () => ({ message: 'Please select a valid Person in Charge' })
-    })
-    .optional(),
+  pic: picSchema.optional(),
     
   startDate: z
     .string()
@@ -104,6 +206,18 @@ export const updateTaskSchema = z.object({
       message: 'Invalid end date format'
     })
     .optional(),
+
+  priority: prioritySchema.optional(),
+
+  tags: tagsSchema.optional(),
+
+  checklist: checklistSchema.optional(),
+
+  blockedBy: blockedBySchema.optional(),
+
+  recurrence: recurrenceSchema.nullable().optional(),
+
+  status: workflowStatusSchema.optional(),
     
   completed: z.boolean().optional()
 }).refine((data) => {
@@ -119,22 +233,71 @@ export const updateTaskSchema = z.object({
   path: ['endDate']
 });
 
+// Replace Task DTO Schema (a task's copy from a workspace backup, checked like an update)
+export const replaceTaskSchema = updateTaskSchema.and(z.object({
+  createdAt: dateStringSchema,
+  updatedAt: dateStringSchema,
+  completedAt: dateStringSchema.nullable().optional()
+}));
+
+// Restore Task DTO Schema (a previously deleted task, so past dates are allowed)
+export const restoreTaskSchema = z.object({
+  id: z.string().min(1, 'Task ID is required'),
+  title: z
+    .string()
+    .min(1, 'Title is required')
+    .max(100, 'Title must be less than 100 characters'),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+  pic: z.string().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  priority: prioritySchema.optional(),
+  tags: tagsSchema.optional(),
+  checklist: checklistSchema.optional(),
+  blockedBy: blockedBySchema.optional(),
+  recurrence: recurrenceSchema.nullable().optional(),
+  status: workflowStatusSchema.optional(),
+  completed: z.boolean(),
+  createdAt: dateStringSchema,
+  updatedAt: dateStringSchema,
+  completedAt: dateStringSchema.nullable().optional()
+});
+
 // Task Filter Schema
 export const taskFilterSchema = z.object({
   completed: z.boolean().optional(),
-  pic: z.enum(validPicOptions).optional(),
+  status: z.array(workflowStatusSchema).min(1).optional(),
+  pic: z.string().min(1).optional(),
   searchQuery: z.string().max(100).optional(),
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
-  isOverdue: z.boolean().optional()
+  startDate: dateStringSchema.optional(),
+  endDate: dateStringSchema.optional(),
+  isOverdue: z.boolean().optional(),
+  tags: z.array(tagNameSchema).min(1).optional(),
+  tagMatch: z.enum(['any', 'all']).optional(),
+  blockedBy: z.array(z.string().min(1)).min(1).optional()
 });
 
 // Task Sort Schema
 export const taskSortSchema = z.object({
-  sortBy: z.enum(['created_at', 'title', 'status', 'due_date', 'pic']).default('created_at'),
+  sortBy: z.enum(['created_at', 'title', 'status', 'due_date', 'pic', 'priority']).default('created_at'),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
 });
 
+// Most tasks a single page request may ask for
+export const MAX_TASK_PAGE_LIMIT = 500;
+
+// Task Pagination Schema
+export const taskPaginationSchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce.number().int().min(1, 'Limit must be at least 1').max(MAX_TASK_PAGE_LIMIT, `Limit must be at most ${MAX_TASK_PAGE_LIMIT}`).default(20)
+});
+
+// Tag registry entry schema
+export const tagSchema = z.object({
+  name: tagNameSchema,
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #2563eb')
+});
+
 // Task ID Schema
 export const taskIdSchema = z.object({
   id: z.string().min(1, 'Task ID is required')
@@ -150,8 +313,11 @@ export const bulkTaskOperationSchema = z.object({
 // Export types inferred from schemas
 export type CreateTaskDTO = z.infer<typeof createTaskSchema>;
 export type UpdateTaskDTO = z.infer<typeof updateTaskSchema>;
+export type RestoreTaskDTO = z.infer<typeof restoreTaskSchema>;
 export type TaskFilterDTO = z.infer<typeof taskFilterSchema>;
 export type TaskSortDTO = z.infer<typeof taskSortSchema>;
+export type TaskPaginationDTO = z.infer<typeof taskPaginationSchema>;
+export type TagDTO = z.infer<typeof tagSchema>;
 export type TaskIdDTO = z.infer<typeof taskIdSchema>;
 export type BulkTaskOperationDTO = z.infer<typeof bulkTaskOperationSchema>;
 
@@ -189,6 +355,20 @@ export const getValidationErrorMessage = (error: z.ZodError): string => {
   return firstError.message;
 };
 
+// Field-level error helper (first message per top-level field)
+export const getValidationFieldErrors = (error: z.ZodError): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+
+  error.errors.forEach((issue) => {
+    const field = issue.path.length > 0 ? String(issue.path[0]) : 'general';
+    if (!fieldErrors[field]) {
+      fieldErrors[field] = issue.message;
+    }
+  });
+
+  return fieldErrors;
+};
+
 // Schema validation middleware helper
 export const createValidationMiddleware = <T>(schema: z.ZodSchema<T>) => {
   return (data: unknown): { success: true; data: T } | { success: false; error: string } => {
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { MEMBER_ROLES, MemberRole } from '@/core/domain/entities/Member';
+
+const memberNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(100, 'Name must be less than 100 characters');
+
+const memberEmailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email('Please enter a valid email address');
+
+const memberRoleSchema = z.enum(MEMBER_ROLES as [MemberRole, ...MemberRole[]], {
+  errorMap: () => ({ message: 'Please select a valid role' })
+});
+
+const memberColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #2563eb');
+
+// Create Member DTO Schema
+export const createMemberSchema = z.object({
+  name: memberNameSchema,
+  email: memberEmailSchema,
+  role: memberRoleSchema.default('Staff'),
+  color: memberColorSchema.optional()
+});
+
+// Update Member DTO Schema
+export const updateMemberSchema = z.object({
+  name: memberNameSchema.optional(),
+  email: memberEmailSchema.optional(),
+  role: memberRoleSchema.optional(),
+  color: memberColorSchema.optional()
+});
+
+export type CreateMemberDTO = z.infer<typeof createMemberSchema>;
+export type UpdateMemberDTO = z.infer<typeof updateMemberSchema>;
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { SortOrder, TaskFilters, TaskGroupBy, TaskSortBy } from '@/core/domain/entities/Task';
+
+export type ReportScope = 'filtered' | 'all';
+export type ReportFormat = 'pdf' | 'markdown' | 'text';
+export type ReportLayout = 'detailed' | 'table';
+export type ReportOrientation = 'portrait' | 'landscape';
+export type ReportField =
+  | 'status'
+  | 'description'
+  | 'pic'
+  | 'priority'
+  | 'tags'
+  | 'checklist'
+  | 'dates'
+  | 'dependencies'
+  | 'recurrence'
+  | 'created';
+
+export const REPORT_FIELD_OPTIONS: { value: ReportField; label: string }[] = [
+  { value: 'status', label: 'Status' },
+  { value: 'description', label: 'Description' },
+  { value: 'pic', label: 'Person in Charge' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'checklist', label: 'Checklist progress' },
+  { value: 'dates', label: 'Start and due dates' },
+  { value: 'dependencies', label: 'Blocked by' },
+  { value: 'recurrence', label: 'Repeat rule' },
+  { value: 'created', label: 'Created date' }
+];
+
+// Markdown and plain text are for pasting into chat and wikis
+export const REPORT_FORMAT_OPTIONS: { value: ReportFormat; label: string }[] = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'text', label: 'Plain text' }
+];
+
+export interface ReportOptions {
+  format: ReportFormat;
+  scope: ReportScope;
+  dateFrom?: string; // Due date range start (inclusive)
+  dateTo?: string; // Due date range end (inclusive)
+  groupBy: TaskGroupBy;
+  fields: ReportField[];
+  sortBy: TaskSortBy;
+  sortOrder: SortOrder;
+  orientation: ReportOrientation; // PDF only
+  layout: ReportLayout;
+  includeSummary: boolean;
+  includeTimeline: boolean; // PDF only
+}
+
+// Matches the report produced before options existed
+export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
+  format: 'pdf',
+  scope: 'all',
+  groupBy: 'none',
+  fields: ['status', 'description', 'pic', 'priority', 'tags', 'checklist', 'dates', 'created'],
+  sortBy: 'status',
+  sortOrder: 'asc',
+  orientation: 'portrait',
+  layout: 'detailed',
+  includeSummary: true,
+  includeTimeline: true
+};
+
+const optionalDateSchema = z
+  .string()
+  .optional()
+  .transform(date => date || undefined)
+  .refine(date => !date || !isNaN(new Date(date).getTime()), { message: 'Invalid date' });
+
+// Report Options Schema
+export const reportOptionsSchema = z.object({
+  format: z.enum(['pdf', 'markdown', 'text']),
+  scope: z.enum(['filtered', 'all']),
+  dateFrom: optionalDateSchema,
+  dateTo: optionalDateSchema,
+  groupBy: z.enum(['none', 'pic', 'status', 'week']),
+  fields: z
+    .array(z.enum(REPORT_FIELD_OPTIONS.map(option => option.value) as [ReportField, ...ReportField[]]))
+    .min(1, 'Pick at least one field to include'),
+  sortBy: z.enum(['created_at', 'title', 'status', 'due_date', 'pic', 'priority']),
+  sortOrder: z.enum(['asc', 'desc']),
+  orientation: z.enum(['portrait', 'landscape']),
+  layout: z.enum(['detailed', 'table']),
+  includeSummary: z.boolean(),
+  includeTimeline: z.boolean()
+}).refine(data => !data.dateFrom || !data.dateTo || data.dateFrom <= data.dateTo, {
+  message: 'End of the date range must be on or after its start',
+  path: ['dateTo']
+});
+
+/**
+ * Filters selecting the report's tasks: the current view's filters when scoped to it,
+ * narrowed to the report's due date range
+ */
+export const getReportFilters = (options: ReportOptions, currentFilters: TaskFilters = {}): TaskFilters => {
+  const filters: TaskFilters = options.scope === 'filtered' ? { ...currentFilters } : {};
+
+  if (options.dateFrom && (!filters.startDate || options.dateFrom > filters.startDate)) {
+    filters.startDate = options.dateFrom;
+  }
+  if (options.dateTo && (!filters.endDate || options.dateTo < filters.endDate)) {
+    filters.endDate = options.dateTo;
+  }
+
+  return filters;
+};
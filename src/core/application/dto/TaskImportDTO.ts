@@ -0,0 +1,55 @@
+import { Task } from '@/core/domain/entities/Task';
+import { CreateTaskDTO } from './CreateTaskDTO';
+
+// Task fields a CSV column can be mapped to; `id` only links "blocked by" references between rows
+export type TaskImportField =
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'pic'
+  | 'startDate'
+  | 'endDate'
+  | 'priority'
+  | 'tags'
+  | 'checklist'
+  | 'blockedBy'
+  | 'recurrence'
+  | 'status'
+  | 'completed';
+
+export const TASK_IMPORT_FIELD_OPTIONS: { value: TaskImportField; label: string }[] = [
+  { value: 'id', label: 'Task ID' },
+  { value: 'title', label: 'Title' },
+  { value: 'description', label: 'Description' },
+  { value: 'pic', label: 'Person in Charge' },
+  { value: 'startDate', label: 'Start Date' },
+  { value: 'endDate', label: 'Due Date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'checklist', label: 'Checklist' },
+  { value: 'blockedBy', label: 'Blocked By' },
+  { value: 'recurrence', label: 'Repeat' },
+  { value: 'status', label: 'Status' },
+  { value: 'completed', label: 'Completed' }
+];
+
+// Target field for each CSV column, by column index; null skips the column
+export type TaskImportMapping = (TaskImportField | null)[];
+
+export interface ParsedTaskCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface TaskImportRow {
+  rowNumber: number; // Line in the file, counting the header as line 1
+  sourceId?: string; // Task ID from the file, referenced by other rows' blockers
+  title: string;
+  data: CreateTaskDTO | null; // Validated task, or null when the row has errors
+  errors: string[];
+}
+
+export interface TaskImportResult {
+  created: Task[];
+  failed: Array<{ rowNumber: number; error: string }>;
+}
@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import { TaskFilters, TaskSortOptions, TaskPaginationOptions } from '@/core/domain/entities/Task';
+import { taskFilterSchema, taskSortSchema, taskPaginationSchema } from './CreateTaskDTO';
+
+// Query string keys for each filter field
+const FILTER_PARAM_KEYS: Record<keyof TaskFilters, string> = {
+  searchQuery: 'q',
+  completed: 'completed',
+  status: 'status',
+  isOverdue: 'isOverdue',
+  pic: 'pic',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  tags: 'tags',
+  tagMatch: 'tagMatch',
+  blockedBy: 'blockedBy'
+};
+
+const BOOLEAN_FILTERS: Array<keyof TaskFilters> = ['completed', 'isOverdue'];
+
+// List filters are sent as comma-separated values, e.g. ?tags=bug,frontend
+const LIST_FILTERS: Array<keyof TaskFilters> = ['status', 'tags', 'blockedBy'];
+
+// Convert "true"/"false" query values, leaving anything else for the schema to reject
+const parseBooleanParam = (value: string): boolean | string => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+};
+
+export interface TaskQueryState {
+  filters: TaskFilters;
+  sortOptions: TaskSortOptions;
+}
+
+/**
+ * Parse filters and sort options from a query string.
+ * Each parameter is validated on its own so one invalid value is dropped
+ * without discarding the rest of the query.
+ */
+export const parseTaskQueryParams = (params: URLSearchParams): TaskQueryState => {
+  const filters: TaskFilters = {};
+
+  (Object.keys(FILTER_PARAM_KEYS) as Array<keyof TaskFilters>).forEach((field) => {
+    const rawValue = params.get(FILTER_PARAM_KEYS[field]);
+    if (rawValue === null || rawValue === '') return;
+
+    const value = BOOLEAN_FILTERS.includes(field)
+      ? parseBooleanParam(rawValue)
+      : LIST_FILTERS.includes(field)
+        ? rawValue.split(',').filter(Boolean)
+        : rawValue;
+    const fieldSchema = taskFilterSchema.shape[field] as z.ZodTypeAny;
+    const result = fieldSchema.safeParse(value);
+
+    if (result.success && result.data !== undefined) {
+      (filters as Record<string, unknown>)[field] = result.data;
+    }
+  });
+
+  const sortBy = taskSortSchema.shape.sortBy.safeParse(params.get('sortBy') ?? undefined);
+  const sortOrder = taskSortSchema.shape.sortOrder.safeParse(params.get('sortOrder') ?? undefined);
+
+  return {
+    filters,
+    sortOptions: {
+      sortBy: sortBy.success ? sortBy.data : 'created_at',
+      sortOrder: sortOrder.success ? sortOrder.data : 'desc'
+    }
+  };
+};
+
+/**
+ * Serialize filters and sort options to a query string, omitting defaults
+ */
+export const serializeTaskQueryParams = (
+  filters: TaskFilters,
+  sortOptions?: TaskSortOptions
+): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  (Object.keys(FILTER_PARAM_KEYS) as Array<keyof TaskFilters>).forEach((field) => {
+    const value = filters[field];
+    if (value === undefined || value === '') return;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(FILTER_PARAM_KEYS[field], value.join(','));
+      return;
+    }
+    params.set(FILTER_PARAM_KEYS[field], String(value));
+  });
+
+  if (sortOptions) {
+    const defaults = taskSortSchema.parse({});
+    if (sortOptions.sortBy !== defaults.sortBy) {
+      params.set('sortBy', sortOptions.sortBy);
+    }
+    if (sortOptions.sortOrder !== defaults.sortOrder) {
+      params.set('sortOrder', sortOptions.sortOrder);
+    }
+  }
+
+  return params;
+};
+
+/**
+ * Parse page/limit from a query string.
+ * Returns undefined when neither is present (i.e. no pagination requested).
+ */
+export const parseTaskPaginationParams = (params: URLSearchParams): TaskPaginationOptions | undefined => {
+  const page = params.get('page');
+  const limit = params.get('limit');
+  if (!page && !limit) return undefined;
+
+  const defaults = taskPaginationSchema.parse({});
+  const parsedPage = taskPaginationSchema.shape.page.safeParse(page || undefined);
+  const parsedLimit = taskPaginationSchema.shape.limit.safeParse(limit || undefined);
+
+  return {
+    page: parsedPage.success ? parsedPage.data : defaults.page,
+    limit: parsedLimit.success ? parsedLimit.data : defaults.limit
+  };
+};
+
+/**
+ * Serialize a full task list query (filters, sort and pagination)
+ */
+export const serializeTaskListQuery = (
+  filters: TaskFilters,
+  sortOptions?: TaskSortOptions,
+  pagination?: TaskPaginationOptions
+): URLSearchParams => {
+  const params = serializeTaskQueryParams(filters, sortOptions);
+
+  if (pagination) {
+    params.set('page', String(pagination.page));
+    params.set('limit', String(pagination.limit));
+  }
+
+  return params;
+};
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { WORKSPACE_BACKUP_APP } from '@/core/domain/entities/WorkspaceBackup';
+import { restoreTaskSchema, tagSchema } from './CreateTaskDTO';
+
+const dateStringSchema = z.string().refine(date => !isNaN(new Date(date).getTime()), {
+  message: 'Invalid date format'
+});
+
+// Members are restored as they were saved; roles and colors are normalized by the entity
+const backupMemberSchema = z.object({
+  id: z.string().min(1, 'Member ID is required'),
+  name: z.string().trim().min(1, 'Member name is required'),
+  email: z.string().trim().min(1, 'Member email is required'),
+  role: z.string().optional(),
+  color: z.string().optional(),
+  createdAt: dateStringSchema,
+  updatedAt: dateStringSchema
+});
+
+// Backup file header, checked before the checksum so unrelated files get a clear message
+export const workspaceBackupHeaderSchema = z.object({
+  app: z.literal(WORKSPACE_BACKUP_APP),
+  version: z.number().int().min(1),
+  exportedAt: dateStringSchema,
+  checksum: z.string().regex(/^[0-9a-f]{64}$/, 'Backup checksum is missing or malformed'),
+  data: z.object({}).passthrough()
+});
+
+// Backup contents, validated with the same rules as restoring a single task
+export const workspaceDataSchema = z.object({
+  tasks: z.array(restoreTaskSchema),
+  members: z.array(backupMemberSchema),
+  tags: z.array(tagSchema)
+});
+
+export type WorkspaceDataDTO = z.infer<typeof workspaceDataSchema>;
@@ -0,0 +1,143 @@
+import { TAG_COLORS } from './Tag';
+
+// Job roles a member can hold (formerly the fixed Person in Charge options)
+export type MemberRole = 'Head' | 'Manager' | 'Supervisor' | 'Staff' | 'Intern';
+
+export const MEMBER_ROLES: MemberRole[] = ['Head', 'Manager', 'Supervisor', 'Staff', 'Intern'];
+
+export const DEFAULT_MEMBER_ROLE: MemberRole = 'Staff';
+
+// Avatar colors share the tag palette
+export const MEMBER_COLORS: string[] = TAG_COLORS;
+
+// Member Entity Type Definition (for serialization/API)
+export interface IMember {
+  id: string;
+  name: string;
+  email: string;
+  role: MemberRole;
+  color: string; // Avatar hex color, e.g. #2563eb
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export const normalizeMemberRole = (value: unknown): MemberRole => {
+  return MEMBER_ROLES.includes(value as MemberRole) ? value as MemberRole : DEFAULT_MEMBER_ROLE;
+};
+
+/**
+ * Pick a stable avatar color for a member name
+ */
+export const getDefaultMemberColor = (name: string): string => {
+  const key = name.trim().toLowerCase();
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+  }
+  return MEMBER_COLORS[hash % MEMBER_COLORS.length];
+};
+
+/**
+ * Up to two initials for the avatar, e.g. "Ada Lovelace" -> "AL"
+ */
+export const getMemberInitials = (name: string): string => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  const initials = words.length === 1 ? words[0].slice(0, 2) : words[0][0] + words[words.length - 1][0];
+  return initials.toUpperCase();
+};
+
+/**
+ * Badge variant for a role, shared by task PIC badges and the member list
+ */
+export const getMemberRoleBadgeVariant = (
+  role: MemberRole | null | undefined
+): 'danger' | 'warning' | 'primary' | 'default' => {
+  switch (role) {
+    case 'Head': return 'danger';
+    case 'Manager': return 'warning';
+    case 'Supervisor':
+    case 'Staff': return 'primary';
+    default: return 'default';
+  }
+};
+
+export class Member {
+  constructor(
+    public id: string,
+    public name: string,
+    public email: string,
+    public role: MemberRole = DEFAULT_MEMBER_ROLE,
+    public color: string = getDefaultMemberColor(name),
+    public createdAt: Date = new Date(),
+    public updatedAt: Date = new Date()
+  ) {}
+
+  static create(data: { name: string; email: string; role?: MemberRole; color?: string }): Member {
+    const now = new Date();
+
+    return new Member(
+      crypto.randomUUID(),
+      data.name.trim(),
+      data.email.trim().toLowerCase(),
+      normalizeMemberRole(data.role),
+      data.color || getDefaultMemberColor(data.name),
+      now,
+      now
+    );
+  }
+
+  static fromJSON(data: IMember): Member {
+    return new Member(
+      data.id,
+      data.name,
+      data.email,
+      normalizeMemberRole(data.role),
+      data.color || getDefaultMemberColor(data.name),
+      new Date(data.createdAt),
+      new Date(data.updatedAt)
+    );
+  }
+
+  toJSON(): IMember {
+    return {
+      id: this.id,
+      name: this.name,
+      email: this.email,
+      role: this.role,
+      color: this.color,
+      createdAt: this.createdAt.toISOString(),
+      updatedAt: this.updatedAt.toISOString()
+    };
+  }
+}
+
+/**
+ * How a task's Person in Charge reads: the member it points at, or the raw value
+ * for tasks assigned before the directory existed (they stored a role name)
+ */
+export interface PicInfo {
+  id: string;
+  label: string;
+  role?: MemberRole;
+  member: Member | null;
+}
+
+export const resolvePic = (pic: string | null | undefined, members: Member[]): PicInfo | null => {
+  if (!pic) return null;
+
+  const member = members.find(m => m.id === pic) || null;
+  if (member) {
+    return { id: pic, label: member.name, role: member.role, member };
+  }
+
+  const legacyRole = MEMBER_ROLES.find(role => role === pic);
+  return { id: pic, label: pic, role: legacyRole, member: null };
+};
+
+/**
+ * Member ID -> display name, for sorting and searching tasks by person
+ */
+export const buildPicLabels = (members: Member[]): Map<string, string> => {
+  return new Map(members.map(member => [member.id, member.name]));
+};
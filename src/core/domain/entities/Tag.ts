@@ -0,0 +1,66 @@
+// Tag Entity Type Definition (registry entry shared by all tasks)
+export interface ITag {
+  name: string;
+  color: string; // Hex color, e.g. #2563eb
+}
+
+// Palette used when a tag is first registered
+export const TAG_COLORS: string[] = [
+  '#2563eb', // blue
+  '#16a34a', // green
+  '#dc2626', // red
+  '#d97706', // amber
+  '#7c3aed', // violet
+  '#db2777', // pink
+  '#0891b2', // cyan
+  '#4b5563'  // gray
+];
+
+export const MAX_TAG_LENGTH = 30;
+export const MAX_TAGS_PER_TASK = 10;
+
+/**
+ * Normalize a tag name for storage (trimmed, inner whitespace collapsed)
+ */
+export const normalizeTagName = (name: string): string => {
+  return name.trim().replace(/\s+/g, ' ');
+};
+
+/**
+ * Tag names are matched case-insensitively
+ */
+export const isSameTag = (a: string, b: string): boolean => {
+  return normalizeTagName(a).toLowerCase() === normalizeTagName(b).toLowerCase();
+};
+
+/**
+ * Clean a task's tag list: drop blanks and case-insensitive duplicates.
+ * Also used to migrate tasks stored before tags existed.
+ */
+export const normalizeTaskTags = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(normalizeTagName)
+    .filter((tag, index, tags) => tag && tags.findIndex(other => isSameTag(other, tag)) === index);
+};
+
+/**
+ * Pick a stable palette color for a tag name
+ */
+export const getDefaultTagColor = (name: string): string => {
+  const key = normalizeTagName(name).toLowerCase();
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+  }
+  return TAG_COLORS[hash % TAG_COLORS.length];
+};
+
+/**
+ * Look up a tag's color in the registry, falling back to its default color
+ */
+export const getTagColor = (name: string, registry: ITag[]): string => {
+  return registry.find(tag => isSameTag(tag.name, name))?.color || getDefaultTagColor(name);
+};
@@ -1,3 +1,140 @@
+import { normalizeTaskTags } from './Tag';
+
+// Task priority levels, lowest to highest
+export type TaskPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+
+export const DEFAULT_TASK_PRIORITY: TaskPriority = 'medium';
+
+// Fall back to the default for tasks stored before priority existed
+export const normalizeTaskPriority = (value: unknown): TaskPriority => {
+  return TASK_PRIORITIES.includes(value as TaskPriority) ? value as TaskPriority : DEFAULT_TASK_PRIORITY;
+};
+
+// Checklist item (subtask) kept in display order on its parent task
+export interface ChecklistItem {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+export const MAX_CHECKLIST_ITEMS = 50;
+
+// Drop malformed items, e.g. from tasks stored before checklists existed
+export const normalizeChecklist = (value: unknown): ChecklistItem[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(item => item && typeof item.id === 'string' && typeof item.title === 'string')
+    .map(item => ({ id: item.id, title: item.title, completed: item.completed === true }));
+};
+
+export const MAX_TASK_DEPENDENCIES = 20;
+
+// Clean a list of task IDs: strings only, no duplicates
+export const normalizeTaskIds = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((id, index, ids): id is string =>
+    typeof id === 'string' && id.length > 0 && ids.indexOf(id) === index
+  );
+};
+
+// Recurrence: repeat daily, weekly on given weekdays, monthly by date, or every N days
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'interval';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'interval'];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number; // Days between occurrences ('interval' only)
+  weekdays?: number[]; // 0 (Sunday) to 6 (Saturday) ('weekly' only)
+  dayOfMonth?: number; // 1 to 31, clamped to the month's length ('monthly' only)
+  until?: string; // Last date (YYYY-MM-DD) an occurrence may start on
+}
+
+// Drop malformed rules and the fields that do not apply to the frequency
+export const normalizeRecurrence = (value: unknown): RecurrenceRule | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const data = value as Record<string, unknown>;
+  const frequency = data.frequency as RecurrenceFrequency;
+  if (!RECURRENCE_FREQUENCIES.includes(frequency)) return null;
+
+  const rule: RecurrenceRule = { frequency };
+
+  if (frequency === 'interval') {
+    const interval = Number(data.interval);
+    if (!Number.isInteger(interval) || interval < 1) return null;
+    rule.interval = interval;
+  }
+
+  if (frequency === 'weekly' && Array.isArray(data.weekdays)) {
+    rule.weekdays = Array.from(new Set(
+      data.weekdays.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6)
+    )).sort((a, b) => a - b);
+  }
+
+  if (frequency === 'monthly' && Number.isInteger(data.dayOfMonth)) {
+    rule.dayOfMonth = Math.min(31, Math.max(1, data.dayOfMonth as number));
+  }
+
+  if (typeof data.until === 'string' && data.until) {
+    rule.until = data.until;
+  }
+
+  return rule;
+};
+
+// Workflow status; `completed` is kept in sync (true only when 'done')
+export type TaskWorkflowStatus = 'todo' | 'in_progress' | 'in_review' | 'done' | 'cancelled';
+
+export const TASK_WORKFLOW_STATUSES: TaskWorkflowStatus[] = ['todo', 'in_progress', 'in_review', 'done', 'cancelled'];
+
+// Statuses of tasks that still need work; done and cancelled tasks are closed
+export const OPEN_TASK_WORKFLOW_STATUSES: TaskWorkflowStatus[] = ['todo', 'in_progress', 'in_review'];
+
+// Statuses a task can move to from each status
+export type TaskWorkflowTransitions = Record<TaskWorkflowStatus, TaskWorkflowStatus[]>;
+
+export interface TaskWorkflow {
+  transitions: TaskWorkflowTransitions;
+}
+
+export const DEFAULT_TASK_WORKFLOW: TaskWorkflow = {
+  transitions: {
+    todo: ['in_progress', 'done', 'cancelled'],
+    in_progress: ['todo', 'in_review', 'done', 'cancelled'],
+    in_review: ['in_progress', 'done', 'cancelled'],
+    done: ['todo', 'in_progress'],
+    cancelled: ['todo']
+  }
+};
+
+// Tasks stored before statuses existed only know whether they were completed
+export const normalizeTaskWorkflowStatus = (value: unknown, completed?: boolean): TaskWorkflowStatus => {
+  if (TASK_WORKFLOW_STATUSES.includes(value as TaskWorkflowStatus)) return value as TaskWorkflowStatus;
+  return completed ? 'done' : 'todo';
+};
+
+// Build a workflow from configuration, keeping the default for statuses it leaves out
+export const normalizeTaskWorkflow = (value: unknown): TaskWorkflow => {
+  const data = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const source = data.transitions && typeof data.transitions === 'object'
+    ? data.transitions as Record<string, unknown>
+    : {};
+
+  const transitions = { ...DEFAULT_TASK_WORKFLOW.transitions };
+  TASK_WORKFLOW_STATUSES.forEach(status => {
+    const targets = source[status];
+    if (Array.isArray(targets)) {
+      transitions[status] = TASK_WORKFLOW_STATUSES.filter(target => target !== status && targets.includes(target));
+    }
+  });
+
+  return { transitions };
+};
+
 // Task Entity Type Definition (for serialization/API)
 export interface ITask {
   id: string;
@@ -6,9 +143,16 @@ export interface ITask {
   pic?: string; // Person in Charge
   startDate?: string; // ISO date string
   endDate?: string; // ISO date string
-  completed: boolean;
+  priority?: TaskPriority; // Missing on tasks saved before priorities were added
+  tags?: string[]; // Tag names, see the tag registry for colors
+  checklist?: ChecklistItem[];
+  blockedBy?: string[]; // IDs of tasks that must be completed first
+  recurrence?: RecurrenceRule | null;
+  status?: TaskWorkflowStatus; // Missing on tasks saved before the workflow existed
+  completed: boolean; // Derived from status, kept for older clients
   createdAt: string; // ISO date string
   updatedAt: string; // ISO date string
+  completedAt?: string | null; // ISO date string; missing on tasks completed before it was tracked
 }
 
 // Task Class - TIDAK implement ITask secara langsung
@@ -22,8 +166,20 @@ export class Task {
     public updatedAt: Date = new Date(),
     public pic?: string,
     public startDate?: string,
-    public endDate?: string
-  ) {}
+    public endDate?: string,
+    public priority: TaskPriority = DEFAULT_TASK_PRIORITY,
+    public tags: string[] = [],
+    public checklist: ChecklistItem[] = [],
+    public blockedBy: string[] = [],
+    public recurrence: RecurrenceRule | null = null,
+    public status: TaskWorkflowStatus = completed ? 'done' : 'todo',
+    public completedAt: Date | null = null
+  ) {
+    // Status is the source of truth; completed follows it
+    this.completed = status === 'done';
+    // Tasks completed before completion times were tracked fall back to their last update
+    this.completedAt = this.completed ? completedAt || updatedAt : null;
+  }
 
   static create(data: {
     title: string;
@@ -32,6 +188,12 @@ export class Task {
     pic?: string;
     startDate?: string;
     endDate?: string;
+    priority?: TaskPriority;
+    tags?: string[];
+    checklist?: ChecklistItem[];
+    blockedBy?: string[];
+    recurrence?: RecurrenceRule | null;
+    status?: TaskWorkflowStatus;
   }): Task {
     const now = new Date();
     const id = crypto.randomUUID();
@@ -45,7 +207,13 @@ export class Task {
       now,
       data.pic,
       data.startDate,
-      data.endDate
+      data.endDate,
+      data.priority || DEFAULT_TASK_PRIORITY,
+      normalizeTaskTags(data.tags),
+      normalizeChecklist(data.checklist),
+      normalizeTaskIds(data.blockedBy),
+      normalizeRecurrence(data.recurrence),
+      normalizeTaskWorkflowStatus(data.status, data.completed)
     );
   }
 
@@ -59,7 +227,14 @@ export class Task {
       new Date(data.updatedAt),
       data.pic,
       data.startDate,
-      data.endDate
+      data.endDate,
+      normalizeTaskPriority(data.priority),
+      normalizeTaskTags(data.tags),
+      normalizeChecklist(data.checklist),
+      normalizeTaskIds(data.blockedBy).filter(id => id !== data.id),
+      normalizeRecurrence(data.recurrence),
+      normalizeTaskWorkflowStatus(data.status, data.completed),
+      data.completedAt ? new Date(data.completedAt) : null
     );
   }
 
@@ -74,8 +249,19 @@ export class Task {
   }
 
   toggleCompleted(): void {
-    this.completed = !this.completed;
-    this.updatedAt = new Date();
+    this.updateStatus(this.completed ? 'todo' : 'done');
+  }
+
+  updateStatus(status: TaskWorkflowStatus): void {
+    const now = new Date();
+    if (status !== 'done') {
+      this.completedAt = null;
+    } else if (!this.completed) {
+      this.completedAt = now;
+    }
+    this.status = status;
+    this.completed = status === 'done';
+    this.updatedAt = now;
   }
 
   toJSON(): ITask {
@@ -88,7 +274,14 @@ export class Task {
       updatedAt: this.updatedAt.toISOString(),
       pic: this.pic,
       startDate: this.startDate,
-      endDate: this.endDate
+      endDate: this.endDate,
+      priority: this.priority,
+      tags: [...this.tags],
+      checklist: this.checklist.map(item => ({ ...item })),
+      blockedBy: [...this.blockedBy],
+      recurrence: this.recurrence ? { ...this.recurrence } : null,
+      status: this.status,
+      completedAt: this.completedAt ? this.completedAt.toISOString() : null
     };
   }
 }
@@ -100,6 +293,12 @@ export interface CreateTaskDTO {
   pic: string;
   startDate: string;
   endDate: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  checklist?: ChecklistItem[];
+  blockedBy?: string[];
+  recurrence?: RecurrenceRule | null;
+  status?: TaskWorkflowStatus;
 }
 
 // Update Task DTO
@@ -110,20 +309,33 @@ export interface UpdateTaskDTO {
   pic?: string;
   startDate?: string;
   endDate?: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  checklist?: ChecklistItem[];
+  blockedBy?: string[];
+  recurrence?: RecurrenceRule | null;
+  status?: TaskWorkflowStatus;
   completed?: boolean;
 }
 
 // Task Filter Options
 export interface TaskFilters {
   completed?: boolean;
+  status?: TaskWorkflowStatus[]; // Matches tasks in any of these workflow statuses
   pic?: string;
-  startDate?: string;
-  endDate?: string;
+  startDate?: string; // Due date range start (inclusive)
+  endDate?: string; // Due date range end (inclusive)
   searchQuery?: string;
+  isOverdue?: boolean;
+  tags?: string[];
+  tagMatch?: TagMatchMode; // How multiple tags combine, defaults to 'any'
+  blockedBy?: string[]; // Matches tasks blocked by any of these task IDs
 }
 
+export type TagMatchMode = 'any' | 'all';
+
 // Task Sort Options
-export type TaskSortBy = 'created_at' | 'title' | 'status' | 'due_date' | 'pic';
+export type TaskSortBy = 'created_at' | 'title' | 'status' | 'due_date' | 'pic' | 'priority';
 export type SortOrder = 'asc' | 'desc';
 
 export interface TaskSortOptions {
@@ -131,21 +343,50 @@ export interface TaskSortOptions {
   sortOrder: SortOrder;
 }
 
-// PIC (Person in Charge) Options
-export interface PicOption {
-  value: string;
+export const TASK_SORT_OPTIONS: { value: TaskSortBy; label: string }[] = [
+  { value: 'created_at', label: 'Date Created' },
+  { value: 'title', label: 'Title' },
+  { value: 'status', label: 'Status' },
+  { value: 'due_date', label: 'Due Date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'pic', label: 'Person in Charge' }
+];
+
+export const DEFAULT_TASK_SORT: TaskSortOptions = {
+  sortBy: 'created_at',
+  sortOrder: 'desc'
+};
+
+// Priority Options
+export interface PriorityOption {
+  value: TaskPriority;
   label: string;
 }
 
-export const PIC_OPTIONS: PicOption[] = [
-  { value: '', label: 'Select Person in Charge' },
-  { value: 'Head', label: 'Head' },
-  { value: 'Manager', label: 'Manager' },
-  { value: 'Supervisor', label: 'Supervisor' },
-  { value: 'Staff', label: 'Staff' },
-  { value: 'Intern', label: 'Intern' }
+export const PRIORITY_OPTIONS: PriorityOption[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'critical', label: 'Critical' }
+];
+
+export const RECURRENCE_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'interval', label: 'Every N days' }
+];
+
+export const WORKFLOW_STATUS_OPTIONS: { value: TaskWorkflowStatus; label: string }[] = [
+  { value: 'todo', label: 'To Do' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'in_review', label: 'In Review' },
+  { value: 'done', label: 'Done' },
+  { value: 'cancelled', label: 'Cancelled' }
 ];
 
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 // Task Status Types
 export type TaskStatus = 'pending' | 'completed' | 'overdue';
 
@@ -160,27 +401,184 @@ export interface DeadlineInfo {
   isOverdue: boolean;
   isToday: boolean;
   isTomorrow: boolean;
+  isBlocked: boolean; // Waiting on an unfinished blocker (only known when all tasks are given)
   status: TaskStatusInfo;
 }
 
+// Dependency that starts before its blocker is due
+export interface ScheduleConflict {
+  blocker: Task;
+  blockerEndDate: string;
+  startDate: string;
+}
+
+// Inclusive YYYY-MM-DD range a task occupies on the calendar
+export interface CalendarSpan {
+  start: string;
+  end: string;
+}
+
+// Part of a task's span that falls inside one calendar week
+export interface CalendarSegment {
+  task: Task;
+  startColumn: number; // 0-based weekday column
+  length: number; // days covered within the week
+  lane: number; // row within the week so overlapping spans stack
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+// Timeline scale: the unit each grid column stands for
+export type TimelineZoom = 'day' | 'week' | 'month';
+
+export const TIMELINE_ZOOM_OPTIONS: { value: TimelineZoom; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' }
+];
+
+// Timeline positions are in days from the start of the layout range
+export interface TimelineBar {
+  task: Task;
+  row: number;
+  offset: number;
+  length: number;
+}
+
+export interface TimelineGroup {
+  pic: string;
+  label: string;
+  row: number; // header row; its bars follow on the next rows
+  bars: TimelineBar[];
+}
+
+export interface TimelineTick {
+  offset: number;
+  date: string;
+  label: string;
+}
+
+// Arrow from a blocker's bar to the bar of the task it blocks
+export interface TimelineLink {
+  from: TimelineBar;
+  to: TimelineBar;
+}
+
+export interface TimelineLayout {
+  start: string;
+  end: string;
+  totalDays: number;
+  todayOffset: number;
+  rowCount: number;
+  ticks: TimelineTick[];
+  groups: TimelineGroup[];
+  links: TimelineLink[];
+  unscheduled: Task[];
+}
+
 // Task statistics
 export interface TaskStatistics {
   total: number;
   completed: number;
-  pending: number;
+  pending: number; // Open tasks (not done or cancelled)
+  cancelled: number;
   overdue: number;
-  completionRate: number;
+  byStatus: Record<TaskWorkflowStatus, number>;
+  completionRate: number; // Share of non-cancelled tasks that are done
+  checklistTotal: number; // Checklist items across all tasks
+  checklistCompleted: number;
+  progressRate: number; // Average task progress (%), counting partially done checklists
+}
+
+// How a report splits its tasks into sections
+export type TaskGroupBy = 'none' | 'pic' | 'status' | 'week';
+
+export const TASK_GROUP_BY_OPTIONS: { value: TaskGroupBy; label: string }[] = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'pic', label: 'Person in Charge' },
+  { value: 'status', label: 'Status' },
+  { value: 'week', label: 'Due week' }
+];
+
+export interface TaskGroup {
+  key: string;
+  label: string;
+  tasks: Task[];
+}
+
+// Tasks created and completed in one week, for the dashboard trend chart
+export interface CompletionTrendPoint {
+  weekStart: string; // YYYY-MM-DD (Sunday)
+  created: number;
+  completed: number;
+}
+
+// Open overdue tasks whose due date falls between `from` and `to` (inclusive)
+export interface OverdueAgeingBucket {
+  label: string;
+  from?: string; // Missing on the open-ended oldest bucket
+  to: string;
+  count: number;
+}
+
+// Open tasks due on one day of the current week
+export interface DueDayCount {
+  date: string;
+  count: number;
+}
+
+// Checklist progress for a single task
+export interface ChecklistProgress {
+  completed: number;
+  total: number;
+  percentage: number;
+}
+
+// Bulk operation types
+export type BulkTaskOperationType = 'complete' | 'delete' | 'update_pic';
+
+export interface BulkTaskOperation {
+  taskIds: string[];
+  operation: BulkTaskOperationType;
+  data?: Record<string, unknown>; // e.g. { pic } for update_pic
+}
+
+export interface BulkTaskOperationResult {
+  updated: Task[];
+  created: Task[]; // Next occurrences of completed recurring tasks
+  deleted: string[];
+  failed: Array<{ id: string; error: string }>;
+}
+
+// Pagination types
+export interface TaskPaginationOptions {
+  page: number; // 1-based
+  limit: number;
+}
+
+export interface PaginationInfo {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface TaskPage {
+  tasks: Task[];
+  pagination: PaginationInfo;
 }
 
 // API Response types
 export interface TaskResponse {
   data: ITask[];
-  pagination?: {
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  };
+  pagination?: PaginationInfo;
+}
+
+export interface BulkTaskOperationResponse {
+  updated: ITask[];
+  created: ITask[];
+  deleted: string[];
+  failed: Array<{ id: string; error: string }>;
 }
 
 export interface TaskApiError {
@@ -192,9 +590,15 @@ export interface TaskApiError {
 // Form validation types
 export interface TaskFormErrors {
   title?: string;
+  description?: string;
   pic?: string;
   startDate?: string;
   endDate?: string;
+  priority?: string;
+  tags?: string;
+  checklist?: string;
+  blockedBy?: string;
+  recurrence?: string;
   general?: string;
 }
 
@@ -204,6 +608,11 @@ export interface TaskFormState {
   pic: string;
   startDate: string;
   endDate: string;
+  priority: TaskPriority;
+  tags: string[];
+  checklist: ChecklistItem[];
+  blockedBy: string[];
+  recurrence: RecurrenceRule | null;
   loading: boolean;
   errors: TaskFormErrors;
   message?: {
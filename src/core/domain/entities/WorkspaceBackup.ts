@@ -0,0 +1,91 @@
+import { ITask } from './Task';
+import { IMember } from './Member';
+import { ITag, isSameTag } from './Tag';
+
+// Bumped whenever the backup layout changes; older backups are upgraded on restore
+export const WORKSPACE_BACKUP_VERSION = 1;
+
+export const WORKSPACE_BACKUP_APP = 'task-manager';
+
+export interface WorkspaceData {
+  tasks: ITask[];
+  members: IMember[];
+  tags: ITag[];
+}
+
+// Everything in the workspace, as saved to a backup file
+export interface WorkspaceBackup {
+  app: typeof WORKSPACE_BACKUP_APP;
+  version: number;
+  exportedAt: string; // ISO date string
+  checksum: string; // SHA-256 of the serialized data, hex encoded
+  data: WorkspaceData;
+}
+
+// Merge keeps items missing from the backup; replace deletes them
+export type WorkspaceRestoreMode = 'merge' | 'replace';
+
+export interface WorkspaceEntityDiff {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface WorkspaceDiff {
+  tasks: WorkspaceEntityDiff;
+  members: WorkspaceEntityDiff;
+  tags: WorkspaceEntityDiff;
+}
+
+/**
+ * SHA-256 of the data's JSON, used to spot backups that were truncated or edited by hand
+ */
+export const computeWorkspaceChecksum = async (data: WorkspaceData): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const diffEntities = <T>(
+  current: T[],
+  incoming: T[],
+  mode: WorkspaceRestoreMode,
+  isSame: (a: T, b: T) => boolean
+): WorkspaceEntityDiff => {
+  const diff: WorkspaceEntityDiff = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+
+  incoming.forEach(item => {
+    const existing = current.find(candidate => isSame(candidate, item));
+    if (!existing) {
+      diff.added++;
+    } else if (JSON.stringify(existing) === JSON.stringify(item)) {
+      diff.unchanged++;
+    } else {
+      diff.updated++;
+    }
+  });
+
+  if (mode === 'replace') {
+    diff.removed = current.filter(item => !incoming.some(candidate => isSame(item, candidate))).length;
+  }
+
+  return diff;
+};
+
+/**
+ * What restoring `backup` over `current` would change. Tasks and members are
+ * matched by ID, tags by name. Tags are never removed, since tasks outside
+ * the backup may still use them.
+ */
+export const diffWorkspace = (
+  current: WorkspaceData,
+  backup: WorkspaceData,
+  mode: WorkspaceRestoreMode
+): WorkspaceDiff => ({
+  tasks: diffEntities(current.tasks, backup.tasks, mode, (a, b) => a.id === b.id),
+  members: diffEntities(current.members, backup.members, mode, (a, b) => a.id === b.id),
+  tags: diffEntities(current.tags, backup.tags, 'merge', (a, b) => isSameTag(a.name, b.name))
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_TASK_WORKFLOW, RecurrenceRule, Task, TaskWorkflow } from '../Task';
+import { taskRecurrenceUtils, taskWorkflowUtils } from '../taskUtils';
+
+const recurringTask = (recurrence: RecurrenceRule, startDate?: string, endDate?: string): Task =>
+  Task.create({ title: 'Recurring task', startDate, endDate, recurrence });
+
+describe('taskRecurrenceUtils.getNextDate', () => {
+  it('moves daily rules by one day, across month and year ends', () => {
+    expect(taskRecurrenceUtils.getNextDate({ frequency: 'daily' }, '2026-03-14')).toBe('2026-03-15');
+    expect(taskRecurrenceUtils.getNextDate({ frequency: 'daily' }, '2026-12-31')).toBe('2027-01-01');
+  });
+
+  it('moves interval rules by their number of days', () => {
+    expect(taskRecurrenceUtils.getNextDate({ frequency: 'interval', interval: 10 }, '2026-02-25')).toBe('2026-03-07');
+  });
+
+  it('moves weekly rules to the next listed weekday', () => {
+    // 2026-03-02 is a Monday
+    const rule: RecurrenceRule = { frequency: 'weekly', weekdays: [1, 4] };
+    expect(taskRecurrenceUtils.getNextDate(rule, '2026-03-02')).toBe('2026-03-05');
+    expect(taskRecurrenceUtils.getNextDate(rule, '2026-03-05')).toBe('2026-03-09');
+  });
+
+  it('moves weekly rules without weekdays to the same weekday', () => {
+    expect(taskRecurrenceUtils.getNextDate({ frequency: 'weekly' }, '2026-03-02')).toBe('2026-03-09');
+  });
+
+  it('clamps monthly rules to the length of the month', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', dayOfMonth: 31 };
+    expect(taskRecurrenceUtils.getNextDate(rule, '2026-01-31')).toBe('2026-02-28');
+    expect(taskRecurrenceUtils.getNextDate(rule, '2026-02-28')).toBe('2026-03-31');
+    expect(taskRecurrenceUtils.getNextDate(rule, '2028-01-31')).toBe('2028-02-29');
+  });
+
+  it('uses a later day in the same month when the rule asks for one', () => {
+    expect(taskRecurrenceUtils.getNextDate({ frequency: 'monthly', dayOfMonth: 20 }, '2026-03-05')).toBe('2026-03-20');
+  });
+});
+
+describe('taskRecurrenceUtils.getNextOccurrence', () => {
+  it('keeps the task duration', () => {
+    const task = recurringTask({ frequency: 'weekly' }, '2026-03-02', '2026-03-04');
+    expect(taskRecurrenceUtils.getNextOccurrence(task, '2026-03-01')).toEqual({
+      startDate: '2026-03-09',
+      endDate: '2026-03-11'
+    });
+  });
+
+  it('skips missed cycles so the occurrence does not start in the past', () => {
+    const task = recurringTask({ frequency: 'daily' }, '2026-03-01', '2026-03-01');
+    expect(taskRecurrenceUtils.getNextOccurrence(task, '2026-03-10')).toEqual({
+      startDate: '2026-03-10',
+      endDate: '2026-03-10'
+    });
+  });
+
+  it('repeats from the due date when there is no start date', () => {
+    const task = recurringTask({ frequency: 'interval', interval: 3 }, undefined, '2026-03-10');
+    expect(taskRecurrenceUtils.getNextOccurrence(task, '2026-03-01')).toEqual({
+      startDate: undefined,
+      endDate: '2026-03-13'
+    });
+  });
+
+  it('stops after the until date', () => {
+    const task = recurringTask({ frequency: 'daily', until: '2026-03-10' }, '2026-03-10', '2026-03-10');
+    expect(taskRecurrenceUtils.getNextOccurrence(task, '2026-03-01')).toBeNull();
+  });
+
+  it('returns null for tasks that do not repeat', () => {
+    const task = Task.create({ title: 'One-off task', startDate: '2026-03-01', endDate: '2026-03-01' });
+    expect(taskRecurrenceUtils.getNextOccurrence(task, '2026-03-01')).toBeNull();
+  });
+
+  it('returns to the 31st after a short month', () => {
+    const january = recurringTask({ frequency: 'monthly' }, '2026-01-31', '2026-01-31');
+    const februaryDates = taskRecurrenceUtils.getNextOccurrence(january, '2026-01-01');
+    expect(februaryDates).toEqual({ startDate: '2026-02-28', endDate: '2026-02-28' });
+
+    const february = recurringTask(
+      taskRecurrenceUtils.getRuleForNextOccurrence(january) as RecurrenceRule,
+      februaryDates?.startDate,
+      februaryDates?.endDate
+    );
+    expect(taskRecurrenceUtils.getNextOccurrence(february, '2026-01-01')).toEqual({
+      startDate: '2026-03-31',
+      endDate: '2026-03-31'
+    });
+  });
+});
+
+describe('taskWorkflowUtils.canTransition', () => {
+  it('follows the default workflow', () => {
+    expect(taskWorkflowUtils.canTransition('todo', 'in_progress')).toBe(true);
+    expect(taskWorkflowUtils.canTransition('in_progress', 'in_review')).toBe(true);
+    expect(taskWorkflowUtils.canTransition('in_review', 'done')).toBe(true);
+    expect(taskWorkflowUtils.canTransition('cancelled', 'todo')).toBe(true);
+
+    expect(taskWorkflowUtils.canTransition('todo', 'in_review')).toBe(false);
+    expect(taskWorkflowUtils.canTransition('done', 'cancelled')).toBe(false);
+    expect(taskWorkflowUtils.canTransition('cancelled', 'done')).toBe(false);
+  });
+
+  it('allows staying on the same status', () => {
+    expect(taskWorkflowUtils.canTransition('in_review', 'in_review')).toBe(true);
+  });
+
+  it('uses the given workflow', () => {
+    const workflow: TaskWorkflow = {
+      transitions: { ...DEFAULT_TASK_WORKFLOW.transitions, todo: ['in_progress'] }
+    };
+    expect(taskWorkflowUtils.canTransition('todo', 'done', workflow)).toBe(false);
+    expect(taskWorkflowUtils.canTransition('todo', 'in_progress', workflow)).toBe(true);
+  });
+});
+
+describe('taskWorkflowUtils.canReach', () => {
+  it('follows transitions over several steps', () => {
+    expect(taskWorkflowUtils.canReach('todo', 'in_review')).toBe(true);
+    expect(taskWorkflowUtils.canReach('cancelled', 'done')).toBe(true);
+  });
+
+  it('rejects statuses the workflow never leads to', () => {
+    const workflow: TaskWorkflow = {
+      transitions: { ...DEFAULT_TASK_WORKFLOW.transitions, done: [], cancelled: [] }
+    };
+    expect(taskWorkflowUtils.canReach('done', 'todo', workflow)).toBe(false);
+    expect(taskWorkflowUtils.canReach('todo', 'done', workflow)).toBe(true);
+  });
+});
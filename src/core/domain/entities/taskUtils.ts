@@ -1,5 +1,45 @@
 
-import { Task, TaskStatistics, DeadlineInfo, TaskStatusInfo, CreateTaskDTO } from './Task';
+import {
+  Task,
+  TaskStatistics,
+  DeadlineInfo,
+  TaskStatusInfo,
+  CreateTaskDTO,
+  TaskFilters,
+  TaskSortBy,
+  SortOrder,
+  TaskStatus,
+  TaskSortOptions,
+  TaskPaginationOptions,
+  PaginationInfo,
+  TaskPriority,
+  TASK_PRIORITIES,
+  PRIORITY_OPTIONS,
+  DEFAULT_TASK_PRIORITY,
+  ChecklistProgress,
+  ScheduleConflict,
+  RecurrenceRule,
+  WEEKDAY_LABELS,
+  TaskWorkflow,
+  TaskWorkflowStatus,
+  TASK_WORKFLOW_STATUSES,
+  OPEN_TASK_WORKFLOW_STATUSES,
+  WORKFLOW_STATUS_OPTIONS,
+  DEFAULT_TASK_WORKFLOW,
+  CalendarSpan,
+  CalendarSegment,
+  TimelineZoom,
+  TimelineBar,
+  TimelineGroup,
+  TimelineTick,
+  TimelineLayout,
+  CompletionTrendPoint,
+  OverdueAgeingBucket,
+  DueDayCount,
+  TaskGroupBy,
+  TaskGroup
+} from './Task';
+import { isSameTag } from './Tag';
 
 /**
  * Date utility functions
@@ -151,9 +191,10 @@ export const taskValidation = {
  */
 export const taskStatusUtils = {
   /**
-   * Calculate deadline information for a task
+   * Calculate deadline information for a task.
+   * Pass all tasks to detect whether the task is blocked by unfinished dependencies.
    */
-  getDeadlineInfo: (task: Task): DeadlineInfo | null => {
+  getDeadlineInfo: (task: Task, allTasks?: Task[]): DeadlineInfo | null => {
     if (!task.endDate) return null;
 
     try {
@@ -170,14 +211,20 @@ export const taskStatusUtils = {
       const diffTime = endDate.getTime() - today.getTime();
       const daysRemaining = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 
-      const isOverdue = daysRemaining < 0;
+      // Cancelled tasks are never late
+      const isOverdue = daysRemaining < 0 && task.status !== 'cancelled';
       const isToday = daysRemaining === 0;
       const isTomorrow = daysRemaining === 1;
+      const isBlocked = allTasks ? taskDependencyUtils.isBlocked(task, allTasks) : false;
 
       let status: TaskStatusInfo;
 
       if (task.completed) {
         status = { type: 'success', text: 'Completed' };
+      } else if (task.status === 'cancelled') {
+        status = { type: 'secondary', text: 'Cancelled' };
+      } else if (isBlocked) {
+        status = taskStatusUtils.getBlockedStatus();
       } else if (isOverdue) {
         const overdueDays = Math.abs(daysRemaining);
         status = {
@@ -201,6 +248,7 @@ export const taskStatusUtils = {
         isOverdue,
         isToday,
         isTomorrow,
+        isBlocked,
         status
       };
     } catch (error) {
@@ -210,12 +258,40 @@ export const taskStatusUtils = {
   },
 
   /**
-   * Get PIC badge variant
+   * Status shown for tasks waiting on unfinished blockers
    */
-  getPicBadgeVariant: (pic: string | null | undefined): string => {
-    if (!pic) return 'secondary';
+  getBlockedStatus: (): TaskStatusInfo => {
+    return { type: 'secondary', text: 'Blocked' };
+  },
+
+  /**
+   * Get display label for a priority level
+   */
+  getPriorityLabel: (priority: TaskPriority | null | undefined): string => {
+    const option = PRIORITY_OPTIONS.find(o => o.value === (priority || DEFAULT_TASK_PRIORITY));
+    return option?.label || 'Medium';
+  },
+
+  /**
+   * Get priority badge variant
+   */
+  getPriorityBadgeVariant: (priority: TaskPriority | null | undefined): 'danger' | 'warning' | 'primary' | 'default' => {
+    switch (priority) {
+      case 'critical': return 'danger';
+      case 'high': return 'warning';
+      case 'medium': return 'primary';
+      case 'low':
+      default: return 'default';
+    }
+  },
 
-    const normalizedPic = pic.toLowerCase().trim();
+  /**
+   * Get PIC badge variant from the member's role
+   */
+  getPicBadgeVariant: (role: string | null | undefined): string => {
+    if (!role) return 'secondary';
+
+    const normalizedPic = role.toLowerCase().trim();
     switch (normalizedPic) {
       case 'head': return 'danger';
       case 'manager': return 'warning';
@@ -240,30 +316,744 @@ export const taskStatsUtils = {
         total: 0,
         completed: 0,
         pending: 0,
+        cancelled: 0,
         overdue: 0,
-        completionRate: 0
+        byStatus: taskWorkflowUtils.countByStatus([]),
+        completionRate: 0,
+        checklistTotal: 0,
+        checklistCompleted: 0,
+        progressRate: 0
       };
     }
 
     const total = tasks.length;
-    const completed = tasks.filter(task => task.completed).length;
-    const pending = total - completed;
+    const byStatus = taskWorkflowUtils.countByStatus(tasks);
+    const completed = byStatus.done;
+    const cancelled = byStatus.cancelled;
+    const pending = total - completed - cancelled;
     
     const overdue = tasks.filter(task => {
-      if (task.completed || !task.endDate) return false;
+      if (taskWorkflowUtils.isClosed(task) || !task.endDate) return false;
       const deadlineInfo = taskStatusUtils.getDeadlineInfo(task);
       return deadlineInfo?.isOverdue || false;
     }).length;
 
-    const completionRate = total > 0 ? Math.round((completed / total) * 100) : 0;
+    // Cancelled tasks are left out of the rates
+    const activeTotal = total - cancelled;
+    const completionRate = activeTotal > 0 ? Math.round((completed / activeTotal) * 100) : 0;
+
+    // Checklist roll-up: open tasks count their checklist progress towards the overall rate
+    let checklistTotal = 0;
+    let checklistCompleted = 0;
+    let progressSum = 0;
+
+    tasks.forEach(task => {
+      const progress = taskChecklistUtils.getProgress(task);
+      checklistTotal += progress.total;
+      checklistCompleted += progress.completed;
+      if (task.status !== 'cancelled') {
+        progressSum += task.completed ? 100 : progress.percentage;
+      }
+    });
+
+    const progressRate = activeTotal > 0 ? Math.round(progressSum / activeTotal) : 0;
 
     return {
       total,
       completed,
       pending,
+      cancelled,
       overdue,
-      completionRate
+      byStatus,
+      completionRate,
+      checklistTotal,
+      checklistCompleted,
+      progressRate
+    };
+  },
+
+  /**
+   * Count tasks per Person in Charge (member ID, or the stored value for older tasks)
+   */
+  countByPic: (tasks: Task[]): Map<string, number> => {
+    const counts = new Map<string, number>();
+    tasks.forEach(task => {
+      const pic = task.pic || '';
+      counts.set(pic, (counts.get(pic) || 0) + 1);
+    });
+    return counts;
+  },
+
+  /**
+   * Tasks created and completed per week over the last `weeks` weeks, oldest first
+   */
+  getCompletionTrend: (
+    tasks: Task[],
+    weeks: number = 8,
+    today: string = dateUtils.getTodayString()
+  ): CompletionTrendPoint[] => {
+    const currentWeek = taskCalendarUtils.getWeekDays(today)[0];
+    const points: CompletionTrendPoint[] = Array.from({ length: weeks }, (_, index) => ({
+      weekStart: addUtcDays(currentWeek, (index - weeks + 1) * 7),
+      created: 0,
+      completed: 0
+    }));
+
+    const getPoint = (date: Date | null): CompletionTrendPoint | undefined => {
+      if (!date || isNaN(date.getTime())) return undefined;
+      const weekStart = taskCalendarUtils.getWeekDays(formatUtcDay(date))[0];
+      return points.find(point => point.weekStart === weekStart);
+    };
+
+    tasks.forEach(task => {
+      const created = getPoint(task.createdAt);
+      if (created) created.created++;
+
+      const completed = task.completed ? getPoint(task.completedAt) : undefined;
+      if (completed) completed.completed++;
+    });
+
+    return points;
+  },
+
+  /**
+   * Open overdue tasks bucketed by how many days late they are
+   */
+  getOverdueAgeing: (tasks: Task[], today: string = dateUtils.getTodayString()): OverdueAgeingBucket[] => {
+    const ranges: Array<{ label: string; minDays: number; maxDays: number | null }> = [
+      { label: '1–7 days', minDays: 1, maxDays: 7 },
+      { label: '8–14 days', minDays: 8, maxDays: 14 },
+      { label: '15–30 days', minDays: 15, maxDays: 30 },
+      { label: '30+ days', minDays: 31, maxDays: null }
+    ];
+
+    const overdueDays = tasks
+      .filter(task => !taskWorkflowUtils.isClosed(task) && !!task.endDate && dateUtils.isValidDate(task.endDate))
+      .map(task => taskCalendarUtils.diffDays(task.endDate as string, today))
+      .filter(days => days > 0);
+
+    return ranges.map(range => ({
+      label: range.label,
+      // Older tasks have earlier due dates, so the age range maps onto a due date range
+      from: range.maxDays === null ? undefined : addUtcDays(today, -range.maxDays),
+      to: addUtcDays(today, -range.minDays),
+      count: overdueDays.filter(days => days >= range.minDays && (range.maxDays === null || days <= range.maxDays)).length
+    }));
+  },
+
+  /**
+   * Open tasks due on each day of the current week (Sunday to Saturday)
+   */
+  getDueThisWeek: (tasks: Task[], today: string = dateUtils.getTodayString()): DueDayCount[] => {
+    const openTasks = tasks.filter(task => !taskWorkflowUtils.isClosed(task) && !!task.endDate);
+    return taskCalendarUtils.getWeekDays(today).map(date => ({
+      date,
+      count: openTasks.filter(task => (task.endDate as string).slice(0, 10) === date).length
+    }));
+  },
+
+  /**
+   * Count tasks per tag, most used first
+   */
+  countByTag: (tasks: Task[]): Array<{ tag: string; count: number }> => {
+    const counts = new Map<string, { tag: string; count: number }>();
+
+    tasks.forEach(task => {
+      (task.tags || []).forEach(tag => {
+        const key = tag.toLowerCase();
+        const entry = counts.get(key) || { tag, count: 0 };
+        entry.count += 1;
+        counts.set(key, entry);
+      });
+    });
+
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+};
+
+/**
+ * Task checklist utilities
+ */
+export const taskChecklistUtils = {
+  /**
+   * Completed/total checklist items for a task
+   */
+  getProgress: (task: Task): ChecklistProgress => {
+    const items = task.checklist || [];
+    const completed = items.filter(item => item.completed).length;
+    const total = items.length;
+
+    return {
+      completed,
+      total,
+      percentage: total > 0 ? Math.round((completed / total) * 100) : 0
+    };
+  },
+
+  /**
+   * Whether the task has a checklist and every item is done
+   */
+  isChecklistComplete: (task: Task): boolean => {
+    const items = task.checklist || [];
+    return items.length > 0 && items.every(item => item.completed);
+  }
+};
+
+/**
+ * Task dependency utilities ("blocked by" links and their reverse, "blocks")
+ */
+export const taskDependencyUtils = {
+  /**
+   * Tasks this task is waiting on; links to deleted tasks are ignored
+   */
+  getBlockers: (task: Task, allTasks: Task[]): Task[] => {
+    const blockedBy = task.blockedBy || [];
+    return allTasks.filter(other => blockedBy.includes(other.id));
+  },
+
+  /**
+   * Tasks waiting on this task
+   */
+  getDependents: (task: Task, allTasks: Task[]): Task[] => {
+    return allTasks.filter(other => (other.blockedBy || []).includes(task.id));
+  },
+
+  /**
+   * A task is blocked while it is open and any of its blockers is unfinished
+   */
+  isBlocked: (task: Task, allTasks: Task[]): boolean => {
+    if (taskWorkflowUtils.isClosed(task)) return false;
+    return taskDependencyUtils.getBlockers(task, allTasks).some(blocker => !taskWorkflowUtils.isClosed(blocker));
+  },
+
+  /**
+   * Blockers that are not in the task list
+   */
+  findMissingBlockers: (blockedBy: string[], allTasks: Task[]): string[] => {
+    const ids = new Set(allTasks.map(task => task.id));
+    return blockedBy.filter(id => !ids.has(id));
+  },
+
+  /**
+   * Whether giving `taskId` these blockers would create a cycle.
+   * Returns the offending path (task IDs) or null.
+   */
+  findCycle: (taskId: string, blockedBy: string[], allTasks: Task[]): string[] | null => {
+    const links = new Map(allTasks.map(task => [task.id, task.blockedBy || []]));
+    links.set(taskId, blockedBy);
+
+    // Depth-first walk along blocker links looking for a way back to taskId
+    const visited = new Set<string>();
+    const walk = (id: string, path: string[]): string[] | null => {
+      if (id === taskId) return path;
+      if (visited.has(id)) return null;
+      visited.add(id);
+
+      for (const next of links.get(id) || []) {
+        const cycle = walk(next, [...path, next]);
+        if (cycle) return cycle;
+      }
+      return null;
+    };
+
+    for (const blockerId of blockedBy) {
+      const cycle = walk(blockerId, [taskId, blockerId]);
+      if (cycle) return cycle;
+    }
+    return null;
+  },
+
+  /**
+   * Check a proposed blocker list; returns an error message, or null when valid
+   */
+  validateBlockers: (taskId: string, blockedBy: string[], allTasks: Task[]): string | null => {
+    if (blockedBy.includes(taskId)) {
+      return 'A task cannot be blocked by itself';
+    }
+
+    const missing = taskDependencyUtils.findMissingBlockers(blockedBy, allTasks);
+    if (missing.length > 0) {
+      return `Blocking task not found: ${missing.join(', ')}`;
+    }
+
+    const cycle = taskDependencyUtils.findCycle(taskId, blockedBy, allTasks);
+    if (cycle) {
+      const titles = cycle.map(id => allTasks.find(task => task.id === id)?.title || id);
+      return `Dependency cycle detected: ${titles.join(' → ')}`;
+    }
+
+    return null;
+  },
+
+  /**
+   * Blockers still due after the task is scheduled to start.
+   * Takes the start date and blocker IDs so unsaved form values can be checked too.
+   */
+  getScheduleConflicts: (
+    startDate: string | undefined,
+    blockedBy: string[],
+    allTasks: Task[]
+  ): ScheduleConflict[] => {
+    if (!startDate || !dateUtils.isValidDate(startDate)) return [];
+
+    return allTasks
+      .filter(blocker =>
+        blockedBy.includes(blocker.id) &&
+        blocker.endDate &&
+        dateUtils.isValidDate(blocker.endDate) &&
+        dateUtils.getDaysDifference(startDate, blocker.endDate) > 0
+      )
+      .map(blocker => ({
+        blocker,
+        blockerEndDate: blocker.endDate as string,
+        startDate
+      }));
+  }
+};
+
+// Recurrence math works on whole UTC days so YYYY-MM-DD strings never drift across time zones
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RECURRENCE_STEPS = 1000;
+
+const parseUtcDay = (date: string): Date => new Date(`${date.slice(0, 10)}T00:00:00Z`);
+
+const formatUtcDay = (date: Date): string => date.toISOString().split('T')[0];
+
+const addUtcDays = (date: string, days: number): string =>
+  formatUtcDay(new Date(parseUtcDay(date).getTime() + days * DAY_MS));
+
+/**
+ * Task recurrence utilities
+ */
+export const taskRecurrenceUtils = {
+  /**
+   * First date after `fromDate` (YYYY-MM-DD) matching the rule
+   */
+  getNextDate: (rule: RecurrenceRule, fromDate: string): string => {
+    const from = parseUtcDay(fromDate);
+
+    switch (rule.frequency) {
+      case 'interval':
+        return addUtcDays(fromDate, Math.max(1, rule.interval || 1));
+
+      case 'weekly': {
+        const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [from.getUTCDay()];
+        for (let offset = 1; offset <= 7; offset++) {
+          const candidate = addUtcDays(fromDate, offset);
+          if (weekdays.includes(parseUtcDay(candidate).getUTCDay())) {
+            return candidate;
+          }
+        }
+        return addUtcDays(fromDate, 7);
+      }
+
+      case 'monthly': {
+        const dayOfMonth = rule.dayOfMonth || from.getUTCDate();
+        // Clamp to the month's length, e.g. the 31st becomes Feb 28/29
+        const inMonth = (year: number, month: number) => {
+          const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+          return new Date(Date.UTC(year, month, Math.min(dayOfMonth, daysInMonth)));
+        };
+
+        const sameMonth = inMonth(from.getUTCFullYear(), from.getUTCMonth());
+        if (sameMonth > from) return formatUtcDay(sameMonth);
+        return formatUtcDay(inMonth(from.getUTCFullYear(), from.getUTCMonth() + 1));
+      }
+
+      case 'daily':
+      default:
+        return addUtcDays(fromDate, 1);
+    }
+  },
+
+  /**
+   * Dates for the occurrence after this one, keeping the task's duration.
+   * Missed cycles are skipped so the next occurrence never starts in the past.
+   * Returns null when the task does not recur or the rule has ended.
+   */
+  getNextOccurrence: (
+    task: Task,
+    today: string = dateUtils.getTodayString()
+  ): { startDate?: string; endDate?: string } | null => {
+    const rule = task.recurrence;
+    if (!rule) return null;
+
+    const hasStart = !!task.startDate && dateUtils.isValidDate(task.startDate);
+    const hasEnd = !!task.endDate && dateUtils.isValidDate(task.endDate);
+    const anchor = hasStart ? task.startDate as string : hasEnd ? task.endDate as string : today;
+    const durationDays = hasStart && hasEnd
+      ? Math.round((parseUtcDay(task.endDate as string).getTime() - parseUtcDay(anchor).getTime()) / DAY_MS)
+      : 0;
+
+    let next = taskRecurrenceUtils.getNextDate(rule, anchor);
+    for (let step = 0; next < today && step < MAX_RECURRENCE_STEPS; step++) {
+      next = taskRecurrenceUtils.getNextDate(rule, next);
+    }
+
+    if (rule.until && next > rule.until) return null;
+
+    return {
+      startDate: hasStart ? next : undefined,
+      endDate: hasEnd ? addUtcDays(next, durationDays) : undefined
+    };
+  },
+
+  /**
+   * The rule handed on to the next occurrence. A monthly rule without a day keeps
+   * this occurrence's day, so a task on the 31st returns to the 31st after a
+   * short month instead of staying on the 28th.
+   */
+  getRuleForNextOccurrence: (task: Task): RecurrenceRule | null => {
+    const rule = task.recurrence;
+    if (!rule) return null;
+    if (rule.frequency !== 'monthly' || rule.dayOfMonth) return { ...rule };
+
+    const anchor = [task.startDate, task.endDate].find(date => !!date && dateUtils.isValidDate(date));
+    return anchor ? { ...rule, dayOfMonth: parseUtcDay(anchor).getUTCDate() } : { ...rule };
+  },
+
+  /**
+   * Human-readable rule, e.g. "Weekly on Mon, Thu"
+   */
+  describe: (rule: RecurrenceRule | null | undefined): string => {
+    if (!rule) return 'Does not repeat';
+
+    let text: string;
+    switch (rule.frequency) {
+      case 'interval':
+        text = rule.interval === 1 ? 'Daily' : `Every ${rule.interval} days`;
+        break;
+      case 'weekly':
+        text = rule.weekdays && rule.weekdays.length > 0
+          ? `Weekly on ${rule.weekdays.map(day => WEEKDAY_LABELS[day]).join(', ')}`
+          : 'Weekly';
+        break;
+      case 'monthly':
+        text = rule.dayOfMonth ? `Monthly on day ${rule.dayOfMonth}` : 'Monthly';
+        break;
+      case 'daily':
+      default:
+        text = 'Daily';
+    }
+
+    return rule.until ? `${text} until ${dateUtils.formatDate(rule.until)}` : text;
+  }
+};
+
+/**
+ * Calendar utilities; weeks start on Sunday and all days are YYYY-MM-DD strings
+ */
+export const taskCalendarUtils = {
+  addDays: (date: string, days: number): string => addUtcDays(date, days),
+
+  /**
+   * Whole days from `from` to `to` (negative when `to` is earlier)
+   */
+  diffDays: (from: string, to: string): number =>
+    Math.round((parseUtcDay(to).getTime() - parseUtcDay(from).getTime()) / DAY_MS),
+
+  /**
+   * Sunday-to-Saturday days of the week containing `date`
+   */
+  getWeekDays: (date: string): string[] => {
+    const weekStart = addUtcDays(date, -parseUtcDay(date).getUTCDay());
+    return Array.from({ length: 7 }, (_, index) => addUtcDays(weekStart, index));
+  },
+
+  /**
+   * Full weeks covering the month containing `date`, padded with days of the neighbouring months
+   */
+  getMonthWeeks: (date: string): string[][] => {
+    const firstOfMonth = `${date.slice(0, 7)}-01`;
+    const weeks: string[][] = [];
+    let week = taskCalendarUtils.getWeekDays(firstOfMonth);
+
+    while (week[0].slice(0, 7) <= firstOfMonth.slice(0, 7)) {
+      weeks.push(week);
+      week = taskCalendarUtils.getWeekDays(addUtcDays(week[0], 7));
+    }
+
+    return weeks;
+  },
+
+  /**
+   * First day of the month `months` away from the one containing `date`
+   */
+  shiftMonth: (date: string, months: number): string => {
+    const day = parseUtcDay(date);
+    return formatUtcDay(new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + months, 1)));
+  },
+
+  /**
+   * Days the task occupies; a task with only one date is a single-day span
+   */
+  getSpan: (task: Task): CalendarSpan | null => {
+    const start = task.startDate && dateUtils.isValidDate(task.startDate) ? task.startDate.slice(0, 10) : null;
+    const end = task.endDate && dateUtils.isValidDate(task.endDate) ? task.endDate.slice(0, 10) : null;
+
+    if (!start && !end) return null;
+    if (!start || !end) return { start: (start || end) as string, end: (start || end) as string };
+
+    return start <= end ? { start, end } : { start: end, end: start };
+  },
+
+  /**
+   * Dates after dragging the whole span so that `fromDay` lands on `toDay`
+   */
+  moveSpan: (span: CalendarSpan, fromDay: string, toDay: string): CalendarSpan => {
+    const offset = taskCalendarUtils.diffDays(fromDay, toDay);
+    return { start: addUtcDays(span.start, offset), end: addUtcDays(span.end, offset) };
+  },
+
+  /**
+   * Dates after dragging one edge of the span to `toDay`; the span never shrinks below one day
+   */
+  resizeSpan: (span: CalendarSpan, edge: 'start' | 'end', toDay: string): CalendarSpan => {
+    return edge === 'start'
+      ? { start: toDay <= span.end ? toDay : span.end, end: span.end }
+      : { start: span.start, end: toDay >= span.start ? toDay : span.start };
+  },
+
+  /**
+   * Lays out the tasks overlapping a week, stacking overlapping spans into lanes.
+   * Longer and earlier spans get the top lanes.
+   */
+  layoutWeek: (tasks: Task[], weekDays: string[]): CalendarSegment[] => {
+    const weekStart = weekDays[0];
+    const weekEnd = weekDays[weekDays.length - 1];
+
+    const spans = tasks
+      .map(task => ({ task, span: taskCalendarUtils.getSpan(task) }))
+      .filter((item): item is { task: Task; span: CalendarSpan } =>
+        !!item.span && item.span.start <= weekEnd && item.span.end >= weekStart
+      )
+      .sort((a, b) =>
+        a.span.start.localeCompare(b.span.start) ||
+        taskCalendarUtils.diffDays(b.span.start, b.span.end) - taskCalendarUtils.diffDays(a.span.start, a.span.end) ||
+        a.task.title.localeCompare(b.task.title)
+      );
+
+    const laneEnds: number[] = [];
+
+    return spans.map(({ task, span }) => {
+      const startColumn = Math.max(0, taskCalendarUtils.diffDays(weekStart, span.start));
+      const endColumn = Math.min(weekDays.length - 1, taskCalendarUtils.diffDays(weekStart, span.end));
+
+      let lane = laneEnds.findIndex(laneEnd => laneEnd < startColumn);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(endColumn);
+      } else {
+        laneEnds[lane] = endColumn;
+      }
+
+      return {
+        task,
+        startColumn,
+        length: endColumn - startColumn + 1,
+        lane,
+        continuesBefore: span.start < weekStart,
+        continuesAfter: span.end > weekEnd
+      };
+    });
+  }
+};
+
+/**
+ * Timeline (Gantt) utilities
+ */
+export const taskTimelineUtils = {
+  /**
+   * First day of the zoom unit containing `date`; weeks start on Sunday
+   */
+  getUnitStart: (date: string, zoom: TimelineZoom): string => {
+    switch (zoom) {
+      case 'week':
+        return addUtcDays(date, -parseUtcDay(date).getUTCDay());
+      case 'month':
+        return `${date.slice(0, 7)}-01`;
+      case 'day':
+      default:
+        return date.slice(0, 10);
+    }
+  },
+
+  /**
+   * First day of the zoom unit after the one containing `date`
+   */
+  getNextUnitStart: (date: string, zoom: TimelineZoom): string => {
+    switch (zoom) {
+      case 'week':
+        return addUtcDays(taskTimelineUtils.getUnitStart(date, zoom), 7);
+      case 'month':
+        return taskCalendarUtils.shiftMonth(date, 1);
+      case 'day':
+      default:
+        return addUtcDays(date, 1);
+    }
+  },
+
+  /**
+   * Coarsest zoom that still gives a range of this many days enough detail, used for the PDF page
+   */
+  suggestZoom: (totalDays: number): TimelineZoom => {
+    if (totalDays <= 31) return 'day';
+    if (totalDays <= 26 * 7) return 'week';
+    return 'month';
+  },
+
+  /**
+   * One bar per dated task, grouped by PIC (groups sorted by label, unassigned last),
+   * over a range padded to whole zoom units and always including today
+   */
+  buildLayout: (
+    tasks: Task[],
+    zoom: TimelineZoom,
+    picLabels: Map<string, string> = new Map(),
+    today: string = dateUtils.getTodayString()
+  ): TimelineLayout => {
+    const scheduled: { task: Task; span: CalendarSpan }[] = [];
+    const unscheduled: Task[] = [];
+
+    tasks.forEach(task => {
+      const span = taskCalendarUtils.getSpan(task);
+      if (span) {
+        scheduled.push({ task, span });
+      } else {
+        unscheduled.push(task);
+      }
+    });
+
+    const firstDay = scheduled.reduce((min, { span }) => span.start < min ? span.start : min, today);
+    const lastDay = scheduled.reduce((max, { span }) => span.end > max ? span.end : max, today);
+    const start = taskTimelineUtils.getUnitStart(firstDay, zoom);
+    const end = addUtcDays(taskTimelineUtils.getNextUnitStart(lastDay, zoom), -1);
+    const offsetOf = (date: string) => taskCalendarUtils.diffDays(start, date);
+
+    const ticks: TimelineTick[] = [];
+    for (let date = start; date <= end; date = taskTimelineUtils.getNextUnitStart(date, zoom)) {
+      ticks.push({
+        offset: offsetOf(date),
+        date,
+        label: zoom === 'day'
+          ? String(parseUtcDay(date).getUTCDate())
+          : zoom === 'week'
+            ? dateUtils.formatDate(date, { year: undefined })
+            : dateUtils.formatDate(date, { day: undefined })
+      });
+    }
+
+    const getLabel = (pic: string) => picLabels.get(pic) || pic || 'Unassigned';
+    const byPic = new Map<string, { task: Task; span: CalendarSpan }[]>();
+    scheduled.forEach(item => {
+      const pic = item.task.pic || '';
+      byPic.set(pic, [...(byPic.get(pic) || []), item]);
+    });
+
+    const pics = Array.from(byPic.keys()).sort((a, b) => {
+      if (!a || !b) return a ? -1 : b ? 1 : 0;
+      return getLabel(a).localeCompare(getLabel(b));
+    });
+
+    let row = 0;
+    const barsById = new Map<string, TimelineBar>();
+    const groups: TimelineGroup[] = pics.map(pic => {
+      const groupRow = row++;
+      const bars = (byPic.get(pic) || [])
+        .sort((a, b) => a.span.start.localeCompare(b.span.start) || a.span.end.localeCompare(b.span.end))
+        .map(({ task, span }) => {
+          const bar: TimelineBar = {
+            task,
+            row: row++,
+            offset: offsetOf(span.start),
+            length: taskCalendarUtils.diffDays(span.start, span.end) + 1
+          };
+          barsById.set(task.id, bar);
+          return bar;
+        });
+
+      return { pic, label: getLabel(pic), row: groupRow, bars };
+    });
+
+    const links = Array.from(barsById.values()).flatMap(bar =>
+      bar.task.blockedBy
+        .map(blockerId => barsById.get(blockerId))
+        .filter((blocker): blocker is TimelineBar => !!blocker)
+        .map(blocker => ({ from: blocker, to: bar }))
+    );
+
+    return {
+      start,
+      end,
+      totalDays: offsetOf(end) + 1,
+      todayOffset: offsetOf(today),
+      rowCount: row,
+      ticks,
+      groups,
+      links,
+      unscheduled
+    };
+  }
+};
+
+/**
+ * Task grouping utilities
+ */
+export const taskGroupUtils = {
+  /**
+   * Split tasks into labelled groups, keeping the given task order within each group.
+   * Groups follow the workflow order for status, date order for weeks (undated last)
+   * and name order for people (unassigned last).
+   */
+  groupTasks: (tasks: Task[], groupBy: TaskGroupBy, picLabels: Map<string, string> = new Map()): TaskGroup[] => {
+    if (groupBy === 'none') {
+      return [{ key: 'all', label: 'All tasks', tasks: [...tasks] }];
+    }
+
+    const getKey = (task: Task): string => {
+      switch (groupBy) {
+        case 'pic':
+          return task.pic || '';
+        case 'status':
+          return task.status;
+        case 'week':
+        default:
+          return task.endDate && dateUtils.isValidDate(task.endDate)
+            ? taskCalendarUtils.getWeekDays(task.endDate.slice(0, 10))[0]
+            : '';
+      }
     };
+
+    const getLabel = (key: string): string => {
+      switch (groupBy) {
+        case 'pic':
+          return picLabels.get(key) || key || 'Unassigned';
+        case 'status':
+          return taskWorkflowUtils.getLabel(key as TaskWorkflowStatus);
+        case 'week':
+        default:
+          return key
+            ? `Week of ${dateUtils.formatDate(key)}`
+            : 'No due date';
+      }
+    };
+
+    const grouped = new Map<string, Task[]>();
+    tasks.forEach(task => {
+      const key = getKey(task);
+      grouped.set(key, [...(grouped.get(key) || []), task]);
+    });
+
+    const keys = Array.from(grouped.keys()).sort((a, b) => {
+      if (groupBy === 'status') {
+        return TASK_WORKFLOW_STATUSES.indexOf(a as TaskWorkflowStatus) - TASK_WORKFLOW_STATUSES.indexOf(b as TaskWorkflowStatus);
+      }
+      // Empty keys (unassigned, no due date) go last
+      if (!a || !b) return a ? -1 : b ? 1 : 0;
+      return groupBy === 'week' ? a.localeCompare(b) : getLabel(a).localeCompare(getLabel(b));
+    });
+
+    return keys.map(key => ({ key: key || 'none', label: getLabel(key), tasks: grouped.get(key) || [] }));
   }
 };
 
@@ -276,8 +1066,9 @@ export const taskSortUtils = {
    */
   sortTasks: (
     tasks: Task[], 
-    sortBy: 'created_at' | 'title' | 'status' | 'due_date' | 'pic' = 'created_at',
-    sortOrder: 'asc' | 'desc' = 'desc'
+    sortBy: TaskSortBy = 'created_at',
+    sortOrder: SortOrder = 'desc',
+    picLabels?: Map<string, string>
   ): Task[] => {
     if (!Array.isArray(tasks)) return [];
 
@@ -292,8 +1083,8 @@ export const taskSortUtils = {
           break;
 
         case 'status':
-          const statusA = a?.completed ? 1 : 0;
-          const statusB = b?.completed ? 1 : 0;
+          const statusA = TASK_WORKFLOW_STATUSES.indexOf(a?.status);
+          const statusB = TASK_WORKFLOW_STATUSES.indexOf(b?.status);
           comparison = statusA - statusB;
           break;
 
@@ -303,9 +1094,15 @@ export const taskSortUtils = {
           comparison = dueDateA - dueDateB;
           break;
 
+        case 'priority':
+          const priorityA = TASK_PRIORITIES.indexOf(a?.priority);
+          const priorityB = TASK_PRIORITIES.indexOf(b?.priority);
+          comparison = priorityA - priorityB;
+          break;
+
         case 'pic':
-          const picA = a?.pic || '';
-          const picB = b?.pic || '';
+          const picA = (a?.pic && picLabels?.get(a.pic)) || a?.pic || '';
+          const picB = (b?.pic && picLabels?.get(b.pic)) || b?.pic || '';
           comparison = picA.localeCompare(picB);
           break;
 
@@ -323,6 +1120,95 @@ export const taskSortUtils = {
   }
 };
 
+/**
+ * Workflow status utilities
+ */
+export const taskWorkflowUtils = {
+  /**
+   * Done and cancelled tasks need no further work
+   */
+  isClosed: (task: Task): boolean => {
+    return task.status === 'done' || task.status === 'cancelled';
+  },
+
+  getLabel: (status: TaskWorkflowStatus | null | undefined): string => {
+    return WORKFLOW_STATUS_OPTIONS.find(option => option.value === status)?.label || 'To Do';
+  },
+
+  getBadgeVariant: (status: TaskWorkflowStatus | null | undefined): 'danger' | 'warning' | 'primary' | 'success' | 'default' => {
+    switch (status) {
+      case 'in_progress': return 'primary';
+      case 'in_review': return 'warning';
+      case 'done': return 'success';
+      case 'cancelled': return 'danger';
+      case 'todo':
+      default: return 'default';
+    }
+  },
+
+  /**
+   * Statuses the workflow allows moving to from the given status
+   */
+  getAllowedTransitions: (
+    from: TaskWorkflowStatus,
+    workflow: TaskWorkflow = DEFAULT_TASK_WORKFLOW
+  ): TaskWorkflowStatus[] => {
+    return workflow.transitions[from] || [];
+  },
+
+  canTransition: (
+    from: TaskWorkflowStatus,
+    to: TaskWorkflowStatus,
+    workflow: TaskWorkflow = DEFAULT_TASK_WORKFLOW
+  ): boolean => {
+    return from === to || taskWorkflowUtils.getAllowedTransitions(from, workflow).includes(to);
+  },
+
+  /**
+   * Whether the workflow leads from one status to another in any number of transitions
+   */
+  canReach: (
+    from: TaskWorkflowStatus,
+    to: TaskWorkflowStatus,
+    workflow: TaskWorkflow = DEFAULT_TASK_WORKFLOW
+  ): boolean => {
+    const reached = new Set<TaskWorkflowStatus>([from]);
+    const queue = [from];
+    while (queue.length > 0) {
+      const status = queue.shift() as TaskWorkflowStatus;
+      if (status === to) return true;
+      taskWorkflowUtils.getAllowedTransitions(status, workflow)
+        .filter(next => !reached.has(next))
+        .forEach(next => {
+          reached.add(next);
+          queue.push(next);
+        });
+    }
+    return false;
+  },
+
+  /**
+   * Status implied by setting `completed` (older clients only send the flag):
+   * completing means done, reopening a done task sends it back to To Do
+   */
+  getStatusForCompleted: (current: TaskWorkflowStatus, completed: boolean): TaskWorkflowStatus => {
+    if (completed) return 'done';
+    return current === 'done' ? 'todo' : current;
+  },
+
+  countByStatus: (tasks: Task[]): Record<TaskWorkflowStatus, number> => {
+    const counts = Object.fromEntries(
+      TASK_WORKFLOW_STATUSES.map(status => [status, 0])
+    ) as Record<TaskWorkflowStatus, number>;
+
+    tasks.forEach(task => {
+      if (task.status in counts) counts[task.status] += 1;
+    });
+
+    return counts;
+  }
+};
+
 /**
  * Task filtering utilities
  */
@@ -332,12 +1218,8 @@ export const taskFilterUtils = {
    */
   filterTasks: (
     tasks: Task[],
-    filters: {
-      completed?: boolean;
-      pic?: string;
-      searchQuery?: string;
-      isOverdue?: boolean;
-    }
+    filters: TaskFilters,
+    picLabels?: Map<string, string>
   ): Task[] => {
     if (!Array.isArray(tasks)) return [];
 
@@ -347,6 +1229,11 @@ export const taskFilterUtils = {
         return false;
       }
 
+      // Workflow status filter
+      if (filters.status && filters.status.length > 0 && !filters.status.includes(task.status)) {
+        return false;
+      }
+
       // PIC filter
       if (filters.pic && task.pic !== filters.pic) {
         return false;
@@ -358,7 +1245,8 @@ export const taskFilterUtils = {
         const searchableText = [
           task.title,
           task.description,
-          task.pic
+          (task.pic && picLabels?.get(task.pic)) || task.pic,
+          ...(task.tags || [])
         ].filter(Boolean).join(' ').toLowerCase();
 
         if (!searchableText.includes(query)) {
@@ -375,8 +1263,134 @@ export const taskFilterUtils = {
         }
       }
 
+      // Tag filter: 'any' needs one of the tags, 'all' needs every tag
+      if (filters.tags && filters.tags.length > 0) {
+        const hasTag = (tag: string) => (task.tags || []).some(taskTag => isSameTag(taskTag, tag));
+        const matches = filters.tagMatch === 'all'
+          ? filters.tags.every(hasTag)
+          : filters.tags.some(hasTag);
+
+        if (!matches) {
+          return false;
+        }
+      }
+
+      // Dependency filter: tasks waiting on any of the given tasks
+      if (filters.blockedBy && filters.blockedBy.length > 0) {
+        if (!filters.blockedBy.some(id => task.blockedBy.includes(id))) {
+          return false;
+        }
+      }
+
+      // Due date range filter (tasks without an end date never match a range)
+      if (filters.startDate || filters.endDate) {
+        if (!task.endDate || !dateUtils.isValidDate(task.endDate)) {
+          return false;
+        }
+
+        if (filters.startDate && dateUtils.getDaysDifference(filters.startDate, task.endDate) < 0) {
+          return false;
+        }
+
+        if (filters.endDate && dateUtils.getDaysDifference(task.endDate, filters.endDate) < 0) {
+          return false;
+        }
+      }
+
       return true;
     });
+  },
+
+  /**
+   * Check whether any filter criteria is set
+   */
+  hasActiveFilters: (filters: TaskFilters): boolean => {
+    return (Object.keys(filters) as Array<keyof TaskFilters>).some(key => {
+      const value = filters[key];
+      // Tag match mode only refines the tag filter, it is not a filter by itself
+      if (key === 'tagMatch' || value === undefined || value === '') return false;
+      return !Array.isArray(value) || value.length > 0;
+    });
+  },
+
+  /**
+   * Derive the task status represented by the workflow status/overdue filters
+   */
+  getStatusFilter: (filters: TaskFilters): TaskStatus | undefined => {
+    const statuses = filters.status || [];
+    if (statuses.length === 1 && statuses[0] === 'done') return 'completed';
+    if (
+      statuses.length === OPEN_TASK_WORKFLOW_STATUSES.length &&
+      OPEN_TASK_WORKFLOW_STATUSES.every(status => statuses.includes(status))
+    ) {
+      return filters.isOverdue === true ? 'overdue' : 'pending';
+    }
+    // Links saved before the status filter existed only set the completion flag
+    if (statuses.length === 0 && filters.completed === true) return 'completed';
+    return undefined;
+  },
+
+  /**
+   * Apply a task status to the workflow status/overdue filters.
+   * Pending and overdue only cover open tasks, so cancelled tasks never match them.
+   */
+  applyStatusFilter: (filters: TaskFilters, status: TaskStatus | undefined): TaskFilters => {
+    switch (status) {
+      case 'completed':
+        return { ...filters, completed: undefined, status: ['done'], isOverdue: undefined };
+      case 'overdue':
+        return { ...filters, completed: undefined, status: [...OPEN_TASK_WORKFLOW_STATUSES], isOverdue: true };
+      case 'pending':
+        return { ...filters, completed: undefined, status: [...OPEN_TASK_WORKFLOW_STATUSES], isOverdue: false };
+      default:
+        return { ...filters, completed: undefined, status: undefined, isOverdue: undefined };
+    }
+  }
+};
+
+/**
+ * Task query and pagination utilities
+ */
+export const taskQueryUtils = {
+  /**
+   * Filter and sort tasks in memory.
+   * `picLabels` maps member IDs to names so people are searched and sorted by name.
+   */
+  applyQuery: (
+    tasks: Task[],
+    filters: TaskFilters = {},
+    sortOptions?: TaskSortOptions,
+    picLabels?: Map<string, string>
+  ): Task[] => {
+    const filteredTasks = taskFilterUtils.filterTasks(tasks, filters, picLabels);
+    return sortOptions
+      ? taskSortUtils.sortTasks(filteredTasks, sortOptions.sortBy, sortOptions.sortOrder, picLabels)
+      : filteredTasks;
+  },
+
+  /**
+   * Return the requested page of tasks (all tasks when no pagination is given)
+   */
+  paginate: (tasks: Task[], pagination?: TaskPaginationOptions): Task[] => {
+    if (!pagination) return tasks;
+
+    const start = (pagination.page - 1) * pagination.limit;
+    return tasks.slice(start, start + pagination.limit);
+  },
+
+  /**
+   * Build pagination metadata for a result set
+   */
+  getPaginationInfo: (total: number, pagination?: TaskPaginationOptions): PaginationInfo => {
+    const page = pagination?.page ?? 1;
+    const limit = pagination?.limit ?? total;
+
+    return {
+      total,
+      page,
+      limit,
+      totalPages: limit > 0 ? Math.max(1, Math.ceil(total / limit)) : 1
+    };
   }
 };
 
@@ -388,6 +1402,14 @@ export const taskUtils = {
   validation: taskValidation,
   status: taskStatusUtils,
   stats: taskStatsUtils,
+  checklist: taskChecklistUtils,
+  dependency: taskDependencyUtils,
+  recurrence: taskRecurrenceUtils,
+  calendar: taskCalendarUtils,
+  timeline: taskTimelineUtils,
+  group: taskGroupUtils,
+  workflow: taskWorkflowUtils,
   sort: taskSortUtils,
-  filter: taskFilterUtils
+  filter: taskFilterUtils,
+  query: taskQueryUtils
 };
\ No newline at end of file
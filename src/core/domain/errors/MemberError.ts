@@ -0,0 +1,14 @@
+export type MemberErrorCode = 'MEMBER_NOT_FOUND' | 'DUPLICATE_EMAIL' | 'MEMBER_IN_USE';
+
+/**
+ * Raised when a member change or a task assignment breaks the directory's rules
+ */
+export class MemberError extends Error {
+  constructor(
+    message: string,
+    public readonly code: MemberErrorCode
+  ) {
+    super(message);
+    this.name = 'MemberError';
+  }
+}
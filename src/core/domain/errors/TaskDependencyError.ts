@@ -0,0 +1,13 @@
+/**
+ * Raised when a change would break task dependencies
+ * (a cycle, a missing blocker, or deleting a task others depend on)
+ */
+export class TaskDependencyError extends Error {
+  constructor(
+    message: string,
+    public readonly relatedTaskIds: string[] = []
+  ) {
+    super(message);
+    this.name = 'TaskDependencyError';
+  }
+}
@@ -0,0 +1,15 @@
+import { TaskWorkflowStatus } from '../entities/Task';
+
+/**
+ * Raised when a status change is not allowed by the task workflow
+ */
+export class TaskWorkflowError extends Error {
+  constructor(
+    message: string,
+    public readonly from: TaskWorkflowStatus,
+    public readonly to: TaskWorkflowStatus
+  ) {
+    super(message);
+    this.name = 'TaskWorkflowError';
+  }
+}
@@ -0,0 +1,14 @@
+export type WorkspaceBackupErrorCode = 'INVALID_BACKUP' | 'UNSUPPORTED_VERSION' | 'CHECKSUM_MISMATCH';
+
+/**
+ * Raised when a backup file cannot be restored as it is
+ */
+export class WorkspaceBackupError extends Error {
+  constructor(
+    message: string,
+    public readonly code: WorkspaceBackupErrorCode
+  ) {
+    super(message);
+    this.name = 'WorkspaceBackupError';
+  }
+}
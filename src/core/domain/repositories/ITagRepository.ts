@@ -0,0 +1,6 @@
+import { ITag } from '../entities/Tag';
+
+export interface ITagRepository {
+  findAll(): Promise<ITag[]>;
+  save(tag: ITag): Promise<ITag>; // Insert or update by name (case-insensitive)
+}
@@ -1,11 +1,28 @@
-import { Task, TaskFilters, TaskSortOptions } from '../entities/Task';
+import {
+  Task,
+  TaskFilters,
+  TaskSortOptions,
+  TaskPaginationOptions,
+  BulkTaskOperation,
+  BulkTaskOperationResult
+} from '../entities/Task';
+
+export interface TaskUpdateOptions {
+  // The update undoes an earlier change, so the status may only move back along a workflow transition
+  revert?: boolean;
+  // The task is overwritten with a saved copy (workspace restore), so the status may
+  // move to any status the workflow can reach and the copy's timestamps are kept
+  replace?: boolean;
+}
 
 export interface ITaskRepository {
   findAll(): Promise<Task[]>;
   findById(id: string): Promise<Task | null>;
-  findByFilters?(filters: TaskFilters, sortOptions?: TaskSortOptions): Promise<Task[]>;
+  findByFilters?(filters: TaskFilters, sortOptions?: TaskSortOptions, pagination?: TaskPaginationOptions): Promise<Task[]>;
   create(task: Task): Promise<Task>;
-  update(task: Task): Promise<Task>;
+  update(task: Task, options?: TaskUpdateOptions): Promise<Task>;
   delete(id: string): Promise<void>;
+  restore?(task: Task): Promise<Task>;
   count?(filters?: TaskFilters): Promise<number>;
+  executeBulk?(operation: BulkTaskOperation): Promise<BulkTaskOperationResult>;
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { BulkTaskOperation, BulkTaskOperationResult, TaskWorkflow, DEFAULT_TASK_WORKFLOW } from '../entities/Task';
+import { ITaskRepository } from '../repositories/ITaskRepository';
+import { IMemberRepository } from '../repositories/IMemberRepository';
+import { MemberError } from '../errors/MemberError';
+import { taskDependencyUtils } from '../entities/taskUtils';
+import { UpdateTaskUseCase } from './UpdateTaskUseCase';
+import { DeleteTaskUseCase } from './DeleteTaskUseCase';
+
+export class BulkTaskOperationUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private memberRepository?: IMemberRepository,
+    private workflow: TaskWorkflow = DEFAULT_TASK_WORKFLOW
+  ) {}
+
+  async execute(operation: BulkTaskOperation): Promise<BulkTaskOperationResult> {
+    const pic = operation.data?.pic;
+    if (operation.operation === 'update_pic' && (typeof pic !== 'string' || !pic.trim())) {
+      throw new Error('A Person in Charge is required to reassign tasks');
+    }
+
+    if (operation.operation === 'update_pic' && this.memberRepository && !(await this.memberRepository.findById(pic as string))) {
+      throw new MemberError(`Person in Charge ${pic} is not in the member directory`, 'MEMBER_NOT_FOUND');
+    }
+
+    // Let the repository handle the whole batch when it can (e.g. a single API call)
+    if (this.taskRepository.executeBulk) {
+      return this.taskRepository.executeBulk(operation);
+    }
+
+    const updateTaskUseCase = new UpdateTaskUseCase(this.taskRepository, this.memberRepository, this.workflow);
+    const deleteTaskUseCase = new DeleteTaskUseCase(this.taskRepository);
+    const result: BulkTaskOperationResult = { updated: [], created: [], deleted: [], failed: [] };
+    const selectedIds = new Set(operation.taskIds);
+    const allTasks = operation.operation === 'delete' ? await this.taskRepository.findAll() : [];
+
+    // Apply one task at a time so storage writes never interleave
+    for (const id of selectedIds) {
+      try {
+        switch (operation.operation) {
+          case 'complete': {
+            const { task, nextOccurrence } = await updateTaskUseCase.executeWithOccurrence(id, { completed: true });
+            result.updated.push(task);
+            if (nextOccurrence) {
+              result.created.push(nextOccurrence);
+            }
+            break;
+          }
+
+          case 'update_pic':
+            result.updated.push(await updateTaskUseCase.execute(id, { pic: pic as string }));
+            break;
+
+          case 'delete': {
+            // Links between selected tasks go away with them; links from other tasks still protect the blocker
+            const task = allTasks.find(t => t.id === id);
+            const removeDependencies = !!task && taskDependencyUtils
+              .getDependents(task, allTasks)
+              .every(dependent => selectedIds.has(dependent.id));
+            await deleteTaskUseCase.execute(id, { removeDependencies });
+            result.deleted.push(id);
+            break;
+          }
+        }
+      } catch (error) {
+        console.error('BulkTaskOperationUseCase: Operation failed for task:', id, error);
+        result.failed.push({ id, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return result;
+  }
+}
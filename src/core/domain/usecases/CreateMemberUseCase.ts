@@ -0,0 +1,25 @@
+import { Member, MemberRole } from '../entities/Member';
+import { IMemberRepository } from '../repositories/IMemberRepository';
+import { MemberError } from '../errors/MemberError';
+
+export interface CreateMemberParams {
+  name: string;
+  email: string;
+  role?: MemberRole;
+  color?: string;
+}
+
+export class CreateMemberUseCase {
+  constructor(private memberRepository: IMemberRepository) {}
+
+  async execute(params: CreateMemberParams): Promise<Member> {
+    const member = Member.create(params);
+
+    const members = await this.memberRepository.findAll();
+    if (members.some(m => m.email === member.email)) {
+      throw new MemberError(`A member with email ${member.email} already exists`, 'DUPLICATE_EMAIL');
+    }
+
+    return this.memberRepository.create(member);
+  }
+}
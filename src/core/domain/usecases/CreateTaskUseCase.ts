@@ -1,5 +1,9 @@
-import { Task } from '../entities/Task';
+import { Task, TaskPriority, ChecklistItem, RecurrenceRule, TaskWorkflowStatus } from '../entities/Task';
 import { ITaskRepository } from '../repositories/ITaskRepository';
+import { taskDependencyUtils } from '../entities/taskUtils';
+import { TaskDependencyError } from '../errors/TaskDependencyError';
+import { IMemberRepository } from '../repositories/IMemberRepository';
+import { MemberError } from '../errors/MemberError';
 
 export interface CreateTaskParams {
   title: string;
@@ -8,12 +12,28 @@ export interface CreateTaskParams {
   pic?: string;
   startDate?: string;
   endDate?: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  checklist?: ChecklistItem[];
+  blockedBy?: string[];
+  recurrence?: RecurrenceRule | null;
+  status?: TaskWorkflowStatus;
 }
 
 export class CreateTaskUseCase {
-  constructor(private taskRepository: ITaskRepository) {}
+  /**
+   * @param memberRepository When given, the Person in Charge must be a member of the directory
+   */
+  constructor(
+    private taskRepository: ITaskRepository,
+    private memberRepository?: IMemberRepository
+  ) {}
 
   async execute(params: CreateTaskParams): Promise<Task> {
+    if (this.memberRepository && params.pic && !(await this.memberRepository.findById(params.pic))) {
+      throw new MemberError(`Person in Charge ${params.pic} is not in the member directory`, 'MEMBER_NOT_FOUND');
+    }
+
     // Create a new Task instance using the static create method
     const task = Task.create({
       title: params.title,
@@ -21,9 +41,24 @@ export class CreateTaskUseCase {
       completed: params.completed,
       pic: params.pic,
       startDate: params.startDate,
-      endDate: params.endDate
+      endDate: params.endDate,
+      priority: params.priority,
+      tags: params.tags,
+      checklist: params.checklist,
+      blockedBy: params.blockedBy,
+      recurrence: params.recurrence,
+      status: params.status
     });
-    
+
+    // A new task cannot close a cycle, but its blockers must exist
+    if (task.blockedBy.length > 0) {
+      const allTasks = await this.taskRepository.findAll();
+      const error = taskDependencyUtils.validateBlockers(task.id, task.blockedBy, allTasks);
+      if (error) {
+        throw new TaskDependencyError(error, task.blockedBy);
+      }
+    }
+
     return await this.taskRepository.create(task);
   }
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { IMemberRepository } from '../repositories/IMemberRepository';
+import { ITaskRepository } from '../repositories/ITaskRepository';
+import { MemberError } from '../errors/MemberError';
+
+export class DeleteMemberUseCase {
+  constructor(
+    private memberRepository: IMemberRepository,
+    private taskRepository: ITaskRepository
+  ) {}
+
+  /**
+   * Delete a member; refused while tasks are still assigned to them
+   */
+  async execute(id: string): Promise<void> {
+    const member = await this.memberRepository.findById(id);
+    if (!member) {
+      throw new MemberError(`Member with ID ${id} not found`, 'MEMBER_NOT_FOUND');
+    }
+
+    const tasks = await this.taskRepository.findAll();
+    const assignedCount = tasks.filter(task => task.pic === id).length;
+    if (assignedCount > 0) {
+      throw new MemberError(
+        `${member.name} is the Person in Charge of ${assignedCount} ${assignedCount === 1 ? 'task' : 'tasks'}; reassign them before removing this member`,
+        'MEMBER_IN_USE'
+      );
+    }
+
+    await this.memberRepository.delete(id);
+  }
+}
@@ -1,14 +1,40 @@
 import { ITaskRepository } from '../repositories/ITaskRepository';
+import { taskDependencyUtils } from '../entities/taskUtils';
+import { TaskDependencyError } from '../errors/TaskDependencyError';
+
+export interface DeleteTaskOptions {
+  // Unlink tasks that are blocked by this one instead of refusing the delete
+  removeDependencies?: boolean;
+}
 
 export class DeleteTaskUseCase {
   constructor(private taskRepository: ITaskRepository) {}
 
-  async execute(id: string): Promise<void> {
+  async execute(id: string, options: DeleteTaskOptions = {}): Promise<void> {
     const task = await this.taskRepository.findById(id);
     if (!task) {
       throw new Error('Task not found');
     }
-    
+
+    const allTasks = await this.taskRepository.findAll();
+    const dependents = taskDependencyUtils.getDependents(task, allTasks);
+
+    if (dependents.length > 0) {
+      if (!options.removeDependencies) {
+        const titles = dependents.map(dependent => `"${dependent.title}"`).join(', ');
+        throw new TaskDependencyError(
+          `Task "${task.title}" blocks ${titles}; remove those links before deleting it`,
+          dependents.map(dependent => dependent.id)
+        );
+      }
+
+      for (const dependent of dependents) {
+        dependent.blockedBy = dependent.blockedBy.filter(blockerId => blockerId !== id);
+        dependent.updatedAt = new Date();
+        await this.taskRepository.update(dependent);
+      }
+    }
+
     await this.taskRepository.delete(id);
   }
-}
\ No newline at end of file
+}
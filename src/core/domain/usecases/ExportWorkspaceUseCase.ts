@@ -0,0 +1,43 @@
+import {
+  WorkspaceBackup,
+  WorkspaceData,
+  WORKSPACE_BACKUP_APP,
+  WORKSPACE_BACKUP_VERSION,
+  computeWorkspaceChecksum
+} from '../entities/WorkspaceBackup';
+import { ITaskRepository } from '../repositories/ITaskRepository';
+import { IMemberRepository } from '../repositories/IMemberRepository';
+import { ITagRepository } from '../repositories/ITagRepository';
+
+export class ExportWorkspaceUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private memberRepository: IMemberRepository,
+    private tagRepository: ITagRepository
+  ) {}
+
+  /**
+   * Snapshot every task, member and tag, stamped with the format version and a checksum
+   */
+  async execute(): Promise<WorkspaceBackup> {
+    const [tasks, members, tags] = await Promise.all([
+      this.taskRepository.findAll(),
+      this.memberRepository.findAll(),
+      this.tagRepository.findAll()
+    ]);
+
+    const data: WorkspaceData = {
+      tasks: tasks.map(task => task.toJSON()),
+      members: members.map(member => member.toJSON()),
+      tags: tags.map(tag => ({ name: tag.name, color: tag.color }))
+    };
+
+    return {
+      app: WORKSPACE_BACKUP_APP,
+      version: WORKSPACE_BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      checksum: await computeWorkspaceChecksum(data),
+      data
+    };
+  }
+}
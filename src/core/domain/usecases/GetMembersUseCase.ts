@@ -0,0 +1,11 @@
+import { Member } from '../entities/Member';
+import { IMemberRepository } from '../repositories/IMemberRepository';
+
+export class GetMembersUseCase {
+  constructor(private memberRepository: IMemberRepository) {}
+
+  async execute(): Promise<Member[]> {
+    const members = await this.memberRepository.findAll();
+    return [...members].sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
@@ -0,0 +1,11 @@
+import { ITag } from '../entities/Tag';
+import { ITagRepository } from '../repositories/ITagRepository';
+
+export class GetTagsUseCase {
+  constructor(private tagRepository: ITagRepository) {}
+
+  async execute(): Promise<ITag[]> {
+    const tags = await this.tagRepository.findAll();
+    return [...tags].sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
@@ -0,0 +1,64 @@
+import { TaskFilters, TaskPage, TaskPaginationOptions, TaskSortOptions } from '../entities/Task';
+import { taskQueryUtils } from '../entities/taskUtils';
+import { ITaskRepository } from '../repositories/ITaskRepository';
+import { IMemberRepository } from '../repositories/IMemberRepository';
+import { buildPicLabels } from '../entities/Member';
+
+export class GetTaskPageUseCase {
+  /**
+   * @param memberRepository Lets searching and sorting by Person in Charge use member names
+   */
+  constructor(
+    private taskRepository: ITaskRepository,
+    private memberRepository?: IMemberRepository
+  ) {}
+
+  async execute(
+    filters: TaskFilters = {},
+    sortOptions?: TaskSortOptions,
+    pagination?: TaskPaginationOptions
+  ): Promise<TaskPage> {
+    // Tasks only store member IDs, so name-based queries are answered in memory
+    const needsPicLabels = !!this.memberRepository &&
+      (sortOptions?.sortBy === 'pic' || !!filters.searchQuery);
+
+    // Prefer the repository's own querying when it supports it
+    if (!needsPicLabels && this.taskRepository.findByFilters && this.taskRepository.count) {
+      const [tasks, total] = await Promise.all([
+        this.taskRepository.findByFilters(filters, sortOptions, pagination),
+        this.taskRepository.count(filters)
+      ]);
+
+      return {
+        tasks,
+        pagination: taskQueryUtils.getPaginationInfo(total, pagination)
+      };
+    }
+
+    // Fall back to querying in memory
+    const [allTasks, members] = await Promise.all([
+      this.taskRepository.findAll(),
+      this.memberRepository ? this.memberRepository.findAll() : Promise.resolve([])
+    ]);
+    const matchingTasks = taskQueryUtils.applyQuery(allTasks, filters, sortOptions, buildPicLabels(members));
+
+    return {
+      tasks: taskQueryUtils.paginate(matchingTasks, pagination),
+      pagination: taskQueryUtils.getPaginationInfo(matchingTasks.length, pagination)
+    };
+  }
+
+  /**
+   * Number of tasks matching the filters, counted by the repository when it can
+   */
+  async count(filters: TaskFilters = {}): Promise<number> {
+    const needsPicLabels = !!this.memberRepository && !!filters.searchQuery;
+
+    if (!needsPicLabels && this.taskRepository.count) {
+      return this.taskRepository.count(filters);
+    }
+
+    const page = await this.execute(filters, undefined, { page: 1, limit: 1 });
+    return page.pagination.total;
+  }
+}
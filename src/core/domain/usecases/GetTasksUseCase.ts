@@ -1,4 +1,5 @@
 import { Task } from '../entities/Task';
+import { taskQueryUtils } from '../entities/taskUtils';
 import { ITaskRepository } from '../repositories/ITaskRepository';
 
 export class GetTasksUseCase {
@@ -8,4 +9,45 @@ export class GetTasksUseCase {
     // Repository now returns Task instances directly, no need to map
     return await this.taskRepository.findAll();
   }
-}
\ No newline at end of file
+
+  /**
+   * Look tasks up one by one, without loading the whole list. Unknown IDs are skipped.
+   */
+  async executeByIds(ids: string[]): Promise<Task[]> {
+    const tasks = await Promise.all(Array.from(new Set(ids)).map(id => this.taskRepository.findById(id)));
+    return tasks.filter((task): task is Task => task !== null);
+  }
+
+  /**
+   * Tasks blocked by any of the given tasks
+   */
+  async executeDependents(ids: string[]): Promise<Task[]> {
+    if (ids.length === 0) return [];
+
+    const filters = { blockedBy: ids };
+    if (this.taskRepository.findByFilters) {
+      return this.taskRepository.findByFilters(filters);
+    }
+    return taskQueryUtils.applyQuery(await this.taskRepository.findAll(), filters);
+  }
+
+  /**
+   * The blockers and dependents of the given tasks that are not among them,
+   * so a partial list can still show how its tasks depend on others
+   */
+  async executeRelated(tasks: Task[]): Promise<Task[]> {
+    const knownIds = new Set(tasks.map(task => task.id));
+    const missingBlockerIds = tasks.flatMap(task => task.blockedBy).filter(id => !knownIds.has(id));
+
+    const [blockers, dependents] = await Promise.all([
+      this.executeByIds(missingBlockerIds),
+      this.executeDependents(Array.from(knownIds))
+    ]);
+
+    const related = new Map<string, Task>();
+    [...blockers, ...dependents]
+      .filter(task => !knownIds.has(task.id))
+      .forEach(task => related.set(task.id, task));
+    return Array.from(related.values());
+  }
+}
@@ -0,0 +1,24 @@
+import { ITag, getDefaultTagColor, isSameTag, normalizeTaskTags } from '../entities/Tag';
+import { ITagRepository } from '../repositories/ITagRepository';
+
+export class RegisterTagsUseCase {
+  constructor(private tagRepository: ITagRepository) {}
+
+  /**
+   * Add any tag names missing from the registry with a default color.
+   * Returns the newly registered tags.
+   */
+  async execute(names: string[]): Promise<ITag[]> {
+    const existing = await this.tagRepository.findAll();
+    const missing = normalizeTaskTags(names).filter(
+      name => !existing.some(tag => isSameTag(tag.name, name))
+    );
+
+    const registered: ITag[] = [];
+    for (const name of missing) {
+      registered.push(await this.tagRepository.save({ name, color: getDefaultTagColor(name) }));
+    }
+
+    return registered;
+  }
+}
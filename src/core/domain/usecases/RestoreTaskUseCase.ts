@@ -0,0 +1,22 @@
+import { Task } from '../entities/Task';
+import { ITaskRepository } from '../repositories/ITaskRepository';
+
+export class RestoreTaskUseCase {
+  constructor(private taskRepository: ITaskRepository) {}
+
+  /**
+   * Put a previously deleted task back, keeping its original ID and timestamps
+   */
+  async execute(task: Task): Promise<Task> {
+    if (this.taskRepository.restore) {
+      return this.taskRepository.restore(task);
+    }
+
+    const existing = await this.taskRepository.findById(task.id);
+    if (existing) {
+      throw new Error(`Task with ID ${task.id} already exists`);
+    }
+
+    return this.taskRepository.create(task);
+  }
+}
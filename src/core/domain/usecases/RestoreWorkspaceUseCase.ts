@@ -0,0 +1,139 @@
+import { Task, TaskWorkflow, DEFAULT_TASK_WORKFLOW } from '../entities/Task';
+import { Member } from '../entities/Member';
+import { isSameTag } from '../entities/Tag';
+import {
+  WorkspaceBackup,
+  WorkspaceData,
+  WorkspaceDiff,
+  WorkspaceRestoreMode,
+  diffWorkspace
+} from '../entities/WorkspaceBackup';
+import { ITaskRepository } from '../repositories/ITaskRepository';
+import { IMemberRepository } from '../repositories/IMemberRepository';
+import { ITagRepository } from '../repositories/ITagRepository';
+import { DeleteTaskUseCase } from './DeleteTaskUseCase';
+import { ExportWorkspaceUseCase } from './ExportWorkspaceUseCase';
+import { UpdateTaskUseCase, toUpdateTaskParams } from './UpdateTaskUseCase';
+
+export class RestoreWorkspaceUseCase {
+  /**
+   * @param workflow Statuses a restored task may move to are the ones this workflow can reach
+   */
+  constructor(
+    private taskRepository: ITaskRepository,
+    private memberRepository: IMemberRepository,
+    private tagRepository: ITagRepository,
+    private workflow: TaskWorkflow = DEFAULT_TASK_WORKFLOW
+  ) {}
+
+  /**
+   * What `execute` would change, without changing anything
+   */
+  async preview(backup: WorkspaceBackup, mode: WorkspaceRestoreMode): Promise<WorkspaceDiff> {
+    const current = await this.getCurrentData();
+    return diffWorkspace(current, this.matchMembers(current, backup.data), mode);
+  }
+
+  /**
+   * Write the backup's tasks, members and tags over the current ones, keeping
+   * their IDs and timestamps. Merge leaves everything else alone; replace
+   * deletes tasks and members that are not in the backup.
+   */
+  async execute(backup: WorkspaceBackup, mode: WorkspaceRestoreMode): Promise<WorkspaceDiff> {
+    const current = await this.getCurrentData();
+    const data = this.matchMembers(current, backup.data);
+    const diff = diffWorkspace(current, data, mode);
+
+    // Members first so restored tasks can point at them; storage that assigns
+    // its own IDs gets the tasks remapped to those
+    const currentMembers = new Map(current.members.map(member => [member.id, member]));
+    const newMemberIds = new Map<string, string>(); // ID in the backup -> ID in storage
+    for (const item of data.members) {
+      const member = Member.fromJSON(item);
+      const existing = currentMembers.get(member.id);
+      if (!existing) {
+        const saved = await this.memberRepository.create(member);
+        if (saved.id !== member.id) newMemberIds.set(member.id, saved.id);
+      } else if (JSON.stringify(existing) !== JSON.stringify(member.toJSON())) {
+        await this.memberRepository.update(member);
+      }
+    }
+
+    const currentTasks = new Map(current.tasks.map(task => [task.id, task]));
+    const tasks = data.tasks.map(item => Task.fromJSON({
+      ...item,
+      pic: item.pic ? newMemberIds.get(item.pic) || item.pic : item.pic
+    }));
+
+    // New tasks go in before existing ones are updated, so every blocker exists by then
+    for (const task of tasks.filter(task => !currentTasks.has(task.id))) {
+      if (this.taskRepository.restore) {
+        await this.taskRepository.restore(task);
+      } else {
+        await this.taskRepository.create(task);
+      }
+    }
+
+    // Existing tasks are replaced through the same checks as edits, except that the
+    // status may jump to any status the workflow can reach
+    const updateTaskUseCase = new UpdateTaskUseCase(this.taskRepository, this.memberRepository, this.workflow);
+    for (const task of tasks.filter(task => currentTasks.has(task.id))) {
+      if (JSON.stringify(currentTasks.get(task.id)) !== JSON.stringify(task.toJSON())) {
+        await updateTaskUseCase.execute(task.id, {
+          ...toUpdateTaskParams(task),
+          createdAt: task.createdAt,
+          updatedAt: task.updatedAt,
+          completedAt: task.completedAt
+        }, { replace: true });
+      }
+    }
+
+    if (mode === 'replace') {
+      const deleteTaskUseCase = new DeleteTaskUseCase(this.taskRepository);
+      const backupTaskIds = new Set(tasks.map(task => task.id));
+      for (const task of current.tasks.filter(task => !backupTaskIds.has(task.id))) {
+        await deleteTaskUseCase.execute(task.id, { removeDependencies: true });
+      }
+
+      const backupMemberIds = new Set(data.members.map(member => member.id));
+      for (const member of current.members.filter(member => !backupMemberIds.has(member.id))) {
+        await this.memberRepository.delete(member.id);
+      }
+    }
+
+    for (const tag of data.tags) {
+      const existing = current.tags.find(candidate => isSameTag(candidate.name, tag.name));
+      if (!existing || existing.color !== tag.color) {
+        await this.tagRepository.save(tag);
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * A backup member whose email is already in the directory under another ID
+   * takes that ID, and their tasks follow, so restoring never duplicates people
+   */
+  private matchMembers(current: WorkspaceData, data: WorkspaceData): WorkspaceData {
+    const matchedIds = new Map<string, string>();
+    data.members.forEach(member => {
+      if (current.members.some(candidate => candidate.id === member.id)) return;
+      const match = current.members.find(candidate => candidate.email.toLowerCase() === member.email.toLowerCase());
+      if (match) matchedIds.set(member.id, match.id);
+    });
+
+    if (matchedIds.size === 0) return data;
+
+    return {
+      ...data,
+      members: data.members.map(member => ({ ...member, id: matchedIds.get(member.id) || member.id })),
+      tasks: data.tasks.map(task => task.pic && matchedIds.has(task.pic) ? { ...task, pic: matchedIds.get(task.pic) } : task)
+    };
+  }
+
+  private async getCurrentData(): Promise<WorkspaceData> {
+    const snapshot = await new ExportWorkspaceUseCase(this.taskRepository, this.memberRepository, this.tagRepository).execute();
+    return snapshot.data;
+  }
+}
@@ -0,0 +1,15 @@
+import { ITag, normalizeTagName } from '../entities/Tag';
+import { ITagRepository } from '../repositories/ITagRepository';
+
+export class SaveTagUseCase {
+  constructor(private tagRepository: ITagRepository) {}
+
+  async execute(tag: ITag): Promise<ITag> {
+    const name = normalizeTagName(tag.name);
+    if (!name) {
+      throw new Error('Tag name is required');
+    }
+
+    return this.tagRepository.save({ name, color: tag.color });
+  }
+}
@@ -0,0 +1,36 @@
+import { Member } from '../entities/Member';
+import { IMemberRepository } from '../repositories/IMemberRepository';
+import { MemberError } from '../errors/MemberError';
+
+export type UpdateMemberParams = Partial<Pick<Member, 'name' | 'email' | 'role' | 'color'>>;
+
+export class UpdateMemberUseCase {
+  constructor(private memberRepository: IMemberRepository) {}
+
+  async execute(id: string, params: UpdateMemberParams): Promise<Member> {
+    const member = await this.memberRepository.findById(id);
+    if (!member) {
+      throw new MemberError(`Member with ID ${id} not found`, 'MEMBER_NOT_FOUND');
+    }
+
+    const email = params.email?.trim().toLowerCase();
+    if (email && email !== member.email) {
+      const members = await this.memberRepository.findAll();
+      if (members.some(m => m.id !== id && m.email === email)) {
+        throw new MemberError(`A member with email ${email} already exists`, 'DUPLICATE_EMAIL');
+      }
+    }
+
+    const updatedMember = new Member(
+      member.id,
+      params.name?.trim() || member.name,
+      email || member.email,
+      params.role ?? member.role,
+      params.color ?? member.color,
+      member.createdAt,
+      new Date()
+    );
+
+    return this.memberRepository.update(updatedMember);
+  }
+}
@@ -1,10 +1,68 @@
-import { Task } from '../entities/Task';
-import { ITaskRepository } from '../repositories/ITaskRepository';
+import { Task, TaskWorkflow, DEFAULT_TASK_WORKFLOW } from '../entities/Task';
+import { ITaskRepository, TaskUpdateOptions } from '../repositories/ITaskRepository';
+import { taskDependencyUtils, taskRecurrenceUtils, taskWorkflowUtils } from '../entities/taskUtils';
+import { TaskDependencyError } from '../errors/TaskDependencyError';
+import { TaskWorkflowError } from '../errors/TaskWorkflowError';
+import { IMemberRepository } from '../repositories/IMemberRepository';
+import { MemberError } from '../errors/MemberError';
+
+export type UpdateTaskParams = Partial<Pick<Task, 'title' | 'description' | 'completed' | 'pic' | 'startDate' | 'endDate' | 'priority' | 'tags' | 'checklist' | 'blockedBy' | 'recurrence' | 'status'>>;
+
+// A saved copy of a task: its editable fields plus the timestamps a replace writes back
+export type ReplaceTaskParams = UpdateTaskParams & Partial<Pick<Task, 'createdAt' | 'updatedAt' | 'completedAt'>>;
+
+// Editable fields of a task, used to put it back the way it was
+export const toUpdateTaskParams = (task: Task): UpdateTaskParams => ({
+  title: task.title,
+  description: task.description,
+  completed: task.completed,
+  pic: task.pic,
+  startDate: task.startDate,
+  endDate: task.endDate,
+  priority: task.priority,
+  tags: [...task.tags],
+  checklist: task.checklist.map(item => ({ ...item })),
+  blockedBy: [...task.blockedBy],
+  recurrence: task.recurrence ? { ...task.recurrence } : null,
+  status: task.status
+});
+
+export interface UpdateTaskResult {
+  task: Task;
+  // Created when completing a recurring task
+  nextOccurrence: Task | null;
+}
 
 export class UpdateTaskUseCase {
-  constructor(private taskRepository: ITaskRepository) {}
+  /**
+   * @param memberRepository When given, a new Person in Charge must be a member of the directory
+   * @param workflow Allowed status transitions
+   */
+  constructor(
+    private taskRepository: ITaskRepository,
+    private memberRepository?: IMemberRepository,
+    private workflow: TaskWorkflow = DEFAULT_TASK_WORKFLOW
+  ) {}
+
+  async execute(id: string, params: ReplaceTaskParams, options: TaskUpdateOptions = {}): Promise<Task> {
+    const { task } = await this.executeWithOccurrence(id, params, options);
+    return task;
+  }
 
-  async execute(id: string, params: Partial<Pick<Task, 'title' | 'description' | 'completed' | 'pic' | 'startDate' | 'endDate'>>): Promise<Task> {
+  /**
+   * Update a task, spawning the next occurrence when a recurring task is completed.
+   * The recurrence rule moves to the new occurrence, so re-completing the old task
+   * (or replaying the update against another repository) never spawns twice.
+   * A revert (undo) never spawns an occurrence, and may only move the status
+   * back along a transition the workflow allows in the other direction.
+   * A replace (workspace restore) never spawns one either; it may move to any
+   * status the workflow can reach and also writes back the given timestamps.
+   */
+  async executeWithOccurrence(
+    id: string,
+    params: ReplaceTaskParams,
+    options: TaskUpdateOptions = {}
+  ): Promise<UpdateTaskResult> {
     try {
       console.log('UpdateTaskUseCase: Attempting to update task with ID:', id);
       console.log('UpdateTaskUseCase: Update parameters:', params);
@@ -56,7 +114,14 @@ export class UpdateTaskUseCase {
         new Date(task.updatedAt),
         task.pic,
         task.startDate,
-        task.endDate
+        task.endDate,
+        task.priority,
+        [...task.tags],
+        task.checklist.map(item => ({ ...item })),
+        [...task.blockedBy],
+        task.recurrence ? { ...task.recurrence } : null,
+        task.status,
+        task.completedAt ? new Date(task.completedAt) : null
       );
 
       // Update fields as needed
@@ -74,14 +139,35 @@ export class UpdateTaskUseCase {
         hasChanges = true;
       }
 
-      if (params.completed !== undefined && params.completed !== taskToUpdate.completed) {
-        console.log('UpdateTaskUseCase: Toggling completed from', taskToUpdate.completed, 'to', params.completed);
-        taskToUpdate.toggleCompleted();
+      // An explicit status wins over the legacy completed flag
+      const nextStatus = params.status
+        ?? (params.completed !== undefined
+          ? taskWorkflowUtils.getStatusForCompleted(taskToUpdate.status, params.completed)
+          : undefined);
+
+      if (nextStatus !== undefined && nextStatus !== taskToUpdate.status) {
+        console.log('UpdateTaskUseCase: Updating status from', taskToUpdate.status, 'to', nextStatus);
+        const isAllowed = options.replace
+          ? taskWorkflowUtils.canReach(taskToUpdate.status, nextStatus, this.workflow)
+          : options.revert
+            ? taskWorkflowUtils.canTransition(nextStatus, taskToUpdate.status, this.workflow)
+            : taskWorkflowUtils.canTransition(taskToUpdate.status, nextStatus, this.workflow);
+        if (!isAllowed) {
+          throw new TaskWorkflowError(
+            `Cannot move a task from ${taskWorkflowUtils.getLabel(taskToUpdate.status)} to ${taskWorkflowUtils.getLabel(nextStatus)}`,
+            taskToUpdate.status,
+            nextStatus
+          );
+        }
+        taskToUpdate.updateStatus(nextStatus);
         hasChanges = true;
       }
 
       if (params.pic !== undefined && params.pic !== taskToUpdate.pic) {
         console.log('UpdateTaskUseCase: Updating pic from', taskToUpdate.pic, 'to', params.pic);
+        if (this.memberRepository && params.pic && !(await this.memberRepository.findById(params.pic))) {
+          throw new MemberError(`Person in Charge ${params.pic} is not in the member directory`, 'MEMBER_NOT_FOUND');
+        }
         taskToUpdate.pic = params.pic;
         taskToUpdate.updatedAt = new Date();
         hasChanges = true;
@@ -101,25 +187,96 @@ export class UpdateTaskUseCase {
         hasChanges = true;
       }
 
+      if (params.priority !== undefined && params.priority !== taskToUpdate.priority) {
+        console.log('UpdateTaskUseCase: Updating priority from', taskToUpdate.priority, 'to', params.priority);
+        taskToUpdate.priority = params.priority;
+        taskToUpdate.updatedAt = new Date();
+        hasChanges = true;
+      }
+
+      if (params.tags !== undefined && params.tags.join('\n') !== taskToUpdate.tags.join('\n')) {
+        console.log('UpdateTaskUseCase: Updating tags from', taskToUpdate.tags, 'to', params.tags);
+        taskToUpdate.tags = [...params.tags];
+        taskToUpdate.updatedAt = new Date();
+        hasChanges = true;
+      }
+
+      if (params.checklist !== undefined && JSON.stringify(params.checklist) !== JSON.stringify(taskToUpdate.checklist)) {
+        console.log('UpdateTaskUseCase: Updating checklist from', taskToUpdate.checklist.length, 'to', params.checklist.length, 'items');
+        taskToUpdate.checklist = params.checklist.map(item => ({ ...item }));
+        taskToUpdate.updatedAt = new Date();
+        hasChanges = true;
+      }
+
+      if (params.blockedBy !== undefined && params.blockedBy.join('\n') !== taskToUpdate.blockedBy.join('\n')) {
+        console.log('UpdateTaskUseCase: Updating blockedBy from', taskToUpdate.blockedBy, 'to', params.blockedBy);
+        const allTasks = await this.taskRepository.findAll();
+        const dependencyError = taskDependencyUtils.validateBlockers(task.id, params.blockedBy, allTasks);
+        if (dependencyError) {
+          throw new TaskDependencyError(dependencyError, params.blockedBy);
+        }
+        taskToUpdate.blockedBy = [...params.blockedBy];
+        taskToUpdate.updatedAt = new Date();
+        hasChanges = true;
+      }
+
+      if (params.recurrence !== undefined && JSON.stringify(params.recurrence) !== JSON.stringify(taskToUpdate.recurrence)) {
+        console.log('UpdateTaskUseCase: Updating recurrence from', taskToUpdate.recurrence, 'to', params.recurrence);
+        taskToUpdate.recurrence = params.recurrence ? { ...params.recurrence } : null;
+        taskToUpdate.updatedAt = new Date();
+        hasChanges = true;
+      }
+
+      // A replace keeps the saved copy's timestamps instead of the time of this update
+      if (options.replace) {
+        const sameTime = (a: Date | null | undefined, b: Date | null) => (a ? a.getTime() : null) === (b ? b.getTime() : null);
+        if (params.createdAt && !sameTime(params.createdAt, taskToUpdate.createdAt)) {
+          taskToUpdate.createdAt = new Date(params.createdAt);
+          hasChanges = true;
+        }
+        if (taskToUpdate.completed && params.completedAt && !sameTime(params.completedAt, taskToUpdate.completedAt)) {
+          taskToUpdate.completedAt = new Date(params.completedAt);
+          hasChanges = true;
+        }
+        if (params.updatedAt && !sameTime(params.updatedAt, taskToUpdate.updatedAt)) {
+          taskToUpdate.updatedAt = new Date(params.updatedAt);
+          hasChanges = true;
+        }
+      }
+
+      // Completing a recurring task hands its rule on to the next occurrence
+      const isBeingCompleted = !task.completed && taskToUpdate.completed && !options.revert && !options.replace;
+      const nextDates = isBeingCompleted ? taskRecurrenceUtils.getNextOccurrence(taskToUpdate) : null;
+      const recurrence = taskRecurrenceUtils.getRuleForNextOccurrence(taskToUpdate);
+      if (nextDates) {
+        taskToUpdate.recurrence = null;
+      }
+
       // If no changes detected, return the original task as Task instance
       if (!hasChanges) {
         console.log('UpdateTaskUseCase: No changes detected, returning original task');
-        return task; // This should now be a Task instance, not ITask
+        return { task, nextOccurrence: null }; // This should now be a Task instance, not ITask
       }
 
       console.log('UpdateTaskUseCase: Saving updated task:', {
         id: taskToUpdate.id,
         title: taskToUpdate.title,
         description: taskToUpdate.description,
+        status: taskToUpdate.status,
         completed: taskToUpdate.completed,
         pic: taskToUpdate.pic,
         startDate: taskToUpdate.startDate,
         endDate: taskToUpdate.endDate,
+        priority: taskToUpdate.priority,
+        tags: taskToUpdate.tags,
+        checklist: taskToUpdate.checklist,
+        blockedBy: taskToUpdate.blockedBy,
+        recurrence: taskToUpdate.recurrence,
         hasChanges
       });
 
       // Save the updated task
-      const result = await this.taskRepository.update(taskToUpdate);
+      const result = await this.taskRepository.update(taskToUpdate, options);
       
       console.log('UpdateTaskUseCase: Task updated successfully:', {
         id: result.id,
@@ -128,7 +285,32 @@ export class UpdateTaskUseCase {
         updatedAt: result.updatedAt
       });
 
-      return result;
+      let nextOccurrence: Task | null = null;
+      if (nextDates && recurrence) {
+        const occurrence = Task.create({
+          title: result.title,
+          description: result.description,
+          pic: result.pic,
+          startDate: nextDates.startDate,
+          endDate: nextDates.endDate,
+          priority: result.priority,
+          tags: result.tags,
+          checklist: result.checklist.map(item => ({ ...item, completed: false })),
+          recurrence
+        });
+        // Saved like a restored task: the next occurrence may be due today or have
+        // no Person in Charge, which the API's validation of new tasks rejects
+        nextOccurrence = this.taskRepository.restore
+          ? await this.taskRepository.restore(occurrence)
+          : await this.taskRepository.create(occurrence);
+        console.log('UpdateTaskUseCase: Created next occurrence:', {
+          id: nextOccurrence.id,
+          startDate: nextOccurrence.startDate,
+          endDate: nextOccurrence.endDate
+        });
+      }
+
+      return { task: result, nextOccurrence };
       
     } catch (error) {
       console.error('UpdateTaskUseCase: Error updating task:', error);
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DEFAULT_TASK_WORKFLOW, Task } from '@/core/domain/entities/Task';
+import { Member } from '@/core/domain/entities/Member';
+import { TaskWorkflowError } from '@/core/domain/errors/TaskWorkflowError';
+import { FileTaskRepository } from '@/infrastructure/repositories/FileTaskRepository';
+import { FileMemberRepository } from '@/infrastructure/repositories/FileMemberRepository';
+import { FileTagRepository } from '@/infrastructure/repositories/FileTagRepository';
+import { ExportWorkspaceUseCase } from '../ExportWorkspaceUseCase';
+import { RestoreWorkspaceUseCase } from '../RestoreWorkspaceUseCase';
+
+describe('RestoreWorkspaceUseCase', () => {
+  let dataDir: string;
+  let taskRepository: FileTaskRepository;
+  let memberRepository: FileMemberRepository;
+  let tagRepository: FileTagRepository;
+  let member: Member;
+  let report: Task;
+  let review: Task;
+
+  const exportWorkspace = () =>
+    new ExportWorkspaceUseCase(taskRepository, memberRepository, tagRepository).execute();
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-restore-'));
+    taskRepository = new FileTaskRepository(path.join(dataDir, 'tasks.json'));
+    memberRepository = new FileMemberRepository(path.join(dataDir, 'members.json'));
+    tagRepository = new FileTagRepository(path.join(dataDir, 'tags.json'));
+
+    member = await memberRepository.create(Member.create({ name: 'Ann Lee', email: 'ann@example.com' }));
+    await tagRepository.save({ name: 'finance', color: '#2563eb' });
+    report = await taskRepository.create(new Task(
+      'task-report', 'Write the report', '', false,
+      new Date('2024-01-01T00:00:00Z'), new Date('2024-01-02T00:00:00Z'),
+      member.id, '2024-02-01', '2024-02-05', 'high', ['finance']
+    ));
+    review = await taskRepository.create(new Task(
+      'task-review', 'Review the report', '', false,
+      new Date('2024-01-03T00:00:00Z'), new Date('2024-01-03T00:00:00Z'),
+      member.id, '2024-02-06', '2024-02-07', 'medium', [], [], ['task-report'], null, 'in_review'
+    ));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('puts changed and deleted tasks back as they were in the backup', async () => {
+    const backup = await exportWorkspace();
+
+    const edited = await taskRepository.findById(report.id) as Task;
+    edited.updateTitle('Rewritten report');
+    edited.updateStatus('in_progress');
+    await taskRepository.update(edited);
+    await taskRepository.delete(review.id);
+    await taskRepository.create(Task.create({ title: 'Added after the backup' }));
+
+    const restore = new RestoreWorkspaceUseCase(taskRepository, memberRepository, tagRepository);
+    expect((await restore.preview(backup, 'replace')).tasks).toEqual({ added: 1, updated: 1, unchanged: 0, removed: 1 });
+
+    await restore.execute(backup, 'replace');
+
+    const current = await exportWorkspace();
+    expect(current.data.tasks).toEqual(backup.data.tasks);
+    expect((await restore.preview(backup, 'replace')).tasks).toEqual({ added: 0, updated: 0, unchanged: 2, removed: 0 });
+  });
+
+  it('keeps tasks missing from the backup when merging', async () => {
+    const backup = await exportWorkspace();
+    const added = await taskRepository.create(Task.create({ title: 'Added after the backup' }));
+
+    await new RestoreWorkspaceUseCase(taskRepository, memberRepository, tagRepository).execute(backup, 'merge');
+
+    expect(await taskRepository.findById(added.id)).not.toBeNull();
+    expect(await taskRepository.findById(review.id)).not.toBeNull();
+  });
+
+  it('moves a task to a status several workflow steps away', async () => {
+    const backup = await exportWorkspace();
+    const reopened = await taskRepository.findById(review.id) as Task;
+    reopened.updateStatus('todo');
+    await taskRepository.update(reopened);
+
+    await new RestoreWorkspaceUseCase(taskRepository, memberRepository, tagRepository).execute(backup, 'merge');
+
+    expect((await taskRepository.findById(review.id))?.status).toBe('in_review');
+  });
+
+  it('refuses a status the workflow cannot reach', async () => {
+    const backup = await exportWorkspace();
+    const closed = await taskRepository.findById(review.id) as Task;
+    closed.updateStatus('cancelled');
+    await taskRepository.update(closed);
+
+    const workflow = { transitions: { ...DEFAULT_TASK_WORKFLOW.transitions, cancelled: [] } };
+    const restore = new RestoreWorkspaceUseCase(taskRepository, memberRepository, tagRepository, workflow);
+
+    await expect(restore.execute(backup, 'merge')).rejects.toThrow(TaskWorkflowError);
+    expect((await taskRepository.findById(review.id))?.status).toBe('cancelled');
+  });
+
+  it('reuses a member already in the directory under another ID', async () => {
+    const backup = await exportWorkspace();
+    await memberRepository.delete(member.id);
+    const sameEmail = await memberRepository.create(Member.create({ name: 'Ann Lee', email: 'ANN@example.com' }));
+
+    await new RestoreWorkspaceUseCase(taskRepository, memberRepository, tagRepository).execute(backup, 'merge');
+
+    expect((await memberRepository.findAll()).map(candidate => candidate.id)).toEqual([sameEmail.id]);
+    expect((await taskRepository.findById(report.id))?.pic).toBe(sameEmail.id);
+  });
+});
@@ -0,0 +1,82 @@
+import { ITask, Task } from '@/core/domain/entities/Task';
+import { IMember, Member } from '@/core/domain/entities/Member';
+import {
+  WorkspaceBackup,
+  WorkspaceData,
+  WORKSPACE_BACKUP_APP,
+  WORKSPACE_BACKUP_VERSION,
+  computeWorkspaceChecksum
+} from '@/core/domain/entities/WorkspaceBackup';
+import { WorkspaceBackupError } from '@/core/domain/errors/WorkspaceBackupError';
+import { getValidationErrorMessage } from '@/core/application/dto/CreateTaskDTO';
+import { workspaceBackupHeaderSchema, workspaceDataSchema } from '@/core/application/dto/WorkspaceBackupDTO';
+
+// A backup ready to download
+export interface BackupFile {
+  blob: Blob;
+  filename: string;
+}
+
+/**
+ * Reads and writes workspace backups as JSON files. Reading checks the
+ * format version and checksum before trusting any of the contents.
+ */
+export class JsonWorkspaceBackupFile {
+  write(backup: WorkspaceBackup): BackupFile {
+    const timestamp = backup.exportedAt.slice(0, 19).replace(/[:\-T]/g, '');
+    return {
+      blob: new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }),
+      filename: `task-manager-backup-${timestamp}.json`
+    };
+  }
+
+  async read(text: string): Promise<WorkspaceBackup> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new WorkspaceBackupError('The file is not valid JSON', 'INVALID_BACKUP');
+    }
+
+    const header = workspaceBackupHeaderSchema.safeParse(parsed);
+    if (!header.success) {
+      throw new WorkspaceBackupError('This file is not a Task Manager backup', 'INVALID_BACKUP');
+    }
+
+    if (header.data.version > WORKSPACE_BACKUP_VERSION) {
+      throw new WorkspaceBackupError(
+        `This backup was made by a newer version of the app (format ${header.data.version}); update the app before restoring it`,
+        'UNSUPPORTED_VERSION'
+      );
+    }
+
+    // Hash the data exactly as it appears in the file, before validation normalizes it
+    const rawData = (parsed as { data: WorkspaceData }).data;
+    if (await computeWorkspaceChecksum(rawData) !== header.data.checksum) {
+      throw new WorkspaceBackupError(
+        'The backup checksum does not match its contents; the file may be damaged or edited',
+        'CHECKSUM_MISMATCH'
+      );
+    }
+
+    const data = workspaceDataSchema.safeParse(rawData);
+    if (!data.success) {
+      throw new WorkspaceBackupError(
+        `The backup contains invalid data: ${getValidationErrorMessage(data.error)}`,
+        'INVALID_BACKUP'
+      );
+    }
+
+    return {
+      app: WORKSPACE_BACKUP_APP,
+      version: WORKSPACE_BACKUP_VERSION,
+      exportedAt: header.data.exportedAt,
+      checksum: header.data.checksum,
+      data: {
+        tasks: data.data.tasks.map(task => Task.fromJSON(task as ITask).toJSON()),
+        members: data.data.members.map(member => Member.fromJSON(member as IMember).toJSON()),
+        tags: data.data.tags.map(tag => ({ name: tag.name, color: tag.color }))
+      }
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { TaskWorkflow, DEFAULT_TASK_WORKFLOW, normalizeTaskWorkflow } from '@/core/domain/entities/Task';
+
+let cachedWorkflow: TaskWorkflow | null = null;
+
+/**
+ * Allowed status transitions, shared by the browser and the API routes.
+ * Override them with NEXT_PUBLIC_TASK_WORKFLOW, a JSON object such as
+ * {"transitions":{"todo":["in_progress"],"in_progress":["in_review","todo"]}};
+ * statuses it leaves out keep the default transitions.
+ */
+export const getTaskWorkflow = (): TaskWorkflow => {
+  if (cachedWorkflow) return cachedWorkflow;
+
+  const config = process.env.NEXT_PUBLIC_TASK_WORKFLOW;
+  if (!config) {
+    cachedWorkflow = DEFAULT_TASK_WORKFLOW;
+    return cachedWorkflow;
+  }
+
+  try {
+    cachedWorkflow = normalizeTaskWorkflow(JSON.parse(config));
+  } catch (error) {
+    console.error('Invalid NEXT_PUBLIC_TASK_WORKFLOW, using the default workflow:', error);
+    cachedWorkflow = DEFAULT_TASK_WORKFLOW;
+  }
+
+  return cachedWorkflow;
+};
@@ -0,0 +1,73 @@
+import { ChecklistItem, ITask, Task } from '@/core/domain/entities/Task';
+import { Member, buildPicLabels } from '@/core/domain/entities/Member';
+import { CSV_BOM, formatCsv } from './csvFormat';
+
+// A generated CSV file, left to the caller to download or upload
+export interface CsvExport {
+  blob: Blob;
+  filename: string;
+}
+
+export interface ICsvTaskExporter {
+  exportTasks(tasks: Task[], members?: Member[]): CsvExport;
+}
+
+interface CsvColumn {
+  header: string;
+  value: (task: ITask) => string;
+}
+
+/**
+ * Checklist items, one per line, e.g. "[x] Write tests"
+ */
+const formatChecklistCell = (checklist: ChecklistItem[] = []): string => {
+  return checklist.map(item => `${item.completed ? '[x]' : '[ ]'} ${item.title}`).join('\n');
+};
+
+/**
+ * Writes every task field to a UTF-8 CSV that spreadsheets open directly and
+ * the CSV importer reads back. Headers are the task field names; lists are
+ * comma separated (tags cannot contain commas), checklists use one line per
+ * item and repeat rules are JSON.
+ */
+export class CsvTaskExporter implements ICsvTaskExporter {
+  exportTasks(tasks: Task[], members: Member[] = []): CsvExport {
+    const picLabels = buildPicLabels(members);
+    const columns = this.getColumns(picLabels);
+
+    const rows = tasks.map(task => {
+      const data = task.toJSON();
+      return columns.map(column => column.value(data));
+    });
+    const csv = formatCsv([columns.map(column => column.header), ...rows]);
+
+    const timestamp = new Date().toISOString().slice(0, 19).replace(/[:\-T]/g, '');
+    return {
+      blob: new Blob([CSV_BOM + csv], { type: 'text/csv;charset=utf-8' }),
+      filename: `task-manager-tasks-${timestamp}.csv`
+    };
+  }
+
+  private getColumns(picLabels: Map<string, string>): CsvColumn[] {
+    return [
+      { header: 'id', value: task => task.id },
+      { header: 'title', value: task => task.title },
+      { header: 'description', value: task => task.description || '' },
+      { header: 'status', value: task => task.status || '' },
+      { header: 'completed', value: task => String(task.completed) },
+      { header: 'pic', value: task => task.pic || '' },
+      // Not a task field; the member's name for readers of the spreadsheet
+      { header: 'picName', value: task => (task.pic && picLabels.get(task.pic)) || task.pic || '' },
+      { header: 'priority', value: task => task.priority || '' },
+      { header: 'startDate', value: task => task.startDate || '' },
+      { header: 'endDate', value: task => task.endDate || '' },
+      { header: 'tags', value: task => (task.tags || []).join(', ') },
+      { header: 'checklist', value: task => formatChecklistCell(task.checklist) },
+      { header: 'blockedBy', value: task => (task.blockedBy || []).join(', ') },
+      { header: 'recurrence', value: task => task.recurrence ? JSON.stringify(task.recurrence) : '' },
+      { header: 'createdAt', value: task => task.createdAt },
+      { header: 'updatedAt', value: task => task.updatedAt },
+      { header: 'completedAt', value: task => task.completedAt || '' }
+    ];
+  }
+}
@@ -0,0 +1,226 @@
+import { z } from 'zod';
+import {
+  ChecklistItem,
+  Task,
+  TaskWorkflowStatus,
+  TASK_WORKFLOW_STATUSES
+} from '@/core/domain/entities/Task';
+import { Member } from '@/core/domain/entities/Member';
+import { taskWorkflowUtils } from '@/core/domain/entities/taskUtils';
+import { createTaskSchema } from '@/core/application/dto/CreateTaskDTO';
+import {
+  ParsedTaskCsv,
+  TaskImportField,
+  TaskImportMapping,
+  TaskImportRow,
+  TASK_IMPORT_FIELD_OPTIONS
+} from '@/core/application/dto/TaskImportDTO';
+import { parseCsv } from './csvFormat';
+
+type RowValues = Partial<Record<TaskImportField, string>>;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'done', 'completed'];
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Header spellings other tools use for each field, besides its name and label
+const HEADER_ALIASES: Partial<Record<TaskImportField, string[]>> = {
+  title: ['name', 'task', 'summary', 'subject'],
+  description: ['notes', 'details'],
+  pic: ['assignee', 'owner', 'assignedto', 'personincharge'],
+  startDate: ['start'],
+  endDate: ['duedate', 'due', 'deadline', 'end'],
+  tags: ['labels'],
+  blockedBy: ['dependencies', 'dependson']
+};
+
+const getFieldLabel = (field: string): string => {
+  return TASK_IMPORT_FIELD_OPTIONS.find(option => option.value === field)?.label || field;
+};
+
+/**
+ * YYYY-MM-DD for anything `Date` can read; unreadable values pass through
+ * so validation reports them
+ */
+const normalizeDate = (value: string): string => {
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const splitList = (value: string): string[] => {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+};
+
+/**
+ * One checklist item per line; "[x]" or "[ ]" in front marks it done or open
+ */
+const parseChecklist = (value: string): ChecklistItem[] => {
+  return value
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const match = line.match(/^\[([ xX]?)\]\s*(.*)$/);
+      return {
+        id: crypto.randomUUID(),
+        title: match ? match[2] : line,
+        completed: match ? match[1].toLowerCase() === 'x' : false
+      };
+    });
+};
+
+/**
+ * Reads task CSV files, written by the CSV exporter or by other tools, and
+ * checks every row against the same rules as the create form before anything
+ * is saved
+ */
+export class CsvTaskImporter {
+  parse(text: string): ParsedTaskCsv {
+    const [headers = [], ...rows] = parseCsv(text);
+    return { headers: headers.map(header => header.trim()), rows };
+  }
+
+  /**
+   * Map each column to the field with the same name, label or a common alias
+   */
+  guessMapping(headers: string[]): TaskImportMapping {
+    const used = new Set<TaskImportField>();
+
+    return headers.map(header => {
+      const key = normalizeHeader(header);
+      const option = TASK_IMPORT_FIELD_OPTIONS.find(({ value, label }) =>
+        !used.has(value) && (
+          normalizeHeader(value) === key
+          || normalizeHeader(label) === key
+          || HEADER_ALIASES[value]?.includes(key)
+        )
+      );
+      if (!option) return null;
+
+      used.add(option.value);
+      return option.value;
+    });
+  }
+
+  /**
+   * Validate every row against the member directory and the existing tasks.
+   * Blockers may name existing tasks or the ID column of another row.
+   */
+  buildPreview(
+    csv: ParsedTaskCsv,
+    mapping: TaskImportMapping,
+    members: Member[],
+    existingTasks: Task[]
+  ): TaskImportRow[] {
+    const rows = csv.rows.map(cells => {
+      const values: RowValues = {};
+      mapping.forEach((field, index) => {
+        const value = cells[index]?.trim();
+        if (field && value) values[field] = value;
+      });
+      return values;
+    });
+
+    const knownIds = new Set([
+      ...existingTasks.map(task => task.id),
+      ...rows.map(values => values.id).filter((id): id is string => !!id)
+    ]);
+
+    return rows.map((values, index) => this.buildRow(values, index + 2, members, knownIds));
+  }
+
+  private buildRow(
+    values: RowValues,
+    rowNumber: number,
+    members: Member[],
+    knownIds: Set<string>
+  ): TaskImportRow {
+    const errors: string[] = [];
+
+    const pic = values.pic ? this.resolveMember(values.pic, members) : undefined;
+    if (values.pic && !pic) {
+      errors.push(`Person in Charge "${values.pic}" is not in the member directory`);
+    }
+
+    const status = values.status ? this.parseStatus(values.status) : undefined;
+    if (values.status && !status) {
+      errors.push(`Status "${values.status}" is not a known status`);
+    }
+
+    let recurrence: unknown = null;
+    if (values.recurrence) {
+      try {
+        recurrence = values.recurrence.startsWith('{')
+          ? JSON.parse(values.recurrence)
+          : { frequency: values.recurrence.toLowerCase() };
+      } catch {
+        errors.push('Repeat must be a frequency such as "weekly" or a repeat rule in JSON');
+      }
+    }
+
+    const blockedBy = values.blockedBy ? splitList(values.blockedBy) : [];
+    blockedBy
+      .filter(id => !knownIds.has(id))
+      .forEach(id => errors.push(`Blocked by unknown task "${id}"`));
+
+    const completed = !!values.completed && TRUE_VALUES.includes(values.completed.toLowerCase());
+
+    const result = createTaskSchema.safeParse({
+      title: values.title || '',
+      description: values.description || '',
+      pic: pic?.id || values.pic,
+      startDate: values.startDate ? normalizeDate(values.startDate) : undefined,
+      endDate: values.endDate ? normalizeDate(values.endDate) : undefined,
+      priority: values.priority?.toLowerCase(),
+      tags: values.tags ? splitList(values.tags) : undefined,
+      checklist: values.checklist ? parseChecklist(values.checklist) : undefined,
+      blockedBy,
+      recurrence,
+      // A completed flag without a status means the task is done
+      status: status || (completed ? 'done' : undefined)
+    });
+
+    if (!result.success) {
+      errors.push(...this.getIssueMessages(result.error));
+    }
+
+    return {
+      rowNumber,
+      sourceId: values.id,
+      title: values.title || '',
+      data: result.success && errors.length === 0 ? result.data : null,
+      errors
+    };
+  }
+
+  // Members can be referenced by ID, name or email
+  private resolveMember(value: string, members: Member[]): Member | undefined {
+    const key = value.toLowerCase();
+    return members.find(member => member.id === value)
+      || members.find(member => member.name.toLowerCase() === key || member.email.toLowerCase() === key);
+  }
+
+  // Statuses can be written as their value ("in_progress") or label ("In Progress")
+  private parseStatus(value: string): TaskWorkflowStatus | undefined {
+    const key = normalizeHeader(value);
+    return TASK_WORKFLOW_STATUSES.find(status =>
+      normalizeHeader(status) === key || normalizeHeader(taskWorkflowUtils.getLabel(status)) === key
+    );
+  }
+
+  private getIssueMessages(error: z.ZodError): string[] {
+    return error.errors.map(issue => {
+      if (issue.path.length === 0) return issue.message;
+
+      const label = getFieldLabel(String(issue.path[0]));
+      if (issue.code === 'invalid_type' && issue.received === 'undefined') {
+        return `${label} is required`;
+      }
+      return issue.message.startsWith(label) ? issue.message : `${label}: ${issue.message}`;
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from '@jest/globals';
+import { Task } from '@/core/domain/entities/Task';
+import { Member } from '@/core/domain/entities/Member';
+import { CsvTaskImporter } from '../CsvTaskImporter';
+import { formatCsv } from '../csvFormat';
+
+const member = Member.create({ name: 'Ann Lee', email: 'ann@example.com' });
+const existingTask = Task.create({ title: 'Existing task', startDate: '2099-01-01', endDate: '2099-01-02' });
+
+const importer = new CsvTaskImporter();
+
+const preview = (rows: string[][]) => {
+  const csv = importer.parse(formatCsv(rows));
+  return importer.buildPreview(csv, importer.guessMapping(csv.headers), [member], [existingTask]);
+};
+
+describe('CsvTaskImporter.buildPreview', () => {
+  it('validates a complete row', () => {
+    const [row] = preview([
+      ['Title', 'Assignee', 'Start', 'Due', 'Priority', 'Labels', 'Checklist', 'Status'],
+      ['Write the report', 'ann@example.com', '2099-03-01', '2099-03-05', 'High', 'work, docs', '[x] Outline\n[ ] Draft', 'In Progress']
+    ]);
+
+    expect(row.rowNumber).toBe(2);
+    expect(row.errors).toEqual([]);
+    expect(row.data).toMatchObject({
+      title: 'Write the report',
+      pic: member.id,
+      startDate: '2099-03-01',
+      endDate: '2099-03-05',
+      priority: 'high',
+      tags: ['work', 'docs'],
+      status: 'in_progress'
+    });
+    expect(row.data?.checklist.map(item => [item.title, item.completed])).toEqual([
+      ['Outline', true],
+      ['Draft', false]
+    ]);
+  });
+
+  it('treats a completed flag without a status as done', () => {
+    const [row] = preview([
+      ['Title', 'Owner', 'Start Date', 'Due Date', 'Completed'],
+      ['Book the venue', 'Ann Lee', '2099-03-01', '2099-03-01', 'yes']
+    ]);
+
+    expect(row.data?.status).toBe('done');
+  });
+
+  it('links blockers to existing tasks and to other rows', () => {
+    const rows = preview([
+      ['Task ID', 'Title', 'PIC', 'Start Date', 'Due Date', 'Blocked By'],
+      ['a', 'First task', member.id, '2099-03-01', '2099-03-02', existingTask.id],
+      ['b', 'Second task', member.id, '2099-03-03', '2099-03-04', 'a'],
+      ['c', 'Third task', member.id, '2099-03-03', '2099-03-04', 'missing']
+    ]);
+
+    expect(rows.map(row => row.sourceId)).toEqual(['a', 'b', 'c']);
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[1].errors).toEqual([]);
+    expect(rows[2].errors).toContain('Blocked by unknown task "missing"');
+    expect(rows[2].data).toBeNull();
+  });
+
+  it('reports every problem in a row', () => {
+    const [row] = preview([
+      ['Title', 'Person in Charge', 'Start Date', 'Due Date', 'Status'],
+      ['Broken row', 'Nobody', '2099-03-01', '', 'Someday']
+    ]);
+
+    expect(row.data).toBeNull();
+    expect(row.errors).toEqual(expect.arrayContaining([
+      'Person in Charge "Nobody" is not in the member directory',
+      'Status "Someday" is not a known status',
+      'Due Date is required'
+    ]));
+  });
+});
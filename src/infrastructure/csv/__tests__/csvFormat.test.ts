@@ -0,0 +1,52 @@
+import { describe, expect, it } from '@jest/globals';
+import { CSV_BOM, detectCsvDelimiter, formatCsv, formatCsvCell, parseCsv } from '../csvFormat';
+
+describe('formatCsvCell', () => {
+  it('leaves plain values unquoted', () => {
+    expect(formatCsvCell('Write the report')).toBe('Write the report');
+  });
+
+  it('quotes values with delimiters, quotes, line breaks or surrounding spaces', () => {
+    expect(formatCsvCell('a,b')).toBe('"a,b"');
+    expect(formatCsvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(formatCsvCell('line 1\nline 2')).toBe('"line 1\nline 2"');
+    expect(formatCsvCell(' padded ')).toBe('" padded "');
+  });
+
+  it('only quotes the delimiter in use', () => {
+    expect(formatCsvCell('a,b', ';')).toBe('a,b');
+    expect(formatCsvCell('a;b', ';')).toBe('"a;b"');
+  });
+});
+
+describe('parseCsv', () => {
+  const rows = [
+    ['ID', 'Title', 'Description', 'Tags'],
+    ['1', 'Plain title', '', 'work'],
+    ['2', 'Comma, inside', 'Said "hello"', 'a, b'],
+    ['3', 'Multi-line', 'First line\r\nSecond line', ''],
+    ['4', ' spaced ', 'Ünïcödé – ✓', '']
+  ];
+
+  it('reads back what formatCsv writes', () => {
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+
+  it('reads back semicolon-separated files', () => {
+    const text = formatCsv(rows, ';');
+    expect(detectCsvDelimiter(text)).toBe(';');
+    expect(parseCsv(text)).toEqual(rows);
+  });
+
+  it('skips a leading byte order mark', () => {
+    expect(parseCsv(CSV_BOM + formatCsv(rows))).toEqual(rows);
+  });
+
+  it('accepts LF line endings and skips blank lines', () => {
+    expect(parseCsv('a,b\n\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps a trailing empty cell', () => {
+    expect(parseCsv('a,b,\r\n')).toEqual([['a', 'b', '']]);
+  });
+});
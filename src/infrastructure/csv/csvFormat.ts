@@ -0,0 +1,83 @@
+// Byte order mark so spreadsheet apps read the file as UTF-8
+export const CSV_BOM = '\uFEFF';
+
+const CSV_LINE_BREAK = '\r\n';
+
+/**
+ * Quote a cell when it contains the delimiter, quotes, line breaks or
+ * surrounding spaces (RFC 4180); embedded quotes are doubled
+ */
+export const formatCsvCell = (value: string, delimiter = ','): string => {
+  const needsQuotes = value.includes(delimiter)
+    || /["\r\n]/.test(value)
+    || value !== value.trim();
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const formatCsv = (rows: string[][], delimiter = ','): string => {
+  return rows
+    .map(row => row.map(cell => formatCsvCell(cell, delimiter)).join(delimiter))
+    .join(CSV_LINE_BREAK) + CSV_LINE_BREAK;
+};
+
+/**
+ * Guess the delimiter from the header line: spreadsheets in some locales save with semicolons
+ */
+export const detectCsvDelimiter = (text: string): string => {
+  const headerLine = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] || '';
+  const count = (delimiter: string) => headerLine.split(delimiter).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+};
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, quotes and line breaks, CRLF or LF line endings and a leading BOM.
+ * Blank lines are skipped.
+ */
+export const parseCsv = (text: string, delimiter = detectCsvDelimiter(text)): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { TaskApiError } from '@/core/domain/entities/Task';
+import { TaskDependencyError } from '@/core/domain/errors/TaskDependencyError';
+import { MemberError } from '@/core/domain/errors/MemberError';
+import { TaskWorkflowError } from '@/core/domain/errors/TaskWorkflowError';
+import { getValidationErrorMessage, getValidationFieldErrors } from '@/core/application/dto/CreateTaskDTO';
+
+/**
+ * Build a TaskApiError JSON response
+ */
+export const apiError = (
+  status: number,
+  message: string,
+  code?: string,
+  details?: unknown
+): NextResponse<TaskApiError> => {
+  return NextResponse.json({ message, code, details }, { status });
+};
+
+export const validationError = (error: ZodError): NextResponse<TaskApiError> => {
+  return apiError(400, getValidationErrorMessage(error), 'VALIDATION_ERROR', getValidationFieldErrors(error));
+};
+
+export const notFoundError = (resource: string, id: string): NextResponse<TaskApiError> => {
+  return apiError(404, `${resource} with ID ${id} not found`, 'NOT_FOUND');
+};
+
+export const internalError = (error: unknown): NextResponse<TaskApiError> => {
+  // Broken dependency rules are the caller's fault, not a server failure
+  if (error instanceof TaskDependencyError) {
+    return apiError(409, error.message, 'DEPENDENCY_CONFLICT', { taskIds: error.relatedTaskIds });
+  }
+
+  if (error instanceof TaskWorkflowError) {
+    return apiError(409, error.message, 'INVALID_STATUS_TRANSITION', { from: error.from, to: error.to });
+  }
+
+  // Unknown members are bad input; duplicate emails and members still in use are conflicts
+  if (error instanceof MemberError) {
+    return error.code === 'MEMBER_NOT_FOUND'
+      ? apiError(400, error.message, 'VALIDATION_ERROR', { pic: error.message })
+      : apiError(409, error.message, error.code);
+  }
+
+  console.error('API error:', error);
+  return apiError(500, error instanceof Error ? error.message : 'Internal server error', 'INTERNAL_ERROR');
+};
+
+/**
+ * Parse a JSON request body, returning null when it is missing or malformed
+ */
+export const readJsonBody = async (request: Request): Promise<unknown | null> => {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,194 @@
+import { Task, TaskPriority, TaskWorkflowStatus } from '@/core/domain/entities/Task';
+import { Member, resolvePic } from '@/core/domain/entities/Member';
+import { taskChecklistUtils, taskWorkflowUtils } from '@/core/domain/entities/taskUtils';
+
+// VEVENT shows tasks as all-day events (Google Calendar and Outlook);
+// VTODO keeps them as to-dos for clients that support them
+export type IcsComponentType = 'event' | 'todo';
+
+export interface IcsCalendarOptions {
+  name?: string; // Calendar name shown by subscribing clients
+  type?: IcsComponentType;
+}
+
+// A generated calendar file, left to the caller to download or serve
+export interface IcsFile {
+  blob: Blob;
+  filename: string;
+}
+
+export interface IIcsCalendarGenerator {
+  generate(tasks: Task[], members?: Member[], options?: IcsCalendarOptions): string;
+}
+
+const PRODUCT_ID = '-//Task Manager//Tasks//EN';
+const UID_DOMAIN = 'task-manager';
+const LINE_BREAK = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+// iCalendar priority: 1 is highest, 9 lowest
+const ICS_PRIORITIES: Record<TaskPriority, number> = {
+  critical: 1,
+  high: 3,
+  medium: 5,
+  low: 9
+};
+
+const TODO_STATUSES: Record<TaskWorkflowStatus, string> = {
+  todo: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  in_review: 'IN-PROCESS',
+  done: 'COMPLETED',
+  cancelled: 'CANCELLED'
+};
+
+/**
+ * Escape TEXT values: backslashes, semicolons, commas and line breaks (RFC 5545 3.3.11)
+ */
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Fold lines longer than 75 octets, continuing them with a leading space (RFC 5545 3.1).
+ * Never splits a multi-byte character.
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join(`${LINE_BREAK} `);
+};
+
+// 20260105 for a YYYY-MM-DD date (or an ISO timestamp's date part)
+const formatDate = (date: string): string => date.slice(0, 10).replace(/-/g, '');
+
+// 20260105T093000Z, always UTC
+const formatDateTime = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// All-day events end on the day after their last day
+const nextDay = (date: string): string => {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+/**
+ * Builds RFC 5545 calendars from tasks: the start and due dates become an
+ * all-day span, the Person in Charge an attendee, and tags categories
+ */
+export class IcsCalendarGenerator implements IIcsCalendarGenerator {
+  generate(tasks: Task[], members: Member[] = [], options: IcsCalendarOptions = {}): string {
+    const type = options.type || 'event';
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(options.name || 'Tasks')}`
+    ];
+
+    tasks.forEach(task => {
+      // Events need a date to sit on; to-dos can be undated
+      if (type === 'event' && !task.startDate && !task.endDate) return;
+      lines.push(...(type === 'event' ? this.buildEvent(task, members) : this.buildTodo(task, members)));
+    });
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join(LINE_BREAK) + LINE_BREAK;
+  }
+
+  /**
+   * The calendar as a downloadable .ics file
+   */
+  toFile(calendar: string, name = 'tasks'): IcsFile {
+    const timestamp = new Date().toISOString().slice(0, 19).replace(/[:\-T]/g, '');
+    return {
+      blob: new Blob([calendar], { type: 'text/calendar;charset=utf-8' }),
+      filename: `task-manager-${name}-${timestamp}.ics`
+    };
+  }
+
+  private buildEvent(task: Task, members: Member[]): string[] {
+    const start = task.startDate || task.endDate!;
+    const end = task.endDate && task.endDate >= start ? task.endDate : start;
+
+    return [
+      'BEGIN:VEVENT',
+      ...this.buildCommonProperties(task, members),
+      `DTSTART;VALUE=DATE:${formatDate(start)}`,
+      `DTEND;VALUE=DATE:${formatDate(nextDay(end))}`,
+      `STATUS:${task.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ];
+  }
+
+  private buildTodo(task: Task, members: Member[]): string[] {
+    const lines = ['BEGIN:VTODO', ...this.buildCommonProperties(task, members)];
+
+    if (task.startDate) lines.push(`DTSTART;VALUE=DATE:${formatDate(task.startDate)}`);
+    if (task.endDate) lines.push(`DUE;VALUE=DATE:${formatDate(task.endDate)}`);
+    lines.push(`STATUS:${TODO_STATUSES[task.status]}`);
+
+    const progress = taskChecklistUtils.getProgress(task);
+    if (task.status === 'done') {
+      lines.push('PERCENT-COMPLETE:100');
+      if (task.completedAt) lines.push(`COMPLETED:${formatDateTime(task.completedAt)}`);
+    } else if (progress.total > 0) {
+      lines.push(`PERCENT-COMPLETE:${progress.percentage}`);
+    }
+
+    lines.push('END:VTODO');
+    return lines;
+  }
+
+  private buildCommonProperties(task: Task, members: Member[]): string[] {
+    const pic = resolvePic(task.pic, members);
+    const details = [
+      task.description,
+      pic && `Person in Charge: ${pic.label}`,
+      `Status: ${taskWorkflowUtils.getLabel(task.status)}`
+    ].filter(Boolean).join('\n');
+
+    const lines = [
+      `UID:${task.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${formatDateTime(task.updatedAt)}`,
+      `CREATED:${formatDateTime(task.createdAt)}`,
+      `LAST-MODIFIED:${formatDateTime(task.updatedAt)}`,
+      `SUMMARY:${escapeText(task.title)}`,
+      `DESCRIPTION:${escapeText(details)}`,
+      `PRIORITY:${ICS_PRIORITIES[task.priority]}`
+    ];
+
+    if (task.tags.length > 0) {
+      lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+    }
+    if (pic?.member) {
+      lines.push(`ATTENDEE;CN="${pic.member.name.replace(/"/g, '')}";ROLE=REQ-PARTICIPANT:mailto:${pic.member.email}`);
+    }
+
+    return lines;
+  }
+}
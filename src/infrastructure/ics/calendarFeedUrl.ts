@@ -0,0 +1,13 @@
+/**
+ * URL of the live iCalendar feed for a Person in Charge ("all" for every task).
+ * The feed is served from the API's storage, so there is none while tasks
+ * stay in the browser (see createTaskRepository).
+ */
+export const getCalendarFeedUrl = (pic: string): string | null => {
+  if (process.env.NEXT_PUBLIC_TASK_STORAGE !== 'api') {
+    return null;
+  }
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || '/api';
+  return `${apiUrl}/calendar/${encodeURIComponent(pic)}.ics`;
+};
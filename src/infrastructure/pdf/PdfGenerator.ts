@@ -1,17 +1,65 @@
 import jsPDF from 'jspdf';
-import { Task } from '@/core/domain/entities/Task';
+import { Task, TaskWorkflowStatus } from '@/core/domain/entities/Task';
+import { Member, buildPicLabels } from '@/core/domain/entities/Member';
+import { taskWorkflowUtils, taskTimelineUtils, taskGroupUtils } from '@/core/domain/entities/taskUtils';
+import {
+  ReportOptions,
+  ReportField,
+  ReportOrientation,
+  DEFAULT_REPORT_OPTIONS
+} from '@/core/application/dto/ReportOptionsDTO';
+import {
+  REPORT_FOOTER,
+  REPORT_TITLE,
+  ReportColumn,
+  ReportStat,
+  reportContentUtils
+} from '@/infrastructure/report/reportContent';
+
+// A generated report, left to the caller to preview, download or upload
+export interface PdfReport {
+  blob: Blob;
+  filename: string;
+}
 
 export interface IPdfGenerator {
-  generateTaskReport(tasks: Task[]): void;
+  generateTaskReport(tasks: Task[], members?: Member[], options?: ReportOptions): PdfReport;
+}
+
+// One table column; `weight` is its share of the width left after the title column
+interface TableColumn {
+  header: string;
+  weight: number;
+  value: (task: Task) => string;
+  color?: (task: Task) => number[];
 }
 
 export class PdfGenerator implements IPdfGenerator {
-  private readonly PAGE_WIDTH = 210; // A4 width in mm
-  private readonly PAGE_HEIGHT = 297; // A4 height in mm
+  private readonly A4_SHORT = 210; // A4 short side in mm
+  private readonly A4_LONG = 297; // A4 long side in mm
   private readonly MARGIN = 20;
-  private readonly CONTENT_WIDTH = this.PAGE_WIDTH - (this.MARGIN * 2);
+  private orientation: ReportOrientation = 'portrait';
+  private readonly STATUS_COLORS: Record<TaskWorkflowStatus, number[]> = {
+    todo: [107, 114, 128], // Gray
+    in_progress: [59, 130, 246], // Blue
+    in_review: [234, 179, 8], // Amber
+    done: [34, 197, 94], // Green
+    cancelled: [156, 163, 175] // Light gray
+  };
+
+  private get PAGE_WIDTH(): number {
+    return this.orientation === 'landscape' ? this.A4_LONG : this.A4_SHORT;
+  }
+
+  private get PAGE_HEIGHT(): number {
+    return this.orientation === 'landscape' ? this.A4_SHORT : this.A4_LONG;
+  }
 
-  generateTaskReport(tasks: Task[]): void {
+  private get CONTENT_WIDTH(): number {
+    return this.PAGE_WIDTH - (this.MARGIN * 2);
+  }
+
+  generateTaskReport(tasks: Task[], members: Member[] = [], options: ReportOptions = DEFAULT_REPORT_OPTIONS): PdfReport {
     try {
       console.log('PdfGenerator: Starting report generation for', tasks.length, 'tasks');
       
@@ -19,29 +67,35 @@ export class PdfGenerator implements IPdfGenerator {
       const cleanTasks = this.validateAndCleanTasks(tasks);
       console.log('PdfGenerator: Cleaned tasks:', cleanTasks.length);
       
-      const doc = new jsPDF();
+      this.orientation = options.orientation;
+      const doc = new jsPDF({ orientation: options.orientation, format: 'a4' });
       const now = new Date();
       
       // Add header
-      this.addReportHeader(doc, now, cleanTasks);
+      this.addReportHeader(doc, now, cleanTasks, options);
       
       // Add summary section
-      this.addSummarySection(doc, cleanTasks);
+      const summaryEndY = options.includeSummary ? this.addSummarySection(doc, cleanTasks) : 57;
       
-      // Add task list
-      const currentY = this.addTaskList(doc, cleanTasks);
+      // Add task list, in the order given and split into the chosen groups
+      const currentY = this.addTaskList(doc, cleanTasks, summaryEndY + 13, members, options);
       
       // Add footer
       this.addFooter(doc, currentY);
       
+      // Add timeline on its own landscape page(s)
+      if (options.includeTimeline) {
+        this.addTimelinePages(doc, cleanTasks, members);
+      }
+      
       // Generate filename with timestamp
       const timestamp = now.toISOString().slice(0, 19).replace(/[:\-T]/g, '');
       const filename = `task-manager-report-${timestamp}.pdf`;
       
-      // Save the PDF
-      doc.save(filename);
+      const blob = doc.output('blob');
       
-      console.log('PdfGenerator: Report generated successfully:', filename);
+      console.log('PdfGenerator: Report generated successfully:', filename, blob.size, 'bytes');
+      return { blob, filename };
     } catch (error) {
       console.error('PdfGenerator: Error generating report:', error);
       throw new Error(`Failed to generate PDF report: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -75,7 +129,10 @@ export class PdfGenerator implements IPdfGenerator {
         ...task,
         title: this.cleanString(task.title),
         description: this.cleanString(task.description || ''),
-        pic: this.cleanString(task.pic || ''),
+        // PIC is a member ID, so it must not go through the repetition cleanup
+        pic: task.pic || '',
+        tags: Array.isArray(task.tags) ? task.tags : [],
+        checklist: Array.isArray(task.checklist) ? task.checklist : [],
         startDate: task.startDate || null,
         endDate: task.endDate || null
       } as Task;
@@ -94,9 +151,10 @@ export class PdfGenerator implements IPdfGenerator {
       return parts[0].trim();
     }
     
-    // Remove repeated phrases separated by common delimiters
+    // Remove a phrase repeated back to back (e.g. "TitleTitle" -> "Title"); letters
+    // doubled inside words, as in "Book", must stay
     const cleanedStr = str
-      .replace(/(.+?)\1+/g, '$1') // Remove immediate repetitions
+      .replace(/^(.{3,}?)\1+$/, '$1')
       .replace(/\s+/g, ' ') // Replace multiple spaces with single space
       .trim();
     
@@ -106,70 +164,56 @@ export class PdfGenerator implements IPdfGenerator {
   /**
    * Add report header with title and metadata
    */
-  private addReportHeader(doc: jsPDF, date: Date, tasks: Task[]): void {
+  private addReportHeader(doc: jsPDF, date: Date, tasks: Task[], options: ReportOptions): void {
     // Main title
     doc.setFontSize(24);
     doc.setFont('helvetica', 'bold');
     doc.setTextColor(40, 40, 40);
-    doc.text('Task Manager Report', this.MARGIN, 30);
+    doc.text(REPORT_TITLE, this.MARGIN, 30);
     
     // Subtitle with generation info
     doc.setFontSize(12);
     doc.setFont('helvetica', 'normal');
     doc.setTextColor(100, 100, 100);
-    const generatedText = `Generated: ${date.toLocaleString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    })}`;
-    doc.text(generatedText, this.MARGIN, 40);
-    
-    // Add task count info
+    doc.text(reportContentUtils.formatGeneratedAt(date), this.MARGIN, 40);
+    
+    // Add task count and the options that shaped the report
     doc.setFontSize(10);
     doc.setTextColor(120, 120, 120);
-    const taskCountText = `Total Tasks: ${tasks.length}`;
-    doc.text(taskCountText, this.MARGIN, 50);
+    doc.text(reportContentUtils.describeScope(tasks.length, options), this.MARGIN, 48);
+    
+    doc.setFontSize(9);
+    doc.text(doc.splitTextToSize(reportContentUtils.describeOptions(options), this.CONTENT_WIDTH)[0], this.MARGIN, 53);
     
     // Horizontal line
     doc.setDrawColor(200, 200, 200);
     doc.setLineWidth(0.5);
-    doc.line(this.MARGIN, 55, this.PAGE_WIDTH - this.MARGIN, 55);
+    doc.line(this.MARGIN, 57, this.PAGE_WIDTH - this.MARGIN, 57);
   }
 
   /**
-   * Add summary statistics section
+   * Add summary statistics section, returning the Y position below it
    */
-  private addSummarySection(doc: jsPDF, tasks: Task[]): void {
-    const completedTasks = tasks.filter(t => t.completed);
-    const pendingTasks = tasks.filter(t => !t.completed);
-    const overdueTasks = this.getOverdueTasks(tasks);
-    
+  private addSummarySection(doc: jsPDF, tasks: Task[]): number {
     // Summary title
     doc.setFontSize(14);
     doc.setFont('helvetica', 'bold');
     doc.setTextColor(40, 40, 40);
     doc.text('Summary', this.MARGIN, 70);
     
-    // Statistics
+    // Statistics; checklist lines only appear when any task uses a checklist
     doc.setFontSize(11);
     doc.setFont('helvetica', 'normal');
     
-    const stats = [
-      { label: 'Total Tasks:', value: tasks.length.toString(), color: [40, 40, 40] },
-      { label: 'Completed:', value: completedTasks.length.toString(), color: [34, 197, 94] },
-      { label: 'Pending:', value: pendingTasks.length.toString(), color: [249, 115, 22] },
-      { label: 'Overdue:', value: overdueTasks.length.toString(), color: [239, 68, 68] }
-    ];
+    const stats = reportContentUtils.getSummary(tasks);
     
     let yPos = 80;
     stats.forEach(stat => {
       doc.setTextColor(100, 100, 100);
-      doc.text(stat.label, this.MARGIN, yPos);
+      doc.text(`${stat.label}:`, this.MARGIN, yPos);
       
-      doc.setTextColor(stat.color[0], stat.color[1], stat.color[2]);
+      const [red, green, blue] = this.getStatColor(stat);
+      doc.setTextColor(red, green, blue);
       doc.setFont('helvetica', 'bold');
       doc.text(stat.value, this.MARGIN + 40, yPos);
       doc.setFont('helvetica', 'normal');
@@ -177,48 +221,125 @@ export class PdfGenerator implements IPdfGenerator {
       yPos += 8;
     });
     
+    yPos = this.addTagCounts(doc, tasks, yPos);
+    
     // Section separator
     doc.setDrawColor(200, 200, 200);
     doc.line(this.MARGIN, yPos + 5, this.PAGE_WIDTH - this.MARGIN, yPos + 5);
+    
+    return yPos;
+  }
+
+  /**
+   * Color of a summary value, matching the status badges
+   */
+  private getStatColor(stat: ReportStat): number[] {
+    switch (stat.key) {
+      case 'total':
+        return [40, 40, 40];
+      case 'overdue':
+        return [239, 68, 68];
+      case 'checklist':
+      case 'progress':
+        return [59, 130, 246];
+      default:
+        return this.STATUS_COLORS[stat.key];
+    }
+  }
+
+  /**
+   * Add per-tag task counts below the summary statistics
+   */
+  private addTagCounts(doc: jsPDF, tasks: Task[], startY: number): number {
+    const tagCounts = reportContentUtils.getTagCounts(tasks);
+    if (tagCounts.length === 0) return startY;
+    
+    let yPos = startY + 4;
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(100, 100, 100);
+    doc.text('Tasks by Tag:', this.MARGIN, yPos);
+    
+    doc.setFontSize(10);
+    doc.setTextColor(40, 40, 40);
+    const countText = tagCounts.join('   ');
+    const lines = doc.splitTextToSize(countText, this.CONTENT_WIDTH - 40);
+    lines.forEach((line: string) => {
+      doc.text(line, this.MARGIN + 40, yPos);
+      yPos += 6;
+    });
+    
+    return yPos + 2;
   }
 
   /**
-   * Add task list to the PDF
+   * Add task list to the PDF, one section per group
    */
-  private addTaskList(doc: jsPDF, tasks: Task[]): number {
-    let currentY = 125;
+  private addTaskList(doc: jsPDF, tasks: Task[], startY: number, members: Member[], options: ReportOptions): number {
+    let currentY = startY;
     
     // Section title
     doc.setFontSize(14);
     doc.setFont('helvetica', 'bold');
     doc.setTextColor(40, 40, 40);
     doc.text('Task Details', this.MARGIN, currentY);
-    currentY += 15;
-    
-    // Sort tasks: completed tasks at the end
-    const sortedTasks = [...tasks].sort((a, b) => {
-      if (a.completed === b.completed) return 0;
-      return a.completed ? 1 : -1;
-    });
-    
-    sortedTasks.forEach((task, index) => {
-      currentY = this.addTaskItem(doc, task, index + 1, currentY);
-      currentY += 5; // Spacing between tasks
+    currentY += options.layout === 'table' ? 8 : 15;
+    
+    const groups = taskGroupUtils.groupTasks(tasks, options.groupBy, buildPicLabels(members));
+    let index = 1;
+    
+    groups.forEach(group => {
+      if (options.groupBy !== 'none') {
+        currentY = this.ensureSpace(doc, currentY, 30);
+        doc.setFontSize(12);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(40, 40, 40);
+        doc.text(`${group.label} (${group.tasks.length})`, this.MARGIN, currentY);
+        doc.setDrawColor(220, 220, 220);
+        doc.setLineWidth(0.3);
+        doc.line(this.MARGIN, currentY + 2, this.PAGE_WIDTH - this.MARGIN, currentY + 2);
+        currentY += options.layout === 'table' ? 6 : 10;
+      }
       
-      // Add new page if needed
-      if (currentY > this.PAGE_HEIGHT - 40) {
-        doc.addPage();
-        currentY = 30;
+      if (options.layout === 'table') {
+        currentY = this.addTaskTable(doc, group.tasks, index, currentY, members, tasks, options.fields) + 8;
+      } else {
+        group.tasks.forEach((task, groupIndex) => {
+          currentY = this.addTaskItem(doc, task, index + groupIndex, currentY, members, tasks, options.fields);
+          currentY += 5; // Spacing between tasks
+          
+          // Add new page if needed
+          currentY = this.ensureSpace(doc, currentY, 40);
+        });
       }
+      
+      index += group.tasks.length;
     });
     
     return currentY;
   }
 
+  /**
+   * Start a new page when less than `needed` mm is left, returning the Y position to continue at
+   */
+  private ensureSpace(doc: jsPDF, currentY: number, needed: number): number {
+    if (currentY <= this.PAGE_HEIGHT - needed) return currentY;
+    doc.addPage('a4', this.orientation);
+    return 30;
+  }
+
   /**
    * Add individual task item
    */
-  private addTaskItem(doc: jsPDF, task: Task, index: number, startY: number): number {
+  private addTaskItem(
+    doc: jsPDF,
+    task: Task,
+    index: number,
+    startY: number,
+    members: Member[],
+    allTasks: Task[],
+    fields: ReportField[]
+  ): number {
     let currentY = startY;
     
     // Task number and title
@@ -226,12 +347,13 @@ export class PdfGenerator implements IPdfGenerator {
     doc.setFont('helvetica', 'bold');
     doc.setTextColor(40, 40, 40);
     
+    const showStatus = fields.includes('status');
     const taskTitle = `${index}. ${task.title || 'Untitled Task'}`;
-    const titleLines = doc.splitTextToSize(taskTitle, this.CONTENT_WIDTH - 60);
+    const titleLines = doc.splitTextToSize(taskTitle, this.CONTENT_WIDTH - (showStatus ? 60 : 0));
     
     titleLines.forEach((line: string, lineIndex: number) => {
       doc.text(line, this.MARGIN, currentY);
-      if (lineIndex === 0) {
+      if (lineIndex === 0 && showStatus) {
         // Add status badge on the first line
         this.addStatusBadge(doc, task, currentY);
       }
@@ -239,7 +361,7 @@ export class PdfGenerator implements IPdfGenerator {
     });
     
     // Description
-    if (task.description && task.description.trim()) {
+    if (fields.includes('description') && task.description && task.description.trim()) {
       currentY += 2;
       doc.setFontSize(10);
       doc.setFont('helvetica', 'normal');
@@ -253,42 +375,161 @@ export class PdfGenerator implements IPdfGenerator {
     }
     
     // Metadata section
-    currentY = this.addTaskMetadata(doc, task, currentY);
+    currentY = this.addTaskMetadata(doc, task, currentY, members, allTasks, fields);
+    
+    return currentY;
+  }
+
+  /**
+   * Add tasks as a compact table with one column per selected field, repeating the header on new pages
+   */
+  private addTaskTable(
+    doc: jsPDF,
+    tasks: Task[],
+    firstIndex: number,
+    startY: number,
+    members: Member[],
+    allTasks: Task[],
+    fields: ReportField[]
+  ): number {
+    const columns = this.getTableColumns(fields, members, allTasks);
+    const fontSize = 7.5;
+    const lineHeight = 3.4;
+    const numberWidth = 8;
+    
+    // The title column keeps at least 40% of the width; other columns share the rest by weight
+    const totalWeight = columns.reduce((sum, column) => sum + column.weight, 0);
+    const otherWidth = Math.min(totalWeight, (this.CONTENT_WIDTH - numberWidth) * 0.6);
+    const scale = totalWeight > 0 ? otherWidth / totalWeight : 0;
+    const titleWidth = this.CONTENT_WIDTH - numberWidth - otherWidth;
+    
+    const drawHeader = (y: number): number => {
+      doc.setFillColor(243, 244, 246);
+      doc.rect(this.MARGIN, y, this.CONTENT_WIDTH, 6, 'F');
+      doc.setFontSize(fontSize);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(75, 85, 99);
+      let x = this.MARGIN + numberWidth;
+      doc.text('#', this.MARGIN + 1, y + 4);
+      doc.text('Title', x + 1, y + 4);
+      x += titleWidth;
+      columns.forEach(column => {
+        doc.text(doc.splitTextToSize(column.header, column.weight * scale - 2)[0], x + 1, y + 4);
+        x += column.weight * scale;
+      });
+      return y + 6;
+    };
+    
+    // Wrap to at most two lines, marking anything cut off
+    const fitLines = (text: string, width: number, maxLines: number): string[] => {
+      const lines: string[] = doc.splitTextToSize(text || '-', Math.max(4, width - 2));
+      if (lines.length <= maxLines) return lines;
+      return [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1].replace(/.{0,2}$/, '')}...`];
+    };
+    
+    let currentY = drawHeader(startY);
+    
+    tasks.forEach((task, rowIndex) => {
+      doc.setFontSize(fontSize);
+      doc.setFont('helvetica', 'normal');
+      
+      const titleLines = fitLines(task.title || 'Untitled Task', titleWidth, 2);
+      const descriptionLines = fields.includes('description') && task.description?.trim()
+        ? fitLines(task.description.trim(), titleWidth, 2)
+        : [];
+      const cells = columns.map(column => fitLines(column.value(task), column.weight * scale, 2));
+      const lineCount = Math.max(titleLines.length + descriptionLines.length, ...cells.map(cell => cell.length));
+      const rowHeight = lineCount * lineHeight + 2.4;
+      
+      if (currentY + rowHeight > this.PAGE_HEIGHT - 20) {
+        doc.addPage('a4', this.orientation);
+        currentY = drawHeader(20);
+      }
+      
+      if (rowIndex % 2 === 1) {
+        doc.setFillColor(249, 250, 251);
+        doc.rect(this.MARGIN, currentY, this.CONTENT_WIDTH, rowHeight, 'F');
+      }
+      
+      const textY = currentY + 3.6;
+      doc.setTextColor(120, 120, 120);
+      doc.text(String(firstIndex + rowIndex), this.MARGIN + 1, textY);
+      
+      let x = this.MARGIN + numberWidth;
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(40, 40, 40);
+      titleLines.forEach((line, lineIndex) => doc.text(line, x + 1, textY + lineIndex * lineHeight));
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(100, 100, 100);
+      descriptionLines.forEach((line, lineIndex) =>
+        doc.text(line, x + 1, textY + (titleLines.length + lineIndex) * lineHeight)
+      );
+      x += titleWidth;
+      
+      columns.forEach((column, columnIndex) => {
+        const [red, green, blue] = column.color ? column.color(task) : [60, 60, 60];
+        doc.setTextColor(red, green, blue);
+        cells[columnIndex].forEach((line, lineIndex) => doc.text(line, x + 1, textY + lineIndex * lineHeight));
+        x += column.weight * scale;
+      });
+      
+      currentY += rowHeight;
+    });
+    
+    doc.setDrawColor(220, 220, 220);
+    doc.setLineWidth(0.2);
+    doc.line(this.MARGIN, currentY, this.PAGE_WIDTH - this.MARGIN, currentY);
+    doc.setTextColor(40, 40, 40);
     
     return currentY;
   }
 
+  /**
+   * Table columns for the selected fields, sized and colored for the page
+   */
+  private getTableColumns(fields: ReportField[], members: Member[], allTasks: Task[]): TableColumn[] {
+    const weights: Record<ReportColumn['key'], number> = {
+      status: 22,
+      pic: 30,
+      priority: 16,
+      startDate: 21,
+      endDate: 21,
+      tags: 28,
+      checklist: 18,
+      dependencies: 30,
+      recurrence: 28,
+      created: 21
+    };
+    
+    return reportContentUtils.getColumns(fields, members, allTasks).map(column => ({
+      header: column.header,
+      weight: weights[column.key],
+      value: column.value,
+      color: column.key === 'status'
+        ? (task: Task) => reportContentUtils.isOverdue(task) ? [239, 68, 68] : this.STATUS_COLORS[task.status]
+        : undefined
+    }));
+  }
+
   /**
    * Add task metadata (PIC, dates, etc.)
    */
-  private addTaskMetadata(doc: jsPDF, task: Task, startY: number): number {
+  private addTaskMetadata(
+    doc: jsPDF,
+    task: Task,
+    startY: number,
+    members: Member[],
+    allTasks: Task[],
+    fields: ReportField[]
+  ): number {
     const currentY = startY + 3;
     
     doc.setFontSize(9);
     doc.setFont('helvetica', 'normal');
     doc.setTextColor(120, 120, 120);
     
-    const metadata: Array<{ label: string; value: string }> = [];
-    
-    // Add PIC if available
-    if (task.pic && task.pic.trim()) {
-      metadata.push({ label: 'Person in Charge:', value: task.pic.trim() });
-    }
-    
-    // Add dates if available
-    if (task.startDate) {
-      metadata.push({ label: 'Start Date:', value: this.formatDate(task.startDate) });
-    }
-    
-    if (task.endDate) {
-      metadata.push({ label: 'End Date:', value: this.formatDate(task.endDate) });
-    }
-    
-    // Add creation date
-    if (task.createdAt) {
-      const createdDate = task.createdAt instanceof Date ? task.createdAt : new Date(task.createdAt);
-      metadata.push({ label: 'Created:', value: this.formatDate(createdDate.toISOString()) });
-    }
+    const metadata = reportContentUtils.getDetails(task, fields, members, allTasks)
+      .map(detail => ({ label: `${detail.label}:`, value: detail.value }));
     
     // Render metadata in two columns
     const columnWidth = this.CONTENT_WIDTH / 2;
@@ -304,10 +545,10 @@ export class PdfGenerator implements IPdfGenerator {
       doc.setFont('helvetica', 'bold');
       doc.text(item.label, x, y);
       
-      // Value
+      // Value, cut to the column so long lists do not run into the next one
       doc.setFont('helvetica', 'normal');
       const valueX = x + doc.getTextWidth(item.label) + 3;
-      doc.text(item.value, valueX, y);
+      doc.text(doc.splitTextToSize(item.value, x + columnWidth - valueX - 2)[0], valueX, y);
       
       if (isLeftColumn) {
         leftColumnY += 6;
@@ -323,22 +564,16 @@ export class PdfGenerator implements IPdfGenerator {
    * Add status badge for task
    */
   private addStatusBadge(doc: jsPDF, task: Task, y: number): void {
-    const badgeX = this.PAGE_WIDTH - this.MARGIN - 25;
+    const badgeX = this.PAGE_WIDTH - this.MARGIN - 27;
     const badgeY = y - 4;
-    const badgeWidth = 22;
+    const badgeWidth = 26;
     const badgeHeight = 6;
     
-    // Set colors based on status
-    if (task.completed) {
-      doc.setFillColor(34, 197, 94); // Green
-      doc.setTextColor(255, 255, 255);
-    } else if (this.isOverdue(task)) {
-      doc.setFillColor(239, 68, 68); // Red
-      doc.setTextColor(255, 255, 255);
-    } else {
-      doc.setFillColor(249, 115, 22); // Orange
-      doc.setTextColor(255, 255, 255);
-    }
+    // Set colors based on the workflow status; open tasks past their due date show as overdue
+    const isOverdue = reportContentUtils.isOverdue(task);
+    const [red, green, blue] = isOverdue ? [239, 68, 68] : this.STATUS_COLORS[task.status];
+    doc.setFillColor(red, green, blue);
+    doc.setTextColor(255, 255, 255);
     
     // Draw badge background
     doc.roundedRect(badgeX, badgeY, badgeWidth, badgeHeight, 1, 1, 'F');
@@ -346,7 +581,7 @@ export class PdfGenerator implements IPdfGenerator {
     // Add badge text
     doc.setFontSize(8);
     doc.setFont('helvetica', 'bold');
-    const badgeText = task.completed ? 'DONE' : (this.isOverdue(task) ? 'OVERDUE' : 'PENDING');
+    const badgeText = isOverdue ? 'OVERDUE' : taskWorkflowUtils.getLabel(task.status).toUpperCase();
     const textWidth = doc.getTextWidth(badgeText);
     const textX = badgeX + (badgeWidth - textWidth) / 2;
     doc.text(badgeText, textX, badgeY + 4);
@@ -370,55 +605,136 @@ export class PdfGenerator implements IPdfGenerator {
     doc.setFont('helvetica', 'normal');
     doc.setTextColor(120, 120, 120);
     
-    const footerText = 'Generated by Task Manager | Bil Awal | Cybermax Pre-Test';
+    const footerText = REPORT_FOOTER;
     const textWidth = doc.getTextWidth(footerText);
     const centerX = (this.PAGE_WIDTH - textWidth) / 2;
     doc.text(footerText, centerX, footerY);
   }
 
   /**
-   * Format date string for display
+   * Add a Gantt chart of dated tasks grouped by PIC, scaled to the width of a landscape page.
+   * Rows that do not fit continue on further pages; arrows are drawn when both ends share a page.
    */
-  private formatDate(dateString: string): string {
-    try {
-      const date = new Date(dateString);
-      if (isNaN(date.getTime())) {
-        return 'Invalid Date';
-      }
-      
-      return date.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric'
+  private addTimelinePages(doc: jsPDF, tasks: Task[], members: Member[]): void {
+    const picLabels = buildPicLabels(members);
+    const dayLayout = taskTimelineUtils.buildLayout(tasks, 'day', picLabels);
+    if (dayLayout.rowCount === 0) return;
+
+    const zoom = taskTimelineUtils.suggestZoom(dayLayout.totalDays);
+    const layout = taskTimelineUtils.buildLayout(tasks, zoom, picLabels);
+
+    const pageWidth = this.A4_LONG;
+    const pageHeight = this.A4_SHORT;
+    const margin = 15;
+    const labelWidth = 50;
+    const chartX = margin + labelWidth;
+    const chartWidth = pageWidth - margin - chartX;
+    const dayWidth = chartWidth / layout.totalDays;
+    const chartTop = 38;
+    const rowHeight = 6;
+    const rowsPerPage = Math.floor((pageHeight - chartTop - margin) / rowHeight);
+    const bars = layout.groups.flatMap(group => group.bars);
+
+    for (let firstRow = 0; firstRow < layout.rowCount; firstRow += rowsPerPage) {
+      const lastRow = Math.min(layout.rowCount, firstRow + rowsPerPage) - 1;
+      const chartBottom = chartTop + (lastRow - firstRow + 1) * rowHeight;
+      const rowTop = (row: number) => chartTop + (row - firstRow) * rowHeight;
+      const isOnPage = (row: number) => row >= firstRow && row <= lastRow;
+
+      doc.addPage('a4', 'landscape');
+
+      // Title
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(40, 40, 40);
+      doc.text(firstRow === 0 ? 'Timeline' : 'Timeline (continued)', margin, 20);
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(100, 100, 100);
+      doc.text(
+        `${reportContentUtils.formatDate(layout.start)} - ${reportContentUtils.formatDate(layout.end)} | ${zoom} scale`,
+        margin,
+        27
+      );
+
+      // Group header rows
+      doc.setFillColor(243, 244, 246);
+      layout.groups.filter(group => isOnPage(group.row)).forEach(group => {
+        doc.rect(margin, rowTop(group.row), pageWidth - margin * 2, rowHeight, 'F');
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(40, 40, 40);
+        doc.text(doc.splitTextToSize(group.label, labelWidth - 2)[0], margin + 1, rowTop(group.row) + 4);
       });
-    } catch (error) {
-      console.error('PdfGenerator: Error formatting date:', error);
-      return 'Invalid Date';
-    }
-  }
 
-  /**
-   * Check if task is overdue
-   */
-  private isOverdue(task: Task): boolean {
-    if (!task.endDate || task.completed) return false;
-    
-    try {
-      const endDate = new Date(task.endDate);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      endDate.setHours(0, 0, 0, 0);
-      
-      return endDate < today;
-    } catch {
-      return false;
+      // Ticks, skipping labels that would overlap the previous one
+      doc.setDrawColor(220, 220, 220);
+      doc.setLineWidth(0.1);
+      doc.setFontSize(7);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(120, 120, 120);
+      let labelEnd = 0;
+      layout.ticks.forEach(tick => {
+        const x = chartX + tick.offset * dayWidth;
+        doc.line(x, chartTop - 5, x, chartBottom);
+        if (x >= labelEnd) {
+          doc.text(tick.label, x + 0.8, chartTop - 1.5);
+          labelEnd = x + doc.getTextWidth(tick.label) + 2;
+        }
+      });
+
+      // Task labels and bars
+      bars.filter(bar => isOnPage(bar.row)).forEach(bar => {
+        const y = rowTop(bar.row);
+        doc.setFontSize(7);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(60, 60, 60);
+        doc.text(doc.splitTextToSize(bar.task.title, labelWidth - 5)[0], margin + 3, y + 4);
+
+        const [red, green, blue] = reportContentUtils.isOverdue(bar.task) ? [239, 68, 68] : this.STATUS_COLORS[bar.task.status];
+        doc.setFillColor(red, green, blue);
+        doc.roundedRect(
+          chartX + bar.offset * dayWidth + 0.2,
+          y + 1,
+          Math.max(0.6, bar.length * dayWidth - 0.4),
+          rowHeight - 2,
+          0.6,
+          0.6,
+          'F'
+        );
+      });
+
+      // Dependency arrows from blocker to blocked task
+      doc.setLineWidth(0.3);
+      layout.links.filter(link => isOnPage(link.from.row) && isOnPage(link.to.row)).forEach(({ from, to }) => {
+        const x1 = chartX + (from.offset + from.length) * dayWidth;
+        const x2 = chartX + to.offset * dayWidth;
+        const y1 = rowTop(from.row) + rowHeight / 2;
+        const y2 = rowTop(to.row) + rowHeight / 2;
+        const direction = x2 >= x1 + 1.5 ? 1 : -1;
+
+        // Red when the task starts before its blocker is due
+        const conflict = to.offset < from.offset + from.length - 1;
+        const [red, green, blue] = conflict ? [239, 68, 68] : [107, 114, 128];
+        doc.setDrawColor(red, green, blue);
+        doc.setFillColor(red, green, blue);
+        doc.line(x1, y1, x1 + 1.5, y1);
+        doc.line(x1 + 1.5, y1, x1 + 1.5, y2);
+        doc.line(x1 + 1.5, y2, x2, y2);
+        doc.triangle(x2, y2, x2 - direction * 1.2, y2 - 0.8, x2 - direction * 1.2, y2 + 0.8, 'F');
+      });
+
+      // Today marker
+      const todayX = chartX + (layout.todayOffset + 0.5) * dayWidth;
+      doc.setDrawColor(239, 68, 68);
+      doc.setLineWidth(0.3);
+      for (let y = chartTop - 5; y < chartBottom; y += 2) {
+        doc.line(todayX, y, todayX, Math.min(y + 1, chartBottom));
+      }
     }
-  }
 
-  /**
-   * Get list of overdue tasks
-   */
-  private getOverdueTasks(tasks: Task[]): Task[] {
-    return tasks.filter(task => this.isOverdue(task));
+    // Reset colors
+    doc.setDrawColor(200, 200, 200);
+    doc.setTextColor(40, 40, 40);
   }
-}
\ No newline at end of file
+}
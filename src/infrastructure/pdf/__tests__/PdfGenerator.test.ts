@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Task } from '@/core/domain/entities/Task';
+import { Member } from '@/core/domain/entities/Member';
+import { DEFAULT_REPORT_OPTIONS } from '@/core/application/dto/ReportOptionsDTO';
+import { PdfGenerator } from '../PdfGenerator';
+
+const member = Member.create({ name: 'Ann Lee', email: 'ann@example.com' });
+
+const tasks = [
+  Task.create({
+    title: 'Write the quarterly report',
+    pic: member.id,
+    startDate: '2099-03-01',
+    endDate: '2099-03-10',
+    priority: 'high',
+    tags: ['finance']
+  }),
+  Task.create({
+    title: 'Review the budget',
+    startDate: '2099-03-05',
+    endDate: '2099-03-06',
+    status: 'in_progress'
+  }),
+  Task.create({ title: 'Book the venue', status: 'done' })
+];
+
+describe('PdfGenerator', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('generates a PDF listing every task', async () => {
+    const { blob, filename } = new PdfGenerator().generateTaskReport(tasks, [member]);
+    const content = await blob.text();
+
+    expect(content.startsWith('%PDF')).toBe(true);
+    expect(filename).toMatch(/^task-manager-report-\d{14}\.pdf$/);
+    tasks.forEach(task => expect(content).toContain(task.title));
+  });
+
+  it('generates a PDF with the table layout and timeline', async () => {
+    const { blob } = new PdfGenerator().generateTaskReport(tasks, [member], {
+      ...DEFAULT_REPORT_OPTIONS,
+      layout: 'table',
+      orientation: 'landscape',
+      includeTimeline: true
+    });
+    const content = await blob.text();
+
+    expect(content.startsWith('%PDF')).toBe(true);
+    tasks.forEach(task => expect(content).toContain(task.title));
+  });
+
+  it('generates a PDF for an empty task list', async () => {
+    const { blob } = new PdfGenerator().generateTaskReport([]);
+
+    expect((await blob.text()).startsWith('%PDF')).toBe(true);
+  });
+});
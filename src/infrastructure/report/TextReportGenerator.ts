@@ -0,0 +1,257 @@
+import { Task } from '@/core/domain/entities/Task';
+import { Member, buildPicLabels } from '@/core/domain/entities/Member';
+import { taskGroupUtils } from '@/core/domain/entities/taskUtils';
+import { ReportOptions, DEFAULT_REPORT_OPTIONS } from '@/core/application/dto/ReportOptionsDTO';
+import { REPORT_FOOTER, REPORT_TITLE, reportContentUtils } from './reportContent';
+
+export type TextReportFormat = 'markdown' | 'text';
+
+// A generated report, as text to copy and as a file to download
+export interface TextReport {
+  format: TextReportFormat;
+  content: string;
+  blob: Blob;
+  filename: string;
+}
+
+export interface ITextReportGenerator {
+  generateTaskReport(tasks: Task[], members?: Member[], options?: ReportOptions, format?: TextReportFormat): TextReport;
+}
+
+const FILE_TYPES: Record<TextReportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  text: { extension: 'txt', mimeType: 'text/plain;charset=utf-8' }
+};
+
+// Plain-text table cells are cut to this many characters
+const MAX_CELL_WIDTH = 40;
+
+// Backslash-escape characters Markdown would treat as formatting, including
+// a heading, list or quote marker at the start of a line
+const escapeMarkdown = (value: string): string => value
+  .replace(/([\\`*_[\]<>~])/g, '\\$1')
+  .replace(/^(\d+)([.)])(?=\s)/, '$1\\$2')
+  .replace(/^([#+-])(?=\s|#)/, '\\$1');
+
+// Table cells also need their pipes escaped
+const escapeTableCell = (value: string): string => escapeMarkdown(value).replace(/\|/g, '\\|');
+
+const truncate = (value: string, width: number): string =>
+  value.length > width ? `${value.slice(0, width - 3)}...` : value;
+
+const descriptionLines = (task: Task): string[] =>
+  (task.description || '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+/**
+ * Renders the sections of the PDF report (header, summary, grouped task
+ * details) as GitHub-flavoured Markdown or plain text, for pasting into
+ * chat and wikis. Tasks are expected in report order, as for the PDF.
+ */
+export class TextReportGenerator implements ITextReportGenerator {
+  generateTaskReport(
+    tasks: Task[],
+    members: Member[] = [],
+    options: ReportOptions = DEFAULT_REPORT_OPTIONS,
+    format: TextReportFormat = 'markdown'
+  ): TextReport {
+    const now = new Date();
+    const lines = format === 'markdown'
+      ? this.buildMarkdown(tasks, members, options, now)
+      : this.buildText(tasks, members, options, now);
+    const content = lines.join('\n') + '\n';
+
+    const { extension, mimeType } = FILE_TYPES[format];
+    const timestamp = now.toISOString().slice(0, 19).replace(/[:\-T]/g, '');
+    return {
+      format,
+      content,
+      blob: new Blob([content], { type: mimeType }),
+      filename: `task-manager-report-${timestamp}.${extension}`
+    };
+  }
+
+  private buildMarkdown(tasks: Task[], members: Member[], options: ReportOptions, now: Date): string[] {
+    const lines = [
+      `# ${REPORT_TITLE}`,
+      '',
+      `${reportContentUtils.formatGeneratedAt(now)}\\`,
+      `${reportContentUtils.describeScope(tasks.length, options)}\\`,
+      escapeMarkdown(reportContentUtils.describeOptions(options)),
+      ''
+    ];
+
+    if (options.includeSummary) {
+      lines.push('## Summary', '');
+      reportContentUtils.getSummary(tasks).forEach(stat => lines.push(`- **${stat.label}:** ${stat.value}`));
+      const tagCounts = reportContentUtils.getTagCounts(tasks);
+      if (tagCounts.length > 0) {
+        lines.push(`- **Tasks by Tag:** ${escapeMarkdown(tagCounts.join(', '))}`);
+      }
+      lines.push('');
+    }
+
+    lines.push('## Task Details', '');
+    this.forEachGroup(tasks, members, options, (label, groupTasks, firstIndex) => {
+      if (label) lines.push(`### ${escapeMarkdown(label)} (${groupTasks.length})`, '');
+
+      if (options.layout === 'table') {
+        lines.push(...this.buildMarkdownTable(groupTasks, firstIndex, members, tasks, options), '');
+        return;
+      }
+
+      groupTasks.forEach((task, groupIndex) => {
+        const marker = `${firstIndex + groupIndex}. `;
+        const indent = ' '.repeat(marker.length);
+        const status = options.fields.includes('status') ? ` (${reportContentUtils.getStatusLabel(task)})` : '';
+        lines.push(`${marker}**${escapeMarkdown(task.title)}**${status}`);
+
+        if (options.fields.includes('description')) {
+          const description = descriptionLines(task).map(escapeMarkdown);
+          if (description.length > 0) {
+            // Trailing backslashes keep the description's line breaks
+            lines.push(...description.map((line, index) =>
+              `${indent}${line}${index < description.length - 1 ? '\\' : ''}`
+            ));
+          }
+        }
+
+        reportContentUtils.getDetails(task, options.fields, members, tasks).forEach(detail => {
+          lines.push(`${indent}- ${detail.label}: ${escapeMarkdown(detail.value)}`);
+        });
+        lines.push('');
+      });
+    });
+
+    lines.push('---', '', `_${escapeMarkdown(REPORT_FOOTER)}_`);
+    return lines;
+  }
+
+  private buildMarkdownTable(
+    tasks: Task[],
+    firstIndex: number,
+    members: Member[],
+    allTasks: Task[],
+    options: ReportOptions
+  ): string[] {
+    const columns = reportContentUtils.getColumns(options.fields, members, allTasks);
+    const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+
+    return [
+      row(['#', 'Title', ...columns.map(column => column.header)]),
+      row(['--:', '---', ...columns.map(() => '---')]),
+      ...tasks.map((task, index) => {
+        const title = [
+          `**${escapeTableCell(task.title)}**`,
+          ...(options.fields.includes('description') ? descriptionLines(task).map(escapeTableCell) : [])
+        ].join('<br>');
+        return row([
+          String(firstIndex + index),
+          title,
+          ...columns.map(column => escapeTableCell(column.value(task) || '-'))
+        ]);
+      })
+    ];
+  }
+
+  private buildText(tasks: Task[], members: Member[], options: ReportOptions, now: Date): string[] {
+    const heading = (text: string, underline: string) => [text, underline.repeat(text.length)];
+    const lines = [
+      ...heading(REPORT_TITLE, '='),
+      reportContentUtils.formatGeneratedAt(now),
+      reportContentUtils.describeScope(tasks.length, options),
+      reportContentUtils.describeOptions(options),
+      ''
+    ];
+
+    if (options.includeSummary) {
+      lines.push(...heading('Summary', '-'));
+      const tagCounts = reportContentUtils.getTagCounts(tasks);
+      const rows: Array<{ label: string; value: string }> = [
+        ...reportContentUtils.getSummary(tasks),
+        ...(tagCounts.length > 0 ? [{ label: 'Tasks by Tag', value: tagCounts.join(', ') }] : [])
+      ];
+      const labelWidth = Math.max(...rows.map(row => row.label.length)) + 2;
+      rows.forEach(row => lines.push(`${`${row.label}:`.padEnd(labelWidth)}${row.value}`));
+      lines.push('');
+    }
+
+    lines.push(...heading('Task Details', '-'), '');
+    this.forEachGroup(tasks, members, options, (label, groupTasks, firstIndex) => {
+      if (label) lines.push(`${label} (${groupTasks.length})`, '');
+
+      if (options.layout === 'table') {
+        lines.push(...this.buildTextTable(groupTasks, firstIndex, members, tasks, options), '');
+        return;
+      }
+
+      groupTasks.forEach((task, groupIndex) => {
+        const marker = `${firstIndex + groupIndex}. `;
+        const indent = ' '.repeat(marker.length);
+        const status = options.fields.includes('status') ? ` [${reportContentUtils.getStatusLabel(task)}]` : '';
+        lines.push(`${marker}${task.title}${status}`);
+
+        if (options.fields.includes('description')) {
+          lines.push(...descriptionLines(task).map(line => `${indent}${line}`));
+        }
+        reportContentUtils.getDetails(task, options.fields, members, tasks).forEach(detail => {
+          lines.push(`${indent}${detail.label}: ${detail.value}`);
+        });
+        lines.push('');
+      });
+    });
+
+    lines.push('--', REPORT_FOOTER);
+    return lines;
+  }
+
+  /**
+   * Space-aligned columns; a selected description goes on its own line under the row
+   */
+  private buildTextTable(
+    tasks: Task[],
+    firstIndex: number,
+    members: Member[],
+    allTasks: Task[],
+    options: ReportOptions
+  ): string[] {
+    const columns = reportContentUtils.getColumns(options.fields, members, allTasks);
+    const header = ['#', 'Title', ...columns.map(column => column.header)];
+    const rows = tasks.map((task, index) => [
+      String(firstIndex + index),
+      task.title,
+      ...columns.map(column => column.value(task) || '-')
+    ].map(cell => truncate(cell, MAX_CELL_WIDTH)));
+
+    const widths = header.map((cell, column) => Math.max(cell.length, ...rows.map(row => row[column].length)));
+    const format = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+    const descriptionIndent = ' '.repeat(widths[0] + 2);
+
+    return [
+      format(header),
+      format(widths.map(width => '-'.repeat(width))),
+      ...rows.flatMap((row, index) => [
+        format(row),
+        ...(options.fields.includes('description')
+          ? descriptionLines(tasks[index]).map(line => `${descriptionIndent}${line}`)
+          : [])
+      ])
+    ];
+  }
+
+  /**
+   * Walk the report's groups, numbering tasks continuously across them.
+   * The label is empty when the report is not grouped.
+   */
+  private forEachGroup(
+    tasks: Task[],
+    members: Member[],
+    options: ReportOptions,
+    render: (label: string, tasks: Task[], firstIndex: number) => void
+  ): void {
+    let index = 1;
+    taskGroupUtils.groupTasks(tasks, options.groupBy, buildPicLabels(members)).forEach(group => {
+      render(options.groupBy === 'none' ? '' : group.label, group.tasks, index);
+      index += group.tasks.length;
+    });
+  }
+}
@@ -0,0 +1,246 @@
+import {
+  Task,
+  TaskWorkflowStatus,
+  TASK_WORKFLOW_STATUSES,
+  TASK_SORT_OPTIONS,
+  TASK_GROUP_BY_OPTIONS
+} from '@/core/domain/entities/Task';
+import { Member, resolvePic } from '@/core/domain/entities/Member';
+import {
+  taskStatusUtils,
+  taskStatsUtils,
+  taskChecklistUtils,
+  taskWorkflowUtils,
+  taskRecurrenceUtils
+} from '@/core/domain/entities/taskUtils';
+import { ReportField, ReportOptions } from '@/core/application/dto/ReportOptionsDTO';
+
+/*
+ * What a task report says, independent of how it is drawn. The PDF and the
+ * Markdown and plain-text reports all take their wording from here.
+ */
+
+export const REPORT_TITLE = 'Task Manager Report';
+export const REPORT_FOOTER = 'Generated by Task Manager | Bil Awal | Cybermax Pre-Test';
+
+// One line of the summary; `key` lets each format pick its own styling
+export interface ReportStat {
+  key: 'total' | TaskWorkflowStatus | 'overdue' | 'checklist' | 'progress';
+  label: string;
+  value: string;
+}
+
+// One labelled value under a task in the detailed layout
+export interface ReportDetail {
+  field: ReportField;
+  label: string;
+  value: string;
+}
+
+// One column of the table layout; the dates field gives two, and the description sits under the title
+export interface ReportColumn {
+  key: Exclude<ReportField, 'description' | 'dates'> | 'startDate' | 'endDate';
+  header: string;
+  value: (task: Task) => string;
+}
+
+/**
+ * Format date string for display
+ */
+const formatDate = (dateString: string): string => {
+  try {
+    const date = new Date(dateString);
+    if (isNaN(date.getTime())) {
+      return 'Invalid Date';
+    }
+
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  } catch (error) {
+    console.error('reportContent: Error formatting date:', error);
+    return 'Invalid Date';
+  }
+};
+
+/**
+ * Check if task is overdue
+ */
+const isOverdue = (task: Task): boolean => {
+  if (!task.endDate || taskWorkflowUtils.isClosed(task)) return false;
+
+  try {
+    const endDate = new Date(task.endDate);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    endDate.setHours(0, 0, 0, 0);
+
+    return endDate < today;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * PIC as "Name (Role)" when it resolves to a member
+ */
+const formatPic = (task: Task, members: Member[]): string => {
+  const pic = resolvePic(task.pic, members);
+  if (!pic) return '-';
+  return pic.member ? `${pic.label} (${pic.member.role})` : pic.label;
+};
+
+const formatChecklist = (task: Task): string => {
+  const progress = taskChecklistUtils.getProgress(task);
+  return progress.total > 0 ? `${progress.completed}/${progress.total} (${progress.percentage}%)` : '-';
+};
+
+/**
+ * Titles of the blocking tasks; blockers outside the report are counted instead
+ */
+const formatBlockers = (task: Task, allTasks: Task[]): string => {
+  if (task.blockedBy.length === 0) return '-';
+
+  const titles = task.blockedBy
+    .map(id => allTasks.find(other => other.id === id)?.title)
+    .filter((title): title is string => !!title);
+  const others = task.blockedBy.length - titles.length;
+
+  return others > 0
+    ? [...titles, `${others} other task${others === 1 ? '' : 's'}`].join(', ')
+    : titles.join(', ');
+};
+
+const formatCreated = (task: Task): string => {
+  const createdDate = task.createdAt instanceof Date ? task.createdAt : new Date(task.createdAt);
+  return isNaN(createdDate.getTime()) ? '-' : formatDate(createdDate.toISOString());
+};
+
+export const reportContentUtils = {
+  formatDate,
+  isOverdue,
+  formatPic,
+  formatChecklist,
+  formatBlockers,
+  formatCreated,
+
+  /**
+   * Workflow status label, or "Overdue" for open tasks past their due date
+   */
+  getStatusLabel: (task: Task): string => isOverdue(task) ? 'Overdue' : taskWorkflowUtils.getLabel(task.status),
+
+  formatGeneratedAt: (date: Date): string => `Generated: ${date.toLocaleString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })}`,
+
+  describeScope: (taskCount: number, options: ReportOptions): string =>
+    `Total Tasks: ${taskCount} | ${options.scope === 'filtered' ? 'Current filtered view' : 'All tasks'}`,
+
+  /**
+   * One-line description of the date range, grouping and sort order
+   */
+  describeOptions: (options: ReportOptions): string => {
+    const parts: string[] = [];
+
+    if (options.dateFrom && options.dateTo) {
+      parts.push(`Due ${formatDate(options.dateFrom)} - ${formatDate(options.dateTo)}`);
+    } else if (options.dateFrom) {
+      parts.push(`Due from ${formatDate(options.dateFrom)}`);
+    } else if (options.dateTo) {
+      parts.push(`Due until ${formatDate(options.dateTo)}`);
+    }
+
+    if (options.groupBy !== 'none') {
+      const groupLabel = TASK_GROUP_BY_OPTIONS.find(option => option.value === options.groupBy)?.label;
+      parts.push(`Grouped by ${groupLabel}`);
+    }
+
+    const sortLabel = TASK_SORT_OPTIONS.find(option => option.value === options.sortBy)?.label || options.sortBy;
+    parts.push(`Sorted by ${sortLabel} (${options.sortOrder === 'asc' ? 'ascending' : 'descending'})`);
+
+    return parts.join(' | ');
+  },
+
+  /**
+   * Summary statistics: totals per status and overdue, plus checklist progress when any task has one
+   */
+  getSummary: (tasks: Task[]): ReportStat[] => {
+    const statistics = taskStatsUtils.calculateStatistics(tasks);
+
+    const stats: ReportStat[] = [
+      { key: 'total', label: 'Total Tasks', value: tasks.length.toString() },
+      ...TASK_WORKFLOW_STATUSES.map(status => ({
+        key: status,
+        label: taskWorkflowUtils.getLabel(status),
+        value: statistics.byStatus[status].toString()
+      })),
+      { key: 'overdue', label: 'Overdue', value: tasks.filter(isOverdue).length.toString() }
+    ];
+
+    if (statistics.checklistTotal > 0) {
+      stats.push(
+        { key: 'checklist', label: 'Checklist', value: `${statistics.checklistCompleted}/${statistics.checklistTotal} items done` },
+        { key: 'progress', label: 'Progress', value: `${statistics.progressRate}% overall` }
+      );
+    }
+
+    return stats;
+  },
+
+  /**
+   * Per-tag task counts as "tag (count)", most used first
+   */
+  getTagCounts: (tasks: Task[]): string[] =>
+    taskStatsUtils.countByTag(tasks).map(({ tag, count }) => `${tag} (${count})`),
+
+  /**
+   * The selected fields of one task that have a value, excluding status and description
+   */
+  getDetails: (task: Task, fields: ReportField[], members: Member[], allTasks: Task[]): ReportDetail[] => {
+    const details: ReportDetail[] = [];
+    const add = (field: ReportField, label: string, value: string) => {
+      if (fields.includes(field)) details.push({ field, label, value });
+    };
+
+    if (task.pic) add('pic', 'Person in Charge', formatPic(task, members));
+    add('priority', 'Priority', taskStatusUtils.getPriorityLabel(task.priority));
+    if (task.tags.length > 0) add('tags', 'Tags', task.tags.join(', '));
+    if (taskChecklistUtils.getProgress(task).total > 0) add('checklist', 'Checklist', formatChecklist(task));
+    if (task.startDate) add('dates', 'Start Date', formatDate(task.startDate));
+    if (task.endDate) add('dates', 'End Date', formatDate(task.endDate));
+    if (task.blockedBy.length > 0) add('dependencies', 'Blocked by', formatBlockers(task, allTasks));
+    if (task.recurrence) add('recurrence', 'Repeats', taskRecurrenceUtils.describe(task.recurrence));
+    if (task.createdAt) add('created', 'Created', formatCreated(task));
+
+    return details;
+  },
+
+  /**
+   * Table columns for the selected fields, in the order the fields are offered
+   */
+  getColumns: (fields: ReportField[], members: Member[], allTasks: Task[]): ReportColumn[] => {
+    const columns: ReportColumn[] = [
+      { key: 'status', header: 'Status', value: task => reportContentUtils.getStatusLabel(task) },
+      { key: 'pic', header: 'Person in Charge', value: task => formatPic(task, members) },
+      { key: 'priority', header: 'Priority', value: task => taskStatusUtils.getPriorityLabel(task.priority) },
+      { key: 'startDate', header: 'Start', value: task => task.startDate ? formatDate(task.startDate) : '-' },
+      { key: 'endDate', header: 'Due', value: task => task.endDate ? formatDate(task.endDate) : '-' },
+      { key: 'tags', header: 'Tags', value: task => task.tags.join(', ') },
+      { key: 'checklist', header: 'Checklist', value: task => formatChecklist(task) },
+      { key: 'dependencies', header: 'Blocked by', value: task => formatBlockers(task, allTasks) },
+      { key: 'recurrence', header: 'Repeats', value: task => task.recurrence ? taskRecurrenceUtils.describe(task.recurrence) : '-' },
+      { key: 'created', header: 'Created', value: task => formatCreated(task) }
+    ];
+
+    return columns.filter(column => fields.includes(
+      column.key === 'startDate' || column.key === 'endDate' ? 'dates' : column.key
+    ));
+  }
+};
@@ -0,0 +1,72 @@
+import { IMember, Member } from '@/core/domain/entities/Member';
+import { TaskApiError } from '@/core/domain/entities/Task';
+import { IMemberRepository } from '@/core/domain/repositories/IMemberRepository';
+
+export class ApiMemberRepository implements IMemberRepository {
+  constructor(private apiUrl: string) {}
+
+  /**
+   * Build an Error from a TaskApiError response body when available
+   */
+  private async toError(response: Response, fallback: string): Promise<Error> {
+    try {
+      const body: TaskApiError = await response.json();
+      if (body?.message) {
+        return new Error(`${fallback}: ${body.message}`);
+      }
+    } catch {
+      // Non-JSON error body, use the fallback message
+    }
+    return new Error(fallback);
+  }
+
+  async findAll(): Promise<Member[]> {
+    const response = await fetch(`${this.apiUrl}/members`);
+    if (!response.ok) throw await this.toError(response, 'Failed to fetch members');
+
+    const data: IMember[] = await response.json();
+    return data.map(m => Member.fromJSON(m));
+  }
+
+  async findById(id: string): Promise<Member | null> {
+    const response = await fetch(`${this.apiUrl}/members/${id}`);
+    if (!response.ok) return null;
+
+    const data: IMember = await response.json();
+    return Member.fromJSON(data);
+  }
+
+  async create(member: Member): Promise<Member> {
+    const response = await fetch(`${this.apiUrl}/members`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(member.toJSON()),
+    });
+
+    if (!response.ok) throw await this.toError(response, 'Failed to create member');
+
+    const data: IMember = await response.json();
+    return Member.fromJSON(data);
+  }
+
+  async update(member: Member): Promise<Member> {
+    const response = await fetch(`${this.apiUrl}/members/${member.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(member.toJSON()),
+    });
+
+    if (!response.ok) throw await this.toError(response, 'Failed to update member');
+
+    const data: IMember = await response.json();
+    return Member.fromJSON(data);
+  }
+
+  async delete(id: string): Promise<void> {
+    const response = await fetch(`${this.apiUrl}/members/${id}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) throw await this.toError(response, 'Failed to delete member');
+  }
+}
@@ -0,0 +1,39 @@
+import { ITag } from '@/core/domain/entities/Tag';
+import { TaskApiError } from '@/core/domain/entities/Task';
+import { ITagRepository } from '@/core/domain/repositories/ITagRepository';
+
+export class ApiTagRepository implements ITagRepository {
+  constructor(private apiUrl: string) {}
+
+  /**
+   * Build an Error from a TaskApiError response body when available
+   */
+  private async toError(response: Response, fallback: string): Promise<Error> {
+    try {
+      const body: TaskApiError = await response.json();
+      if (body?.message) {
+        return new Error(`${fallback}: ${body.message}`);
+      }
+    } catch {
+      // Non-JSON error body, use the fallback message
+    }
+    return new Error(fallback);
+  }
+
+  async findAll(): Promise<ITag[]> {
+    const response = await fetch(`${this.apiUrl}/tags`);
+    if (!response.ok) throw await this.toError(response, 'Failed to fetch tags');
+    return response.json();
+  }
+
+  async save(tag: ITag): Promise<ITag> {
+    const response = await fetch(`${this.apiUrl}/tags`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(tag),
+    });
+
+    if (!response.ok) throw await this.toError(response, 'Failed to save tag');
+    return response.json();
+  }
+}
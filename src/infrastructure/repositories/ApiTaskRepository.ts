@@ -1,17 +1,69 @@
-import { Task, ITask } from '@/core/domain/entities/Task';
-import { ITaskRepository } from '@/core/domain/repositories/ITaskRepository';
+import {
+  Task,
+  ITask,
+  TaskApiError,
+  TaskFilters,
+  TaskSortOptions,
+  TaskPaginationOptions,
+  TaskResponse,
+  BulkTaskOperation,
+  BulkTaskOperationResult,
+  BulkTaskOperationResponse
+} from '@/core/domain/entities/Task';
+import { ITaskRepository, TaskUpdateOptions } from '@/core/domain/repositories/ITaskRepository';
+import { serializeTaskListQuery } from '@/core/application/dto/TaskQueryDTO';
 
 export class ApiTaskRepository implements ITaskRepository {
   constructor(private apiUrl: string) {}
 
+  /**
+   * Build an Error from a TaskApiError response body when available
+   */
+  private async toError(response: Response, fallback: string): Promise<Error> {
+    try {
+      const body: TaskApiError = await response.json();
+      if (body?.message) {
+        return new Error(`${fallback}: ${body.message}`);
+      }
+    } catch {
+      // Non-JSON error body, use the fallback message
+    }
+    return new Error(fallback);
+  }
+
+  /**
+   * Fetch a task list, accepting both TaskResponse and plain array bodies
+   */
+  private async fetchTaskList(query?: URLSearchParams): Promise<TaskResponse> {
+    const queryString = query?.toString();
+    const response = await fetch(`${this.apiUrl}/tasks${queryString ? `?${queryString}` : ''}`);
+    if (!response.ok) throw await this.toError(response, 'Failed to fetch tasks');
+
+    const body: TaskResponse | ITask[] = await response.json();
+    return Array.isArray(body) ? { data: body } : body;
+  }
+
   async findAll(): Promise<Task[]> {
-    const response = await fetch(`${this.apiUrl}/tasks`);
-    if (!response.ok) throw new Error('Failed to fetch tasks');
-    
-    const data: ITask[] = await response.json();
+    const { data } = await this.fetchTaskList();
+    return data.map(t => Task.fromJSON(t));
+  }
+
+  async findByFilters(
+    filters: TaskFilters,
+    sortOptions?: TaskSortOptions,
+    pagination?: TaskPaginationOptions
+  ): Promise<Task[]> {
+    const { data } = await this.fetchTaskList(serializeTaskListQuery(filters, sortOptions, pagination));
     return data.map(t => Task.fromJSON(t));
   }
 
+  async count(filters: TaskFilters = {}): Promise<number> {
+    const { data, pagination } = await this.fetchTaskList(
+      serializeTaskListQuery(filters, undefined, { page: 1, limit: 1 })
+    );
+    return pagination?.total ?? data.length;
+  }
+
   async findById(id: string): Promise<Task | null> {
     const response = await fetch(`${this.apiUrl}/tasks/${id}`);
     if (!response.ok) return null;
@@ -27,20 +79,26 @@ export class ApiTaskRepository implements ITaskRepository {
       body: JSON.stringify(task.toJSON()),
     });
     
-    if (!response.ok) throw new Error('Failed to create task');
+    if (!response.ok) throw await this.toError(response, 'Failed to create task');
     
     const data: ITask = await response.json();
     return Task.fromJSON(data);
   }
 
-  async update(task: Task): Promise<Task> {
-    const response = await fetch(`${this.apiUrl}/tasks/${task.id}`, {
-      method: 'PUT',
+  async update(task: Task, options: TaskUpdateOptions = {}): Promise<Task> {
+    // Undoing and restoring have their own endpoints, as they follow different workflow rules
+    const [url, method] = options.replace
+      ? [`${this.apiUrl}/tasks/${task.id}/replace`, 'POST']
+      : options.revert
+        ? [`${this.apiUrl}/tasks/${task.id}/revert`, 'POST']
+        : [`${this.apiUrl}/tasks/${task.id}`, 'PUT'];
+    const response = await fetch(url, {
+      method,
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(task.toJSON()),
     });
     
-    if (!response.ok) throw new Error('Failed to update task');
+    if (!response.ok) throw await this.toError(response, 'Failed to update task');
     
     const data: ITask = await response.json();
     return Task.fromJSON(data);
@@ -51,6 +109,36 @@ export class ApiTaskRepository implements ITaskRepository {
       method: 'DELETE',
     });
     
-    if (!response.ok) throw new Error('Failed to delete task');
+    if (!response.ok) throw await this.toError(response, 'Failed to delete task');
+  }
+
+  async restore(task: Task): Promise<Task> {
+    const response = await fetch(`${this.apiUrl}/tasks/restore`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(task.toJSON()),
+    });
+
+    if (!response.ok) throw await this.toError(response, 'Failed to restore task');
+
+    const data: ITask = await response.json();
+    return Task.fromJSON(data);
+  }
+
+  async executeBulk(operation: BulkTaskOperation): Promise<BulkTaskOperationResult> {
+    const response = await fetch(`${this.apiUrl}/tasks/bulk`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(operation),
+    });
+
+    if (!response.ok) throw await this.toError(response, 'Failed to apply bulk operation');
+
+    const data: BulkTaskOperationResponse = await response.json();
+    return {
+      ...data,
+      updated: data.updated.map(t => Task.fromJSON(t)),
+      created: (data.created || []).map(t => Task.fromJSON(t))
+    };
   }
 }
\ No newline at end of file
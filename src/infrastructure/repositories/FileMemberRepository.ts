@@ -0,0 +1,61 @@
+import { IMember, Member } from '@/core/domain/entities/Member';
+import { IMemberRepository } from '@/core/domain/repositories/IMemberRepository';
+import { JsonFileStore } from './JsonFileStore';
+
+/**
+ * Server-side member directory persisting to a JSON file next to the tasks
+ */
+export class FileMemberRepository implements IMemberRepository {
+  private readonly store: JsonFileStore<IMember>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<IMember>(filePath, item => {
+      if (typeof item.id !== 'string' || typeof item.name !== 'string' || typeof item.email !== 'string') {
+        return null;
+      }
+      return Member.fromJSON(item as unknown as IMember).toJSON();
+    });
+  }
+
+  async findAll(): Promise<Member[]> {
+    const data = await this.store.read();
+    return data.map(item => Member.fromJSON(item));
+  }
+
+  async findById(id: string): Promise<Member | null> {
+    const data = await this.store.read();
+    const item = data.find(member => member.id === id);
+    return item ? Member.fromJSON(item) : null;
+  }
+
+  async create(member: Member): Promise<Member> {
+    return this.store.mutate(members => {
+      if (members.some(m => m.id === member.id)) {
+        throw new Error(`Member with ID ${member.id} already exists`);
+      }
+      return { items: [...members, member.toJSON()], result: member };
+    });
+  }
+
+  async update(member: Member): Promise<Member> {
+    return this.store.mutate(members => {
+      const index = members.findIndex(m => m.id === member.id);
+      if (index === -1) {
+        throw new Error(`Member with ID ${member.id} not found for update`);
+      }
+
+      const updatedMembers = [...members];
+      updatedMembers[index] = member.toJSON();
+      return { items: updatedMembers, result: member };
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    return this.store.mutate(members => {
+      if (!members.some(m => m.id === id)) {
+        throw new Error(`Member with ID ${id} not found for deletion`);
+      }
+      return { items: members.filter(m => m.id !== id), result: undefined };
+    });
+  }
+}
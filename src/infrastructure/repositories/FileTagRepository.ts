@@ -0,0 +1,30 @@
+import { ITag, isSameTag, normalizeTagName } from '@/core/domain/entities/Tag';
+import { ITagRepository } from '@/core/domain/repositories/ITagRepository';
+import { JsonFileStore } from './JsonFileStore';
+
+/**
+ * Server-side tag registry persisting to a JSON file next to the tasks
+ */
+export class FileTagRepository implements ITagRepository {
+  private readonly store: JsonFileStore<ITag>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<ITag>(filePath, item => {
+      if (typeof item.name !== 'string' || typeof item.color !== 'string') return null;
+      return { name: item.name, color: item.color };
+    });
+  }
+
+  async findAll(): Promise<ITag[]> {
+    return this.store.read();
+  }
+
+  async save(tag: ITag): Promise<ITag> {
+    const savedTag = { name: normalizeTagName(tag.name), color: tag.color };
+
+    return this.store.mutate(tags => ({
+      items: [...tags.filter(t => !isSameTag(t.name, savedTag.name)), savedTag],
+      result: savedTag
+    }));
+  }
+}
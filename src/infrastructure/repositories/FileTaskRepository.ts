@@ -0,0 +1,97 @@
+import {
+  Task,
+  ITask,
+  TaskFilters,
+  TaskSortOptions,
+  TaskPaginationOptions,
+  normalizeTaskPriority,
+  normalizeChecklist,
+  normalizeTaskIds,
+  normalizeRecurrence,
+  normalizeTaskWorkflowStatus
+} from '@/core/domain/entities/Task';
+import { normalizeTaskTags } from '@/core/domain/entities/Tag';
+import { ITaskRepository } from '@/core/domain/repositories/ITaskRepository';
+import { taskQueryUtils } from '@/core/domain/entities/taskUtils';
+import { JsonFileStore } from './JsonFileStore';
+
+/**
+ * Server-side task repository persisting to a JSON file.
+ * Used by the Next.js API routes; not available in the browser.
+ */
+export class FileTaskRepository implements ITaskRepository {
+  private readonly store: JsonFileStore<ITask>;
+
+  constructor(filePath: string) {
+    // Tasks saved before priorities/tags/checklists/dependencies/recurrence/statuses existed get defaults, persisted on the next write
+    this.store = new JsonFileStore<ITask>(filePath, item => {
+      if (!item.id || !item.title) return null;
+      return {
+        ...(item as unknown as ITask),
+        priority: normalizeTaskPriority(item.priority),
+        tags: normalizeTaskTags(item.tags),
+        checklist: normalizeChecklist(item.checklist),
+        blockedBy: normalizeTaskIds(item.blockedBy),
+        recurrence: normalizeRecurrence(item.recurrence),
+        status: normalizeTaskWorkflowStatus(item.status, item.completed === true)
+      };
+    });
+  }
+
+  async findAll(): Promise<Task[]> {
+    const data = await this.store.read();
+    return data.map(item => Task.fromJSON(item));
+  }
+
+  async findById(id: string): Promise<Task | null> {
+    const data = await this.store.read();
+    const item = data.find(task => task.id === id);
+    return item ? Task.fromJSON(item) : null;
+  }
+
+  async findByFilters(
+    filters: TaskFilters,
+    sortOptions?: TaskSortOptions,
+    pagination?: TaskPaginationOptions
+  ): Promise<Task[]> {
+    const tasks = await this.findAll();
+    const matchingTasks = taskQueryUtils.applyQuery(tasks, filters, sortOptions);
+    return taskQueryUtils.paginate(matchingTasks, pagination);
+  }
+
+  async count(filters?: TaskFilters): Promise<number> {
+    const tasks = await this.findAll();
+    return filters ? taskQueryUtils.applyQuery(tasks, filters).length : tasks.length;
+  }
+
+  async create(task: Task): Promise<Task> {
+    return this.store.mutate(tasks => {
+      if (tasks.some(t => t.id === task.id)) {
+        throw new Error(`Task with ID ${task.id} already exists`);
+      }
+      return { items: [...tasks, task.toJSON()], result: task };
+    });
+  }
+
+  async update(task: Task): Promise<Task> {
+    return this.store.mutate(tasks => {
+      const index = tasks.findIndex(t => t.id === task.id);
+      if (index === -1) {
+        throw new Error(`Task with ID ${task.id} not found for update`);
+      }
+
+      const updatedTasks = [...tasks];
+      updatedTasks[index] = task.toJSON();
+      return { items: updatedTasks, result: task };
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    return this.store.mutate(tasks => {
+      if (!tasks.some(t => t.id === id)) {
+        throw new Error(`Task with ID ${id} not found for deletion`);
+      }
+      return { items: tasks.filter(t => t.id !== id), result: undefined };
+    });
+  }
+}
@@ -0,0 +1,408 @@
+import {
+  Task,
+  ITask,
+  TaskFilters,
+  TaskSortOptions,
+  TaskPaginationOptions
+} from '@/core/domain/entities/Task';
+import { buildPicLabels } from '@/core/domain/entities/Member';
+import { ITaskRepository, TaskUpdateOptions } from '@/core/domain/repositories/ITaskRepository';
+import { IMemberRepository } from '@/core/domain/repositories/IMemberRepository';
+import { taskFilterUtils, taskQueryUtils } from '@/core/domain/entities/taskUtils';
+
+const DB_NAME = 'task-manager';
+const DB_VERSION = 1;
+const STORE_NAME = 'tasks';
+
+// Key LocalStorageTaskRepository keeps its tasks under
+const LEGACY_STORAGE_KEY = 'tasks';
+
+type TaskIndex = 'completed' | 'pic' | 'endDate';
+
+// Booleans are not valid IndexedDB keys, so completion is indexed as 0 or 1
+interface StoredTask extends ITask {
+  completedKey: 0 | 1;
+}
+
+const isStorageError = (error: unknown, name: string): boolean =>
+  !!error && typeof error === 'object' && (error as { name?: unknown }).name === name;
+
+const toRecord = (task: Task): StoredTask => ({ ...task.toJSON(), completedKey: task.completed ? 1 : 0 });
+
+/**
+ * Tasks in the JSON LocalStorageTaskRepository saved. Entries without an ID
+ * or title, or with unreadable dates, are skipped; a later duplicate ID wins.
+ */
+const parseLegacyTasks = (stored: string): Task[] => {
+  const data: unknown = JSON.parse(stored);
+  if (!Array.isArray(data)) {
+    throw new Error('Stored tasks are not a list');
+  }
+
+  const tasks = new Map<string, Task>();
+  data.forEach(item => {
+    const isValid = !!item && typeof item === 'object' &&
+      typeof item.id === 'string' && !!item.id &&
+      typeof item.title === 'string' && !!item.title;
+    if (!isValid) {
+      console.warn('IndexedDbTaskRepository: Skipping invalid task in localStorage:', item);
+      return;
+    }
+    const task = Task.fromJSON({ ...item, completed: item.completed === true } as ITask);
+    if (isNaN(task.createdAt.getTime()) || isNaN(task.updatedAt.getTime())) {
+      console.warn('IndexedDbTaskRepository: Skipping task with unreadable dates in localStorage:', item);
+      return;
+    }
+    tasks.set(task.id, task);
+  });
+  return Array.from(tasks.values());
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Rejects with the failing request's error, which the transaction only takes on once it aborts
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = (event) => reject((event.target as IDBRequest | null)?.error || transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Storage transaction was aborted'));
+  });
+
+/**
+ * Browser task repository backed by IndexedDB. Each operation touches only
+ * the tasks it needs, and the browser's quota is far larger than localStorage's.
+ * Tasks left in localStorage by earlier versions are moved over on first use.
+ */
+export class IndexedDbTaskRepository implements ITaskRepository {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param memberRepository Lets searching and sorting by Person in Charge use member names
+   */
+  constructor(private readonly memberRepository?: IMemberRepository) {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async findAll(): Promise<Task[]> {
+    const db = await this.getDb();
+    const records = await requestResult<StoredTask[]>(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll());
+    return records.map(record => Task.fromJSON(record));
+  }
+
+  async findById(id: string): Promise<Task | null> {
+    if (!id || typeof id !== 'string') return null;
+
+    const db = await this.getDb();
+    const record = await requestResult<StoredTask | undefined>(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(id));
+    return record ? Task.fromJSON(record) : null;
+  }
+
+  async findByFilters(
+    filters: TaskFilters,
+    sortOptions?: TaskSortOptions,
+    pagination?: TaskPaginationOptions
+  ): Promise<Task[]> {
+    const [candidates, picLabels] = await Promise.all([
+      this.findCandidates(filters),
+      this.getPicLabels(filters, sortOptions)
+    ]);
+    const matchingTasks = taskQueryUtils.applyQuery(candidates, filters, sortOptions, picLabels);
+    return taskQueryUtils.paginate(matchingTasks, pagination);
+  }
+
+  async count(filters: TaskFilters = {}): Promise<number> {
+    const db = await this.getDb();
+    const store = db.transaction(STORE_NAME).objectStore(STORE_NAME);
+
+    if (!taskFilterUtils.hasActiveFilters(filters)) {
+      return requestResult(store.count());
+    }
+
+    // A lone completion or PIC filter is answered by its index alone
+    const activeKeys = (Object.keys(filters) as Array<keyof TaskFilters>)
+      .filter(key => key !== 'tagMatch' && filters[key] !== undefined && filters[key] !== '');
+    const query = this.getIndexQuery(filters);
+    if (query && activeKeys.length === 1 && (activeKeys[0] === 'completed' || activeKeys[0] === 'pic')) {
+      return requestResult(store.index(query.index).count(query.range));
+    }
+
+    const [candidates, picLabels] = await Promise.all([
+      this.findCandidates(filters),
+      this.getPicLabels(filters)
+    ]);
+    return taskQueryUtils.applyQuery(candidates, filters, undefined, picLabels).length;
+  }
+
+  async create(task: Task): Promise<Task> {
+    if (!task || !task.id) {
+      throw new Error('Invalid task provided for creation');
+    }
+    return this.add(task);
+  }
+
+  /**
+   * Put back a task exactly as it was saved (undo of a delete, the next
+   * occurrence of a recurring task). Never overwrites an existing task.
+   */
+  async restore(task: Task): Promise<Task> {
+    if (!task || !task.id) {
+      throw new Error('Invalid task provided for restore');
+    }
+    return this.add(task);
+  }
+
+  /**
+   * Workflow rules for reverts and replacements are checked by UpdateTaskUseCase.
+   * Only a replacement writes back the copy's creation time; other updates keep the stored one.
+   */
+  async update(task: Task, options: TaskUpdateOptions = {}): Promise<Task> {
+    if (!task || !task.id) {
+      throw new Error('Invalid task provided for update');
+    }
+
+    const found = await this.writeExisting(task.id, (store, existing) => {
+      const record = toRecord(task);
+      store.put(options.replace ? record : { ...record, createdAt: existing.createdAt });
+    });
+    if (!found) {
+      throw new Error(`Task with ID ${task.id} not found for update`);
+    }
+    return task;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Invalid task ID provided for deletion');
+    }
+
+    const found = await this.writeExisting(id, store => store.delete(id));
+    if (!found) {
+      throw new Error(`Task with ID ${id} not found for deletion`);
+    }
+  }
+
+  // Fails with "already exists" rather than overwriting a task with the same ID
+  private async add(task: Task): Promise<Task> {
+    const db = await this.getDb();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).add(toRecord(task));
+
+    try {
+      await transactionDone(transaction);
+    } catch (error) {
+      if (isStorageError(error, 'ConstraintError')) {
+        throw new Error(`Task with ID ${task.id} already exists`);
+      }
+      throw this.toStorageError(error);
+    }
+    return task;
+  }
+
+  /**
+   * Run a write against a task in the same transaction that checks it exists.
+   * Resolves to false, without writing, when there is no such task.
+   */
+  private async writeExisting(
+    id: string,
+    write: (store: IDBObjectStore, existing: StoredTask) => void
+  ): Promise<boolean> {
+    const db = await this.getDb();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    let found = false;
+
+    const request: IDBRequest<StoredTask | undefined> = store.get(id);
+    request.onsuccess = () => {
+      if (request.result === undefined) return;
+      found = true;
+      write(store, request.result);
+    };
+
+    try {
+      await transactionDone(transaction);
+    } catch (error) {
+      throw this.toStorageError(error);
+    }
+    return found;
+  }
+
+  /**
+   * Tasks that may match the filters, read through the most selective index
+   * available. Callers still apply the full query, so this only narrows the read.
+   */
+  private async findCandidates(filters: TaskFilters): Promise<Task[]> {
+    const query = this.getIndexQuery(filters);
+    if (!query) return this.findAll();
+
+    const db = await this.getDb();
+    const index = db.transaction(STORE_NAME).objectStore(STORE_NAME).index(query.index);
+    const records = await requestResult<StoredTask[]>(index.getAll(query.range));
+    return records.map(record => Task.fromJSON(record));
+  }
+
+  // Tasks only store member IDs, so name-based queries need the member directory
+  private async getPicLabels(filters: TaskFilters, sortOptions?: TaskSortOptions): Promise<Map<string, string> | undefined> {
+    if (!this.memberRepository || (!filters.searchQuery && sortOptions?.sortBy !== 'pic')) {
+      return undefined;
+    }
+    return buildPicLabels(await this.memberRepository.findAll());
+  }
+
+  private getIndexQuery(filters: TaskFilters): { index: TaskIndex; range: IDBKeyRange } | null {
+    if (filters.pic) {
+      return { index: 'pic', range: IDBKeyRange.only(filters.pic) };
+    }
+
+    // Due dates are stored as YYYY-MM-DD, so they compare as strings; the
+    // upper bound also takes in any time part after the last day
+    const from = filters.startDate;
+    const until = filters.endDate ? `${filters.endDate}\uffff` : undefined;
+    if (from && until && from <= until) {
+      return { index: 'endDate', range: IDBKeyRange.bound(from, until) };
+    }
+    if (from && !until) {
+      return { index: 'endDate', range: IDBKeyRange.lowerBound(from) };
+    }
+    if (until && !from) {
+      return { index: 'endDate', range: IDBKeyRange.upperBound(until) };
+    }
+
+    if (filters.completed !== undefined) {
+      return { index: 'completed', range: IDBKeyRange.only(filters.completed ? 1 : 0) };
+    }
+
+    // Only done tasks are completed, so a status filter picks one side of the completion index
+    if (filters.status && filters.status.length > 0) {
+      const includesDone = filters.status.includes('done');
+      if (!includesDone || filters.status.length === 1) {
+        return { index: 'completed', range: IDBKeyRange.only(includesDone ? 1 : 0) };
+      }
+    }
+
+    return null;
+  }
+
+  private toStorageError(error: unknown): Error {
+    if (isStorageError(error, 'QuotaExceededError')) {
+      return new Error('Storage quota exceeded. Please clear some data and try again.');
+    }
+    return new Error(`Failed to save tasks: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  /**
+   * Open the database once, migrating localStorage tasks before anything reads it.
+   * A failed open is retried on the next call.
+   */
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDb()
+        .then(async db => {
+          await this.migrateFromLocalStorage(db);
+          return db;
+        })
+        .catch(error => {
+          this.dbPromise = null;
+          console.error('IndexedDbTaskRepository: Error opening the database:', error);
+          throw new Error(`Failed to open task storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        });
+    }
+    return this.dbPromise;
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('completed', 'completedKey');
+          store.createIndex('pic', 'pic');
+          store.createIndex('endDate', 'endDate');
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version of the app in another tab upgrade the database
+        db.onversionchange = () => db.close();
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => {
+        console.warn('IndexedDbTaskRepository: Waiting for other tabs to close the old database version');
+      };
+    });
+  }
+
+  /**
+   * Move tasks saved by LocalStorageTaskRepository into the database, then free
+   * their localStorage space. Only an empty database is filled, so existing
+   * tasks are never overwritten, including when two instances open at once.
+   * The saved JSON is only read here: nothing is written back to localStorage,
+   * and the key is removed once the database holds a task under every saved ID.
+   * That also clears a key another instance migrated, or an interrupted load left.
+   */
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    let legacyTasks: Task[];
+    try {
+      if (typeof localStorage === 'undefined') return;
+      const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (stored === null) return;
+      legacyTasks = parseLegacyTasks(stored);
+    } catch (error) {
+      console.error('IndexedDbTaskRepository: Could not read tasks from localStorage, leaving them in place:', error);
+      return;
+    }
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    let migrated = false;
+    let missingCount = legacyTasks.length;
+
+    // The IDs are compared in the same transaction as the writes, so no other write can come in between
+    const countMissing = () => {
+      const keysRequest = store.getAllKeys();
+      keysRequest.onsuccess = () => {
+        const storedIds = new Set(keysRequest.result);
+        missingCount = legacyTasks.filter(task => !storedIds.has(task.id)).length;
+      };
+    };
+
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+      if (countRequest.result === 0) {
+        legacyTasks.forEach(task => store.put(toRecord(task)));
+        migrated = true;
+      }
+      countMissing();
+    };
+
+    try {
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('IndexedDbTaskRepository: Migration from localStorage failed, leaving the tasks there:', error);
+      return;
+    }
+
+    if (missingCount > 0) {
+      if (migrated) {
+        console.error(`IndexedDbTaskRepository: ${missingCount} of ${legacyTasks.length} tasks were not migrated, leaving them in localStorage`);
+      } else {
+        console.warn('IndexedDbTaskRepository: Tasks found in localStorage but the database already has tasks; not migrating');
+      }
+      return;
+    }
+
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    if (migrated) {
+      console.log(`IndexedDbTaskRepository: Migrated ${legacyTasks.length} tasks from localStorage`);
+    }
+  }
+}
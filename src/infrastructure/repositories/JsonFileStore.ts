@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * JSON array file with atomic writes and serialized read-modify-write.
+ * Shared by the server-side file repositories; not available in the browser.
+ */
+export class JsonFileStore<T> {
+  // Serialize writes so concurrent requests don't overwrite each other
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param parseItem Validate/migrate a stored item; return null to drop it
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly parseItem: (item: Record<string, unknown>) => T | null
+  ) {}
+
+  /**
+   * Read items from the data file, treating a missing file as empty
+   */
+  async read(): Promise<T[]> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const data = JSON.parse(content);
+
+      if (!Array.isArray(data)) {
+        console.warn('JsonFileStore: Invalid data format in', this.filePath, '- treating as empty');
+        return [];
+      }
+
+      return data
+        .filter(item => item && typeof item === 'object')
+        .map(item => this.parseItem(item))
+        .filter((item): item is T => item !== null);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      console.error('JsonFileStore: Error reading data file:', error);
+      throw new Error(`Failed to read ${path.basename(this.filePath)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Write items atomically (temp file + rename)
+   */
+  private async write(items: T[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(items, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Run a read-modify-write operation exclusively
+   */
+  mutate<R>(operation: (items: T[]) => { items: T[]; result: R }): Promise<R> {
+    const run = this.writeQueue.then(async () => {
+      const current = await this.read();
+      const { items, result } = operation(current);
+      await this.write(items);
+      return result;
+    });
+
+    // Keep the queue alive even if this operation fails
+    this.writeQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+}
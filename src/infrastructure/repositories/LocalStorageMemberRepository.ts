@@ -0,0 +1,82 @@
+import { IMember, Member } from '@/core/domain/entities/Member';
+import { IMemberRepository } from '@/core/domain/repositories/IMemberRepository';
+
+export class LocalStorageMemberRepository implements IMemberRepository {
+  private readonly storageKey = 'task-members';
+
+  /**
+   * Safely read and parse the member directory from localStorage
+   */
+  private readStorage(): IMember[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return [];
+
+      const data = JSON.parse(stored);
+      if (!Array.isArray(data)) {
+        console.warn('LocalStorageMemberRepository: Invalid data format in localStorage, resetting...');
+        localStorage.removeItem(this.storageKey);
+        return [];
+      }
+
+      return data.filter(item =>
+        item &&
+        typeof item.id === 'string' &&
+        typeof item.name === 'string' &&
+        typeof item.email === 'string'
+      );
+    } catch (error) {
+      console.error('LocalStorageMemberRepository: Error reading from localStorage:', error);
+      return [];
+    }
+  }
+
+  private writeStorage(members: IMember[]): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(members));
+    } catch (error) {
+      console.error('LocalStorageMemberRepository: Error writing to localStorage:', error);
+      throw new Error(`Failed to save members: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findAll(): Promise<Member[]> {
+    return this.readStorage().map(item => Member.fromJSON(item));
+  }
+
+  async findById(id: string): Promise<Member | null> {
+    const item = this.readStorage().find(member => member.id === id);
+    return item ? Member.fromJSON(item) : null;
+  }
+
+  async create(member: Member): Promise<Member> {
+    const members = this.readStorage();
+    if (members.some(m => m.id === member.id)) {
+      throw new Error(`Member with ID ${member.id} already exists`);
+    }
+
+    this.writeStorage([...members, member.toJSON()]);
+    return member;
+  }
+
+  async update(member: Member): Promise<Member> {
+    const members = this.readStorage();
+    const index = members.findIndex(m => m.id === member.id);
+    if (index === -1) {
+      throw new Error(`Member with ID ${member.id} not found for update`);
+    }
+
+    members[index] = member.toJSON();
+    this.writeStorage(members);
+    return member;
+  }
+
+  async delete(id: string): Promise<void> {
+    const members = this.readStorage();
+    if (!members.some(m => m.id === id)) {
+      throw new Error(`Member with ID ${id} not found for deletion`);
+    }
+
+    this.writeStorage(members.filter(m => m.id !== id));
+  }
+}
@@ -0,0 +1,47 @@
+import { ITag, isSameTag, normalizeTagName } from '@/core/domain/entities/Tag';
+import { ITagRepository } from '@/core/domain/repositories/ITagRepository';
+
+export class LocalStorageTagRepository implements ITagRepository {
+  private readonly storageKey = 'task-tags';
+
+  /**
+   * Safely read and parse the tag registry from localStorage
+   */
+  private readStorage(): ITag[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return [];
+
+      const data = JSON.parse(stored);
+      if (!Array.isArray(data)) {
+        console.warn('LocalStorageTagRepository: Invalid data format in localStorage, resetting...');
+        localStorage.removeItem(this.storageKey);
+        return [];
+      }
+
+      return data.filter(item =>
+        item && typeof item.name === 'string' && typeof item.color === 'string'
+      );
+    } catch (error) {
+      console.error('LocalStorageTagRepository: Error reading from localStorage:', error);
+      return [];
+    }
+  }
+
+  async findAll(): Promise<ITag[]> {
+    return this.readStorage();
+  }
+
+  async save(tag: ITag): Promise<ITag> {
+    try {
+      const savedTag = { name: normalizeTagName(tag.name), color: tag.color };
+      const tags = this.readStorage().filter(t => !isSameTag(t.name, savedTag.name));
+
+      localStorage.setItem(this.storageKey, JSON.stringify([...tags, savedTag]));
+      return savedTag;
+    } catch (error) {
+      console.error('LocalStorageTagRepository: Error in save:', error);
+      throw new Error(`Failed to save tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -1,5 +1,18 @@
-import { Task, ITask } from '@/core/domain/entities/Task';
+import {
+  Task,
+  ITask,
+  TaskFilters,
+  TaskSortOptions,
+  TaskPaginationOptions,
+  normalizeTaskPriority,
+  normalizeChecklist,
+  normalizeTaskIds,
+  normalizeRecurrence,
+  normalizeTaskWorkflowStatus
+} from '@/core/domain/entities/Task';
+import { normalizeTaskTags } from '@/core/domain/entities/Tag';
 import { ITaskRepository } from '@/core/domain/repositories/ITaskRepository';
+import { taskQueryUtils } from '@/core/domain/entities/taskUtils';
 
 export class LocalStorageTaskRepository implements ITaskRepository {
   private readonly storageKey = 'tasks';
@@ -40,14 +53,46 @@ export class LocalStorageTaskRepository implements ITaskRepository {
         return true;
       });
       
-      if (validatedTasks.length !== data.length) {
-        console.warn(`LocalStorageTaskRepository: Filtered out ${data.length - validatedTasks.length} invalid tasks`);
-        // Save the cleaned data back to localStorage
-        await this.safeWriteStorage(validatedTasks);
+      // Migrate tasks saved before priorities/tags/checklists/dependencies/recurrence/statuses existed
+      const needsMigration = validatedTasks.some(item =>
+        item.priority !== normalizeTaskPriority(item.priority) ||
+        !Array.isArray(item.tags) ||
+        !Array.isArray(item.checklist) ||
+        !Array.isArray(item.blockedBy) ||
+        item.recurrence === undefined ||
+        item.status === undefined
+      );
+      const migratedTasks: ITask[] = needsMigration
+        ? validatedTasks.map(item => ({
+          ...item,
+          priority: normalizeTaskPriority(item.priority),
+          tags: normalizeTaskTags(item.tags),
+          checklist: normalizeChecklist(item.checklist),
+          blockedBy: normalizeTaskIds(item.blockedBy),
+          recurrence: normalizeRecurrence(item.recurrence),
+          status: normalizeTaskWorkflowStatus(item.status, item.completed)
+        }))
+        : validatedTasks;
+
+      if (validatedTasks.length !== data.length || needsMigration) {
+        if (validatedTasks.length !== data.length) {
+          console.warn(`LocalStorageTaskRepository: Filtered out ${data.length - validatedTasks.length} invalid tasks`);
+        }
+        if (needsMigration) {
+          console.log('LocalStorageTaskRepository: Migrating tasks without a priority, tags, checklist, dependencies, recurrence or status to the defaults');
+        }
+        // Save the cleaned data back to localStorage. A failed write (e.g. a full
+        // quota) must not reach the corrupted-data recovery below, which would
+        // clear tasks that were read fine; they are cleaned again on the next read.
+        try {
+          await this.safeWriteStorage(migratedTasks);
+        } catch (writeError) {
+          console.warn('LocalStorageTaskRepository: Could not save the cleaned tasks, keeping them in memory:', writeError);
+        }
       }
       
-      console.log(`LocalStorageTaskRepository: Loaded ${validatedTasks.length} tasks from localStorage`);
-      return validatedTasks;
+      console.log(`LocalStorageTaskRepository: Loaded ${migratedTasks.length} tasks from localStorage`);
+      return migratedTasks;
       
     } catch (error) {
       console.error('LocalStorageTaskRepository: Error reading from localStorage:', error);
@@ -98,7 +143,14 @@ export class LocalStorageTaskRepository implements ITaskRepository {
         new Date(item.updatedAt),
         item.pic,
         item.startDate,
-        item.endDate
+        item.endDate,
+        normalizeTaskPriority(item.priority),
+        normalizeTaskTags(item.tags),
+        normalizeChecklist(item.checklist),
+        normalizeTaskIds(item.blockedBy),
+        normalizeRecurrence(item.recurrence),
+        normalizeTaskWorkflowStatus(item.status, item.completed),
+        item.completedAt ? new Date(item.completedAt) : null
       );
     } catch (error) {
       console.error('LocalStorageTaskRepository: Error creating Task entity:', error, item);
@@ -146,6 +198,32 @@ export class LocalStorageTaskRepository implements ITaskRepository {
     }
   }
 
+  async findByFilters(
+    filters: TaskFilters,
+    sortOptions?: TaskSortOptions,
+    pagination?: TaskPaginationOptions
+  ): Promise<Task[]> {
+    try {
+      console.log('LocalStorageTaskRepository: Finding tasks by filters:', { filters, sortOptions, pagination });
+      const tasks = await this.findAll();
+      const matchingTasks = taskQueryUtils.applyQuery(tasks, filters, sortOptions);
+      return taskQueryUtils.paginate(matchingTasks, pagination);
+    } catch (error) {
+      console.error('LocalStorageTaskRepository: Error in findByFilters:', error);
+      throw error;
+    }
+  }
+
+  async count(filters?: TaskFilters): Promise<number> {
+    try {
+      const tasks = await this.findAll();
+      return filters ? taskQueryUtils.applyQuery(tasks, filters).length : tasks.length;
+    } catch (error) {
+      console.error('LocalStorageTaskRepository: Error in count:', error);
+      throw error;
+    }
+  }
+
   async create(task: Task): Promise<Task> {
     try {
       console.log('LocalStorageTaskRepository: Creating task:', { id: task.id, title: task.title });
@@ -0,0 +1,132 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Task } from '@/core/domain/entities/Task';
+import { Member } from '@/core/domain/entities/Member';
+import { IMemberRepository } from '@/core/domain/repositories/IMemberRepository';
+import { IndexedDbTaskRepository } from '../IndexedDbTaskRepository';
+
+const LEGACY_STORAGE_KEY = 'tasks';
+
+const createLocalStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); }
+  };
+};
+
+const makeTask = (id: string, title: string, pic = '') =>
+  new Task(id, title, '', false, new Date('2024-01-01T00:00:00Z'), new Date('2024-01-02T00:00:00Z'), pic, '2099-03-01', '2099-03-05');
+
+const saveLegacyTasks = (tasks: Task[]) =>
+  localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(tasks.map(task => task.toJSON())));
+
+const ids = (tasks: Task[]) => tasks.map(task => task.id).sort();
+
+describe('IndexedDbTaskRepository', () => {
+  beforeEach(() => {
+    // A fresh database for every test
+    globalThis.indexedDB = new IDBFactory();
+    Object.defineProperty(globalThis, 'localStorage', { value: createLocalStorage(), configurable: true });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('migration from localStorage', () => {
+    it('moves the tasks into the database and then removes the localStorage key', async () => {
+      saveLegacyTasks([makeTask('a', 'First task'), makeTask('b', 'Second task')]);
+
+      const tasks = await new IndexedDbTaskRepository().findAll();
+
+      expect(ids(tasks)).toEqual(['a', 'b']);
+      expect(localStorage.getItem(LEGACY_STORAGE_KEY)).toBeNull();
+    });
+
+    it('keeps the key while the database is missing one of the saved tasks', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      await new IndexedDbTaskRepository().create(makeTask('a', 'First task'));
+      saveLegacyTasks([makeTask('a', 'First task'), makeTask('b', 'Second task')]);
+
+      const tasks = await new IndexedDbTaskRepository().findAll();
+
+      expect(ids(tasks)).toEqual(['a']);
+      expect(localStorage.getItem(LEGACY_STORAGE_KEY)).not.toBeNull();
+      expect(warn).toHaveBeenCalled();
+    });
+
+    it('removes a key left behind once every saved task is in the database, even with newer tasks', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      saveLegacyTasks([makeTask('a', 'First task')]);
+      const earlierLoad = new IndexedDbTaskRepository();
+      await earlierLoad.findAll();
+      await earlierLoad.create(makeTask('b', 'Added after the migration'));
+      saveLegacyTasks([makeTask('a', 'First task')]);
+
+      const tasks = await new IndexedDbTaskRepository().findAll();
+
+      expect(ids(tasks)).toEqual(['a', 'b']);
+      expect(localStorage.getItem(LEGACY_STORAGE_KEY)).toBeNull();
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('leaves unreadable JSON in place', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      localStorage.setItem(LEGACY_STORAGE_KEY, '{not json');
+
+      expect(await new IndexedDbTaskRepository().findAll()).toEqual([]);
+      expect(localStorage.getItem(LEGACY_STORAGE_KEY)).toBe('{not json');
+    });
+  });
+
+  describe('restore', () => {
+    it('puts back a missing task as it was', async () => {
+      const repository = new IndexedDbTaskRepository();
+      const task = await repository.create(makeTask('a', 'First task'));
+      await repository.delete(task.id);
+
+      await repository.restore(task);
+
+      expect((await repository.findById(task.id))?.toJSON()).toEqual(task.toJSON());
+    });
+
+    it('never overwrites an existing task', async () => {
+      const repository = new IndexedDbTaskRepository();
+      const task = await repository.create(makeTask('a', 'First task'));
+
+      await expect(repository.restore(makeTask('a', 'Other title'))).rejects.toThrow('already exists');
+      expect((await repository.findById(task.id))?.title).toBe('First task');
+    });
+  });
+
+  describe('update', () => {
+    it('only writes back the creation time of a replacement', async () => {
+      const repository = new IndexedDbTaskRepository();
+      await repository.create(makeTask('a', 'First task'));
+      const copy = Task.fromJSON({ ...makeTask('a', 'First task').toJSON(), createdAt: '2023-06-01T00:00:00.000Z' });
+
+      await repository.update(copy);
+      expect((await repository.findById('a'))?.createdAt.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+
+      await repository.update(copy, { replace: true });
+      expect((await repository.findById('a'))?.createdAt.toISOString()).toBe('2023-06-01T00:00:00.000Z');
+    });
+  });
+
+  describe('findByFilters', () => {
+    it('finds tasks by the name of their Person in Charge', async () => {
+      const member = Member.create({ name: 'Ann Lee', email: 'ann@example.com' });
+      const memberRepository = { findAll: async () => [member] } as unknown as IMemberRepository;
+      const repository = new IndexedDbTaskRepository(memberRepository);
+      await repository.create(makeTask('a', 'First task', member.id));
+      await repository.create(makeTask('b', 'Second task'));
+
+      expect(ids(await repository.findByFilters({ searchQuery: 'ann' }))).toEqual(['a']);
+      expect(await repository.count({ searchQuery: 'ann' })).toBe(1);
+    });
+  });
+});
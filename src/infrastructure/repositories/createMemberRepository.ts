@@ -0,0 +1,15 @@
+import { IMemberRepository } from '@/core/domain/repositories/IMemberRepository';
+import { ApiMemberRepository } from './ApiMemberRepository';
+import { LocalStorageMemberRepository } from './LocalStorageMemberRepository';
+
+/**
+ * Create the client-side member directory, stored alongside the tasks
+ * (see createTaskRepository for the environment switches)
+ */
+export const createMemberRepository = (): IMemberRepository => {
+  if (process.env.NEXT_PUBLIC_TASK_STORAGE === 'api') {
+    return new ApiMemberRepository(process.env.NEXT_PUBLIC_API_URL || '/api');
+  }
+
+  return new LocalStorageMemberRepository();
+};
@@ -0,0 +1,15 @@
+import { ITagRepository } from '@/core/domain/repositories/ITagRepository';
+import { ApiTagRepository } from './ApiTagRepository';
+import { LocalStorageTagRepository } from './LocalStorageTagRepository';
+
+/**
+ * Create the client-side tag registry, stored alongside the tasks
+ * (see createTaskRepository for the environment switches)
+ */
+export const createTagRepository = (): ITagRepository => {
+  if (process.env.NEXT_PUBLIC_TASK_STORAGE === 'api') {
+    return new ApiTagRepository(process.env.NEXT_PUBLIC_API_URL || '/api');
+  }
+
+  return new LocalStorageTagRepository();
+};
@@ -0,0 +1,24 @@
+import { ITaskRepository } from '@/core/domain/repositories/ITaskRepository';
+import { ApiTaskRepository } from './ApiTaskRepository';
+import { createMemberRepository } from './createMemberRepository';
+import { IndexedDbTaskRepository } from './IndexedDbTaskRepository';
+import { LocalStorageTaskRepository } from './LocalStorageTaskRepository';
+
+/**
+ * Create the client-side task repository.
+ * Set NEXT_PUBLIC_TASK_STORAGE=api to use the REST API (NEXT_PUBLIC_API_URL,
+ * defaults to the bundled /api routes), or =local to keep tasks in localStorage.
+ * Otherwise tasks are stored in IndexedDB, falling back to localStorage where
+ * the browser does not provide it.
+ */
+export const createTaskRepository = (): ITaskRepository => {
+  if (process.env.NEXT_PUBLIC_TASK_STORAGE === 'api') {
+    return new ApiTaskRepository(process.env.NEXT_PUBLIC_API_URL || '/api');
+  }
+
+  if (process.env.NEXT_PUBLIC_TASK_STORAGE !== 'local' && IndexedDbTaskRepository.isSupported()) {
+    return new IndexedDbTaskRepository(createMemberRepository());
+  }
+
+  return new LocalStorageTaskRepository();
+};
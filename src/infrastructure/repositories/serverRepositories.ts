@@ -0,0 +1,44 @@
+import path from 'path';
+import { ITaskRepository } from '@/core/domain/repositories/ITaskRepository';
+import { ITagRepository } from '@/core/domain/repositories/ITagRepository';
+import { IMemberRepository } from '@/core/domain/repositories/IMemberRepository';
+import { FileTaskRepository } from './FileTaskRepository';
+import { FileTagRepository } from './FileTagRepository';
+import { FileMemberRepository } from './FileMemberRepository';
+
+// Directory for the API's file-backed stores (override with TASKS_DATA_DIR)
+const dataDir = process.env.TASKS_DATA_DIR || path.join(process.cwd(), 'data');
+
+let taskRepository: ITaskRepository | null = null;
+let tagRepository: ITagRepository | null = null;
+let memberRepository: IMemberRepository | null = null;
+
+/**
+ * Shared task repository for API route handlers
+ */
+export const getServerTaskRepository = (): ITaskRepository => {
+  if (!taskRepository) {
+    taskRepository = new FileTaskRepository(path.join(dataDir, 'tasks.json'));
+  }
+  return taskRepository;
+};
+
+/**
+ * Shared tag registry for API route handlers
+ */
+export const getServerTagRepository = (): ITagRepository => {
+  if (!tagRepository) {
+    tagRepository = new FileTagRepository(path.join(dataDir, 'tags.json'));
+  }
+  return tagRepository;
+};
+
+/**
+ * Shared member directory for API route handlers
+ */
+export const getServerMemberRepository = (): IMemberRepository => {
+  if (!memberRepository) {
+    memberRepository = new FileMemberRepository(path.join(dataDir, 'members.json'));
+  }
+  return memberRepository;
+};
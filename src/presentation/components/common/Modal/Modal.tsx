@@ -0,0 +1,84 @@
+'use client';
+
+import React, { useEffect } from 'react';
+
+interface ModalProps {
+  open: boolean;
+  title?: React.ReactNode;
+  onClose: () => void;
+  children: React.ReactNode;
+  footer?: React.ReactNode;
+  size?: 'small' | 'medium' | 'large';
+}
+
+export const Modal: React.FC<ModalProps> = ({
+  open,
+  title,
+  onClose,
+  children,
+  footer,
+  size = 'medium',
+}) => {
+  // Close on Escape while the modal is open
+  useEffect(() => {
+    if (!open) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  const sizes = {
+    small: 'max-w-md',
+    medium: 'max-w-2xl',
+    large: 'max-w-5xl',
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        className={`w-full ${sizes[size]} max-h-[90vh] flex flex-col bg-white rounded-lg shadow-xl`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {title && (
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+            <button
+              onClick={onClose}
+              className="rounded-md p-1 text-gray-400 hover:text-gray-600 focus:outline-none"
+              aria-label="Close"
+            >
+              <CloseIcon className="h-5 w-5" />
+            </button>
+          </div>
+        )}
+        <div className="flex-1 overflow-y-auto p-6">
+          {children}
+        </div>
+        {footer && (
+          <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+            {footer}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const CloseIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="currentColor" viewBox="0 0 20 20">
+    <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+  </svg>
+);
@@ -0,0 +1 @@
+export { Modal } from './Modal';
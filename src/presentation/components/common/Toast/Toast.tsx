@@ -0,0 +1,61 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface ToastProps {
+  open: boolean;
+  message: React.ReactNode;
+  onClose: () => void;
+  actionLabel?: string;
+  onAction?: () => void;
+  duration?: number; // Auto-close after this many ms; 0 keeps it open
+}
+
+export const Toast: React.FC<ToastProps> = ({
+  open,
+  message,
+  onClose,
+  actionLabel,
+  onAction,
+  duration = 5000,
+}) => {
+  // Restart the timer whenever a new message is shown
+  useEffect(() => {
+    if (!open || duration <= 0) return;
+
+    const timer = setTimeout(onClose, duration);
+    return () => clearTimeout(timer);
+  }, [open, message, duration, onClose]);
+
+  if (!open) return null;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="fixed bottom-24 right-4 sm:right-6 z-50 max-w-sm w-[calc(100%-2rem)] sm:w-auto"
+    >
+      <div className="flex items-center gap-3 bg-gray-900 text-white rounded-lg shadow-lg px-4 py-3">
+        <p className="flex-1 text-sm truncate">{message}</p>
+        {actionLabel && onAction && (
+          <button
+            type="button"
+            onClick={onAction}
+            className="text-sm font-semibold text-blue-300 hover:text-blue-200 focus:outline-none focus:underline"
+          >
+            {actionLabel}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-400 hover:text-white focus:outline-none"
+          aria-label="Dismiss notification"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
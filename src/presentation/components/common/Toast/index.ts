@@ -0,0 +1 @@
+export { Toast } from './Toast';
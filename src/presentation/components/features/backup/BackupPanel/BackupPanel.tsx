@@ -0,0 +1,274 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  WorkspaceBackup,
+  WorkspaceDiff,
+  WorkspaceRestoreMode
+} from '@/core/domain/entities/WorkspaceBackup';
+import { dateUtils } from '@/core/domain/entities/taskUtils';
+import { Alert } from '@/presentation/components/common/Alert';
+import { Button } from '@/presentation/components/common/Button';
+import { Card } from '@/presentation/components/common/Card';
+import { Checkbox } from '@/presentation/components/common/Checkbox';
+import { useTasks } from '@/presentation/hooks/useTasks';
+import { useAllTasks } from '@/presentation/hooks/useAllTasks';
+import { useMembers } from '@/presentation/hooks/useMembers';
+import { downloadBlob } from '@/presentation/utils/download';
+import { ArrowDownTrayIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+
+const RESTORE_MODES: { value: WorkspaceRestoreMode; label: string; description: string }[] = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description: 'Add tasks and members from the backup and update those with the same ID. Everything else stays.'
+  },
+  {
+    value: 'replace',
+    label: 'Replace',
+    description: 'Make the workspace match the backup. Tasks and members that are not in it are deleted.'
+  }
+];
+
+const DIFF_ROWS: { key: keyof WorkspaceDiff; label: string }[] = [
+  { key: 'tasks', label: 'Tasks' },
+  { key: 'members', label: 'Members' },
+  { key: 'tags', label: 'Tags' }
+];
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Download the whole workspace as a JSON backup, and restore one after
+ * reviewing what it would add, change and remove
+ */
+export const BackupPanel: React.FC = () => {
+  const { tags, exportBackup, readBackup, previewRestore, restoreBackup } = useTasks();
+  const { tasks } = useAllTasks();
+  const { members, refetch: refetchMembers } = useMembers();
+  const [isExporting, setIsExporting] = useState(false);
+  const [backup, setBackup] = useState<WorkspaceBackup | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<WorkspaceRestoreMode>('merge');
+  const [diff, setDiff] = useState<WorkspaceDiff | null>(null);
+  const [saveCurrentFirst, setSaveCurrentFirst] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [message, setMessage] = useState<{ variant: 'success' | 'error'; text: string } | null>(null);
+
+  // Recompute the summary whenever the file or mode changes
+  useEffect(() => {
+    if (!backup) return;
+
+    let cancelled = false;
+    setDiff(null);
+    previewRestore(backup, mode)
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch(error => {
+        console.error('Error previewing restore:', error);
+        if (!cancelled) setMessage({ variant: 'error', text: 'Failed to compare the backup with the current data' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [backup, mode, previewRestore]);
+
+  const downloadCurrentData = async () => {
+    const file = await exportBackup();
+    downloadBlob(file.blob, file.filename);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      await downloadCurrentData();
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      setMessage({ variant: 'error', text: 'Failed to create the backup' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setMessage(null);
+    setBackup(null);
+    setDiff(null);
+    try {
+      setBackup(await readBackup(await file.text()));
+      setFileName(file.name);
+    } catch (error) {
+      setMessage({ variant: 'error', text: error instanceof Error ? error.message : 'Failed to read the backup' });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (mode === 'replace' && !window.confirm('Replace the workspace with this backup? Tasks and members that are not in it will be deleted.')) {
+      return;
+    }
+
+    setIsRestoring(true);
+    setMessage(null);
+    try {
+      if (saveCurrentFirst) {
+        await downloadCurrentData();
+      }
+      const result = await restoreBackup(backup, mode);
+      setMessage({
+        variant: 'success',
+        text: `Backup restored: ${pluralize(result.tasks.added, 'task')} added, ${result.tasks.updated} updated` +
+          (mode === 'replace' ? `, ${result.tasks.removed} removed.` : '.')
+      });
+      setBackup(null);
+      setDiff(null);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      setMessage({ variant: 'error', text: error instanceof Error ? error.message : 'Failed to restore the backup' });
+    } finally {
+      setIsRestoring(false);
+      await refetchMembers();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <Alert variant={message.variant} onClose={() => setMessage(null)}>
+          {message.text}
+        </Alert>
+      )}
+
+      <Card>
+        <Card.Header>
+          <h2 className="text-xl font-semibold">Download Backup</h2>
+        </Card.Header>
+        <Card.Body className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Save every task, member and tag to a JSON file. Keep it somewhere safe: data stored in the browser is
+            lost when its site data is cleared. The file can be restored here or in another browser.
+          </p>
+          <p className="text-sm text-gray-500">
+            Currently {pluralize(tasks.length, 'task')}, {pluralize(members.length, 'member')} and {pluralize(tags.length, 'tag')}.
+          </p>
+          <Button
+            variant="primary"
+            size="small"
+            onClick={handleExport}
+            loading={isExporting}
+            disabled={isExporting}
+            className="flex items-center gap-2"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            Download Backup
+          </Button>
+        </Card.Body>
+      </Card>
+
+      <Card>
+        <Card.Header>
+          <h2 className="text-xl font-semibold">Restore from Backup</h2>
+        </Card.Header>
+        <Card.Body className="space-y-5">
+          <div>
+            <label htmlFor="backup-file" className="block text-sm font-medium text-gray-700 mb-1">
+              Backup file
+            </label>
+            <input
+              id="backup-file"
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="block w-full text-sm text-gray-700 file:mr-3 file:rounded-md file:border-0 file:bg-blue-50 file:px-3 file:py-2 file:text-sm file:font-medium file:text-blue-700 hover:file:bg-blue-100"
+            />
+          </div>
+
+          {backup && (
+            <>
+              <p className="text-sm text-gray-600">
+                {fileName}: saved {dateUtils.formatDate(backup.exportedAt)} with {pluralize(backup.data.tasks.length, 'task')},{' '}
+                {pluralize(backup.data.members.length, 'member')} and {pluralize(backup.data.tags.length, 'tag')}. Checksum verified.
+              </p>
+
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium text-gray-700">Restore mode</legend>
+                {RESTORE_MODES.map(option => (
+                  <label key={option.value} className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="restore-mode"
+                      value={option.value}
+                      checked={mode === option.value}
+                      onChange={() => setMode(option.value)}
+                      className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                    />
+                    <span>
+                      <span className="font-medium">{option.label}</span>
+                      <span className="block text-gray-500">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </fieldset>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-700">Changes</h3>
+                {diff ? (
+                  <table className="min-w-full divide-y divide-gray-200 rounded-md border border-gray-200 text-sm">
+                    <thead className="bg-gray-50 text-left text-xs font-medium uppercase text-gray-500">
+                      <tr>
+                        <th className="px-3 py-2" />
+                        <th className="px-3 py-2">Added</th>
+                        <th className="px-3 py-2">Updated</th>
+                        <th className="px-3 py-2">Unchanged</th>
+                        <th className="px-3 py-2">Removed</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {DIFF_ROWS.map(row => (
+                        <tr key={row.key}>
+                          <td className="px-3 py-2 font-medium text-gray-700">{row.label}</td>
+                          <td className="px-3 py-2 text-green-700">{diff[row.key].added}</td>
+                          <td className="px-3 py-2 text-blue-700">{diff[row.key].updated}</td>
+                          <td className="px-3 py-2 text-gray-500">{diff[row.key].unchanged}</td>
+                          <td className={`px-3 py-2 ${diff[row.key].removed > 0 ? 'text-red-700 font-medium' : 'text-gray-500'}`}>
+                            {row.key === 'tags' ? '—' : diff[row.key].removed}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-sm text-gray-500">Comparing with the current data...</p>
+                )}
+                <p className="text-xs text-gray-500">Tags are only added or recolored, never removed.</p>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <Checkbox checked={saveCurrentFirst} onChange={(e) => setSaveCurrentFirst(e.target.checked)} />
+                Download a backup of the current data first
+              </label>
+
+              <Button
+                variant={mode === 'replace' ? 'danger' : 'primary'}
+                size="small"
+                onClick={handleRestore}
+                loading={isRestoring}
+                disabled={isRestoring || !diff}
+                className="flex items-center gap-2"
+              >
+                <ArrowPathIcon className="w-4 h-4" />
+                {mode === 'replace' ? 'Replace with Backup' : 'Merge Backup'}
+              </Button>
+            </>
+          )}
+        </Card.Body>
+      </Card>
+    </div>
+  );
+};
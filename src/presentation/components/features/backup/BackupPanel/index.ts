@@ -0,0 +1 @@
+export { BackupPanel } from './BackupPanel';
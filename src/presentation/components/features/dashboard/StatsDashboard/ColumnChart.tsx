@@ -0,0 +1,71 @@
+import React from 'react';
+import Link from 'next/link';
+
+export interface ColumnChartItem {
+  key: string;
+  label: string;
+  value: number;
+  href: string;
+  highlight?: boolean;
+}
+
+interface ColumnChartProps {
+  items: ColumnChartItem[];
+  colorClassName: string; // SVG fill class for the bars
+  ariaLabel: string;
+  height?: number;
+}
+
+// Roughly the rendered width of a half-width dashboard card, so text stays near 1:1
+export const CHART_WIDTH = 520;
+const LABEL_HEIGHT = 20;
+const VALUE_HEIGHT = 16;
+
+/**
+ * Vertical bar chart drawn in a fixed-width viewBox that scales to its container.
+ * Each column links to the task list filtered to the tasks it counts.
+ */
+export const ColumnChart: React.FC<ColumnChartProps> = ({ items, colorClassName, ariaLabel, height = 160 }) => {
+  const width = CHART_WIDTH;
+  const columnWidth = width / Math.max(1, items.length);
+  const plotHeight = height - LABEL_HEIGHT - VALUE_HEIGHT;
+  const max = Math.max(1, ...items.map(item => item.value));
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={ariaLabel}>
+      <line x1={0} x2={width} y1={height - LABEL_HEIGHT} y2={height - LABEL_HEIGHT} className="stroke-gray-200" />
+      {items.map((item, index) => {
+        const barHeight = (item.value / max) * plotHeight;
+        const x = index * columnWidth;
+        const y = height - LABEL_HEIGHT - barHeight;
+
+        return (
+          <Link key={item.key} href={item.href} aria-label={`${item.label}: ${item.value}`}>
+            <g className="group">
+              <rect x={x} y={0} width={columnWidth} height={height} className="fill-transparent group-hover:fill-gray-50" />
+              <rect
+                x={x + columnWidth * 0.2}
+                y={y}
+                width={columnWidth * 0.6}
+                height={Math.max(item.value > 0 ? 2 : 0, barHeight)}
+                rx={4}
+                className={`${colorClassName} group-hover:opacity-80`}
+              />
+              <text x={x + columnWidth / 2} y={y - 4} textAnchor="middle" className="fill-gray-700 text-[14px] font-medium">
+                {item.value}
+              </text>
+              <text
+                x={x + columnWidth / 2}
+                y={height - 5}
+                textAnchor="middle"
+                className={`text-[13px] ${item.highlight ? 'fill-blue-600 font-semibold' : 'fill-gray-500'}`}
+              >
+                {item.label}
+              </text>
+            </g>
+          </Link>
+        );
+      })}
+    </svg>
+  );
+};
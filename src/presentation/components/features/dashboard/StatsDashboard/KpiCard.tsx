@@ -0,0 +1,28 @@
+import React from 'react';
+import Link from 'next/link';
+
+interface KpiCardProps {
+  label: string;
+  value: React.ReactNode;
+  href: string;
+  hint?: string;
+  tone?: 'default' | 'success' | 'warning' | 'danger';
+}
+
+const TONES = {
+  default: 'text-gray-900',
+  success: 'text-green-600',
+  warning: 'text-yellow-600',
+  danger: 'text-red-600'
+};
+
+export const KpiCard: React.FC<KpiCardProps> = ({ label, value, href, hint, tone = 'default' }) => (
+  <Link
+    href={href}
+    className="block rounded-lg border border-gray-200 bg-white p-4 shadow-sm hover:border-blue-300 hover:shadow focus:outline-none focus:ring-2 focus:ring-blue-500"
+  >
+    <p className="text-sm font-medium text-gray-500">{label}</p>
+    <p className={`mt-1 text-3xl font-semibold ${TONES[tone]}`}>{value}</p>
+    {hint && <p className="mt-1 text-xs text-gray-500">{hint}</p>}
+  </Link>
+);
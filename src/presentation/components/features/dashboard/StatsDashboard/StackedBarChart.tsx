@@ -0,0 +1,73 @@
+import React from 'react';
+import Link from 'next/link';
+import { CHART_WIDTH } from './ColumnChart';
+
+export interface StackedBarSegment {
+  label: string;
+  value: number;
+  colorClassName: string; // SVG fill class
+}
+
+export interface StackedBarItem {
+  key: string;
+  label: string;
+  segments: StackedBarSegment[];
+  href?: string; // Rows without a matching list filter are not links
+}
+
+interface StackedBarChartProps {
+  items: StackedBarItem[];
+  ariaLabel: string;
+}
+
+const ROW_HEIGHT = 28;
+const LABEL_WIDTH = 140;
+const TOTAL_WIDTH = 40;
+
+/**
+ * Horizontal bars split into segments, one row per item
+ */
+export const StackedBarChart: React.FC<StackedBarChartProps> = ({ items, ariaLabel }) => {
+  const plotWidth = CHART_WIDTH - LABEL_WIDTH - TOTAL_WIDTH;
+  const getTotal = (item: StackedBarItem) => item.segments.reduce((sum, segment) => sum + segment.value, 0);
+  const max = Math.max(1, ...items.map(getTotal));
+  const height = Math.max(1, items.length) * ROW_HEIGHT;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label={ariaLabel}>
+      {items.map((item, index) => {
+        const y = index * ROW_HEIGHT;
+        const total = getTotal(item);
+        let x = LABEL_WIDTH;
+
+        const row = (
+          <g className="group">
+            <rect x={0} y={y} width={CHART_WIDTH} height={ROW_HEIGHT} className="fill-transparent group-hover:fill-gray-50" />
+            <text x={0} y={y + 18} className="fill-gray-700 text-[13px]">
+              {item.label.length > 20 ? `${item.label.slice(0, 19)}…` : item.label}
+            </text>
+            {item.segments.map(segment => {
+              const width = (segment.value / max) * plotWidth;
+              const rect = (
+                <rect key={segment.label} x={x} y={y + 6} width={width} height={ROW_HEIGHT - 12} className={segment.colorClassName}>
+                  <title>{`${item.label}: ${segment.value} ${segment.label.toLowerCase()}`}</title>
+                </rect>
+              );
+              x += width;
+              return rect;
+            })}
+            <text x={x + 6} y={y + 18} className="fill-gray-600 text-[12px] font-medium">{total}</text>
+          </g>
+        );
+
+        return item.href ? (
+          <Link key={item.key} href={item.href} aria-label={`${item.label}: ${total} tasks`}>
+            {row}
+          </Link>
+        ) : (
+          <React.Fragment key={item.key}>{row}</React.Fragment>
+        );
+      })}
+    </svg>
+  );
+};
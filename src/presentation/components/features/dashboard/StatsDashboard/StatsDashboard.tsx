@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { TaskFilters, OPEN_TASK_WORKFLOW_STATUSES, WEEKDAY_LABELS } from '@/core/domain/entities/Task';
+import { resolvePic } from '@/core/domain/entities/Member';
+import { dateUtils, taskStatsUtils, taskCalendarUtils, taskFilterUtils } from '@/core/domain/entities/taskUtils';
+import { serializeTaskQueryParams } from '@/core/application/dto/TaskQueryDTO';
+import { Card } from '@/presentation/components/common/Card';
+import { ErrorState } from '@/presentation/components/common/ErrorState';
+import { LoadingState } from '@/presentation/components/common/LoadingState';
+import { useAllTasks } from '@/presentation/hooks/useAllTasks';
+import { useMembers } from '@/presentation/hooks/useMembers';
+import { KpiCard } from './KpiCard';
+import { ColumnChart } from './ColumnChart';
+import { StackedBarChart, StackedBarItem } from './StackedBarChart';
+import { TrendChart } from './TrendChart';
+
+const TREND_WEEKS = 8;
+
+// Every widget links to the task list with the filters that reproduce its numbers
+const getTaskListHref = (filters: TaskFilters): string => {
+  const query = serializeTaskQueryParams(filters).toString();
+  return query ? `/?${query}` : '/';
+};
+
+// Open tasks whether or not they are overdue; cancelled tasks are left out like in the statistics
+const OPEN_FILTERS: TaskFilters = { status: OPEN_TASK_WORKFLOW_STATUSES };
+const COMPLETED_FILTERS = taskFilterUtils.applyStatusFilter({}, 'completed');
+const OVERDUE_FILTERS = taskFilterUtils.applyStatusFilter({}, 'overdue');
+
+/**
+ * KPIs and charts computed from the shared task state
+ */
+export const StatsDashboard: React.FC = () => {
+  const { tasks, loading, error, refetch } = useAllTasks();
+  const { members } = useMembers();
+  const today = dateUtils.getTodayString();
+
+  const statistics = useMemo(() => taskStatsUtils.calculateStatistics(tasks), [tasks]);
+  const trend = useMemo(() => taskStatsUtils.getCompletionTrend(tasks, TREND_WEEKS, today), [tasks, today]);
+  const ageing = useMemo(() => taskStatsUtils.getOverdueAgeing(tasks, today), [tasks, today]);
+  const dueThisWeek = useMemo(() => taskStatsUtils.getDueThisWeek(tasks, today), [tasks, today]);
+
+  const picItems = useMemo<StackedBarItem[]>(() => {
+    return Array.from(taskStatsUtils.countByPic(tasks).keys())
+      .map(pic => {
+        const picTasks = tasks.filter(task => (task.pic || '') === pic);
+        const byStatus = taskStatsUtils.calculateStatistics(picTasks);
+        return {
+          key: pic || 'unassigned',
+          label: resolvePic(pic, members)?.label || 'Unassigned',
+          href: pic ? getTaskListHref({ pic }) : undefined,
+          segments: [
+            { label: 'Open', value: byStatus.pending, colorClassName: 'fill-blue-500' },
+            { label: 'Done', value: byStatus.completed, colorClassName: 'fill-green-500' },
+            { label: 'Cancelled', value: byStatus.cancelled, colorClassName: 'fill-gray-300' }
+          ]
+        };
+      })
+      .sort((a, b) =>
+        b.segments.reduce((sum, s) => sum + s.value, 0) - a.segments.reduce((sum, s) => sum + s.value, 0)
+      );
+  }, [tasks, members]);
+
+  if (loading) {
+    return <LoadingState message="Loading dashboard..." />;
+  }
+
+  if (error) {
+    return <ErrorState message={error} onRetry={refetch} />;
+  }
+
+  const week = taskCalendarUtils.getWeekDays(today);
+  const dueThisWeekTotal = dueThisWeek.reduce((sum, day) => sum + day.count, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <KpiCard label="Total tasks" value={statistics.total} href={getTaskListHref({})} />
+        <KpiCard
+          label="Open"
+          value={statistics.pending}
+          href={getTaskListHref(OPEN_FILTERS)}
+          hint={`${statistics.progressRate}% progress incl. checklists`}
+        />
+        <KpiCard
+          label="Completed"
+          value={statistics.completed}
+          href={getTaskListHref(COMPLETED_FILTERS)}
+          hint={`${statistics.completionRate}% completion rate`}
+          tone="success"
+        />
+        <KpiCard
+          label="Overdue"
+          value={statistics.overdue}
+          href={getTaskListHref(OVERDUE_FILTERS)}
+          tone={statistics.overdue > 0 ? 'danger' : 'default'}
+        />
+        <KpiCard
+          label="Due this week"
+          value={dueThisWeekTotal}
+          href={getTaskListHref({ ...OPEN_FILTERS, startDate: week[0], endDate: week[6] })}
+          hint={`${dateUtils.formatDate(week[0], { year: undefined })} – ${dateUtils.formatDate(week[6], { year: undefined })}`}
+          tone={dueThisWeekTotal > 0 ? 'warning' : 'default'}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <Card.Header>
+            <h2 className="text-lg font-semibold">Completion trend</h2>
+            <p className="text-sm text-gray-500">Tasks created and completed per week, last {TREND_WEEKS} weeks</p>
+          </Card.Header>
+          <Card.Body>
+            <TrendChart points={trend} href={getTaskListHref(COMPLETED_FILTERS)} />
+          </Card.Body>
+        </Card>
+
+        <Card>
+          <Card.Header>
+            <h2 className="text-lg font-semibold">Tasks per Person in Charge</h2>
+            <p className="text-sm text-gray-500">Open, done and cancelled</p>
+          </Card.Header>
+          <Card.Body>
+            {picItems.length > 0 ? (
+              <StackedBarChart items={picItems} ariaLabel="Tasks per Person in Charge" />
+            ) : (
+              <p className="text-sm text-gray-500">No tasks yet.</p>
+            )}
+          </Card.Body>
+        </Card>
+
+        <Card>
+          <Card.Header>
+            <h2 className="text-lg font-semibold">Overdue ageing</h2>
+            <p className="text-sm text-gray-500">Open tasks by how long they are past due</p>
+          </Card.Header>
+          <Card.Body>
+            <ColumnChart
+              ariaLabel="Overdue tasks by age"
+              colorClassName="fill-red-500"
+              items={ageing.map(bucket => ({
+                key: bucket.label,
+                label: bucket.label,
+                value: bucket.count,
+                href: getTaskListHref({ ...OVERDUE_FILTERS, startDate: bucket.from, endDate: bucket.to })
+              }))}
+            />
+          </Card.Body>
+        </Card>
+
+        <Card>
+          <Card.Header>
+            <h2 className="text-lg font-semibold">Due this week</h2>
+            <p className="text-sm text-gray-500">Open tasks by due date</p>
+          </Card.Header>
+          <Card.Body>
+            <ColumnChart
+              ariaLabel="Open tasks due each day this week"
+              colorClassName="fill-blue-500"
+              items={dueThisWeek.map(day => ({
+                key: day.date,
+                label: `${WEEKDAY_LABELS[new Date(`${day.date}T00:00:00Z`).getUTCDay()]} ${Number(day.date.slice(8, 10))}`,
+                value: day.count,
+                href: getTaskListHref({ ...OPEN_FILTERS, startDate: day.date, endDate: day.date }),
+                highlight: day.date === today
+              }))}
+            />
+          </Card.Body>
+        </Card>
+      </div>
+    </div>
+  );
+};
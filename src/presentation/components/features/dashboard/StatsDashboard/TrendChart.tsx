@@ -0,0 +1,82 @@
+import React from 'react';
+import Link from 'next/link';
+import { CompletionTrendPoint } from '@/core/domain/entities/Task';
+import { dateUtils } from '@/core/domain/entities/taskUtils';
+import { CHART_WIDTH } from './ColumnChart';
+
+interface TrendChartProps {
+  points: CompletionTrendPoint[];
+  href: string;
+  height?: number;
+}
+
+const PADDING_X = 24;
+const PADDING_TOP = 16;
+const LABEL_HEIGHT = 20;
+
+/**
+ * Weekly created vs. completed lines; every week links to the completed tasks list
+ */
+export const TrendChart: React.FC<TrendChartProps> = ({ points, href, height = 180 }) => {
+  const plotWidth = CHART_WIDTH - PADDING_X * 2;
+  const plotHeight = height - PADDING_TOP - LABEL_HEIGHT;
+  const max = Math.max(1, ...points.flatMap(point => [point.created, point.completed]));
+  const step = points.length > 1 ? plotWidth / (points.length - 1) : 0;
+
+  const getX = (index: number) => PADDING_X + index * step;
+  const getY = (value: number) => PADDING_TOP + plotHeight - (value / max) * plotHeight;
+  const toPath = (values: number[]) =>
+    values.map((value, index) => `${index === 0 ? 'M' : 'L'}${getX(index)},${getY(value)}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label="Tasks created and completed per week">
+        {[0, 0.5, 1].map(fraction => (
+          <line
+            key={fraction}
+            x1={PADDING_X}
+            x2={CHART_WIDTH - PADDING_X}
+            y1={PADDING_TOP + plotHeight * fraction}
+            y2={PADDING_TOP + plotHeight * fraction}
+            className="stroke-gray-100"
+          />
+        ))}
+        <text x={2} y={PADDING_TOP + 4} className="fill-gray-400 text-[11px]">{max}</text>
+
+        <path d={toPath(points.map(point => point.created))} fill="none" strokeWidth={2} className="stroke-blue-400" />
+        <path d={toPath(points.map(point => point.completed))} fill="none" strokeWidth={2.5} className="stroke-green-500" />
+
+        {points.map((point, index) => (
+          <Link
+            key={point.weekStart}
+            href={href}
+            aria-label={`Week of ${dateUtils.formatDate(point.weekStart)}: ${point.created} created, ${point.completed} completed`}
+          >
+            <g className="group">
+              <rect
+                x={getX(index) - step / 2}
+                y={0}
+                width={Math.max(step, 24)}
+                height={height}
+                className="fill-transparent group-hover:fill-gray-50/60"
+              >
+                <title>
+                  {`Week of ${dateUtils.formatDate(point.weekStart)}: ${point.created} created, ${point.completed} completed`}
+                </title>
+              </rect>
+              <circle cx={getX(index)} cy={getY(point.created)} r={3} className="fill-blue-400" />
+              <circle cx={getX(index)} cy={getY(point.completed)} r={3.5} className="fill-green-500" />
+              <text x={getX(index)} y={height - 5} textAnchor="middle" className="fill-gray-500 text-[11px]">
+                {dateUtils.formatDate(point.weekStart, { year: undefined })}
+              </text>
+            </g>
+          </Link>
+        ))}
+      </svg>
+      <div className="mt-2 flex gap-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1"><span className="inline-block h-0.5 w-4 bg-blue-400" /> Created</span>
+        <span className="flex items-center gap-1"><span className="inline-block h-0.5 w-4 bg-green-500" /> Completed</span>
+      </div>
+    </div>
+  );
+};
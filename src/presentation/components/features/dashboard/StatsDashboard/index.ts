@@ -0,0 +1 @@
+export { StatsDashboard } from './StatsDashboard';
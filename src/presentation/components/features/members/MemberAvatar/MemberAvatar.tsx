@@ -0,0 +1,24 @@
+import React from 'react';
+import { getMemberInitials } from '@/core/domain/entities/Member';
+
+interface MemberAvatarProps {
+  name: string;
+  color: string;
+  size?: 'small' | 'medium';
+}
+
+const sizeClasses = {
+  small: 'w-5 h-5 text-[10px]',
+  medium: 'w-9 h-9 text-sm'
+};
+
+export const MemberAvatar: React.FC<MemberAvatarProps> = ({ name, color, size = 'medium' }) => (
+  // Member colors are user-picked, so they are applied inline rather than via Tailwind classes
+  <span
+    className={`inline-flex items-center justify-center rounded-full font-semibold text-white flex-shrink-0 ${sizeClasses[size]}`}
+    style={{ backgroundColor: color }}
+    aria-hidden="true"
+  >
+    {getMemberInitials(name)}
+  </span>
+);
@@ -0,0 +1 @@
+export { MemberAvatar } from './MemberAvatar';
@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Input } from '@/presentation/components/common/Input';
+import { Button } from '@/presentation/components/common/Button';
+import { Alert } from '@/presentation/components/common/Alert';
+import { createMemberSchema, CreateMemberDTO } from '@/core/application/dto/MemberDTO';
+import { getValidationFieldErrors } from '@/core/application/dto/CreateTaskDTO';
+import {
+  MEMBER_COLORS,
+  MEMBER_ROLES,
+  DEFAULT_MEMBER_ROLE,
+  MemberRole,
+  getDefaultMemberColor
+} from '@/core/domain/entities/Member';
+import { MemberAvatar } from '../MemberAvatar';
+
+export interface MemberFormValues {
+  name: string;
+  email: string;
+  role: MemberRole;
+  /** Empty means "derive from the name" */
+  color: string;
+}
+
+export const emptyMemberFormValues: MemberFormValues = {
+  name: '',
+  email: '',
+  role: DEFAULT_MEMBER_ROLE,
+  color: ''
+};
+
+type MemberFormErrors = Partial<Record<keyof MemberFormValues | 'general', string>>;
+
+interface MemberFormProps {
+  initialValues?: MemberFormValues;
+  submitLabel: string;
+  onSubmit: (data: CreateMemberDTO) => Promise<void>;
+  onCancel?: () => void;
+  /** Clear the fields after a successful submit (used by the "add" form) */
+  resetOnSubmit?: boolean;
+  idPrefix?: string;
+}
+
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return 'An unknown error occurred';
+};
+
+export const MemberForm: React.FC<MemberFormProps> = ({
+  initialValues = emptyMemberFormValues,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  resetOnSubmit = false,
+  idPrefix = 'member'
+}) => {
+  const [values, setValues] = useState<MemberFormValues>(initialValues);
+  const [errors, setErrors] = useState<MemberFormErrors>({});
+  const [loading, setLoading] = useState(false);
+
+  const previewColor = values.color || getDefaultMemberColor(values.name || '?');
+
+  const handleFieldChange = <K extends keyof MemberFormValues>(field: K, value: MemberFormValues[K]) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: undefined, general: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = createMemberSchema.safeParse({
+      name: values.name,
+      email: values.email,
+      role: values.role,
+      color: values.color || undefined
+    });
+    if (!result.success) {
+      setErrors(getValidationFieldErrors(result.error));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await onSubmit(result.data);
+      if (resetOnSubmit) {
+        setValues(emptyMemberFormValues);
+      }
+      setErrors({});
+    } catch (error) {
+      console.error('Error saving member:', error);
+      setErrors({ general: getErrorMessage(error) });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Input
+          id={`${idPrefix}-name`}
+          label="Name"
+          value={values.name}
+          onChange={(e) => handleFieldChange('name', e.target.value)}
+          placeholder="Full name"
+          required
+          disabled={loading}
+          error={errors.name}
+        />
+        <Input
+          id={`${idPrefix}-email`}
+          type="email"
+          label="Email"
+          value={values.email}
+          onChange={(e) => handleFieldChange('email', e.target.value)}
+          placeholder="name@example.com"
+          required
+          disabled={loading}
+          error={errors.email}
+        />
+        <div className="space-y-1">
+          <label htmlFor={`${idPrefix}-role`} className="block text-sm font-medium text-gray-700">
+            Role
+          </label>
+          <select
+            id={`${idPrefix}-role`}
+            value={values.role}
+            onChange={(e) => handleFieldChange('role', e.target.value as MemberRole)}
+            disabled={loading}
+            className="w-full p-2 border border-gray-300 rounded-md hover:border-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+          >
+            {MEMBER_ROLES.map(role => (
+              <option key={role} value={role}>{role}</option>
+            ))}
+          </select>
+          {errors.role && <p className="text-sm text-red-600">{errors.role}</p>}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <span className="block text-sm font-medium text-gray-700">Avatar Color</span>
+        <div className="flex flex-wrap items-center gap-2">
+          <MemberAvatar name={values.name || '?'} color={previewColor} />
+          {MEMBER_COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => handleFieldChange('color', color)}
+              disabled={loading}
+              aria-label={`Use color ${color}`}
+              aria-pressed={previewColor === color}
+              className={`w-6 h-6 rounded-full border-2 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                previewColor === color ? 'border-gray-900' : 'border-transparent'
+              }`}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+        {errors.color && <p className="text-sm text-red-600">{errors.color}</p>}
+      </div>
+
+      {errors.general && (
+        <Alert variant="error" onClose={() => setErrors(prev => ({ ...prev, general: undefined }))}>
+          {errors.general}
+        </Alert>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="secondary" size="small" onClick={onCancel} disabled={loading}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" variant="primary" size="small" loading={loading}>
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
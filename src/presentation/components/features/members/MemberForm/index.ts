@@ -0,0 +1,2 @@
+export { MemberForm, emptyMemberFormValues } from './MemberForm';
+export type { MemberFormValues } from './MemberForm';
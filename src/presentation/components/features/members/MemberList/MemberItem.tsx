@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Member, getMemberRoleBadgeVariant } from '@/core/domain/entities/Member';
+import { Badge } from '@/presentation/components/common/Badge';
+import { Button } from '@/presentation/components/common/Button';
+import { Modal } from '@/presentation/components/common/Modal';
+import { useMembers } from '@/presentation/hooks/useMembers';
+import { MemberAvatar } from '../MemberAvatar';
+import { MemberForm } from '../MemberForm';
+import { getCalendarFeedUrl } from '@/infrastructure/ics/calendarFeedUrl';
+import { CalendarDaysIcon, PencilSquareIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface MemberItemProps {
+  member: Member;
+  /** Number of tasks assigned to the member */
+  taskCount: number;
+}
+
+export const MemberItem: React.FC<MemberItemProps> = ({ member, taskCount }) => {
+  const { updateMember, deleteMember } = useMembers();
+  const [isEditing, setIsEditing] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const calendarFeedUrl = getCalendarFeedUrl(member.id);
+
+  const handleDelete = async () => {
+    try {
+      setIsDeleting(true);
+      setDeleteError(null);
+      await deleteMember(member.id);
+    } catch (error) {
+      console.error('Error deleting member:', error);
+      setDeleteError(error instanceof Error ? error.message : 'Failed to delete member');
+      setIsDeleting(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <li className="p-4 bg-gray-50">
+        <MemberForm
+          initialValues={{ name: member.name, email: member.email, role: member.role, color: member.color }}
+          submitLabel="Save"
+          onSubmit={async (data) => {
+            await updateMember(member.id, data);
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+          idPrefix={`edit-member-${member.id}`}
+        />
+      </li>
+    );
+  }
+
+  return (
+    <li className="p-4 flex items-center gap-3">
+      <MemberAvatar name={member.name} color={member.color} />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-gray-900 truncate">{member.name}</span>
+          <Badge variant={getMemberRoleBadgeVariant(member.role)} size="small">
+            {member.role}
+          </Badge>
+        </div>
+        <p className="text-sm text-gray-500 truncate">{member.email}</p>
+      </div>
+      <span className="text-xs text-gray-500 whitespace-nowrap">
+        {taskCount} {taskCount === 1 ? 'task' : 'tasks'}
+      </span>
+      <div className="flex items-center gap-1">
+        {calendarFeedUrl && (
+          <a
+            href={calendarFeedUrl}
+            className="p-1.5 rounded-md text-gray-400 hover:text-blue-600 hover:bg-blue-50 focus:outline-none"
+            aria-label={`Calendar feed for ${member.name}`}
+            title="Calendar feed: copy this link to subscribe in Outlook or Google Calendar"
+          >
+            <CalendarDaysIcon className="w-4 h-4" />
+          </a>
+        )}
+        <button
+          type="button"
+          onClick={() => setIsEditing(true)}
+          className="p-1.5 rounded-md text-gray-400 hover:text-blue-600 hover:bg-blue-50 focus:outline-none"
+          aria-label={`Edit ${member.name}`}
+        >
+          <PencilSquareIcon className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setDeleteError(null);
+            setConfirmingDelete(true);
+          }}
+          className="p-1.5 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50 focus:outline-none"
+          aria-label={`Delete ${member.name}`}
+        >
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <Modal
+        open={confirmingDelete}
+        title="Delete member?"
+        onClose={() => setConfirmingDelete(false)}
+        size="small"
+        footer={
+          <>
+            <Button variant="secondary" size="small" onClick={() => setConfirmingDelete(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="danger"
+              size="small"
+              onClick={handleDelete}
+              loading={isDeleting}
+              disabled={isDeleting || taskCount > 0}
+            >
+              Delete
+            </Button>
+          </>
+        }
+      >
+        {taskCount > 0 ? (
+          <p className="text-sm text-gray-700">
+            {member.name} is the Person in Charge of {taskCount === 1 ? '1 task' : `${taskCount} tasks`}.
+            Reassign them before deleting this member.
+          </p>
+        ) : (
+          <p className="text-sm text-gray-700">
+            Remove {member.name} from the member directory?
+          </p>
+        )}
+        {deleteError && <p className="mt-2 text-sm text-red-600">{deleteError}</p>}
+      </Modal>
+    </li>
+  );
+};
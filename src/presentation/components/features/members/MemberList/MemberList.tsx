@@ -0,0 +1,53 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Card } from '@/presentation/components/common/Card';
+import { EmptyState } from '@/presentation/components/common/EmptyState';
+import { ErrorState } from '@/presentation/components/common/ErrorState';
+import { LoadingState } from '@/presentation/components/common/LoadingState';
+import { useMembers } from '@/presentation/hooks/useMembers';
+import { useAllTasks } from '@/presentation/hooks/useAllTasks';
+import { MemberItem } from './MemberItem';
+import { UserGroupIcon } from '@heroicons/react/24/outline';
+
+export const MemberList: React.FC = () => {
+  const { members, loading, error, refetch } = useMembers();
+  const { tasks } = useAllTasks();
+
+  const taskCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    tasks.forEach(task => {
+      if (task.pic) counts.set(task.pic, (counts.get(task.pic) || 0) + 1);
+    });
+    return counts;
+  }, [tasks]);
+
+  if (loading) {
+    return <LoadingState message="Loading members..." />;
+  }
+
+  if (error) {
+    return <ErrorState message={error} onRetry={refetch} />;
+  }
+
+  return (
+    <Card>
+      <Card.Header>
+        <h2 className="text-xl font-semibold">Members ({members.length})</h2>
+      </Card.Header>
+      {members.length === 0 ? (
+        <EmptyState
+          title="No members yet"
+          description="Add the people who can be assigned as Person in Charge."
+          icon={<UserGroupIcon className="w-12 h-12 text-gray-400" />}
+        />
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {members.map(member => (
+            <MemberItem key={member.id} member={member} taskCount={taskCounts.get(member.id) || 0} />
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
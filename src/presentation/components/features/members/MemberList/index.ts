@@ -0,0 +1,2 @@
+export { MemberList } from './MemberList';
+export { MemberItem } from './MemberItem';
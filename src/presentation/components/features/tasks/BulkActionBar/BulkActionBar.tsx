@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Member } from '@/core/domain/entities/Member';
+import { Button } from '@/presentation/components/common/Button';
+import { CheckIcon, TrashIcon, UserIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  /** Members the selection can be reassigned to */
+  members: Member[];
+  busy?: boolean;
+  onComplete: () => void;
+  onDelete: () => void;
+  onReassign: (pic: string) => void;
+  onClear: () => void;
+}
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  members,
+  busy = false,
+  onComplete,
+  onDelete,
+  onReassign,
+  onClear
+}) => {
+  const [pic, setPic] = useState('');
+
+  if (selectedCount === 0) return null;
+
+  const handleReassign = () => {
+    if (!pic) return;
+    onReassign(pic);
+    setPic('');
+  };
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-3xl">
+      <div
+        role="toolbar"
+        aria-label="Bulk actions"
+        className="flex flex-wrap items-center gap-3 rounded-lg bg-gray-900 text-white shadow-xl px-4 py-3"
+      >
+        <span className="text-sm font-medium">
+          {selectedCount} {selectedCount === 1 ? 'task' : 'tasks'} selected
+        </span>
+
+        <div className="flex flex-wrap items-center gap-2 ml-auto">
+          <Button
+            variant="success"
+            size="small"
+            onClick={onComplete}
+            disabled={busy}
+            className="flex items-center gap-1"
+          >
+            <CheckIcon className="w-4 h-4" />
+            Complete
+          </Button>
+
+          <div className="flex items-center gap-1">
+            <select
+              value={pic}
+              onChange={(e) => setPic(e.target.value)}
+              disabled={busy}
+              aria-label="Reassign to"
+              className="px-2 py-1.5 rounded-md text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Reassign to...</option>
+              {members.map(member => (
+                <option key={member.id} value={member.id}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="primary"
+              size="small"
+              onClick={handleReassign}
+              disabled={busy || !pic}
+              className="flex items-center gap-1"
+            >
+              <UserIcon className="w-4 h-4" />
+              Apply
+            </Button>
+          </div>
+
+          <Button
+            variant="danger"
+            size="small"
+            onClick={onDelete}
+            disabled={busy}
+            className="flex items-center gap-1"
+          >
+            <TrashIcon className="w-4 h-4" />
+            Delete
+          </Button>
+
+          <button
+            type="button"
+            onClick={onClear}
+            disabled={busy}
+            aria-label="Clear selection"
+            className="p-1.5 rounded-md text-gray-300 hover:text-white focus:outline-none"
+          >
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,273 @@
+'use client';
+
+import React, { useState } from 'react';
+import { SortOrder, TaskGroupBy, TaskSortBy, TASK_GROUP_BY_OPTIONS, TASK_SORT_OPTIONS } from '@/core/domain/entities/Task';
+import {
+  ReportField,
+  ReportFormat,
+  ReportLayout,
+  ReportOptions,
+  ReportOrientation,
+  ReportScope,
+  REPORT_FIELD_OPTIONS,
+  REPORT_FORMAT_OPTIONS,
+  reportOptionsSchema
+} from '@/core/application/dto/ReportOptionsDTO';
+import { getValidationFieldErrors } from '@/core/application/dto/CreateTaskDTO';
+import { Alert } from '@/presentation/components/common/Alert';
+import { Button } from '@/presentation/components/common/Button';
+import { Checkbox } from '@/presentation/components/common/Checkbox';
+import { Input } from '@/presentation/components/common/Input';
+import { Modal } from '@/presentation/components/common/Modal';
+
+interface ReportOptionsDialogProps {
+  open: boolean;
+  initialOptions: ReportOptions;
+  /** Number of tasks in the current filtered view */
+  currentViewCount: number;
+  isFiltered: boolean;
+  onClose: () => void;
+  onGenerate: (options: ReportOptions) => Promise<void>;
+}
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface ChoiceProps<T extends string> {
+  name: string;
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}
+
+const Choice = <T extends string>({ name, value, options, onChange, disabled }: ChoiceProps<T>) => (
+  <div className="flex flex-wrap gap-4">
+    {options.map(option => (
+      <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="radio"
+          name={name}
+          value={option.value}
+          checked={value === option.value}
+          onChange={() => onChange(option.value)}
+          disabled={disabled}
+          className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+        />
+        {option.label}
+      </label>
+    ))}
+  </div>
+);
+
+/**
+ * Lets the user pick the report's format and what goes into it before it is generated
+ */
+export const ReportOptionsDialog: React.FC<ReportOptionsDialogProps> = ({
+  open,
+  initialOptions,
+  currentViewCount,
+  isFiltered,
+  onClose,
+  onGenerate
+}) => {
+  const [options, setOptions] = useState<ReportOptions>(initialOptions);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const isPdf = options.format === 'pdf';
+
+  const setOption = <K extends keyof ReportOptions>(key: K, value: ReportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+    setErrors(prev => ({ ...prev, [key]: '' }));
+    setMessage(null);
+  };
+
+  const toggleField = (field: ReportField, checked: boolean) => {
+    // Keep the fields in the order they are offered so the output order is stable
+    const fields = REPORT_FIELD_OPTIONS
+      .map(option => option.value)
+      .filter(value => value === field ? checked : options.fields.includes(value));
+    setOption('fields', fields);
+  };
+
+  const handleGenerate = async () => {
+    const result = reportOptionsSchema.safeParse(options);
+    if (!result.success) {
+      setErrors(getValidationFieldErrors(result.error));
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      await onGenerate(result.data);
+      onClose();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to generate report');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const scopeOptions: { value: ReportScope; label: string }[] = [
+    { value: 'filtered', label: isFiltered ? `Current view (${currentViewCount} tasks)` : 'Current view (no filters)' },
+    { value: 'all', label: 'All tasks' }
+  ];
+
+  const layoutOptions: { value: ReportLayout; label: string }[] = [
+    { value: 'detailed', label: 'Detailed' },
+    { value: 'table', label: 'Compact table' }
+  ];
+
+  const orientationOptions: { value: ReportOrientation; label: string }[] = [
+    { value: 'portrait', label: 'Portrait' },
+    { value: 'landscape', label: 'Landscape' }
+  ];
+
+  return (
+    <Modal
+      open={open}
+      title="Report Options"
+      onClose={onClose}
+      footer={
+        <>
+          <Button variant="secondary" size="small" onClick={onClose} disabled={generating}>
+            Cancel
+          </Button>
+          <Button variant="primary" size="small" onClick={handleGenerate} loading={generating} disabled={generating}>
+            {generating ? 'Generating...' : isPdf ? 'Generate PDF' : 'Generate Report'}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-5">
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700">Format</legend>
+          <Choice
+            name="report-format"
+            value={options.format}
+            options={REPORT_FORMAT_OPTIONS}
+            onChange={(value: ReportFormat) => setOption('format', value)}
+          />
+        </fieldset>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700">Tasks</legend>
+          <Choice name="report-scope" value={options.scope} options={scopeOptions} onChange={(value) => setOption('scope', value)} />
+        </fieldset>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Input
+            type="date"
+            label="Due from"
+            value={options.dateFrom || ''}
+            onChange={(e) => setOption('dateFrom', e.target.value || undefined)}
+            error={errors.dateFrom}
+          />
+          <Input
+            type="date"
+            label="Due until"
+            value={options.dateTo || ''}
+            onChange={(e) => setOption('dateTo', e.target.value || undefined)}
+            error={errors.dateTo}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="report-group-by" className="block text-sm font-medium text-gray-700 mb-1">Group by</label>
+            <select
+              id="report-group-by"
+              value={options.groupBy}
+              onChange={(e) => setOption('groupBy', e.target.value as TaskGroupBy)}
+              className={selectClassName}
+            >
+              {TASK_GROUP_BY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="report-sort-by" className="block text-sm font-medium text-gray-700 mb-1">Sort by</label>
+            <select
+              id="report-sort-by"
+              value={options.sortBy}
+              onChange={(e) => setOption('sortBy', e.target.value as TaskSortBy)}
+              className={selectClassName}
+            >
+              {TASK_SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="report-sort-order" className="block text-sm font-medium text-gray-700 mb-1">Order</label>
+            <select
+              id="report-sort-order"
+              value={options.sortOrder}
+              onChange={(e) => setOption('sortOrder', e.target.value as SortOrder)}
+              className={selectClassName}
+            >
+              <option value="asc">Ascending</option>
+              <option value="desc">Descending</option>
+            </select>
+          </div>
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700">Fields</legend>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {REPORT_FIELD_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={options.fields.includes(option.value)}
+                  onChange={(e) => toggleField(option.value, e.target.checked)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          {errors.fields && <p className="text-sm text-red-600">{errors.fields}</p>}
+        </fieldset>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-gray-700">Layout</legend>
+            <Choice name="report-layout" value={options.layout} options={layoutOptions} onChange={(value) => setOption('layout', value)} />
+          </fieldset>
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-gray-700">Orientation</legend>
+            <Choice
+              name="report-orientation"
+              value={options.orientation}
+              options={orientationOptions}
+              onChange={(value) => setOption('orientation', value)}
+              disabled={!isPdf}
+            />
+          </fieldset>
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700">Extra sections</legend>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <Checkbox checked={options.includeSummary} onChange={(e) => setOption('includeSummary', e.target.checked)} />
+            Summary statistics
+          </label>
+          <label className={`flex items-center gap-2 text-sm ${isPdf ? 'text-gray-700' : 'text-gray-400'}`}>
+            <Checkbox
+              checked={isPdf && options.includeTimeline}
+              onChange={(e) => setOption('includeTimeline', e.target.checked)}
+              disabled={!isPdf}
+            />
+            Timeline page{!isPdf && ' (PDF only)'}
+          </label>
+        </fieldset>
+
+        {message && (
+          <Alert variant="error" onClose={() => setMessage(null)}>
+            {message}
+          </Alert>
+        )}
+      </div>
+    </Modal>
+  );
+};
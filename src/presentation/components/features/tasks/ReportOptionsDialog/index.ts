@@ -0,0 +1 @@
+export { ReportOptionsDialog } from './ReportOptionsDialog';
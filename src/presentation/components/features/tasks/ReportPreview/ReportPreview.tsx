@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { PdfReport } from '@/infrastructure/pdf/PdfGenerator';
+import { TextReport } from '@/infrastructure/report/TextReportGenerator';
+import { Alert } from '@/presentation/components/common/Alert';
+import { Button } from '@/presentation/components/common/Button';
+import { Modal } from '@/presentation/components/common/Modal';
+import { copyText } from '@/presentation/utils/clipboard';
+import { downloadBlob, openBlobInNewTab } from '@/presentation/utils/download';
+import {
+  ArrowDownTrayIcon,
+  ArrowTopRightOnSquareIcon,
+  ClipboardDocumentIcon
+} from '@heroicons/react/24/outline';
+
+interface ReportPreviewProps {
+  report: PdfReport | TextReport;
+  onClose: () => void;
+}
+
+const isTextReport = (report: PdfReport | TextReport): report is TextReport => 'content' in report;
+
+/**
+ * Shows a generated report before it leaves the app: a PDF in the browser's
+ * built-in viewer, with the choice to download it or open it in a new tab,
+ * or a Markdown or plain-text report as text to copy or download
+ */
+export const ReportPreview: React.FC<ReportPreviewProps> = ({ report, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ variant: 'success' | 'warning'; text: string } | null>(null);
+  const textReport = isTextReport(report) ? report : null;
+
+  // One object URL per PDF report, released when the preview closes
+  useEffect(() => {
+    if (isTextReport(report)) return;
+
+    const objectUrl = URL.createObjectURL(report.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [report]);
+
+  const handleOpenInNewTab = () => {
+    if (!openBlobInNewTab(report.blob)) {
+      setMessage({
+        variant: 'warning',
+        text: 'The new tab was blocked by the browser. Allow popups for this site or download the report instead.'
+      });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!textReport) return;
+
+    setMessage(await copyText(textReport.content)
+      ? { variant: 'success', text: 'Report copied to the clipboard.' }
+      : { variant: 'warning', text: 'The browser did not allow copying. Select the text below and copy it instead.' }
+    );
+  };
+
+  return (
+    <Modal
+      open
+      title="Report Preview"
+      size="large"
+      onClose={onClose}
+      footer={
+        <>
+          <Button variant="secondary" size="small" onClick={onClose}>
+            Close
+          </Button>
+          {textReport ? (
+            <Button variant="secondary" size="small" onClick={handleCopy} className="flex items-center gap-2">
+              <ClipboardDocumentIcon className="w-4 h-4" />
+              Copy to Clipboard
+            </Button>
+          ) : (
+            <Button variant="secondary" size="small" onClick={handleOpenInNewTab} className="flex items-center gap-2">
+              <ArrowTopRightOnSquareIcon className="w-4 h-4" />
+              Open in New Tab
+            </Button>
+          )}
+          <Button
+            variant="primary"
+            size="small"
+            onClick={() => downloadBlob(report.blob, report.filename)}
+            className="flex items-center gap-2"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            Download
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-3">
+        {message && (
+          <Alert variant={message.variant} onClose={() => setMessage(null)}>
+            {message.text}
+          </Alert>
+        )}
+        <p className="text-sm text-gray-500">
+          {report.filename} • {Math.max(1, Math.round(report.blob.size / 1024))} KB
+        </p>
+        {textReport ? (
+          <textarea
+            readOnly
+            value={textReport.content}
+            aria-label={`Contents of ${report.filename}`}
+            onFocus={(e) => e.target.select()}
+            className="w-full h-[65vh] rounded border border-gray-200 bg-gray-50 p-3 font-mono text-xs text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        ) : url && (
+          <iframe
+            src={url}
+            title={`Preview of ${report.filename}`}
+            className="w-full h-[65vh] rounded border border-gray-200"
+          />
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1 @@
+export { ReportPreview } from './ReportPreview';
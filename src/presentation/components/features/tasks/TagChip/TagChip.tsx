@@ -0,0 +1,43 @@
+import React from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface TagChipProps {
+  name: string;
+  color: string;
+  onRemove?: () => void;
+  onClick?: () => void;
+}
+
+export const TagChip: React.FC<TagChipProps> = ({ name, color, onRemove, onClick }) => {
+  // Registry colors are dynamic, so they are applied inline rather than via Tailwind classes
+  const style: React.CSSProperties = {
+    color,
+    backgroundColor: `${color}1a`,
+    borderColor: `${color}66`
+  };
+
+  const label = onClick ? (
+    <button type="button" onClick={onClick} className="hover:underline focus:outline-none focus:underline">
+      {name}
+    </button>
+  ) : name;
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full border"
+      style={style}
+    >
+      {label}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded-full hover:opacity-75 focus:outline-none"
+          aria-label={`Remove tag ${name}`}
+        >
+          <XMarkIcon className="w-3 h-3" />
+        </button>
+      )}
+    </span>
+  );
+};
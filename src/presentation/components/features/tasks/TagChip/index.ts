@@ -0,0 +1 @@
+export { TagChip } from './TagChip';
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useId, useMemo, useState } from 'react';
+import { ITag, MAX_TAG_LENGTH, getTagColor, isSameTag, normalizeTagName } from '@/core/domain/entities/Tag';
+import { TagChip } from '../TagChip';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  /** Registered tags offered as autocomplete suggestions */
+  suggestions: ITag[];
+  id?: string;
+  label?: string;
+  placeholder?: string;
+  disabled?: boolean;
+  error?: string;
+  /** Only allow tags that already exist in the registry (e.g. for filtering) */
+  restrictToSuggestions?: boolean;
+  maxTags?: number;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export const TagInput: React.FC<TagInputProps> = ({
+  value,
+  onChange,
+  suggestions,
+  id,
+  label,
+  placeholder = 'Add a tag...',
+  disabled = false,
+  error,
+  restrictToSuggestions = false,
+  maxTags
+}) => {
+  const [input, setInput] = useState('');
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const listboxId = useId();
+
+  const query = normalizeTagName(input).toLowerCase();
+  const isFull = maxTags !== undefined && value.length >= maxTags;
+
+  const matches = useMemo(() => suggestions
+    .filter(tag => !value.some(selected => isSameTag(selected, tag.name)))
+    .filter(tag => !query || tag.name.toLowerCase().includes(query))
+    .slice(0, MAX_SUGGESTIONS), [suggestions, value, query]);
+
+  const addTag = (rawName: string) => {
+    const name = normalizeTagName(rawName.replace(/,/g, ' '));
+    setInput('');
+    setHighlighted(0);
+    if (!name || isFull || value.some(tag => isSameTag(tag, name))) return;
+
+    // Reuse the registered spelling when the tag already exists
+    const registered = suggestions.find(tag => isSameTag(tag.name, name));
+    if (!registered && restrictToSuggestions) return;
+
+    onChange([...value, registered ? registered.name : name.slice(0, MAX_TAG_LENGTH)]);
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(tag => tag !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || (e.key === 'Tab' && input.trim())) {
+      e.preventDefault();
+      addTag(open && matches[highlighted] ? matches[highlighted].name : input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted(prev => Math.min(prev + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      {label && (
+        <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+          {label}
+        </label>
+      )}
+
+      <div className="relative">
+        <div
+          className={`flex flex-wrap items-center gap-1 w-full px-2 py-1.5 border rounded-md bg-white focus-within:ring-2 focus-within:ring-blue-500 ${
+            error ? 'border-red-500' : 'border-gray-300'
+          } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          {value.map(tag => (
+            <TagChip
+              key={tag}
+              name={tag}
+              color={getTagColor(tag, suggestions)}
+              onRemove={disabled ? undefined : () => removeTag(tag)}
+            />
+          ))}
+          <input
+            id={id}
+            type="text"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setOpen(true);
+              setHighlighted(0);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+            placeholder={isFull ? '' : placeholder}
+            disabled={disabled || isFull}
+            maxLength={MAX_TAG_LENGTH}
+            role="combobox"
+            aria-controls={listboxId}
+            aria-expanded={open && matches.length > 0}
+            aria-autocomplete="list"
+            className="flex-1 min-w-[8rem] py-0.5 text-sm bg-transparent focus:outline-none"
+          />
+        </div>
+
+        {open && matches.length > 0 && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            className="absolute z-20 mt-1 w-full max-h-48 overflow-auto bg-white border border-gray-200 rounded-md shadow-lg py-1"
+          >
+            {matches.map((tag, index) => (
+              <li
+                key={tag.name}
+                role="option"
+                aria-selected={index === highlighted}
+                // Keep focus in the input so blur doesn't close the list before the click lands
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag.name);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer ${
+                  index === highlighted ? 'bg-blue-50' : ''
+                }`}
+              >
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                {tag.name}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { TagInput } from './TagInput';
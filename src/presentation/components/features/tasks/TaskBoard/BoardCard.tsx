@@ -0,0 +1,110 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Task } from '@/core/domain/entities/Task';
+import { Member, resolvePic } from '@/core/domain/entities/Member';
+import { getTagColor, ITag } from '@/core/domain/entities/Tag';
+import { taskStatusUtils, taskChecklistUtils, taskWorkflowUtils } from '@/core/domain/entities/taskUtils';
+import { Badge } from '@/presentation/components/common/Badge';
+import { MemberAvatar } from '../../members/MemberAvatar';
+import { TagChip } from '../TagChip';
+import { TaskDetail } from '../TaskDetail';
+import { ChecklistProgressBar } from '../TaskChecklist';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+
+interface BoardCardProps {
+  task: Task;
+  allTasks: Task[];
+  members: Member[];
+  tags: ITag[];
+  onDragStart: (task: Task) => void;
+  onDragEnd: () => void;
+}
+
+export const BoardCard: React.FC<BoardCardProps> = ({
+  task,
+  allTasks,
+  members,
+  tags,
+  onDragStart,
+  onDragEnd
+}) => {
+  const [showDetail, setShowDetail] = useState(false);
+  const pic = resolvePic(task.pic, members);
+  const deadlineInfo = taskStatusUtils.getDeadlineInfo(task, allTasks);
+  const checklistProgress = taskChecklistUtils.getProgress(task);
+  const isClosed = taskWorkflowUtils.isClosed(task);
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>) => {
+    e.dataTransfer.setData('text/plain', task.id);
+    e.dataTransfer.effectAllowed = 'move';
+    onDragStart(task);
+  };
+
+  return (
+    <>
+      <div
+        draggable
+        onDragStart={handleDragStart}
+        onDragEnd={onDragEnd}
+        className={`rounded-md border border-gray-200 bg-white p-3 shadow-sm cursor-grab active:cursor-grabbing hover:shadow ${
+          deadlineInfo?.isOverdue && !isClosed ? 'border-l-4 border-l-red-500' : ''
+        } ${isClosed ? 'opacity-75' : ''}`}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <button
+            type="button"
+            onClick={() => setShowDetail(true)}
+            className={`text-left text-sm font-medium hover:text-blue-600 focus:outline-none focus:underline ${
+              isClosed ? 'line-through text-gray-500' : 'text-gray-900'
+            }`}
+          >
+            {task.title || 'Untitled Task'}
+          </button>
+          {deadlineInfo?.isBlocked && (
+            <LockClosedIcon className="w-4 h-4 text-amber-600 flex-shrink-0" aria-label="Blocked" />
+          )}
+        </div>
+
+        {task.tags.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {task.tags.map(tag => (
+              <TagChip key={tag} name={tag} color={getTagColor(tag, tags)} />
+            ))}
+          </div>
+        )}
+
+        {checklistProgress.total > 0 && (
+          <ChecklistProgressBar
+            completed={checklistProgress.completed}
+            total={checklistProgress.total}
+            className="mt-2"
+          />
+        )}
+
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <Badge variant={taskStatusUtils.getPriorityBadgeVariant(task.priority)} size="small">
+            {taskStatusUtils.getPriorityLabel(task.priority)}
+          </Badge>
+          {deadlineInfo && !isClosed && (
+            <span className={`text-xs ${deadlineInfo.isOverdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+              {deadlineInfo.status.text}
+            </span>
+          )}
+          {pic && (
+            <span className="ml-auto flex items-center gap-1 text-xs text-gray-600" title={pic.label}>
+              {pic.member ? (
+                <MemberAvatar name={pic.member.name} color={pic.member.color} size="small" />
+              ) : (
+                pic.label
+              )}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Kept outside the draggable card so selecting text in the dialog does not start a drag */}
+      <TaskDetail task={task} open={showDetail} onClose={() => setShowDetail(false)} />
+    </>
+  );
+};
@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Task } from '@/core/domain/entities/Task';
+import { taskStatsUtils } from '@/core/domain/entities/taskUtils';
+
+export interface BoardColumnDefinition {
+  key: string;
+  title: string;
+  /** Shown before the title, e.g. the member's avatar */
+  icon?: React.ReactNode;
+  /** Columns for values the board cannot assign (legacy PIC values, unassigned) */
+  acceptsDrops: boolean;
+}
+
+interface BoardColumnProps {
+  column: BoardColumnDefinition;
+  tasks: Task[];
+  /** Task count shown in the header */
+  count: number;
+  wipLimit?: number;
+  /** Whether the task being dragged may be dropped here; null when nothing is dragged */
+  dropAllowed: boolean | null;
+  onDrop: (taskId: string) => void;
+  onWipLimitChange: (limit: number | null) => void;
+  renderCard: (task: Task) => React.ReactNode;
+}
+
+export const BoardColumn: React.FC<BoardColumnProps> = ({
+  column,
+  tasks,
+  count,
+  wipLimit,
+  dropAllowed,
+  onDrop,
+  onWipLimitChange,
+  renderCard
+}) => {
+  const [isOver, setIsOver] = useState(false);
+  const isOverLimit = !!wipLimit && count > wipLimit;
+  const isAtLimit = !!wipLimit && count >= wipLimit;
+  const overdue = taskStatsUtils.calculateStatistics(tasks).overdue;
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!dropAllowed) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsOver(false);
+    const taskId = e.dataTransfer.getData('text/plain');
+    if (taskId && dropAllowed) {
+      onDrop(taskId);
+    }
+  };
+
+  return (
+    <section
+      aria-label={column.title}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={handleDrop}
+      className={`flex flex-col w-72 flex-shrink-0 rounded-lg bg-gray-100 transition-opacity ${
+        dropAllowed === false ? 'opacity-50' : ''
+      } ${isOver ? 'ring-2 ring-blue-500' : ''}`}
+    >
+      <header className={`px-3 py-2 border-b ${isOverLimit ? 'border-red-300 bg-red-50 rounded-t-lg' : 'border-gray-200'}`}>
+        <div className="flex items-center gap-2">
+          {column.icon}
+          <h3 className="font-semibold text-sm text-gray-900 truncate">{column.title}</h3>
+          <span
+            className={`ml-auto text-xs font-medium px-2 py-0.5 rounded-full ${
+              isOverLimit ? 'bg-red-100 text-red-700' : isAtLimit ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-200 text-gray-700'
+            }`}
+            title={wipLimit ? `${count} of ${wipLimit} (WIP limit)` : `${count} tasks`}
+          >
+            {wipLimit ? `${count}/${wipLimit}` : count}
+          </span>
+        </div>
+        <div className="mt-1 flex items-center gap-2 text-xs text-gray-500">
+          {overdue > 0 && <span className="text-red-600">{overdue} overdue</span>}
+          {column.acceptsDrops && (
+            <label className="ml-auto flex items-center gap-1">
+              WIP
+              <input
+                type="number"
+                min={0}
+                value={wipLimit || ''}
+                onChange={(e) => onWipLimitChange(e.target.value ? Number(e.target.value) : null)}
+                placeholder="∞"
+                aria-label={`WIP limit for ${column.title}`}
+                className="w-12 px-1 py-0.5 border border-gray-300 rounded text-xs text-gray-900 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </label>
+          )}
+        </div>
+      </header>
+
+      <div className="flex-1 p-2 space-y-2 min-h-24 overflow-y-auto max-h-[70vh]">
+        {tasks.map(task => (
+          <React.Fragment key={task.id}>{renderCard(task)}</React.Fragment>
+        ))}
+        {tasks.length === 0 && (
+          <p className="py-6 text-center text-xs text-gray-400">No tasks</p>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Task, TASK_WORKFLOW_STATUSES, TaskWorkflowStatus } from '@/core/domain/entities/Task';
+import { taskStatsUtils, taskSortUtils, taskWorkflowUtils } from '@/core/domain/entities/taskUtils';
+import { Alert } from '@/presentation/components/common/Alert';
+import { ErrorState } from '@/presentation/components/common/ErrorState';
+import { LoadingState } from '@/presentation/components/common/LoadingState';
+import { useTasks } from '@/presentation/hooks/useTasks';
+import { useAllTasks } from '@/presentation/hooks/useAllTasks';
+import { useMembers } from '@/presentation/hooks/useMembers';
+import { BoardGroupBy, useBoardSettings } from '@/presentation/hooks/useBoardSettings';
+import { MemberAvatar } from '../../members/MemberAvatar';
+import { BoardCard } from './BoardCard';
+import { BoardColumn, BoardColumnDefinition } from './BoardColumn';
+
+const GROUP_BY_OPTIONS: { value: BoardGroupBy; label: string }[] = [
+  { value: 'status', label: 'Status' },
+  { value: 'pic', label: 'Person in Charge' }
+];
+
+/**
+ * Kanban view of the same task state as the list: dragging a card between
+ * columns changes its status or reassigns it through the update use case.
+ */
+export const TaskBoard: React.FC = () => {
+  const { tags, updateTask, workflow } = useTasks();
+  const { tasks, loading, error, refetch } = useAllTasks();
+  const { members } = useMembers();
+  const { groupBy, wipLimits, setGroupBy, setWipLimit } = useBoardSettings();
+  const [draggingTask, setDraggingTask] = useState<Task | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const statistics = useMemo(() => taskStatsUtils.calculateStatistics(tasks), [tasks]);
+  const picCounts = useMemo(() => taskStatsUtils.countByPic(tasks), [tasks]);
+
+  const getColumnKey = (task: Task): string => groupBy === 'status' ? task.status : task.pic || '';
+
+  const columns = useMemo<BoardColumnDefinition[]>(() => {
+    if (groupBy === 'status') {
+      return TASK_WORKFLOW_STATUSES.map(status => ({
+        key: status,
+        title: taskWorkflowUtils.getLabel(status),
+        acceptsDrops: true
+      }));
+    }
+
+    const memberColumns: BoardColumnDefinition[] = members.map(member => ({
+      key: member.id,
+      title: member.name,
+      icon: <MemberAvatar name={member.name} color={member.color} size="small" />,
+      acceptsDrops: true
+    }));
+
+    // Tasks nobody in the directory owns still need a column, but cannot be moved into it
+    const otherColumns: BoardColumnDefinition[] = Array.from(picCounts.keys())
+      .filter(pic => !members.some(member => member.id === pic))
+      .map(pic => ({ key: pic, title: pic || 'Unassigned', acceptsDrops: false }));
+
+    return [...memberColumns, ...otherColumns];
+  }, [groupBy, members, picCounts]);
+
+  const tasksByColumn = useMemo(() => {
+    const grouped = new Map<string, Task[]>();
+    taskSortUtils.sortTasks(tasks, 'priority', 'desc').forEach(task => {
+      const key = groupBy === 'status' ? task.status : task.pic || '';
+      grouped.set(key, [...(grouped.get(key) || []), task]);
+    });
+    return grouped;
+  }, [tasks, groupBy]);
+
+  const getCount = (column: BoardColumnDefinition): number => {
+    return groupBy === 'status'
+      ? statistics.byStatus[column.key as TaskWorkflowStatus]
+      : picCounts.get(column.key) || 0;
+  };
+
+  const canDrop = (column: BoardColumnDefinition): boolean | null => {
+    if (!draggingTask) return null;
+    if (getColumnKey(draggingTask) === column.key) return true;
+    if (!column.acceptsDrops) return false;
+
+    const limit = wipLimits[column.key];
+    if (limit && getCount(column) >= limit) return false;
+
+    return groupBy === 'status'
+      ? taskWorkflowUtils.canTransition(draggingTask.status, column.key as TaskWorkflowStatus, workflow)
+      : true;
+  };
+
+  const handleDrop = async (column: BoardColumnDefinition, taskId: string) => {
+    setDraggingTask(null);
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || getColumnKey(task) === column.key) return;
+
+    setMessage(null);
+    try {
+      await updateTask(task.id, groupBy === 'status'
+        ? { status: column.key as TaskWorkflowStatus }
+        : { pic: column.key });
+    } catch (err) {
+      console.error('Error moving task:', err);
+      setMessage(err instanceof Error ? err.message : 'Failed to move task');
+    }
+  };
+
+  if (loading) {
+    return <LoadingState message="Loading board..." />;
+  }
+
+  if (error) {
+    return <ErrorState message={error} onRetry={refetch} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="board-group-by" className="text-sm font-medium text-gray-700">Group by</label>
+        <select
+          id="board-group-by"
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value as BoardGroupBy)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {GROUP_BY_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <span className="text-sm text-gray-500">
+          {statistics.total} tasks • {statistics.pending} open • {statistics.overdue} overdue
+        </span>
+      </div>
+
+      {message && (
+        <Alert variant="error" onClose={() => setMessage(null)}>
+          {message}
+        </Alert>
+      )}
+
+      {groupBy === 'pic' && members.length === 0 && (
+        <Alert variant="info">
+          Add members on the Members page to assign tasks from the board.
+        </Alert>
+      )}
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {columns.map(column => (
+          <BoardColumn
+            key={column.key || 'unassigned'}
+            column={column}
+            tasks={tasksByColumn.get(column.key) || []}
+            count={getCount(column)}
+            wipLimit={wipLimits[column.key]}
+            dropAllowed={canDrop(column)}
+            onDrop={(taskId) => handleDrop(column, taskId)}
+            onWipLimitChange={(limit) => setWipLimit(column.key, limit)}
+            renderCard={(task) => (
+              <BoardCard
+                task={task}
+                allTasks={tasks}
+                members={members}
+                tags={tags}
+                onDragStart={setDraggingTask}
+                onDragEnd={() => setDraggingTask(null)}
+              />
+            )}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { TaskBoard } from './TaskBoard';
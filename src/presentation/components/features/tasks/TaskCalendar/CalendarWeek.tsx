@@ -0,0 +1,161 @@
+'use client';
+
+import React from 'react';
+import { CalendarSegment, Task } from '@/core/domain/entities/Task';
+
+export type CalendarDragMode = 'move' | 'start' | 'end';
+
+interface CalendarWeekProps {
+  days: string[];
+  segments: CalendarSegment[];
+  today: string;
+  month?: string; // YYYY-MM; days outside it are dimmed in the month view
+  tall?: boolean;
+  dragging: boolean;
+  getSegmentClassName: (task: Task) => string;
+  getSegmentTitle: (task: Task) => string;
+  onDayClick: (day: string) => void;
+  onDayDrop: (day: string) => void;
+  onSegmentClick: (task: Task) => void;
+  onSegmentDragStart: (task: Task, mode: CalendarDragMode, fromDay: string) => void;
+  onSegmentDragEnd: () => void;
+}
+
+/**
+ * One calendar row: day cells underneath and task spans laid over them in lanes.
+ * While a span is dragged the overlay stops taking pointer events so the day
+ * cells underneath receive the drop.
+ */
+export const CalendarWeek: React.FC<CalendarWeekProps> = ({
+  days,
+  segments,
+  today,
+  month,
+  tall = false,
+  dragging,
+  getSegmentClassName,
+  getSegmentTitle,
+  onDayClick,
+  onDayDrop,
+  onSegmentClick,
+  onSegmentDragStart,
+  onSegmentDragEnd
+}) => {
+  const handleDragStart = (
+    e: React.DragEvent<HTMLDivElement>,
+    segment: CalendarSegment,
+    mode: CalendarDragMode
+  ) => {
+    e.stopPropagation();
+    e.dataTransfer.setData('text/plain', segment.task.id);
+    e.dataTransfer.effectAllowed = 'move';
+
+    // Moving keeps the grabbed day under the cursor, so work out which day of the span was grabbed
+    let column = mode === 'start' ? segment.startColumn : segment.startColumn + segment.length - 1;
+    if (mode === 'move') {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const offset = Math.floor(((e.clientX - rect.left) / rect.width) * segment.length);
+      column = segment.startColumn + Math.min(segment.length - 1, Math.max(0, offset));
+    }
+
+    const fromDay = days[column];
+    // Deferred so the browser has captured the drag image before the overlay changes
+    setTimeout(() => onSegmentDragStart(segment.task, mode, fromDay), 0);
+  };
+
+  return (
+    <div className="relative border-b border-gray-200 last:border-b-0">
+      <div className="absolute inset-0 grid grid-cols-7">
+        {days.map(day => {
+          const isOutsideMonth = !!month && day.slice(0, 7) !== month;
+          const isToday = day === today;
+
+          return (
+            <div
+              key={day}
+              role="button"
+              tabIndex={0}
+              aria-label={`Add a task on ${day}`}
+              onClick={() => onDayClick(day)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  onDayClick(day);
+                }
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                onDayDrop(day);
+              }}
+              className={`border-r border-gray-200 last:border-r-0 p-1 cursor-pointer hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 ${
+                isOutsideMonth ? 'bg-gray-50' : 'bg-white'
+              }`}
+            >
+              <span
+                className={`inline-flex h-6 w-6 items-center justify-center rounded-full text-xs ${
+                  isToday
+                    ? 'bg-blue-600 text-white font-semibold'
+                    : isOutsideMonth ? 'text-gray-400' : 'text-gray-700'
+                }`}
+              >
+                {Number(day.slice(8, 10))}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div
+        className={`relative grid grid-cols-7 auto-rows-[1.5rem] gap-y-1 pt-8 pb-2 pointer-events-none ${
+          tall ? 'min-h-96' : 'min-h-28'
+        }`}
+      >
+        {segments.map(segment => (
+          <div
+            key={segment.task.id}
+            draggable
+            onDragStart={(e) => handleDragStart(e, segment, 'move')}
+            onDragEnd={onSegmentDragEnd}
+            onClick={() => onSegmentClick(segment.task)}
+            title={getSegmentTitle(segment.task)}
+            style={{
+              gridColumn: `${segment.startColumn + 1} / span ${segment.length}`,
+              gridRow: segment.lane + 1
+            }}
+            className={`relative mx-1 flex items-center border text-xs cursor-grab active:cursor-grabbing ${
+              dragging ? 'pointer-events-none opacity-60' : 'pointer-events-auto'
+            } ${segment.continuesBefore ? 'rounded-l-none border-l-0 -ml-px' : 'rounded-l'} ${
+              segment.continuesAfter ? 'rounded-r-none border-r-0 -mr-px' : 'rounded-r'
+            } ${getSegmentClassName(segment.task)}`}
+          >
+            {!segment.continuesBefore && (
+              <div
+                draggable
+                onDragStart={(e) => handleDragStart(e, segment, 'start')}
+                onDragEnd={onSegmentDragEnd}
+                onClick={(e) => e.stopPropagation()}
+                aria-label="Drag to change the start date"
+                className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize"
+              />
+            )}
+            <span className="truncate px-2">{segment.task.title || 'Untitled Task'}</span>
+            {!segment.continuesAfter && (
+              <div
+                draggable
+                onDragStart={(e) => handleDragStart(e, segment, 'end')}
+                onDragEnd={onSegmentDragEnd}
+                onClick={(e) => e.stopPropagation()}
+                aria-label="Drag to change the due date"
+                className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
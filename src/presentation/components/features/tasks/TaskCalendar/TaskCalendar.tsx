@@ -0,0 +1,209 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Task, TaskStatusInfo } from '@/core/domain/entities/Task';
+import { dateUtils, taskCalendarUtils, taskStatusUtils, taskWorkflowUtils } from '@/core/domain/entities/taskUtils';
+import { Alert } from '@/presentation/components/common/Alert';
+import { Button } from '@/presentation/components/common/Button';
+import { ErrorState } from '@/presentation/components/common/ErrorState';
+import { LoadingState } from '@/presentation/components/common/LoadingState';
+import { Modal } from '@/presentation/components/common/Modal';
+import { useTasks } from '@/presentation/hooks/useTasks';
+import { useAllTasks } from '@/presentation/hooks/useAllTasks';
+import { TaskDetail } from '../TaskDetail';
+import { TaskForm } from '../TaskForm';
+import { CalendarDragMode, CalendarWeek } from './CalendarWeek';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+
+type CalendarView = 'month' | 'week';
+
+interface CalendarDrag {
+  task: Task;
+  mode: CalendarDragMode;
+  fromDay: string;
+}
+
+const WEEKDAY_HEADERS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Span colours follow the deadline status shown on the task list
+const SPAN_COLORS: Record<TaskStatusInfo['type'], string> = {
+  success: 'bg-green-100 border-green-300 text-green-800',
+  warning: 'bg-yellow-100 border-yellow-300 text-yellow-800',
+  danger: 'bg-red-100 border-red-300 text-red-800',
+  info: 'bg-blue-100 border-blue-300 text-blue-800',
+  secondary: 'bg-gray-100 border-gray-300 text-gray-700'
+};
+
+/**
+ * Month/week calendar of task date ranges backed by the shared task state.
+ * Dragging a span moves it, dragging either end resizes it, and clicking a
+ * day opens the create form with that date filled in. New tasks cannot start
+ * in the past, so clicking a past day fills in today instead.
+ */
+export const TaskCalendar: React.FC = () => {
+  const { updateTask } = useTasks();
+  const { tasks, loading, error, refetch } = useAllTasks();
+  const today = dateUtils.getTodayString();
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(today);
+  const [drag, setDrag] = useState<CalendarDrag | null>(null);
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [newTaskDay, setNewTaskDay] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const weeks = useMemo(
+    () => view === 'month'
+      ? taskCalendarUtils.getMonthWeeks(anchor)
+      : [taskCalendarUtils.getWeekDays(anchor)],
+    [view, anchor]
+  );
+
+  const undatedCount = useMemo(
+    () => tasks.filter(task => !taskCalendarUtils.getSpan(task)).length,
+    [tasks]
+  );
+
+  const title = view === 'month'
+    ? dateUtils.formatDate(anchor, { month: 'long', day: undefined })
+    : `${dateUtils.formatDate(weeks[0][0])} – ${dateUtils.formatDate(weeks[0][6])}`;
+
+  const navigate = (direction: -1 | 1) => {
+    setAnchor(view === 'month'
+      ? taskCalendarUtils.shiftMonth(anchor, direction)
+      : taskCalendarUtils.addDays(anchor, direction * 7));
+  };
+
+  const getSegmentClassName = (task: Task): string => {
+    const deadlineInfo = taskStatusUtils.getDeadlineInfo(task, tasks);
+    const color = SPAN_COLORS[deadlineInfo?.status.type || 'secondary'];
+    return taskWorkflowUtils.isClosed(task) ? `${color} line-through opacity-75` : color;
+  };
+
+  const getSegmentTitle = (task: Task): string => {
+    const deadlineInfo = taskStatusUtils.getDeadlineInfo(task, tasks);
+    const span = taskCalendarUtils.getSpan(task);
+    const range = span && span.start !== span.end
+      ? `${dateUtils.formatDate(span.start)} – ${dateUtils.formatDate(span.end)}`
+      : dateUtils.formatDate(span?.start);
+    return [task.title, range, deadlineInfo?.status.text].filter(Boolean).join(' • ');
+  };
+
+  const handleDayDrop = async (day: string) => {
+    const current = drag;
+    setDrag(null);
+    if (!current) return;
+
+    const span = taskCalendarUtils.getSpan(current.task);
+    if (!span) return;
+
+    const next = current.mode === 'move'
+      ? taskCalendarUtils.moveSpan(span, current.fromDay, day)
+      : taskCalendarUtils.resizeSpan(span, current.mode, day);
+    if (next.start === span.start && next.end === span.end) return;
+
+    setMessage(null);
+    try {
+      await updateTask(current.task.id, { startDate: next.start, endDate: next.end });
+    } catch (err) {
+      console.error('Error rescheduling task:', err);
+      setMessage(err instanceof Error ? err.message : 'Failed to reschedule task');
+    }
+  };
+
+  if (loading) {
+    return <LoadingState message="Loading calendar..." />;
+  }
+
+  if (error) {
+    return <ErrorState message={error} onRetry={refetch} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-1">
+          <Button variant="secondary" size="small" onClick={() => navigate(-1)} aria-label={`Previous ${view}`}>
+            <ChevronLeftIcon className="w-4 h-4" />
+          </Button>
+          <Button variant="secondary" size="small" onClick={() => setAnchor(today)}>
+            Today
+          </Button>
+          <Button variant="secondary" size="small" onClick={() => navigate(1)} aria-label={`Next ${view}`}>
+            <ChevronRightIcon className="w-4 h-4" />
+          </Button>
+        </div>
+        <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+        <select
+          aria-label="Calendar view"
+          value={view}
+          onChange={(e) => setView(e.target.value as CalendarView)}
+          className="ml-auto px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="month">Month</option>
+          <option value="week">Week</option>
+        </select>
+      </div>
+
+      {message && (
+        <Alert variant="error" onClose={() => setMessage(null)}>
+          {message}
+        </Alert>
+      )}
+
+      <div className="rounded-lg border border-gray-200 bg-white overflow-hidden">
+        <div className="grid grid-cols-7 border-b border-gray-200 bg-gray-50">
+          {WEEKDAY_HEADERS.map((label, index) => (
+            <div key={label} className="px-2 py-1 text-xs font-medium text-gray-500">
+              {view === 'week' ? `${label} ${Number(weeks[0][index].slice(8, 10))}` : label}
+            </div>
+          ))}
+        </div>
+        {weeks.map(days => (
+          <CalendarWeek
+            key={days[0]}
+            days={days}
+            segments={taskCalendarUtils.layoutWeek(tasks, days)}
+            today={today}
+            month={view === 'month' ? anchor.slice(0, 7) : undefined}
+            tall={view === 'week'}
+            dragging={!!drag}
+            getSegmentClassName={getSegmentClassName}
+            getSegmentTitle={getSegmentTitle}
+            onDayClick={day => setNewTaskDay(dateUtils.isPastDate(day) ? today : day)}
+            onDayDrop={handleDayDrop}
+            onSegmentClick={setSelectedTask}
+            onSegmentDragStart={(task, mode, fromDay) => setDrag({ task, mode, fromDay })}
+            onSegmentDragEnd={() => setDrag(null)}
+          />
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Drag a task to move it, drag its edges to change the start or due date, or click a day to add a task.
+        {undatedCount > 0 && ` ${undatedCount} task${undatedCount === 1 ? '' : 's'} without dates ${undatedCount === 1 ? 'is' : 'are'} not shown.`}
+      </p>
+
+      {selectedTask && (
+        <TaskDetail
+          task={tasks.find(task => task.id === selectedTask.id) || selectedTask}
+          open
+          onClose={() => setSelectedTask(null)}
+        />
+      )}
+
+      <Modal
+        open={!!newTaskDay}
+        title={newTaskDay ? `New task on ${dateUtils.formatDate(newTaskDay)}` : undefined}
+        onClose={() => setNewTaskDay(null)}
+      >
+        {newTaskDay && (
+          <TaskForm
+            key={newTaskDay}
+            initialValues={{ startDate: newTaskDay, endDate: newTaskDay }}
+            onCreated={() => setNewTaskDay(null)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { TaskCalendar } from './TaskCalendar';
@@ -0,0 +1,37 @@
+import React from 'react';
+
+interface ChecklistProgressBarProps {
+  completed: number;
+  total: number;
+  className?: string;
+}
+
+export const ChecklistProgressBar: React.FC<ChecklistProgressBarProps> = ({
+  completed,
+  total,
+  className = ''
+}) => {
+  const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
+  const isDone = total > 0 && completed === total;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <div
+        className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={total}
+        aria-valuenow={completed}
+        aria-label="Checklist progress"
+      >
+        <div
+          className={`h-full rounded-full transition-all duration-300 ${isDone ? 'bg-green-500' : 'bg-blue-500'}`}
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+      <span className="text-xs font-medium text-gray-600 tabular-nums">
+        {completed}/{total}
+      </span>
+    </div>
+  );
+};
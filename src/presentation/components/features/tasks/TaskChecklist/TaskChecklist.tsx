@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChecklistItem, MAX_CHECKLIST_ITEMS } from '@/core/domain/entities/Task';
+import { Checkbox } from '@/presentation/components/common/Checkbox';
+import {
+  ArrowUpIcon,
+  ArrowDownIcon,
+  PlusIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+
+interface TaskChecklistProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+  disabled?: boolean;
+  idPrefix?: string;
+}
+
+const iconButtonClasses = 'p-1 text-gray-400 hover:text-gray-700 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-30 disabled:cursor-not-allowed';
+
+/**
+ * Ordered checklist editor: toggle, reorder, remove and add items
+ */
+export const TaskChecklist: React.FC<TaskChecklistProps> = ({
+  items,
+  onChange,
+  disabled = false,
+  idPrefix = 'checklist'
+}) => {
+  const [newItemTitle, setNewItemTitle] = useState('');
+  const isFull = items.length >= MAX_CHECKLIST_ITEMS;
+
+  const toggleItem = (id: string) => {
+    onChange(items.map(item => item.id === id ? { ...item, completed: !item.completed } : item));
+  };
+
+  const removeItem = (id: string) => {
+    onChange(items.filter(item => item.id !== id));
+  };
+
+  const moveItem = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const addItem = () => {
+    const title = newItemTitle.trim();
+    if (!title || isFull) return;
+
+    onChange([...items, { id: crypto.randomUUID(), title, completed: false }]);
+    setNewItemTitle('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Enter adds an item instead of submitting the surrounding form
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      addItem();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.length > 0 && (
+        <ul className="space-y-1">
+          {items.map((item, index) => (
+            <li key={item.id} className="flex items-center gap-2 group">
+              <Checkbox
+                id={`${idPrefix}-${item.id}`}
+                checked={item.completed}
+                onChange={() => toggleItem(item.id)}
+                disabled={disabled}
+              />
+              <label
+                htmlFor={`${idPrefix}-${item.id}`}
+                className={`flex-1 text-sm cursor-pointer ${item.completed ? 'line-through text-gray-400' : 'text-gray-700'}`}
+              >
+                {item.title}
+              </label>
+              <div className="flex items-center opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                <button
+                  type="button"
+                  onClick={() => moveItem(index, -1)}
+                  disabled={disabled || index === 0}
+                  className={iconButtonClasses}
+                  aria-label={`Move "${item.title}" up`}
+                >
+                  <ArrowUpIcon className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveItem(index, 1)}
+                  disabled={disabled || index === items.length - 1}
+                  className={iconButtonClasses}
+                  aria-label={`Move "${item.title}" down`}
+                >
+                  <ArrowDownIcon className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeItem(item.id)}
+                  disabled={disabled}
+                  className={iconButtonClasses}
+                  aria-label={`Remove "${item.title}"`}
+                >
+                  <XMarkIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          id={`${idPrefix}-new-item`}
+          type="text"
+          value={newItemTitle}
+          onChange={(e) => setNewItemTitle(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={isFull ? 'Checklist is full' : 'Add a checklist item...'}
+          disabled={disabled || isFull}
+          maxLength={200}
+          aria-label="New checklist item"
+          className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+        />
+        <button
+          type="button"
+          onClick={addItem}
+          disabled={disabled || isFull || !newItemTitle.trim()}
+          className="p-1.5 text-blue-600 border border-gray-300 rounded-md hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-40 disabled:cursor-not-allowed"
+          aria-label="Add checklist item"
+        >
+          <PlusIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChecklistItem, Task } from '@/core/domain/entities/Task';
+import { taskChecklistUtils, taskWorkflowUtils } from '@/core/domain/entities/taskUtils';
+import { Button } from '@/presentation/components/common/Button';
+import { useTasks } from '@/presentation/hooks/useTasks';
+import { TaskChecklist } from './TaskChecklist';
+import { ChecklistProgressBar } from './ChecklistProgressBar';
+
+interface TaskChecklistPanelProps {
+  task: Task;
+}
+
+/**
+ * Checklist bound to a saved task. Changes are saved immediately and,
+ * once the last open item is ticked, the user is offered to complete the task.
+ */
+export const TaskChecklistPanel: React.FC<TaskChecklistPanelProps> = ({ task }) => {
+  const { updateTask } = useTasks();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [offerCompletion, setOfferCompletion] = useState(false);
+
+  const progress = taskChecklistUtils.getProgress(task);
+
+  const handleChange = async (checklist: ChecklistItem[]) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updatedTask = await updateTask(task.id, { checklist });
+      const justFinished = !taskChecklistUtils.isChecklistComplete(task) &&
+        taskChecklistUtils.isChecklistComplete(updatedTask);
+      setOfferCompletion(justFinished && !taskWorkflowUtils.isClosed(updatedTask));
+    } catch (err) {
+      console.error('Error updating checklist:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update checklist');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCompleteTask = async () => {
+    setOfferCompletion(false);
+    try {
+      await updateTask(task.id, { completed: true });
+    } catch (err) {
+      console.error('Error completing task:', err);
+      setError(err instanceof Error ? err.message : 'Failed to complete task');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {progress.total > 0 && (
+        <ChecklistProgressBar completed={progress.completed} total={progress.total} />
+      )}
+
+      <TaskChecklist
+        items={task.checklist}
+        onChange={handleChange}
+        disabled={saving}
+        idPrefix={`checklist-${task.id}`}
+      />
+
+      {offerCompletion && (
+        <div className="flex flex-wrap items-center gap-3 p-3 rounded-md border border-green-200 bg-green-50 text-sm text-green-800">
+          <span className="flex-1">All checklist items are done. Mark the task as complete?</span>
+          <Button variant="primary" size="small" onClick={handleCompleteTask}>
+            Complete Task
+          </Button>
+          <Button variant="secondary" size="small" onClick={() => setOfferCompletion(false)}>
+            Not Now
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+};
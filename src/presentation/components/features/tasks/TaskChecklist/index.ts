@@ -0,0 +1,3 @@
+export { TaskChecklist } from './TaskChecklist';
+export { TaskChecklistPanel } from './TaskChecklistPanel';
+export { ChecklistProgressBar } from './ChecklistProgressBar';
@@ -0,0 +1,26 @@
+import React from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { ScheduleConflict } from '@/core/domain/entities/Task';
+import { dateUtils } from '@/core/domain/entities/taskUtils';
+
+interface ScheduleConflictWarningProps {
+  conflicts: ScheduleConflict[];
+  className?: string;
+}
+
+export const ScheduleConflictWarning: React.FC<ScheduleConflictWarningProps> = ({ conflicts, className = '' }) => {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <ul className={`space-y-1 text-xs text-amber-700 ${className}`}>
+      {conflicts.map(({ blocker, blockerEndDate }) => (
+        <li key={blocker.id} className="flex items-start gap-1">
+          <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+          <span>
+            Starts before &quot;{blocker.title}&quot; is due ({dateUtils.formatDate(blockerEndDate)})
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,119 @@
+'use client';
+
+import React from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { Task, MAX_TASK_DEPENDENCIES } from '@/core/domain/entities/Task';
+import { taskDependencyUtils } from '@/core/domain/entities/taskUtils';
+import { ScheduleConflictWarning } from './ScheduleConflictWarning';
+
+interface TaskDependencyPickerProps {
+  id: string;
+  label?: string;
+  /** IDs of the blocking tasks */
+  value: string[];
+  onChange: (blockedBy: string[]) => void;
+  /** Every task, used both as candidates and to detect cycles */
+  tasks: Task[];
+  /** The task being edited; omitted when creating a new one */
+  taskId?: string;
+  /** Start date of the task, to warn about blockers due after it */
+  startDate?: string;
+  disabled?: boolean;
+  error?: string;
+}
+
+export const TaskDependencyPicker: React.FC<TaskDependencyPickerProps> = ({
+  id,
+  label,
+  value,
+  onChange,
+  tasks,
+  taskId,
+  startDate,
+  disabled = false,
+  error
+}) => {
+  const selectedTasks = value
+    .map(blockerId => tasks.find(task => task.id === blockerId))
+    .filter((task): task is Task => Boolean(task));
+
+  // Offer tasks that are not already linked and would not close a cycle
+  const candidates = tasks.filter(task =>
+    task.id !== taskId &&
+    !value.includes(task.id) &&
+    (!taskId || !taskDependencyUtils.findCycle(taskId, [...value, task.id], tasks))
+  );
+
+  const conflicts = taskDependencyUtils.getScheduleConflicts(startDate, value, tasks);
+  const atLimit = value.length >= MAX_TASK_DEPENDENCIES;
+
+  const handleAdd = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const blockerId = e.target.value;
+    if (blockerId) {
+      onChange([...value, blockerId]);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      {label && (
+        <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+          {label}
+        </label>
+      )}
+
+      {selectedTasks.length > 0 && (
+        <ul className="flex flex-wrap gap-1">
+          {selectedTasks.map(task => (
+            <li
+              key={task.id}
+              className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full border ${
+                task.completed
+                  ? 'bg-green-50 border-green-200 text-green-700 line-through'
+                  : 'bg-gray-50 border-gray-300 text-gray-700'
+              }`}
+            >
+              {task.title}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(blockerId => blockerId !== task.id))}
+                disabled={disabled}
+                className="rounded-full hover:opacity-75 focus:outline-none disabled:cursor-not-allowed"
+                aria-label={`Remove dependency on ${task.title}`}
+              >
+                <XMarkIcon className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <select
+        id={id}
+        value=""
+        onChange={handleAdd}
+        disabled={disabled || atLimit || candidates.length === 0}
+        className={`w-full p-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors ${
+          error ? 'border-red-500' : 'border-gray-300 hover:border-gray-400'
+        } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        <option value="">
+          {atLimit
+            ? `At most ${MAX_TASK_DEPENDENCIES} blocking tasks`
+            : candidates.length === 0 ? 'No other tasks available' : 'Add a blocking task...'}
+        </option>
+        {candidates.map(task => (
+          <option key={task.id} value={task.id}>
+            {task.title}{task.completed ? ' (completed)' : ''}
+          </option>
+        ))}
+      </select>
+
+      <ScheduleConflictWarning conflicts={conflicts} />
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export { TaskDependencyPicker } from './TaskDependencyPicker';
+export { ScheduleConflictWarning } from './ScheduleConflictWarning';
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Task } from '@/core/domain/entities/Task';
+import {
+  dateUtils,
+  taskStatusUtils,
+  taskDependencyUtils,
+  taskRecurrenceUtils,
+  taskWorkflowUtils
+} from '@/core/domain/entities/taskUtils';
+import { getTagColor } from '@/core/domain/entities/Tag';
+import { resolvePic } from '@/core/domain/entities/Member';
+import { useTasks } from '@/presentation/hooks/useTasks';
+import { useAllTasks } from '@/presentation/hooks/useAllTasks';
+import { useMembers } from '@/presentation/hooks/useMembers';
+import { Modal } from '@/presentation/components/common/Modal';
+import { Badge } from '@/presentation/components/common/Badge';
+import { Button } from '@/presentation/components/common/Button';
+import { TaskEditForm } from '../TaskEditForm';
+import { TagChip } from '../TagChip';
+import { TaskChecklistPanel } from '../TaskChecklist';
+
+interface TaskDetailProps {
+  task: Task;
+  open: boolean;
+  onClose: () => void;
+}
+
+export const TaskDetail: React.FC<TaskDetailProps> = ({ task, open, onClose }) => {
+  const { tags } = useTasks();
+  // Dependencies are looked up in the full list, loaded while the detail is open
+  const { tasks } = useAllTasks(open);
+  const { members } = useMembers();
+  const pic = resolvePic(task.pic, members);
+  const [isEditing, setIsEditing] = useState(false);
+  const blockers = taskDependencyUtils.getBlockers(task, tasks);
+  const dependents = taskDependencyUtils.getDependents(task, tasks);
+  const isBlocked = taskDependencyUtils.isBlocked(task, tasks);
+  const listTitles = (linkedTasks: Task[]) =>
+    linkedTasks.length > 0 ? linkedTasks.map(linked => linked.title).join(', ') : 'None';
+
+  const handleClose = () => {
+    setIsEditing(false);
+    onClose();
+  };
+
+  const details: Array<{ label: string; value: React.ReactNode }> = [
+    {
+      label: 'Person in Charge',
+      value: pic?.member ? `${pic.label} (${pic.member.role}) · ${pic.member.email}` : pic?.label || 'N/A'
+    },
+    {
+      label: 'Priority',
+      value: (
+        <Badge variant={taskStatusUtils.getPriorityBadgeVariant(task.priority)}>
+          {taskStatusUtils.getPriorityLabel(task.priority)}
+        </Badge>
+      )
+    },
+    {
+      label: 'Tags',
+      value: task.tags.length > 0 ? (
+        <div className="flex flex-wrap gap-1">
+          {task.tags.map(tag => (
+            <TagChip key={tag} name={tag} color={getTagColor(tag, tags)} />
+          ))}
+        </div>
+      ) : 'None'
+    },
+    { label: 'Repeats', value: taskRecurrenceUtils.describe(task.recurrence) },
+    { label: 'Start Date', value: dateUtils.formatDate(task.startDate) },
+    { label: 'End Date', value: dateUtils.formatDate(task.endDate) },
+    {
+      label: 'Status',
+      value: (
+        <div className="flex flex-wrap gap-1">
+          <Badge variant={taskWorkflowUtils.getBadgeVariant(task.status)}>
+            {taskWorkflowUtils.getLabel(task.status)}
+          </Badge>
+          {isBlocked && <Badge variant="default">Blocked</Badge>}
+        </div>
+      )
+    },
+    { label: 'Blocked By', value: listTitles(blockers) },
+    { label: 'Blocks', value: listTitles(dependents) },
+    { label: 'Created', value: dateUtils.formatDate(task.createdAt?.toISOString()) },
+    { label: 'Last Updated', value: dateUtils.formatDate(task.updatedAt?.toISOString()) }
+  ];
+
+  return (
+    <Modal
+      open={open}
+      onClose={handleClose}
+      title={isEditing ? 'Edit Task' : task.title || 'Untitled Task'}
+      footer={!isEditing && (
+        <>
+          <Button variant="secondary" size="small" onClick={handleClose}>
+            Close
+          </Button>
+          <Button variant="primary" size="small" onClick={() => setIsEditing(true)}>
+            Edit
+          </Button>
+        </>
+      )}
+    >
+      {isEditing ? (
+        <TaskEditForm
+          task={task}
+          onCancel={() => setIsEditing(false)}
+          onSaved={() => setIsEditing(false)}
+        />
+      ) : (
+        <div className="space-y-6">
+          <p className="text-sm text-gray-700 whitespace-pre-wrap">
+            {task.description || <span className="italic text-gray-400">No description</span>}
+          </p>
+
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            {details.map(item => (
+              <div key={item.label}>
+                <dt className="text-xs font-medium uppercase text-gray-500">{item.label}</dt>
+                <dd className="mt-1 text-gray-900">{item.value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <section>
+            <h3 className="text-xs font-medium uppercase text-gray-500 mb-2">Checklist</h3>
+            <TaskChecklistPanel task={task} />
+          </section>
+        </div>
+      )}
+    </Modal>
+  );
+};
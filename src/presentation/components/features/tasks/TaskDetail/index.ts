@@ -0,0 +1 @@
+export { TaskDetail } from './TaskDetail';
@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Task, TaskFormErrors } from '@/core/domain/entities/Task';
+import { Button } from '@/presentation/components/common/Button';
+import { Alert } from '@/presentation/components/common/Alert';
+import { useTasks } from '@/presentation/hooks/useTasks';
+import { useAllTasks } from '@/presentation/hooks/useAllTasks';
+import { useMembers } from '@/presentation/hooks/useMembers';
+import { updateTaskSchema, getValidationFieldErrors } from '@/core/application/dto/CreateTaskDTO';
+import { TaskFormFields, TaskFormValues } from '../TaskFormFields';
+
+interface TaskEditFormProps {
+  task: Task;
+  onCancel: () => void;
+  onSaved?: (task: Task) => void;
+}
+
+const toFormValues = (task: Task): TaskFormValues => ({
+  title: task.title || '',
+  description: task.description || '',
+  pic: task.pic || '',
+  startDate: task.startDate || '',
+  endDate: task.endDate || '',
+  priority: task.priority,
+  tags: [...task.tags],
+  checklist: task.checklist.map(item => ({ ...item })),
+  blockedBy: [...task.blockedBy],
+  recurrence: task.recurrence ? { ...task.recurrence } : null
+});
+
+export const TaskEditForm: React.FC<TaskEditFormProps> = ({ task, onCancel, onSaved }) => {
+  const { updateTask, tags } = useTasks();
+  const { tasks } = useAllTasks();
+  const { members } = useMembers();
+  const [values, setValues] = useState<TaskFormValues>(() => toFormValues(task));
+  const [errors, setErrors] = useState<TaskFormErrors>({});
+  const [saving, setSaving] = useState(false);
+
+  const handleFieldChange = <K extends keyof TaskFormValues>(field: K, value: TaskFormValues[K]) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+    if (errors[field as keyof TaskFormErrors] || errors.general) {
+      setErrors(prev => ({ ...prev, [field]: undefined, general: undefined }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Empty dates mean "leave unchanged" rather than clearing the schedule
+    const result = updateTaskSchema.safeParse({
+      id: task.id,
+      title: values.title,
+      description: values.description,
+      pic: values.pic,
+      startDate: values.startDate || undefined,
+      endDate: values.endDate || undefined,
+      priority: values.priority,
+      tags: values.tags,
+      checklist: values.checklist,
+      blockedBy: values.blockedBy,
+      recurrence: values.recurrence
+    });
+
+    if (!result.success) {
+      setErrors(getValidationFieldErrors(result.error));
+      return;
+    }
+
+    const { id, ...params } = result.data;
+
+    setSaving(true);
+    try {
+      const updatedTask = await updateTask(id, params);
+      onSaved?.(updatedTask);
+    } catch (error) {
+      console.error('Error updating task:', error);
+      setErrors({ general: error instanceof Error ? error.message : 'Failed to update task' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <TaskFormFields
+        values={values}
+        errors={errors}
+        onChange={handleFieldChange}
+        tagSuggestions={tags}
+        memberOptions={members}
+        dependencyOptions={tasks}
+        taskId={task.id}
+        disabled={saving}
+        idPrefix={`edit-${task.id}`}
+      />
+
+      {errors.general && (
+        <Alert variant="error" onClose={() => setErrors(prev => ({ ...prev, general: undefined }))}>
+          {errors.general}
+        </Alert>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="secondary" size="small" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="small" loading={saving}>
+          Save Changes
+        </Button>
+      </div>
+    </form>
+  );
+};
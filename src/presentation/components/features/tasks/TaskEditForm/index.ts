@@ -0,0 +1 @@
+export { TaskEditForm } from './TaskEditForm';
@@ -0,0 +1,296 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Input } from '@/presentation/components/common/Input';
+import { TextArea } from '@/presentation/components/common/TextArea';
+import {
+  PRIORITY_OPTIONS,
+  DEFAULT_TASK_PRIORITY,
+  ChecklistItem,
+  RecurrenceRule,
+  Task,
+  TaskFormErrors
+} from '@/core/domain/entities/Task';
+import { ITag, MAX_TAGS_PER_TASK } from '@/core/domain/entities/Tag';
+import { Member } from '@/core/domain/entities/Member';
+import { TagInput } from '../TagInput';
+import { TaskChecklist } from '../TaskChecklist';
+import { TaskDependencyPicker } from '../TaskDependencyPicker';
+import { TaskRecurrenceEditor } from '../TaskRecurrenceEditor';
+
+export interface TaskFormValues {
+  title: string;
+  description: string;
+  pic: string;
+  startDate: string;
+  endDate: string;
+  priority: string;
+  tags: string[];
+  checklist: ChecklistItem[];
+  blockedBy: string[];
+  recurrence: RecurrenceRule | null;
+}
+
+export const emptyTaskFormValues: TaskFormValues = {
+  title: '',
+  description: '',
+  pic: '',
+  startDate: '',
+  endDate: '',
+  priority: DEFAULT_TASK_PRIORITY,
+  tags: [],
+  checklist: [],
+  blockedBy: [],
+  recurrence: null
+};
+
+// Custom Select Component to replace missing SelectInput
+interface SelectInputProps {
+  options: { value: string; label: string }[];
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+  id?: string;
+  name?: string;
+  className?: string;
+  disabled?: boolean;
+  required?: boolean;
+}
+
+const SelectInput: React.FC<SelectInputProps> = ({
+  options,
+  value,
+  onChange,
+  id,
+  name,
+  className,
+  disabled,
+  required
+}) => (
+  <select
+    id={id}
+    name={name}
+    value={value}
+    onChange={onChange}
+    className={className}
+    disabled={disabled}
+    required={required}
+  >
+    {options.map((option) => (
+      <option key={option.value} value={option.value}>
+        {option.label}
+      </option>
+    ))}
+  </select>
+);
+
+/**
+ * PIC select options from the member directory. A value that is not a member
+ * (a role saved before the directory existed) stays selectable so editing the
+ * task does not silently drop it.
+ */
+const buildPicOptions = (members: Member[], currentValue: string): { value: string; label: string }[] => {
+  const options = [
+    { value: '', label: members.length > 0 ? 'Select Person in Charge' : 'No members yet' },
+    ...members.map(member => ({ value: member.id, label: `${member.name} (${member.role})` }))
+  ];
+
+  if (currentValue && !members.some(member => member.id === currentValue)) {
+    options.push({ value: currentValue, label: `${currentValue} (not a member)` });
+  }
+
+  return options;
+};
+
+interface TaskFormFieldsProps {
+  values: TaskFormValues;
+  errors?: TaskFormErrors;
+  onChange: <K extends keyof TaskFormValues>(field: K, value: TaskFormValues[K]) => void;
+  /** Registered tags offered by the tag autocomplete */
+  tagSuggestions?: ITag[];
+  /** Members offered as Person in Charge */
+  memberOptions?: Member[];
+  /** Tasks that can be picked as blockers */
+  dependencyOptions?: Task[];
+  /** ID of the task being edited, so it is not offered as its own blocker */
+  taskId?: string;
+  disabled?: boolean;
+  /** Earliest selectable start date (YYYY-MM-DD); omit to allow past dates */
+  minStartDate?: string;
+  idPrefix?: string;
+}
+
+export const TaskFormFields: React.FC<TaskFormFieldsProps> = ({
+  values,
+  errors = {},
+  onChange,
+  tagSuggestions = [],
+  memberOptions = [],
+  dependencyOptions = [],
+  taskId,
+  disabled = false,
+  minStartDate,
+  idPrefix = 'task'
+}) => {
+  const handleStartDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newStartDate = e.target.value;
+    onChange('startDate', newStartDate);
+
+    // Auto-adjust end date if it's before new start date
+    if (values.endDate && newStartDate > values.endDate) {
+      onChange('endDate', newStartDate);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Input
+        id={`${idPrefix}-title`}
+        label="Title"
+        value={values.title}
+        onChange={(e) => onChange('title', e.target.value)}
+        placeholder="Enter task title"
+        required
+        disabled={disabled}
+        error={errors.title}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <label htmlFor={`${idPrefix}-pic`} className="block text-sm font-medium text-gray-700">
+            Person in Charge <span className="text-red-500">*</span>
+          </label>
+          <SelectInput
+            options={buildPicOptions(memberOptions, values.pic)}
+            value={values.pic}
+            onChange={(e) => onChange('pic', e.target.value)}
+            id={`${idPrefix}-pic`}
+            name="pic"
+            className={`w-full p-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors ${
+              errors.pic
+                ? 'border-red-500'
+                : 'border-gray-300 hover:border-gray-400'
+            } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            disabled={disabled}
+            required
+          />
+          {errors.pic && (
+            <p className="text-sm text-red-600">{errors.pic}</p>
+          )}
+          {memberOptions.length === 0 && (
+            <p className="text-xs text-gray-500">
+              Add people on the <Link href="/members" className="text-blue-600 hover:underline">Members</Link> page first.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <label htmlFor={`${idPrefix}-priority`} className="block text-sm font-medium text-gray-700">
+            Priority
+          </label>
+          <SelectInput
+            options={PRIORITY_OPTIONS}
+            value={values.priority}
+            onChange={(e) => onChange('priority', e.target.value)}
+            id={`${idPrefix}-priority`}
+            name="priority"
+            className={`w-full p-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors ${
+              errors.priority
+                ? 'border-red-500'
+                : 'border-gray-300 hover:border-gray-400'
+            } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            disabled={disabled}
+          />
+          {errors.priority && (
+            <p className="text-sm text-red-600">{errors.priority}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          id={`${idPrefix}-start-date`}
+          type="date"
+          label="Start Date"
+          value={values.startDate}
+          onChange={handleStartDateChange}
+          placeholder="Select start date"
+          disabled={disabled}
+          required
+          min={minStartDate}
+          error={errors.startDate}
+        />
+
+        <Input
+          id={`${idPrefix}-end-date`}
+          type="date"
+          label="End Date"
+          value={values.endDate}
+          onChange={(e) => onChange('endDate', e.target.value)}
+          placeholder="Select end date"
+          disabled={disabled}
+          required
+          min={values.startDate || minStartDate}
+          error={errors.endDate}
+        />
+      </div>
+
+      <TaskRecurrenceEditor
+        id={`${idPrefix}-recurrence`}
+        value={values.recurrence}
+        onChange={(recurrence) => onChange('recurrence', recurrence)}
+        startDate={values.startDate}
+        disabled={disabled}
+        error={errors.recurrence}
+      />
+
+      <TagInput
+        id={`${idPrefix}-tags`}
+        label="Tags (Optional)"
+        value={values.tags}
+        onChange={(tags) => onChange('tags', tags)}
+        suggestions={tagSuggestions}
+        placeholder="Type a tag and press Enter"
+        disabled={disabled}
+        error={errors.tags}
+        maxTags={MAX_TAGS_PER_TASK}
+      />
+
+      <TaskDependencyPicker
+        id={`${idPrefix}-blocked-by`}
+        label="Blocked By (Optional)"
+        value={values.blockedBy}
+        onChange={(blockedBy) => onChange('blockedBy', blockedBy)}
+        tasks={dependencyOptions}
+        taskId={taskId}
+        startDate={values.startDate}
+        disabled={disabled}
+        error={errors.blockedBy}
+      />
+
+      <TextArea
+        id={`${idPrefix}-description`}
+        label="Description (Optional)"
+        value={values.description}
+        onChange={(e) => onChange('description', e.target.value)}
+        placeholder="Enter task description..."
+        rows={3}
+        disabled={disabled}
+        error={errors.description}
+      />
+
+      <div className="space-y-1">
+        <span className="block text-sm font-medium text-gray-700">Checklist (Optional)</span>
+        <TaskChecklist
+          items={values.checklist}
+          onChange={(checklist) => onChange('checklist', checklist)}
+          disabled={disabled}
+          idPrefix={`${idPrefix}-checklist`}
+        />
+        {errors.checklist && (
+          <p className="text-sm text-red-600">{errors.checklist}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export { TaskFormFields, emptyTaskFormValues } from './TaskFormFields';
+export type { TaskFormValues } from './TaskFormFields';
@@ -0,0 +1,239 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  ParsedTaskCsv,
+  TaskImportField,
+  TaskImportMapping,
+  TaskImportResult,
+  TASK_IMPORT_FIELD_OPTIONS
+} from '@/core/application/dto/TaskImportDTO';
+import { dateUtils } from '@/core/domain/entities/taskUtils';
+import { CsvTaskImporter } from '@/infrastructure/csv/CsvTaskImporter';
+import { Alert } from '@/presentation/components/common/Alert';
+import { Button } from '@/presentation/components/common/Button';
+import { Modal } from '@/presentation/components/common/Modal';
+import { useTasks } from '@/presentation/hooks/useTasks';
+import { useAllTasks } from '@/presentation/hooks/useAllTasks';
+import { useMembers } from '@/presentation/hooks/useMembers';
+import { CheckCircleIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+
+interface TaskImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const selectClassName = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Imports tasks from a CSV file: pick the file, check which column feeds which
+ * field, review every row's validation errors, then create the valid rows
+ */
+export const TaskImportDialog: React.FC<TaskImportDialogProps> = ({ open, onClose }) => {
+  const { importTasks } = useTasks();
+  const { tasks } = useAllTasks(open);
+  const { members } = useMembers();
+  const importer = useMemo(() => new CsvTaskImporter(), []);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<ParsedTaskCsv | null>(null);
+  const [mapping, setMapping] = useState<TaskImportMapping>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<TaskImportResult | null>(null);
+
+  const previewRows = useMemo(
+    () => csv ? importer.buildPreview(csv, mapping, members, tasks) : [],
+    [importer, csv, mapping, members, tasks]
+  );
+  const validRows = previewRows.filter(row => row.data);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setMessage(null);
+    setResult(null);
+    try {
+      const parsed = importer.parse(await file.text());
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setCsv(null);
+        setMessage('The file has no rows to import. The first line must be a header row.');
+        return;
+      }
+      setFileName(file.name);
+      setCsv(parsed);
+      setMapping(importer.guessMapping(parsed.headers));
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      setMessage('Failed to read the file');
+    }
+  };
+
+  const setColumnField = (index: number, field: TaskImportField | null) => {
+    // A field can only come from one column
+    setMapping(prev => prev.map((current, i) => {
+      if (i === index) return field;
+      return field && current === field ? null : current;
+    }));
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setMessage(null);
+    try {
+      setResult(await importTasks(validRows));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to import tasks');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title="Import Tasks from CSV"
+      size="large"
+      onClose={onClose}
+      footer={result ? (
+        <Button variant="primary" size="small" onClick={onClose}>
+          Done
+        </Button>
+      ) : (
+        <>
+          <Button variant="secondary" size="small" onClick={onClose} disabled={importing}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            size="small"
+            onClick={handleImport}
+            loading={importing}
+            disabled={importing || validRows.length === 0}
+          >
+            {importing ? 'Importing...' : `Import ${validRows.length} Task${validRows.length === 1 ? '' : 's'}`}
+          </Button>
+        </>
+      )}
+    >
+      <div className="space-y-5">
+        {result ? (
+          <>
+            <Alert variant={result.failed.length > 0 ? 'warning' : 'success'}>
+              Imported {result.created.length} task{result.created.length === 1 ? '' : 's'}
+              {result.failed.length > 0 && `; ${result.failed.length} row${result.failed.length === 1 ? '' : 's'} failed`}.
+            </Alert>
+            {result.failed.length > 0 && (
+              <ul className="space-y-1 text-sm text-red-600">
+                {result.failed.map(failure => (
+                  <li key={failure.rowNumber}>Row {failure.rowNumber}: {failure.error}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        ) : (
+          <>
+            <div>
+              <label htmlFor="task-import-file" className="block text-sm font-medium text-gray-700 mb-1">
+                CSV file
+              </label>
+              <input
+                id="task-import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                className="block w-full text-sm text-gray-700 file:mr-3 file:rounded-md file:border-0 file:bg-blue-50 file:px-3 file:py-2 file:text-sm file:font-medium file:text-blue-700 hover:file:bg-blue-100"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                Use a file exported from this app or any CSV with a header row. Each task needs a title, a
+                Person in Charge (member name, email or ID), a start date from today on and a due date.
+              </p>
+            </div>
+
+            {message && (
+              <Alert variant="error" onClose={() => setMessage(null)}>
+                {message}
+              </Alert>
+            )}
+
+            {csv && (
+              <>
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-gray-700">Columns in {fileName}</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+                    {csv.headers.map((header, index) => (
+                      <div key={index} className="flex items-center gap-3">
+                        <span className="w-1/2 truncate text-sm text-gray-600" title={header}>
+                          {header || `Column ${index + 1}`}
+                        </span>
+                        <select
+                          aria-label={`Field for column ${header || index + 1}`}
+                          value={mapping[index] || ''}
+                          onChange={(e) => setColumnField(index, (e.target.value || null) as TaskImportField | null)}
+                          className={selectClassName}
+                        >
+                          <option value="">Don&apos;t import</option>
+                          {TASK_IMPORT_FIELD_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-gray-700">
+                    Preview: {validRows.length} of {previewRows.length} rows ready to import
+                  </h3>
+                  <div className="max-h-80 overflow-y-auto rounded-md border border-gray-200">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50 text-left text-xs font-medium uppercase text-gray-500">
+                        <tr>
+                          <th className="px-3 py-2">Row</th>
+                          <th className="px-3 py-2">Title</th>
+                          <th className="px-3 py-2">Dates</th>
+                          <th className="px-3 py-2">Result</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {previewRows.map(row => (
+                          <tr key={row.rowNumber} className={row.data ? '' : 'bg-red-50'}>
+                            <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                            <td className="px-3 py-2 text-gray-900">{row.title || <span className="text-gray-400">No title</span>}</td>
+                            <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                              {row.data
+                                ? `${dateUtils.formatDate(row.data.startDate)} – ${dateUtils.formatDate(row.data.endDate)}`
+                                : '—'}
+                            </td>
+                            <td className="px-3 py-2">
+                              {row.data ? (
+                                <span className="flex items-center gap-1 text-green-700">
+                                  <CheckCircleIcon className="w-4 h-4" />
+                                  Ready
+                                </span>
+                              ) : (
+                                <ul className="space-y-0.5 text-red-700">
+                                  {row.errors.map(error => (
+                                    <li key={error} className="flex items-start gap-1">
+                                      <ExclamationCircleIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                                      {error}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
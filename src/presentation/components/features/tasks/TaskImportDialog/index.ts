@@ -0,0 +1 @@
+export { TaskImportDialog } from './TaskImportDialog';
@@ -1,18 +1,48 @@
 import React, { useState } from 'react';
 import { Task } from '@/core/domain/entities/Task';
+import {
+  taskStatusUtils,
+  taskChecklistUtils,
+  taskDependencyUtils,
+  taskRecurrenceUtils,
+  taskWorkflowUtils
+} from '@/core/domain/entities/taskUtils';
+import { getTagColor } from '@/core/domain/entities/Tag';
+import { getMemberRoleBadgeVariant, resolvePic } from '@/core/domain/entities/Member';
 import { Button } from '@/presentation/components/common/Button';
 import { Badge } from '@/presentation/components/common/Badge';
+import { Checkbox } from '@/presentation/components/common/Checkbox';
+import { Modal } from '@/presentation/components/common/Modal';
 import { useTasks } from '@/presentation/hooks/useTasks';
+import { useMembers } from '@/presentation/hooks/useMembers';
 import { formatDistance } from '@/presentation/utils/formatters';
+import { TaskEditForm } from '../TaskEditForm';
+import { TaskDetail } from '../TaskDetail';
+import { TagChip } from '../TagChip';
+import { ChecklistProgressBar, TaskChecklistPanel } from '../TaskChecklist';
+import { ScheduleConflictWarning } from '../TaskDependencyPicker';
+import { TaskStatusSelect } from '../TaskStatusSelect';
+import { MemberAvatar } from '../../members/MemberAvatar';
 import { 
   UserIcon, 
   CalendarIcon, 
   ClockIcon,
-  TrashIcon 
+  PencilSquareIcon,
+  TrashIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  LockClosedIcon,
+  ArrowPathIcon
 } from '@heroicons/react/24/outline';
 
 interface TaskItemProps {
   task: Task;
+  /** Tasks the task's blockers and dependents are looked up in */
+  relatedTasks: Task[];
+  /** Whether the task is part of the current multi-selection */
+  selected?: boolean;
+  /** Enables the selection checkbox when provided */
+  onSelectChange?: (taskId: string, selected: boolean) => void;
 }
 
 // Define badge variant types that match the Badge component
@@ -21,10 +51,24 @@ type SupportedBadgeVariant = 'default' | 'primary' | 'success' | 'warning' | 'da
 // Internal variant type for deadline status logic
 type DeadlineVariant = 'success' | 'warning' | 'danger' | 'info' | 'secondary' | 'primary';
 
-export const TaskItem: React.FC<TaskItemProps> = ({ task }) => {
-  const { toggleTask, deleteTask } = useTasks();
+export const TaskItem: React.FC<TaskItemProps> = ({ task, relatedTasks: tasks, selected = false, onSelectChange }) => {
+  const { toggleTask, deleteTask, tags } = useTasks();
+  const { members } = useMembers();
+  const pic = resolvePic(task.pic, members);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isToggling, setIsToggling] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showDetail, setShowDetail] = useState(false);
+  const [showChecklist, setShowChecklist] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const checklistProgress = taskChecklistUtils.getProgress(task);
+  const blockers = taskDependencyUtils.getBlockers(task, tasks);
+  const openBlockers = blockers.filter(blocker => !taskWorkflowUtils.isClosed(blocker));
+  const dependents = taskDependencyUtils.getDependents(task, tasks);
+  const isClosed = taskWorkflowUtils.isClosed(task);
+  const scheduleConflicts = isClosed
+    ? []
+    : taskDependencyUtils.getScheduleConflicts(task.startDate, task.blockedBy, tasks);
 
   const handleToggle = async () => {
     setIsToggling(true);
@@ -37,14 +81,17 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task }) => {
     }
   };
 
-  const handleDelete = async () => {
-    if (!window.confirm('Are you sure you want to delete this task?')) {
+  // Tasks other tasks depend on are only deleted after confirming the links should go too
+  const handleDelete = async (removeDependencies = false) => {
+    if (dependents.length > 0 && !removeDependencies) {
+      setConfirmingDelete(true);
       return;
     }
 
+    setConfirmingDelete(false);
     setIsDeleting(true);
     try {
-      await deleteTask(task.id);
+      await deleteTask(task.id, { removeDependencies });
     } catch (error) {
       console.error('Error deleting task:', error);
     } finally {
@@ -93,89 +140,49 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task }) => {
     }
   };
 
-  // Enhanced deadline status calculation with proper typing
-  const getDeadlineStatus = (): { type: DeadlineVariant; text: string } | null => {
-    if (!task.endDate) return null;
-    
-    try {
-      const today = new Date();
-      const endDate = new Date(task.endDate);
-      
-      // Check if end date is valid
-      if (isNaN(endDate.getTime())) {
-        return { type: 'warning', text: 'Invalid date' };
-      }
-      
-      // Set time to midnight for accurate day comparison
-      today.setHours(0, 0, 0, 0);
-      endDate.setHours(0, 0, 0, 0);
-      
-      const diffTime = endDate.getTime() - today.getTime();
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-      
-      if (task.completed) {
-        return { type: 'success', text: 'Completed' };
-      } else if (diffDays < 0) {
-        const overdueDays = Math.abs(diffDays);
-        return { 
-          type: 'danger', 
-          text: overdueDays === 1 ? 
-            'Overdue by 1 day' : `Overdue by ${overdueDays} days` 
-        };
-      } else if (diffDays === 0) {
-        return { type: 'warning', text: 'Due today' };
-      } else if (diffDays === 1) {
-        return { type: 'warning', text: 'Due tomorrow' };
-      } else if (diffDays <= 3) {
-        return { type: 'warning', text: `Due in ${diffDays} days` };
-      } else if (diffDays <= 7) {
-        return { type: 'info', text: `${diffDays} days remaining` };
-      } else {
-        return { type: 'secondary', text: `${diffDays} days remaining` };
-      }
-    } catch (error) {
-      console.error('Error calculating deadline status:', error);
-      return { type: 'warning', text: 'Date error' };
-    }
-  };
-
-  const deadlineStatus = getDeadlineStatus();
-
-  // Enhanced PIC badge color mapping with proper typing
-  const getPicBadgeVariant = (pic: string | null | undefined): SupportedBadgeVariant => {
-    if (!pic) return 'default';
-    
-    const normalizedPic = pic.toLowerCase().trim();
-    switch (normalizedPic) {
-      case 'head':
-        return 'danger';
-      case 'manager':
-        return 'warning';
-      case 'supervisor':
-        return 'primary'; // Map supervisor to primary instead of info
-      case 'staff':
-        return 'primary';
-      case 'intern':
-        return 'default'; // Map intern to default instead of secondary
-      default:
-        return 'default';
-    }
-  };
+  const deadlineInfo = taskStatusUtils.getDeadlineInfo(task, tasks);
+  const isBlocked = deadlineInfo?.isBlocked ?? taskDependencyUtils.isBlocked(task, tasks);
+  // Tasks without a due date still show when they are blocked
+  const deadlineStatus: { type: DeadlineVariant; text: string } | null =
+    deadlineInfo?.status ?? (isBlocked ? taskStatusUtils.getBlockedStatus() : null);
 
   // Check if task is overdue and not completed
-  const isOverdue = deadlineStatus?.type === 'danger' && !task.completed;
+  const isOverdue = !!deadlineInfo?.isOverdue && !task.completed;
+
+  if (isEditing) {
+    return (
+      <div className="p-4 bg-gray-50">
+        <TaskEditForm
+          task={task}
+          onCancel={() => setIsEditing(false)}
+          onSaved={() => setIsEditing(false)}
+        />
+      </div>
+    );
+  }
 
   return (
     <div className={`p-4 transition-all duration-200 hover:bg-gray-50 ${
-      task.completed ? 'opacity-75' : ''
-    } ${isOverdue ? 'border-l-4 border-red-500 bg-red-50' : ''}`}>
+      isClosed ? 'opacity-75' : ''
+    } ${isOverdue ? 'border-l-4 border-red-500 bg-red-50' : ''} ${selected ? 'bg-blue-50' : ''}`}>
       <div className="flex items-start gap-4">
+        {onSelectChange && (
+          <div className="flex-shrink-0 pt-1 pr-3 border-r border-gray-200">
+            <Checkbox
+              checked={selected}
+              onChange={(e) => onSelectChange(task.id, e.target.checked)}
+              aria-label={`Select "${task.title || 'Untitled Task'}"`}
+            />
+          </div>
+        )}
+
         <div className="flex-shrink-0 pt-1">
           <input
             type="checkbox"
             checked={task.completed || false}
             onChange={handleToggle}
-            disabled={isToggling}
+            disabled={isToggling || task.status === 'cancelled'}
+            aria-label={task.completed ? 'Reopen task' : 'Mark task as done'}
             className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 focus:ring-2 transition-colors"
           />
         </div>
@@ -184,39 +191,114 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task }) => {
           <div className="flex items-start justify-between gap-4">
             <div className="flex-1">
               <h3 className={`text-lg font-medium transition-all duration-200 ${
-                task.completed ? 'line-through text-gray-500' : 'text-gray-900'
+                isClosed ? 'line-through text-gray-500' : 'text-gray-900'
               }`}>
-                {task.title || 'Untitled Task'}
+                <button
+                  type="button"
+                  onClick={() => setShowDetail(true)}
+                  className="text-left hover:text-blue-600 focus:outline-none focus:underline"
+                >
+                  {task.title || 'Untitled Task'}
+                </button>
               </h3>
               
               {task.description && (
                 <p className={`mt-1 text-sm transition-all duration-200 ${
-                  task.completed ? 'text-gray-400' : 'text-gray-600'
+                  isClosed ? 'text-gray-400' : 'text-gray-600'
                 }`}>
                   {task.description}
                 </p>
               )}
+
+              {task.tags.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {task.tags.map(tag => (
+                    <TagChip key={tag} name={tag} color={getTagColor(tag, tags)} />
+                  ))}
+                </div>
+              )}
             </div>
             
-            {/* Deadline Status Badge */}
-            {deadlineStatus && (
-              <div className="flex-shrink-0">
+            {/* Workflow Status and Deadline Badge */}
+            <div className="flex-shrink-0 flex flex-col items-end gap-1">
+              <TaskStatusSelect task={task} />
+              {deadlineStatus && !isClosed && (
                 <Badge variant={mapToBadgeVariant(deadlineStatus.type)}>
                   {deadlineStatus.text}
                 </Badge>
-              </div>
-            )}
+              )}
+            </div>
           </div>
           
+          {/* Dependencies */}
+          {(blockers.length > 0 || dependents.length > 0) && (
+            <div className="mt-2 space-y-1 text-xs text-gray-600">
+              {blockers.length > 0 && (
+                <p className="flex items-center gap-1">
+                  <LockClosedIcon className={`w-3 h-3 flex-shrink-0 ${isBlocked ? 'text-amber-600' : 'text-gray-400'}`} />
+                  <span>
+                    Blocked by{' '}
+                    {blockers.map((blocker, index) => (
+                      <React.Fragment key={blocker.id}>
+                        {index > 0 && ', '}
+                        <span className={taskWorkflowUtils.isClosed(blocker) ? 'line-through text-gray-400' : 'font-medium text-gray-700'}>
+                          {blocker.title}
+                        </span>
+                      </React.Fragment>
+                    ))}
+                    {isBlocked && ` (${openBlockers.length} open)`}
+                  </span>
+                </p>
+              )}
+              {dependents.length > 0 && (
+                <p>
+                  Blocks {dependents.map(dependent => dependent.title).join(', ')}
+                </p>
+              )}
+              <ScheduleConflictWarning conflicts={scheduleConflicts} />
+            </div>
+          )}
+
+          {/* Checklist Progress */}
+          {checklistProgress.total > 0 && (
+            <div className="mt-3">
+              <div className="flex items-center gap-3">
+                <ChecklistProgressBar
+                  completed={checklistProgress.completed}
+                  total={checklistProgress.total}
+                  className="flex-1 max-w-xs"
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowChecklist(prev => !prev)}
+                  className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 focus:outline-none focus:underline"
+                  aria-expanded={showChecklist}
+                >
+                  {showChecklist ? 'Hide checklist' : 'Show checklist'}
+                  {showChecklist ? <ChevronUpIcon className="w-3 h-3" /> : <ChevronDownIcon className="w-3 h-3" />}
+                </button>
+              </div>
+              {showChecklist && (
+                <div className="mt-2 pl-1">
+                  <TaskChecklistPanel task={task} />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Task Details Grid */}
           <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 text-sm">
             {/* Person in Charge */}
-            {task.pic && (
+            {pic && (
               <div className="flex items-center gap-2">
-                <UserIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                {pic.member ? (
+                  <MemberAvatar name={pic.member.name} color={pic.member.color} size="small" />
+                ) : (
+                  <UserIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                )}
                 <span className="text-gray-600 text-xs">PIC:</span>
-                <Badge variant={getPicBadgeVariant(task.pic)} size="small">
-                  {task.pic}
+                <Badge variant={getMemberRoleBadgeVariant(pic.role)} size="small">
+                  {pic.label}
                 </Badge>
               </div>
             )}
@@ -248,13 +330,20 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task }) => {
           
           {/* Meta Information */}
           <div className="mt-3 flex items-center gap-4 text-xs text-gray-500">
-            <Badge 
-              variant={task.completed ? 'success' : 'warning'} 
+            <Badge
+              variant={taskStatusUtils.getPriorityBadgeVariant(task.priority)}
               size="small"
             >
-              {task.completed ? 'Completed' : 'In Progress'}
+              {taskStatusUtils.getPriorityLabel(task.priority)} priority
             </Badge>
             
+            {task.recurrence && (
+              <span className="flex items-center gap-1 text-blue-700" title="Completing this task creates the next occurrence">
+                <ArrowPathIcon className="w-3 h-3" aria-hidden="true" />
+                {taskRecurrenceUtils.describe(task.recurrence)}
+              </span>
+            )}
+            
             {task.createdAt && (
               <span>
                 Created {formatDistance(new Date(task.createdAt))}
@@ -265,16 +354,61 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task }) => {
 
         {/* Actions */}
         <div className="flex-shrink-0 flex gap-2">
+          <Button
+            variant="secondary"
+            size="small"
+            onClick={() => setIsEditing(true)}
+            disabled={isDeleting || isToggling}
+            aria-label="Edit task"
+          >
+            <PencilSquareIcon className="w-4 h-4" />
+          </Button>
           <Button
             variant="danger"
             size="small"
-            onClick={handleDelete}
+            onClick={() => handleDelete()}
             disabled={isDeleting || isToggling}
+            aria-label="Delete task"
           >
             <TrashIcon className="w-4 h-4" />
           </Button>
         </div>
       </div>
+
+      <TaskDetail
+        task={task}
+        open={showDetail}
+        onClose={() => setShowDetail(false)}
+      />
+
+      <Modal
+        open={confirmingDelete}
+        title="Delete linked task?"
+        onClose={() => setConfirmingDelete(false)}
+        size="small"
+        footer={
+          <>
+            <Button variant="secondary" size="small" onClick={() => setConfirmingDelete(false)}>
+              Cancel
+            </Button>
+            <Button variant="danger" size="small" onClick={() => handleDelete(true)}>
+              Delete and unlink
+            </Button>
+          </>
+        }
+      >
+        <p className="text-sm text-gray-700">
+          &quot;{task.title}&quot; blocks {dependents.length === 1 ? 'another task' : `${dependents.length} other tasks`}:
+        </p>
+        <ul className="mt-2 list-disc pl-5 text-sm text-gray-700">
+          {dependents.map(dependent => (
+            <li key={dependent.id}>{dependent.title}</li>
+          ))}
+        </ul>
+        <p className="mt-2 text-sm text-gray-500">
+          Deleting it removes these dependency links as well.
+        </p>
+      </Modal>
     </div>
   );
 };
\ No newline at end of file
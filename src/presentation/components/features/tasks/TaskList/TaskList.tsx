@@ -1,31 +1,73 @@
 'use client';
 
 import React, { useMemo, useState } from 'react';
-import { Task } from '@/core/domain/entities/Task';
+import {
+  Task,
+  TaskFilters,
+  TaskSortBy,
+  TaskSortOptions,
+  SortOrder,
+  BulkTaskOperationType
+} from '@/core/domain/entities/Task';
+import { taskFilterUtils, taskSortUtils, taskWorkflowUtils } from '@/core/domain/entities/taskUtils';
 import { TaskItem } from '../TaskItem';
+import { BulkActionBar } from '../BulkActionBar';
+import { ReportOptionsDialog } from '../ReportOptionsDialog';
+import { ReportPreview } from '../ReportPreview';
+import { TaskImportDialog } from '../TaskImportDialog';
+import { ReportOptions, DEFAULT_REPORT_OPTIONS } from '@/core/application/dto/ReportOptionsDTO';
+import { PdfReport } from '@/infrastructure/pdf/PdfGenerator';
+import { TextReport } from '@/infrastructure/report/TextReportGenerator';
 import { Button } from '@/presentation/components/common/Button';
 import { EmptyState } from '@/presentation/components/common/EmptyState';
 import { ErrorState } from '@/presentation/components/common/ErrorState';
 import { LoadingState } from '@/presentation/components/common/LoadingState';
+import { Checkbox } from '@/presentation/components/common/Checkbox';
 import { useTasks } from '@/presentation/hooks/useTasks';
+import { useAllTasks } from '@/presentation/hooks/useAllTasks';
+import { useMembers } from '@/presentation/hooks/useMembers';
+import { useTaskPages } from '@/presentation/hooks/useTaskPages';
+import { downloadBlob } from '@/presentation/utils/download';
+import { ArrowUpTrayIcon, CalendarDaysIcon, TableCellsIcon } from '@heroicons/react/24/outline';
 
 interface TaskListProps {
   searchResults?: Task[] | null;
+  filters?: TaskFilters;
   filterCompleted?: boolean;
-  sortBy?: 'created_at' | 'title' | 'status' | 'due_date' | 'pic';
-  sortOrder?: 'asc' | 'desc';
+  sortBy?: TaskSortBy;
+  sortOrder?: SortOrder;
+  /** Enables "load more" mode, querying the repository this many tasks at a time */
+  pageSize?: number;
   onClearSearch?: () => void;
 }
 
+const NO_FILTERS: TaskFilters = {};
+
 export const TaskList: React.FC<TaskListProps> = ({
   searchResults,
+  filters = NO_FILTERS,
   filterCompleted,
   sortBy = 'created_at',
   sortOrder = 'desc',
+  pageSize,
   onClearSearch,
 }) => {
-  const { tasks, loading, error, generateReport, refetch } = useTasks();
+  const { generateReport, generateTextReport, exportCsv, exportIcs, bulkOperation } = useTasks();
+  const { members } = useMembers();
+
+  // Search results are always shown in full, so paging only applies to the task list.
+  // Paged, the list never needs the full task list.
+  const isPaginated = !searchResults && pageSize !== undefined && pageSize > 0;
+  const { tasks, loading, error, refetch } = useAllTasks(!isPaginated);
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const [showReportOptions, setShowReportOptions] = useState(false);
+  const [lastReportOptions, setLastReportOptions] = useState<ReportOptions | null>(null);
+  const [previewReport, setPreviewReport] = useState<PdfReport | TextReport | null>(null);
+  const [isExportingCsv, setIsExportingCsv] = useState(false);
+  const [isExportingIcs, setIsExportingIcs] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
 
   // Memoize safeTasks to prevent unnecessary re-renders
   const safeTasks = useMemo(() => {
@@ -40,7 +82,8 @@ export const TaskList: React.FC<TaskListProps> = ({
   const calculatedPagination = useMemo(() => {
     const total = safeTasks.length;
     const completed = safeTasks.filter(task => task?.completed === true).length;
-    const pending = total - completed;
+    // Cancelled tasks are neither completed nor pending
+    const pending = safeTasks.filter(task => task && !taskWorkflowUtils.isClosed(task)).length;
     
     return { total, completed, pending };
   }, [safeTasks]);
@@ -51,83 +94,125 @@ export const TaskList: React.FC<TaskListProps> = ({
     
     const total = searchResults.length;
     const completed = searchResults.filter(task => task?.completed === true).length;
-    const pending = total - completed;
+    // Cancelled tasks are neither completed nor pending
+    const pending = searchResults.filter(task => task && !taskWorkflowUtils.isClosed(task)).length;
     
     return { total, completed, pending };
   }, [searchResults]);
 
-  // Enhanced sorting function with better null/undefined handling
+  // Combine the explicit completion filter with the toolbar filters
+  const activeFilters = useMemo<TaskFilters>(() => {
+    return filterCompleted !== undefined
+      ? { ...filters, completed: filterCompleted }
+      : filters;
+  }, [filters, filterCompleted]);
+
+  const isFiltered = taskFilterUtils.hasActiveFilters(activeFilters);
+
+  const sortOptions = useMemo<TaskSortOptions>(() => ({ sortBy, sortOrder }), [sortBy, sortOrder]);
+
+  const taskPages = useTaskPages(activeFilters, sortOptions, pageSize ?? 0, isPaginated);
+
+  // Filter and sort through the shared task utilities
   const processedTasks = useMemo(() => {
+    if (isPaginated) {
+      return taskPages.tasks;
+    }
+
     if (!displayTasks || displayTasks.length === 0) {
       return [];
     }
 
-    let result = [...displayTasks];
+    const filteredTasks = taskFilterUtils.filterTasks(displayTasks, activeFilters);
+    return taskSortUtils.sortTasks(filteredTasks, sortOptions.sortBy, sortOptions.sortOrder);
+  }, [isPaginated, taskPages.tasks, displayTasks, activeFilters, sortOptions]);
 
-    // Apply completion filter
-    if (filterCompleted !== undefined) {
-      result = result.filter(task => task?.completed === filterCompleted);
-    }
+  // Number of tasks matching the current filters (across all pages)
+  const matchingCount = isPaginated ? taskPages.total : processedTasks.length;
 
-    // Enhanced sorting with null/undefined handling
-    result.sort((a, b) => {
-      let comparison = 0;
+  // Only tasks that are still visible count as selected
+  const visibleSelectedIds = useMemo(() => {
+    const visibleIds = new Set(processedTasks.map(task => task.id));
+    return Array.from(selectedIds).filter(id => visibleIds.has(id));
+  }, [processedTasks, selectedIds]);
 
-      switch (sortBy) {
-        case 'title':
-          const titleA = a?.title || '';
-          const titleB = b?.title || '';
-          comparison = titleA.localeCompare(titleB);
-          break;
-          
-        case 'status':
-          const statusA = a?.completed ? 1 : 0;
-          const statusB = b?.completed ? 1 : 0;
-          comparison = statusA - statusB;
-          break;
-          
-        case 'due_date':
-          const dueDateA = a?.endDate ? new Date(a.endDate).getTime() : 0;
-          const dueDateB = b?.endDate ? new Date(b.endDate).getTime() : 0;
-          comparison = dueDateA - dueDateB;
-          break;
-          
-        case 'pic':
-          const picA = a?.pic || '';
-          const picB = b?.pic || '';
-          comparison = picA.localeCompare(picB);
-          break;
-          
-        case 'created_at':
-        default:
-          const createdA = a?.createdAt ? new Date(a.createdAt).getTime() : 0;
-          const createdB = b?.createdAt ? new Date(b.createdAt).getTime() : 0;
-          comparison = createdA - createdB;
-      }
+  const allVisibleSelected = processedTasks.length > 0 && visibleSelectedIds.length === processedTasks.length;
 
-      return sortOrder === 'asc' ? comparison : -comparison;
+  const handleSelectChange = (taskId: string, selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (selected) {
+        next.add(taskId);
+      } else {
+        next.delete(taskId);
+      }
+      return next;
     });
+  };
+
+  const handleSelectAll = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSelectedIds(e.target.checked ? new Set(processedTasks.map(task => task.id)) : new Set());
+  };
 
-    return result;
-  }, [displayTasks, filterCompleted, sortBy, sortOrder]);
+  const clearSelection = () => setSelectedIds(new Set());
 
-  // Enhanced report generation with error handling
-  const handleGenerateReport = async () => {
-    if (!displayTasks || displayTasks.length === 0) {
-      return;
+  const runBulkOperation = async (operation: BulkTaskOperationType, data?: Record<string, unknown>) => {
+    if (visibleSelectedIds.length === 0) return;
+
+    setIsBulkRunning(true);
+    try {
+      const result = await bulkOperation({ taskIds: visibleSelectedIds, operation, data });
+
+      // Keep failed tasks selected so they can be retried
+      setSelectedIds(new Set(result.failed.map(failure => failure.id)));
+    } catch (error) {
+      console.error('Error applying bulk operation:', error);
+    } finally {
+      setIsBulkRunning(false);
     }
+  };
 
+  // Report options start from the current view and are remembered for the next export.
+  // The finished report opens in a preview rather than downloading straight away.
+  const handleGenerateReport = async (options: ReportOptions) => {
     setIsGeneratingReport(true);
     try {
-      await generateReport();
-    } catch (error) {
-      console.error('Error generating report:', error);
-      // You could add a toast notification here
+      const report = options.format === 'pdf'
+        ? await generateReport(options, activeFilters)
+        : await generateTextReport(options, activeFilters);
+      setLastReportOptions(options);
+      setPreviewReport(report);
     } finally {
       setIsGeneratingReport(false);
     }
   };
 
+  // The CSV holds every task matching the current filters, in the current order
+  const handleExportCsv = async () => {
+    setIsExportingCsv(true);
+    try {
+      const file = await exportCsv(activeFilters, sortOptions);
+      downloadBlob(file.blob, file.filename);
+    } catch (error) {
+      console.error('Error exporting CSV:', error);
+    } finally {
+      setIsExportingCsv(false);
+    }
+  };
+
+  // One-off calendar file of the dated tasks matching the current filters
+  const handleExportIcs = async () => {
+    setIsExportingIcs(true);
+    try {
+      const file = await exportIcs(activeFilters);
+      downloadBlob(file.blob, file.filename);
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+    } finally {
+      setIsExportingIcs(false);
+    }
+  };
+
   // Handle clear search with proper callback
   const handleClearSearch = () => {
     if (onClearSearch) {
@@ -141,19 +226,19 @@ export const TaskList: React.FC<TaskListProps> = ({
   // Enhanced retry function
   const handleRetry = async () => {
     try {
-      await refetch();
+      await (isPaginated ? taskPages.reload() : refetch());
     } catch (error) {
       console.error('Error retrying:', error);
     }
   };
 
-  // Loading state
-  if (loading && !searchResults && !safeTasks.length) {
+  // Loading state (the paged list shows its own below the header)
+  if (!isPaginated && loading && !searchResults && !safeTasks.length) {
     return <LoadingState message="Loading tasks..." />;
   }
 
   // Error state
-  if (error && !searchResults && !safeTasks.length) {
+  if (!isPaginated && error && !searchResults && !safeTasks.length) {
     return (
       <ErrorState
         message={error}
@@ -162,20 +247,24 @@ export const TaskList: React.FC<TaskListProps> = ({
     );
   }
 
-  // Use appropriate pagination data based on context
-  const currentPagination = searchResults ? searchPagination : calculatedPagination;
+  // Use appropriate pagination data based on context; the paged list counts in storage
+  const currentPagination = searchResults
+    ? searchPagination
+    : isPaginated ? taskPages.counts : calculatedPagination;
+  const hasTasks = (currentPagination?.total || 0) > 0;
 
   // Get filter and sort status for display
   const getStatusText = () => {
     const baseTasks = searchResults ? 'search results' : 'tasks';
-    const filterText = filterCompleted !== undefined 
-      ? ` (${filterCompleted ? 'completed' : 'pending'} only)`
-      : '';
+    const countText = isFiltered
+      ? `${matchingCount} of ${currentPagination?.total || 0}`
+      : `${currentPagination?.total || 0}`;
+    const filterText = isFiltered ? ' (filtered)' : '';
     const sortText = sortBy !== 'created_at' 
       ? ` • sorted by ${sortBy.replace('_', ' ')}`
       : '';
     
-    return `${currentPagination?.total || 0} ${baseTasks}${filterText}${sortText}`;
+    return `${countText} ${baseTasks}${filterText}${sortText}`;
   };
 
   return (
@@ -204,7 +293,7 @@ export const TaskList: React.FC<TaskListProps> = ({
             </p>
           </div>
           
-          <div className="flex gap-2 flex-shrink-0">
+          <div className="flex flex-wrap gap-2 flex-shrink-0">
             {searchResults && (
               <Button
                 variant="secondary"
@@ -219,29 +308,62 @@ export const TaskList: React.FC<TaskListProps> = ({
             <Button
               variant="secondary"
               size="small"
-              onClick={handleGenerateReport}
-              disabled={displayTasks.length === 0 || isGeneratingReport}
+              onClick={() => setShowReportOptions(true)}
+              disabled={!hasTasks || isGeneratingReport}
               loading={isGeneratingReport}
               className="flex items-center gap-2"
             >
               <DownloadIcon className="w-4 h-4" />
-              {isGeneratingReport ? 'Generating...' : 'Export'}
+              {isGeneratingReport ? 'Generating...' : 'Export Report'}
+            </Button>
+            <Button
+              variant="secondary"
+              size="small"
+              onClick={handleExportCsv}
+              disabled={!hasTasks || isExportingCsv}
+              loading={isExportingCsv}
+              className="flex items-center gap-2"
+            >
+              <TableCellsIcon className="w-4 h-4" />
+              {isExportingCsv ? 'Exporting...' : 'Export CSV'}
+            </Button>
+            <Button
+              variant="secondary"
+              size="small"
+              onClick={handleExportIcs}
+              disabled={!hasTasks || isExportingIcs}
+              loading={isExportingIcs}
+              className="flex items-center gap-2"
+            >
+              <CalendarDaysIcon className="w-4 h-4" />
+              {isExportingIcs ? 'Exporting...' : 'Export iCal'}
+            </Button>
+            <Button
+              variant="secondary"
+              size="small"
+              onClick={() => setShowImport(true)}
+              className="flex items-center gap-2"
+            >
+              <ArrowUpTrayIcon className="w-4 h-4" />
+              Import CSV
             </Button>
           </div>
         </div>
       </div>
 
       <div className="p-0">
-        {processedTasks.length === 0 ? (
+        {isPaginated && taskPages.loading && processedTasks.length === 0 ? (
+          <LoadingState message="Loading tasks..." />
+        ) : processedTasks.length === 0 ? (
           <EmptyState
-            title={searchResults ? "No tasks found" : "No tasks yet"}
+            title={searchResults || isFiltered ? "No tasks found" : "No tasks yet"}
             description={
-              searchResults 
+              searchResults || isFiltered
                 ? "Try adjusting your search query or filters"
                 : "Create your first task to get started"
             }
             icon={
-              searchResults ? (
+              searchResults || isFiltered ? (
                 <SearchIcon className="w-12 h-12 text-gray-400" />
               ) : (
                 <TaskIcon className="w-12 h-12 text-gray-400" />
@@ -250,6 +372,18 @@ export const TaskList: React.FC<TaskListProps> = ({
           />
         ) : (
           <div className="divide-y divide-gray-200">
+            <div className="px-4 py-2 bg-gray-50 flex items-center gap-3 text-sm text-gray-600">
+              <Checkbox
+                id="select-all-tasks"
+                checked={allVisibleSelected}
+                onChange={handleSelectAll}
+              />
+              <label htmlFor="select-all-tasks" className="cursor-pointer select-none">
+                {visibleSelectedIds.length > 0
+                  ? `${visibleSelectedIds.length} of ${processedTasks.length} selected`
+                  : `Select all ${processedTasks.length} shown`}
+              </label>
+            </div>
             {processedTasks.map((task, index) => {
               // Add error boundary protection for individual tasks
               if (!task || !task.id) {
@@ -258,13 +392,73 @@ export const TaskList: React.FC<TaskListProps> = ({
               }
               
               return (
-                <TaskItem key={task.id} task={task} />
+                <TaskItem
+                  key={task.id}
+                  task={task}
+                  relatedTasks={isPaginated ? taskPages.relatedTasks : safeTasks}
+                  selected={selectedIds.has(task.id)}
+                  onSelectChange={handleSelectChange}
+                />
               );
             })}
           </div>
         )}
+
+        {isPaginated && taskPages.hasMore && (
+          <div className="p-4 border-t border-gray-200 flex flex-col items-center gap-2">
+            <p className="text-xs text-gray-500">
+              Showing {processedTasks.length} of {taskPages.total} tasks
+            </p>
+            <Button
+              variant="secondary"
+              size="small"
+              onClick={taskPages.loadMore}
+              loading={taskPages.loadingMore}
+            >
+              Load More
+            </Button>
+          </div>
+        )}
+
+        {isPaginated && taskPages.error && (
+          <p className="p-4 text-center text-sm text-red-600">{taskPages.error}</p>
+        )}
       </div>
       
+      <BulkActionBar
+        selectedCount={visibleSelectedIds.length}
+        members={members}
+        busy={isBulkRunning}
+        onComplete={() => runBulkOperation('complete')}
+        onReassign={(pic) => runBulkOperation('update_pic', { pic })}
+        onDelete={() => runBulkOperation('delete')}
+        onClear={clearSelection}
+      />
+
+      {showReportOptions && (
+        <ReportOptionsDialog
+          open
+          initialOptions={lastReportOptions || {
+            ...DEFAULT_REPORT_OPTIONS,
+            scope: isFiltered ? 'filtered' : 'all',
+            sortBy,
+            sortOrder
+          }}
+          currentViewCount={matchingCount}
+          isFiltered={isFiltered}
+          onClose={() => setShowReportOptions(false)}
+          onGenerate={handleGenerateReport}
+        />
+      )}
+
+      {previewReport && (
+        <ReportPreview report={previewReport} onClose={() => setPreviewReport(null)} />
+      )}
+
+      {showImport && (
+        <TaskImportDialog open onClose={() => setShowImport(false)} />
+      )}
+
       {/* Loading overlay when generating report */}
       {isGeneratingReport && (
         <div className="absolute inset-0 bg-white bg-opacity-75 flex items-center justify-center">
@@ -0,0 +1,173 @@
+'use client';
+
+import React from 'react';
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RECURRENCE_OPTIONS,
+  WEEKDAY_LABELS
+} from '@/core/domain/entities/Task';
+import { dateUtils, taskRecurrenceUtils } from '@/core/domain/entities/taskUtils';
+
+interface TaskRecurrenceEditorProps {
+  id: string;
+  value: RecurrenceRule | null;
+  onChange: (recurrence: RecurrenceRule | null) => void;
+  /** Start date of the task, used to pick sensible defaults */
+  startDate?: string;
+  disabled?: boolean;
+  error?: string;
+}
+
+const fieldClassName = 'p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 hover:border-gray-400 transition-colors';
+
+export const TaskRecurrenceEditor: React.FC<TaskRecurrenceEditorProps> = ({
+  id,
+  value,
+  onChange,
+  startDate,
+  disabled = false,
+  error
+}) => {
+  const anchor = startDate && dateUtils.isValidDate(startDate) ? new Date(startDate) : null;
+
+  // Start each frequency from the task's own weekday / day of month
+  const handleFrequencyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const frequency = e.target.value as RecurrenceFrequency | '';
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+
+    const rule: RecurrenceRule = { frequency, until: value?.until };
+    if (frequency === 'weekly') {
+      rule.weekdays = anchor ? [anchor.getUTCDay()] : [];
+    } else if (frequency === 'monthly') {
+      rule.dayOfMonth = anchor ? anchor.getUTCDate() : 1;
+    } else if (frequency === 'interval') {
+      rule.interval = 2;
+    }
+    onChange(rule);
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays || [];
+    onChange({
+      ...value,
+      weekdays: weekdays.includes(day)
+        ? weekdays.filter(d => d !== day)
+        : [...weekdays, day].sort((a, b) => a - b)
+    });
+  };
+
+  const handleNumberChange = (field: 'interval' | 'dayOfMonth') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!value) return;
+    const number = parseInt(e.target.value, 10);
+    onChange({ ...value, [field]: isNaN(number) ? undefined : number });
+  };
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+        Repeat
+      </label>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          id={id}
+          value={value?.frequency || ''}
+          onChange={handleFrequencyChange}
+          disabled={disabled}
+          className={`${fieldClassName} ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          <option value="">Does not repeat</option>
+          {RECURRENCE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
+        {value?.frequency === 'interval' && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            every
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval ?? ''}
+              onChange={handleNumberChange('interval')}
+              disabled={disabled}
+              className={`${fieldClassName} w-20`}
+            />
+            days
+          </label>
+        )}
+
+        {value?.frequency === 'monthly' && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            on day
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={value.dayOfMonth ?? ''}
+              onChange={handleNumberChange('dayOfMonth')}
+              disabled={disabled}
+              className={`${fieldClassName} w-20`}
+            />
+          </label>
+        )}
+
+        {value && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            until
+            <input
+              type="date"
+              value={value.until || ''}
+              min={startDate}
+              onChange={(e) => onChange({ ...value, until: e.target.value || undefined })}
+              disabled={disabled}
+              className={fieldClassName}
+            />
+          </label>
+        )}
+      </div>
+
+      {value?.frequency === 'weekly' && (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Repeat on weekdays">
+          {WEEKDAY_LABELS.map((label, day) => {
+            const active = (value.weekdays || []).includes(day);
+            return (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                disabled={disabled}
+                aria-pressed={active}
+                className={`px-2 py-1 text-xs font-medium rounded-md border transition-colors ${
+                  active
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:border-gray-400'
+                } disabled:opacity-50 disabled:cursor-not-allowed`}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value && !error && (
+        <p className="text-sm text-gray-500">
+          {taskRecurrenceUtils.describe(value)}. Completing the task creates the next occurrence.
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+};
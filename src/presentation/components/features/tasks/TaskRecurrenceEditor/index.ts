@@ -0,0 +1 @@
+export { TaskRecurrenceEditor } from './TaskRecurrenceEditor';
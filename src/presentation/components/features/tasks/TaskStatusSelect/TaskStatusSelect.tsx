@@ -0,0 +1,69 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Task, TaskWorkflowStatus } from '@/core/domain/entities/Task';
+import { taskWorkflowUtils } from '@/core/domain/entities/taskUtils';
+import { useTasks } from '@/presentation/hooks/useTasks';
+
+interface TaskStatusSelectProps {
+  task: Task;
+  id?: string;
+  className?: string;
+}
+
+const variantClasses: Record<ReturnType<typeof taskWorkflowUtils.getBadgeVariant>, string> = {
+  default: 'bg-gray-100 text-gray-800 border-gray-200',
+  primary: 'bg-blue-100 text-blue-800 border-blue-200',
+  success: 'bg-green-100 text-green-800 border-green-200',
+  warning: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  danger: 'bg-red-100 text-red-800 border-red-200'
+};
+
+/**
+ * Status shown as a badge-styled select, offering only the moves the workflow allows
+ */
+export const TaskStatusSelect: React.FC<TaskStatusSelectProps> = ({ task, id, className = '' }) => {
+  const { updateTask, workflow } = useTasks();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const options = [task.status, ...taskWorkflowUtils.getAllowedTransitions(task.status, workflow)];
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const status = e.target.value as TaskWorkflowStatus;
+    if (status === task.status) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateTask(task.id, { status });
+    } catch (err) {
+      console.error('Error changing task status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to change status');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <select
+        id={id}
+        value={task.status}
+        onChange={handleChange}
+        disabled={isSaving || options.length === 1}
+        aria-label={`Status of "${task.title || 'Untitled Task'}"`}
+        className={`px-2.5 py-0.5 text-sm font-medium rounded-full border cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed ${
+          variantClasses[taskWorkflowUtils.getBadgeVariant(task.status)]
+        }`}
+      >
+        {options.map(status => (
+          <option key={status} value={status}>
+            {taskWorkflowUtils.getLabel(status)}
+          </option>
+        ))}
+      </select>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { TaskStatusSelect } from './TaskStatusSelect';
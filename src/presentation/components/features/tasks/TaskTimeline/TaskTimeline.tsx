@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Task,
+  TaskWorkflowStatus,
+  TimelineBar,
+  TimelineZoom,
+  TIMELINE_ZOOM_OPTIONS,
+  TASK_WORKFLOW_STATUSES
+} from '@/core/domain/entities/Task';
+import { buildPicLabels, resolvePic } from '@/core/domain/entities/Member';
+import { dateUtils, taskStatusUtils, taskTimelineUtils, taskWorkflowUtils } from '@/core/domain/entities/taskUtils';
+import { EmptyState } from '@/presentation/components/common/EmptyState';
+import { ErrorState } from '@/presentation/components/common/ErrorState';
+import { LoadingState } from '@/presentation/components/common/LoadingState';
+import { useAllTasks } from '@/presentation/hooks/useAllTasks';
+import { useMembers } from '@/presentation/hooks/useMembers';
+import { MemberAvatar } from '../../members/MemberAvatar';
+import { TaskDetail } from '../TaskDetail';
+
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 32;
+const BAR_HEIGHT = 18;
+const LABEL_WIDTH = 200;
+
+// Pixels per day at each zoom level
+const DAY_WIDTH: Record<TimelineZoom, number> = {
+  day: 32,
+  week: 12,
+  month: 4
+};
+
+// Same palette as the status badges in the PDF report
+const BAR_COLORS: Record<TaskWorkflowStatus, string> = {
+  todo: 'fill-gray-400',
+  in_progress: 'fill-blue-500',
+  in_review: 'fill-yellow-500',
+  done: 'fill-green-500',
+  cancelled: 'fill-gray-300'
+};
+
+const OVERDUE_COLOR = 'fill-red-500';
+
+/**
+ * Gantt-style view of task date ranges grouped by PIC, with arrows from each
+ * blocker to the tasks it blocks. Arrows turn red when a task starts before
+ * its blocker is due.
+ */
+export const TaskTimeline: React.FC = () => {
+  const { tasks, loading, error, refetch } = useAllTasks();
+  const { members } = useMembers();
+  const [zoom, setZoom] = useState<TimelineZoom>('week');
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const layout = useMemo(
+    () => taskTimelineUtils.buildLayout(tasks, zoom, buildPicLabels(members)),
+    [tasks, zoom, members]
+  );
+
+  const dayWidth = DAY_WIDTH[zoom];
+  const chartWidth = layout.totalDays * dayWidth;
+  const chartHeight = HEADER_HEIGHT + layout.rowCount * ROW_HEIGHT;
+  const todayX = (layout.todayOffset + 0.5) * dayWidth;
+  const getRowMiddle = (row: number) => HEADER_HEIGHT + row * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+  // Bring today into view whenever the scale changes
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollLeft = Math.max(0, todayX - scrollRef.current.clientWidth / 3);
+    }
+  }, [todayX, loading]);
+
+  const getBarColor = (task: Task): string => {
+    const deadlineInfo = taskStatusUtils.getDeadlineInfo(task);
+    return deadlineInfo?.isOverdue && !taskWorkflowUtils.isClosed(task)
+      ? OVERDUE_COLOR
+      : BAR_COLORS[task.status];
+  };
+
+  const getBarTitle = (bar: TimelineBar): string => {
+    const { task } = bar;
+    const range = task.startDate && task.endDate && task.startDate !== task.endDate
+      ? `${dateUtils.formatDate(task.startDate)} – ${dateUtils.formatDate(task.endDate)}`
+      : dateUtils.formatDate(task.endDate || task.startDate);
+    return `${task.title} • ${range} • ${taskWorkflowUtils.getLabel(task.status)}`;
+  };
+
+  const getTickLabel = (date: string, label: string, index: number): string => {
+    // Day columns only show the day number, so name the month where it changes
+    if (zoom === 'day' && (index === 0 || date.endsWith('-01'))) {
+      return dateUtils.formatDate(date, { year: undefined });
+    }
+    return label;
+  };
+
+  if (loading) {
+    return <LoadingState message="Loading timeline..." />;
+  }
+
+  if (error) {
+    return <ErrorState message={error} onRetry={refetch} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="timeline-zoom" className="text-sm font-medium text-gray-700">Zoom</label>
+        <select
+          id="timeline-zoom"
+          value={zoom}
+          onChange={(e) => setZoom(e.target.value as TimelineZoom)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {TIMELINE_ZOOM_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <span className="text-sm text-gray-500">
+          {dateUtils.formatDate(layout.start)} – {dateUtils.formatDate(layout.end)}
+        </span>
+      </div>
+
+      {layout.rowCount === 0 ? (
+        <EmptyState
+          title="Nothing scheduled"
+          description="Tasks with a start or due date appear on the timeline."
+        />
+      ) : (
+        <div className="flex rounded-lg border border-gray-200 bg-white overflow-hidden">
+          <div className="flex-shrink-0 border-r border-gray-200" style={{ width: LABEL_WIDTH }}>
+            <div className="border-b border-gray-200 bg-gray-50" style={{ height: HEADER_HEIGHT }} />
+            {layout.groups.map(group => {
+              const pic = resolvePic(group.pic, members);
+              return (
+                <React.Fragment key={group.pic || 'unassigned'}>
+                  <div
+                    className="flex items-center gap-2 px-3 bg-gray-50 text-sm font-semibold text-gray-800"
+                    style={{ height: ROW_HEIGHT }}
+                  >
+                    {pic?.member && (
+                      <MemberAvatar name={pic.member.name} color={pic.member.color} size="small" />
+                    )}
+                    <span className="truncate">{group.label}</span>
+                  </div>
+                  {group.bars.map(bar => (
+                    <button
+                      key={bar.task.id}
+                      type="button"
+                      onClick={() => setSelectedTask(bar.task)}
+                      className={`block w-full truncate px-3 pl-6 text-left text-sm hover:text-blue-600 focus:outline-none focus:underline ${
+                        taskWorkflowUtils.isClosed(bar.task) ? 'line-through text-gray-500' : 'text-gray-700'
+                      }`}
+                      style={{ height: ROW_HEIGHT }}
+                    >
+                      {bar.task.title || 'Untitled Task'}
+                    </button>
+                  ))}
+                </React.Fragment>
+              );
+            })}
+          </div>
+
+          <div ref={scrollRef} className="flex-1 overflow-x-auto">
+            <svg width={chartWidth} height={chartHeight} role="img" aria-label="Task timeline">
+              <defs>
+                <marker id="timeline-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M0,0 L6,3 L0,6 z" className="fill-gray-500" />
+                </marker>
+                <marker id="timeline-arrow-conflict" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M0,0 L6,3 L0,6 z" className="fill-red-500" />
+                </marker>
+              </defs>
+
+              <rect x={0} y={0} width={chartWidth} height={HEADER_HEIGHT} className="fill-gray-50" />
+              {layout.groups.map(group => (
+                <rect
+                  key={group.pic || 'unassigned'}
+                  x={0}
+                  y={HEADER_HEIGHT + group.row * ROW_HEIGHT}
+                  width={chartWidth}
+                  height={ROW_HEIGHT}
+                  className="fill-gray-50"
+                />
+              ))}
+
+              {layout.ticks.map((tick, index) => (
+                <g key={tick.date}>
+                  <line
+                    x1={tick.offset * dayWidth}
+                    x2={tick.offset * dayWidth}
+                    y1={0}
+                    y2={chartHeight}
+                    className="stroke-gray-200"
+                  />
+                  <text x={tick.offset * dayWidth + 4} y={20} className="fill-gray-500 text-[11px]">
+                    {getTickLabel(tick.date, tick.label, index)}
+                  </text>
+                </g>
+              ))}
+              <line x1={0} x2={chartWidth} y1={HEADER_HEIGHT} y2={HEADER_HEIGHT} className="stroke-gray-200" />
+
+              {layout.groups.flatMap(group => group.bars).map(bar => (
+                <rect
+                  key={bar.task.id}
+                  x={bar.offset * dayWidth + 1}
+                  y={getRowMiddle(bar.row) - BAR_HEIGHT / 2}
+                  width={Math.max(2, bar.length * dayWidth - 2)}
+                  height={BAR_HEIGHT}
+                  rx={3}
+                  onClick={() => setSelectedTask(bar.task)}
+                  className={`cursor-pointer hover:opacity-80 ${getBarColor(bar.task)} ${
+                    bar.task.status === 'cancelled' ? 'opacity-60' : ''
+                  }`}
+                >
+                  <title>{getBarTitle(bar)}</title>
+                </rect>
+              ))}
+
+              {layout.links.map(({ from, to }) => {
+                const x1 = (from.offset + from.length) * dayWidth;
+                const x2 = to.offset * dayWidth;
+                const conflict = to.offset < from.offset + from.length - 1;
+                return (
+                  <path
+                    key={`${from.task.id}-${to.task.id}`}
+                    d={`M${x1},${getRowMiddle(from.row)} h6 V${getRowMiddle(to.row)} H${x2}`}
+                    fill="none"
+                    strokeWidth={1.5}
+                    markerEnd={`url(#${conflict ? 'timeline-arrow-conflict' : 'timeline-arrow'})`}
+                    className={conflict ? 'stroke-red-500' : 'stroke-gray-500'}
+                  />
+                );
+              })}
+
+              <line
+                x1={todayX}
+                x2={todayX}
+                y1={0}
+                y2={chartHeight}
+                strokeDasharray="4 3"
+                strokeWidth={1.5}
+                className="stroke-red-500"
+              >
+                <title>Today</title>
+              </line>
+            </svg>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        {TASK_WORKFLOW_STATUSES.map(status => (
+          <span key={status} className="flex items-center gap-1">
+            <svg width={10} height={10} aria-hidden="true"><rect width={10} height={10} rx={2} className={BAR_COLORS[status]} /></svg>
+            {taskWorkflowUtils.getLabel(status)}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <svg width={10} height={10} aria-hidden="true"><rect width={10} height={10} rx={2} className={OVERDUE_COLOR} /></svg>
+          Overdue
+        </span>
+        <span>Arrows point from a blocker to the task it blocks; red arrows start before the blocker is due.</span>
+        {layout.unscheduled.length > 0 && (
+          <span>{layout.unscheduled.length} task{layout.unscheduled.length === 1 ? '' : 's'} without dates not shown.</span>
+        )}
+      </div>
+
+      {selectedTask && (
+        <TaskDetail
+          task={tasks.find(task => task.id === selectedTask.id) || selectedTask}
+          open
+          onClose={() => setSelectedTask(null)}
+        />
+      )}
+    </div>
+  );
+};
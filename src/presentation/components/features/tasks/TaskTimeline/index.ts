@@ -0,0 +1 @@
+export { TaskTimeline } from './TaskTimeline';
@@ -0,0 +1,271 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  TASK_SORT_OPTIONS,
+  TaskFilters,
+  TaskSortBy,
+  TaskSortOptions,
+  TaskStatus,
+  TagMatchMode
+} from '@/core/domain/entities/Task';
+import { ITag } from '@/core/domain/entities/Tag';
+import { Member } from '@/core/domain/entities/Member';
+import { taskFilterUtils } from '@/core/domain/entities/taskUtils';
+import { Button } from '@/presentation/components/common/Button';
+import { TagInput } from '../TagInput';
+import {
+  MagnifyingGlassIcon,
+  ArrowUpIcon,
+  ArrowDownIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+
+interface TaskToolbarProps {
+  filters: TaskFilters;
+  sortOptions: TaskSortOptions;
+  onFiltersChange: (filters: TaskFilters) => void;
+  onSortChange: (sortOptions: TaskSortOptions) => void;
+  onReset?: () => void;
+  /** Registered tags available for the tag filter */
+  availableTags?: ITag[];
+  /** Members available for the Person in Charge filter */
+  availableMembers?: Member[];
+}
+
+const STATUS_OPTIONS: { value: TaskStatus | ''; label: string }[] = [
+  { value: '', label: 'All Statuses' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'overdue', label: 'Overdue' }
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+const labelClasses = 'block text-xs font-medium text-gray-600 mb-1';
+
+export const TaskToolbar: React.FC<TaskToolbarProps> = ({
+  filters,
+  sortOptions,
+  onFiltersChange,
+  onSortChange,
+  onReset,
+  availableTags = [],
+  availableMembers = []
+}) => {
+  const [searchInput, setSearchInput] = useState(filters.searchQuery || '');
+
+  // Keep the search box in sync when filters change from outside
+  useEffect(() => {
+    const query = filters.searchQuery || '';
+    setSearchInput(prev => (prev.trim() === query ? prev : query));
+  }, [filters.searchQuery]);
+
+  // Debounce search input before updating filters
+  useEffect(() => {
+    const query = searchInput.trim() || undefined;
+    if (query === filters.searchQuery) return;
+
+    const timer = setTimeout(() => {
+      onFiltersChange({ ...filters, searchQuery: query });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [searchInput, filters, onFiltersChange]);
+
+  const updateFilter = <K extends keyof TaskFilters>(key: K, value: TaskFilters[K]) => {
+    onFiltersChange({ ...filters, [key]: value || undefined });
+  };
+
+  const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const status = (e.target.value || undefined) as TaskStatus | undefined;
+    onFiltersChange(taskFilterUtils.applyStatusFilter(filters, status));
+  };
+
+  const handleTagsChange = (tags: string[]) => {
+    onFiltersChange({
+      ...filters,
+      tags: tags.length > 0 ? tags : undefined,
+      tagMatch: tags.length > 1 ? filters.tagMatch : undefined
+    });
+  };
+
+  const handleTagMatchChange = (tagMatch: TagMatchMode) => {
+    onFiltersChange({ ...filters, tagMatch: tagMatch === 'all' ? 'all' : undefined });
+  };
+
+  const toggleSortOrder = () => {
+    onSortChange({
+      ...sortOptions,
+      sortOrder: sortOptions.sortOrder === 'asc' ? 'desc' : 'asc'
+    });
+  };
+
+  const handleReset = () => {
+    setSearchInput('');
+    if (onReset) {
+      onReset();
+    } else {
+      onFiltersChange({});
+    }
+  };
+
+  const hasActiveFilters = taskFilterUtils.hasActiveFilters(filters);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-4 space-y-4">
+      <div className="relative">
+        <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search title, description or person in charge..."
+          aria-label="Search tasks"
+          className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+        <div>
+          <label htmlFor="filter-pic" className={labelClasses}>Person in Charge</label>
+          <select
+            id="filter-pic"
+            value={filters.pic || ''}
+            onChange={(e) => updateFilter('pic', e.target.value)}
+            className={selectClasses}
+          >
+            <option value="">All</option>
+            {availableMembers.map(member => (
+              <option key={member.id} value={member.id}>
+                {member.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="filter-status" className={labelClasses}>Status</label>
+          <select
+            id="filter-status"
+            value={taskFilterUtils.getStatusFilter(filters) || ''}
+            onChange={handleStatusChange}
+            className={selectClasses}
+          >
+            {STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="filter-start-date" className={labelClasses}>Due From</label>
+          <input
+            id="filter-start-date"
+            type="date"
+            value={filters.startDate || ''}
+            max={filters.endDate}
+            onChange={(e) => updateFilter('startDate', e.target.value)}
+            className={selectClasses}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="filter-end-date" className={labelClasses}>Due To</label>
+          <input
+            id="filter-end-date"
+            type="date"
+            value={filters.endDate || ''}
+            min={filters.startDate}
+            onChange={(e) => updateFilter('endDate', e.target.value)}
+            className={selectClasses}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="sort-by" className={labelClasses}>Sort By</label>
+          <div className="flex gap-2">
+            <select
+              id="sort-by"
+              value={sortOptions.sortBy}
+              onChange={(e) => onSortChange({ ...sortOptions, sortBy: e.target.value as TaskSortBy })}
+              className={selectClasses}
+            >
+              {TASK_SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={toggleSortOrder}
+              className="flex-shrink-0 px-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={sortOptions.sortOrder === 'asc' ? 'Sort ascending' : 'Sort descending'}
+              title={sortOptions.sortOrder === 'asc' ? 'Ascending' : 'Descending'}
+            >
+              {sortOptions.sortOrder === 'asc' ? (
+                <ArrowUpIcon className="w-4 h-4" />
+              ) : (
+                <ArrowDownIcon className="w-4 h-4" />
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {availableTags.length > 0 && (
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label htmlFor="filter-tags" className={labelClasses}>Tags</label>
+            <TagInput
+              id="filter-tags"
+              value={filters.tags || []}
+              onChange={handleTagsChange}
+              suggestions={availableTags}
+              placeholder="Filter by tag..."
+              restrictToSuggestions
+            />
+          </div>
+
+          {(filters.tags?.length ?? 0) > 1 && (
+            <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm" role="group" aria-label="Tag match mode">
+              {(['any', 'all'] as TagMatchMode[]).map(mode => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => handleTagMatchChange(mode)}
+                  aria-pressed={(filters.tagMatch || 'any') === mode}
+                  className={`px-3 py-2 ${
+                    (filters.tagMatch || 'any') === mode
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {mode === 'any' ? 'Match any' : 'Match all'}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {hasActiveFilters && (
+        <div className="flex justify-end">
+          <Button
+            variant="secondary"
+            size="small"
+            onClick={handleReset}
+            className="flex items-center gap-1"
+          >
+            <XMarkIcon className="w-4 h-4" />
+            Clear Filters
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
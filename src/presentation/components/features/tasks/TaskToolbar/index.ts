@@ -0,0 +1 @@
+export { TaskToolbar } from './TaskToolbar';
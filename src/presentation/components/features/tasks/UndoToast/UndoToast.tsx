@@ -0,0 +1,44 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { Toast } from '@/presentation/components/common/Toast';
+import { useTasks } from '@/presentation/hooks/useTasks';
+
+const UNDO_TOAST_DURATION_MS = 6000;
+
+// Leave Ctrl+Z alone while the user is typing so native text undo still works
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+export const UndoToast: React.FC = () => {
+  const { lastAction, canUndo, undo, dismissLastAction } = useTasks();
+
+  // Ctrl+Z / Cmd+Z walks back through the session history
+  useEffect(() => {
+    if (!canUndo) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const isUndoShortcut = (e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 'z';
+      if (!isUndoShortcut || isEditableTarget(e.target)) return;
+
+      e.preventDefault();
+      undo();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canUndo, undo]);
+
+  return (
+    <Toast
+      open={lastAction !== null}
+      message={lastAction?.label}
+      actionLabel="Undo"
+      onAction={undo}
+      onClose={dismissLastAction}
+      duration={UNDO_TOAST_DURATION_MS}
+    />
+  );
+};
@@ -1,12 +1,44 @@
+'use client';
+
 import React from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+
+const NAV_LINKS = [
+  { href: '/', label: 'Tasks' },
+  { href: '/dashboard', label: 'Dashboard' },
+  { href: '/board', label: 'Board' },
+  { href: '/calendar', label: 'Calendar' },
+  { href: '/timeline', label: 'Timeline' },
+  { href: '/members', label: 'Members' },
+  { href: '/backup', label: 'Backup' }
+];
 
 export const Header: React.FC = () => {
+  const pathname = usePathname();
+
   return (
     <header className="bg-white shadow-sm border-b border-gray-200">
       <div className="container mx-auto px-4 max-w-6xl">
         <div className="flex items-center justify-between h-16">
-          <div className="flex items-center">
+          <div className="flex items-center gap-6">
             <h1 className="text-xl font-bold text-gray-900">Task Manager</h1>
+            <div className="flex items-center gap-1">
+              {NAV_LINKS.map(link => (
+                <Link
+                  key={link.href}
+                  href={link.href}
+                  aria-current={pathname === link.href ? 'page' : undefined}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    pathname === link.href
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                  }`}
+                >
+                  {link.label}
+                </Link>
+              ))}
+            </div>
           </div>
           <nav className="flex items-center space-x-4">
             <span className="text-sm text-gray-500">
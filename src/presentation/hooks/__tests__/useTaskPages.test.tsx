@@ -0,0 +1,127 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { describe, expect, it, jest } from '@jest/globals';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { Task, TaskFilters, TaskPage, TaskPaginationOptions, TaskSortOptions } from '@/core/domain/entities/Task';
+import { taskQueryUtils } from '@/core/domain/entities/taskUtils';
+import { MAX_TASK_PAGE_LIMIT } from '@/core/application/dto/CreateTaskDTO';
+import { TaskChange, TaskContext } from '../../providers/TaskProvider';
+import { useTaskPages } from '../useTaskPages';
+
+// The provider module pulls in jsPDF, which needs a canvas jsdom does not have
+jest.mock('@/infrastructure/pdf/PdfGenerator', () => ({ PdfGenerator: class {} }));
+
+type TaskContextValue = NonNullable<React.ContextType<typeof TaskContext>>;
+
+const PAGE_SIZE = 100;
+const FILTERS: TaskFilters = {};
+const SORT: TaskSortOptions = { sortBy: 'title', sortOrder: 'asc' };
+
+const makeTasks = (count: number): Task[] =>
+  Array.from({ length: count }, (_, index) => {
+    const number = String(index + 1).padStart(4, '0');
+    return new Task(`task-${number}`, `Task ${number}`);
+  });
+
+/**
+ * Answers page requests the way the API does: a limit above the maximum
+ * falls back to the default page size of 20
+ */
+const createContextValue = (tasks: Task[]) => {
+  let listeners: Array<(change: TaskChange) => void> = [];
+  const limits: number[] = [];
+
+  const fetchTaskPage = jest.fn(async (
+    filters: TaskFilters,
+    sortOptions?: TaskSortOptions,
+    pagination?: TaskPaginationOptions
+  ): Promise<TaskPage> => {
+    const limit = pagination && pagination.limit <= MAX_TASK_PAGE_LIMIT ? pagination.limit : 20;
+    limits.push(limit);
+    const matching = taskQueryUtils.applyQuery(tasks, filters, sortOptions);
+    const options = { page: pagination?.page || 1, limit };
+    return {
+      tasks: taskQueryUtils.paginate(matching, options),
+      pagination: taskQueryUtils.getPaginationInfo(matching.length, options)
+    };
+  });
+
+  const value = {
+    fetchTaskPage,
+    countTasks: async () => tasks.length,
+    fetchRelatedTasks: async () => [],
+    subscribeToChanges: (listener: (change: TaskChange) => void) => {
+      listeners = [...listeners, listener];
+      return () => {
+        listeners = listeners.filter(candidate => candidate !== listener);
+      };
+    }
+  } as unknown as TaskContextValue;
+
+  const publish = (change: TaskChange) => listeners.forEach(listener => listener(change));
+
+  return { value, limits, fetchTaskPage, publish };
+};
+
+const renderTaskPages = (tasks: Task[]) => {
+  const context = createContextValue(tasks);
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <TaskContext.Provider value={context.value}>{children}</TaskContext.Provider>
+  );
+  const hook = renderHook(() => useTaskPages(FILTERS, SORT, PAGE_SIZE), { wrapper });
+  return { ...context, ...hook };
+};
+
+const loadPages = async (result: { current: ReturnType<typeof useTaskPages> }, count: number) => {
+  await waitFor(() => expect(result.current.tasks).toHaveLength(PAGE_SIZE));
+  for (let page = 2; page <= count; page++) {
+    await act(() => result.current.loadMore());
+  }
+  expect(result.current.tasks).toHaveLength(PAGE_SIZE * count);
+};
+
+describe('useTaskPages', () => {
+  const allTasks = makeTasks(1200);
+  const ids = (tasks: Task[]) => tasks.map(task => task.id);
+
+  it('reloads every loaded page after a reset without asking for more than the limit at once', async () => {
+    const { result, limits, publish } = renderTaskPages(allTasks);
+    await loadPages(result, 7);
+
+    limits.length = 0;
+    act(() => publish({ saved: [], deletedIds: [], reset: true }));
+
+    await waitFor(() => expect(limits.length).toBeGreaterThan(1));
+    await waitFor(() => expect(ids(result.current.tasks)).toEqual(ids(allTasks.slice(0, 700))));
+    expect(Math.max(...limits)).toBeLessThanOrEqual(MAX_TASK_PAGE_LIMIT);
+    expect(result.current.total).toBe(1200);
+  });
+
+  it('keeps the loaded pages when retrying, so the next page follows on', async () => {
+    const { result, limits } = renderTaskPages(allTasks);
+    await loadPages(result, 6);
+
+    limits.length = 0;
+    await act(() => result.current.reload());
+    expect(ids(result.current.tasks)).toEqual(ids(allTasks.slice(0, 600)));
+    expect(Math.max(...limits)).toBeLessThanOrEqual(MAX_TASK_PAGE_LIMIT);
+
+    await act(() => result.current.loadMore());
+    expect(ids(result.current.tasks)).toEqual(ids(allTasks.slice(0, 700)));
+  });
+
+  it('stops reloading once the matching tasks run out', async () => {
+    const { result, fetchTaskPage } = renderTaskPages(allTasks.slice(0, 150));
+    await loadPages(result, 1);
+    await act(() => result.current.loadMore());
+    expect(result.current.tasks).toHaveLength(150);
+
+    fetchTaskPage.mockClear();
+    await act(() => result.current.reload());
+    expect(fetchTaskPage).toHaveBeenCalledTimes(1);
+    expect(ids(result.current.tasks)).toEqual(ids(allTasks.slice(0, 150)));
+    expect(result.current.hasMore).toBe(false);
+  });
+});
@@ -0,0 +1,18 @@
+import { useEffect } from 'react';
+import { useTasks } from './useTasks';
+
+/**
+ * The full task list, for views that work with every task at once (board,
+ * calendar, dashboard...). The provider only loads and polls it while an
+ * enabled caller is mounted, so the paged task list never loads it.
+ */
+export const useAllTasks = (enabled: boolean = true) => {
+  const { tasks, loading, error, refetch, watchAllTasks } = useTasks();
+
+  useEffect(() => {
+    if (!enabled) return;
+    return watchAllTasks();
+  }, [enabled, watchAllTasks]);
+
+  return { tasks, loading, error, refetch };
+};
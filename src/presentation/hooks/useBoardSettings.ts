@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export type BoardGroupBy = 'status' | 'pic';
+
+export interface BoardSettings {
+  groupBy: BoardGroupBy;
+  // Column key -> maximum number of tasks; missing or 0 means no limit
+  wipLimits: Record<BoardGroupBy, Record<string, number>>;
+}
+
+const STORAGE_KEY = 'task-board-settings';
+
+const DEFAULT_BOARD_SETTINGS: BoardSettings = {
+  groupBy: 'status',
+  wipLimits: { status: {}, pic: {} }
+};
+
+const loadSettings = (): BoardSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_BOARD_SETTINGS;
+
+    const data = JSON.parse(stored) as Partial<BoardSettings>;
+    return {
+      groupBy: data.groupBy === 'pic' ? 'pic' : 'status',
+      wipLimits: {
+        status: { ...data.wipLimits?.status },
+        pic: { ...data.wipLimits?.pic }
+      }
+    };
+  } catch (error) {
+    console.error('Failed to load board settings:', error);
+    return DEFAULT_BOARD_SETTINGS;
+  }
+};
+
+/**
+ * Board grouping and WIP limits, remembered per browser
+ */
+export const useBoardSettings = () => {
+  const [settings, setSettings] = useState<BoardSettings>(DEFAULT_BOARD_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+
+  // localStorage is only available after mounting
+  useEffect(() => {
+    setSettings(loadSettings());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Failed to save board settings:', error);
+    }
+  }, [settings, loaded]);
+
+  const setGroupBy = useCallback((groupBy: BoardGroupBy) => {
+    setSettings(prev => ({ ...prev, groupBy }));
+  }, []);
+
+  const setWipLimit = useCallback((columnKey: string, limit: number | null) => {
+    setSettings(prev => {
+      const limits = { ...prev.wipLimits[prev.groupBy] };
+      if (limit && limit > 0) {
+        limits[columnKey] = limit;
+      } else {
+        delete limits[columnKey];
+      }
+      return { ...prev, wipLimits: { ...prev.wipLimits, [prev.groupBy]: limits } };
+    });
+  }, []);
+
+  return {
+    groupBy: settings.groupBy,
+    wipLimits: settings.wipLimits[settings.groupBy],
+    setGroupBy,
+    setWipLimit
+  };
+};
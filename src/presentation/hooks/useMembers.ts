@@ -0,0 +1,12 @@
+import { useContext } from 'react';
+import { MemberContext } from '../providers/MemberProvider';
+
+export const useMembers = () => {
+  const context = useContext(MemberContext);
+
+  if (!context) {
+    throw new Error('useMembers must be used within MemberProvider');
+  }
+
+  return context;
+};
@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Task,
+  TaskFilters,
+  TaskSortOptions,
+  OPEN_TASK_WORKFLOW_STATUSES
+} from '@/core/domain/entities/Task';
+import { taskFilterUtils } from '@/core/domain/entities/taskUtils';
+import { MAX_TASK_PAGE_LIMIT } from '@/core/application/dto/CreateTaskDTO';
+import { TaskChange } from '../providers/TaskProvider';
+import { useTasks } from './useTasks';
+
+// Counts across every task, for the list header
+export interface TaskCounts {
+  total: number;
+  completed: number;
+  pending: number;
+}
+
+const EMPTY_COUNTS: TaskCounts = { total: 0, completed: 0, pending: 0 };
+
+const haveSameIds = (a: Task[], b: Task[]): boolean => {
+  const ids = new Set(a.map(task => task.id));
+  return a.length === b.length && b.every(task => ids.has(task.id));
+};
+
+// A later page can briefly repeat a task an earlier page has just taken over
+const withoutDuplicates = (tasks: Task[]): Task[] => {
+  const seen = new Set<string>();
+  return tasks.filter(task => !seen.has(task.id) && !!seen.add(task.id));
+};
+
+/**
+ * Loads tasks page by page from the repository ("load more" pagination).
+ * After a change only the loaded pages holding a touched task are fetched
+ * again, along with the pages after them when tasks moved between pages.
+ * Also loads the header counts and the tasks the loaded ones depend on.
+ */
+export const useTaskPages = (
+  filters: TaskFilters,
+  sortOptions: TaskSortOptions,
+  pageSize: number,
+  enabled: boolean = true
+) => {
+  const { fetchTaskPage, countTasks, fetchRelatedTasks, subscribeToChanges } = useTasks();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [relatedTasks, setRelatedTasks] = useState<Task[]>([]);
+  const [total, setTotal] = useState(0);
+  const [counts, setCounts] = useState<TaskCounts>(EMPTY_COUNTS);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isActive = enabled && pageSize > 0;
+  const loadedPages = useRef(1);
+  const tasksRef = useRef<Task[]>([]);
+  const totalRef = useRef(0);
+  // Bumped on every query change so results of an older query are dropped
+  const queryVersion = useRef(0);
+  // Refreshes run one after another, each starting from the previous result
+  const refreshQueue = useRef<Promise<void>>(Promise.resolve());
+
+  const showPages = useCallback((pageTasks: Task[], matchingTotal: number) => {
+    tasksRef.current = pageTasks;
+    totalRef.current = matchingTotal;
+    setTasks(pageTasks);
+    setTotal(matchingTotal);
+  }, []);
+
+  const loadCounts = useCallback(async () => {
+    try {
+      const [all, completed, pending] = await Promise.all([
+        countTasks(),
+        countTasks({ status: ['done'] }),
+        countTasks({ status: OPEN_TASK_WORKFLOW_STATUSES })
+      ]);
+      setCounts({ total: all, completed, pending });
+    } catch (err) {
+      console.error('Failed to count tasks:', err);
+    }
+  }, [countTasks]);
+
+  // Every page loaded so far, several pages per request but never more tasks
+  // than one request may ask for
+  const reloadPages = useCallback(async () => {
+    const version = queryVersion.current;
+    const wanted = pageSize * loadedPages.current;
+    const limit = Math.max(1, Math.floor(MAX_TASK_PAGE_LIMIT / pageSize)) * pageSize;
+
+    let pageTasks: Task[] = [];
+    let matchingTotal = 0;
+    for (let chunk = 1; (chunk - 1) * limit < wanted; chunk++) {
+      const result = await fetchTaskPage(filters, sortOptions, { page: chunk, limit });
+      if (version !== queryVersion.current) return;
+
+      pageTasks = [...pageTasks, ...result.tasks];
+      matchingTotal = result.pagination.total;
+      if (result.tasks.length < limit) break;
+    }
+
+    showPages(withoutDuplicates(pageTasks.slice(0, wanted)), matchingTotal);
+  }, [fetchTaskPage, filters, sortOptions, pageSize, showPages]);
+
+  // Start from the first page whenever the query changes
+  useEffect(() => {
+    if (!isActive) return;
+
+    queryVersion.current += 1;
+    loadedPages.current = 1;
+    setLoading(true);
+    setError(null);
+
+    const version = queryVersion.current;
+    reloadPages()
+      .catch(err => {
+        if (version !== queryVersion.current) return;
+        console.error('Failed to load task page:', err);
+        setError('Failed to load tasks');
+      })
+      .finally(() => {
+        if (version === queryVersion.current) setLoading(false);
+      });
+  }, [isActive, reloadPages]);
+
+  useEffect(() => {
+    if (isActive) loadCounts();
+  }, [isActive, loadCounts]);
+
+  const refreshTouchedPages = useCallback(async (change: TaskChange) => {
+    if (change.reset) {
+      await reloadPages();
+      return;
+    }
+
+    const version = queryVersion.current;
+    const loaded = tasksRef.current;
+    const pageOf = (id: string): number | null => {
+      const index = loaded.findIndex(task => task.id === id);
+      return index < 0 ? null : Math.floor(index / pageSize) + 1;
+    };
+
+    const touchedPages = new Set<number>();
+    [...change.saved.map(task => task.id), ...change.deletedIds].forEach(id => {
+      const page = pageOf(id);
+      if (page !== null) touchedPages.add(page);
+    });
+
+    // A task that was not shown but now matches can land on any page. Searches
+    // also match member names, which are not known here, so they always count.
+    const mayNowMatch = change.saved.some(task =>
+      pageOf(task.id) === null &&
+      (!!filters.searchQuery || taskFilterUtils.filterTasks([task], filters).length > 0)
+    );
+    if (mayNowMatch) touchedPages.add(1);
+
+    if (touchedPages.size === 0) {
+      // Deleting a task that was not loaded yet still changes the total
+      if (change.deletedIds.length > 0 && loaded.length < totalRef.current) {
+        const matchingTotal = await countTasks(filters);
+        if (version === queryVersion.current) showPages(loaded, matchingTotal);
+      }
+      return;
+    }
+
+    let pageTasks = loaded;
+    let matchingTotal = totalRef.current;
+    let pagesShifted = false;
+    for (let page = Math.min(...Array.from(touchedPages)); page <= loadedPages.current; page++) {
+      if (!touchedPages.has(page) && !pagesShifted) continue;
+
+      const start = (page - 1) * pageSize;
+      const previous = pageTasks.slice(start, start + pageSize);
+      const result = await fetchTaskPage(filters, sortOptions, { page, limit: pageSize });
+      if (version !== queryVersion.current) return;
+
+      pageTasks = [...pageTasks.slice(0, start), ...result.tasks, ...pageTasks.slice(start + pageSize)];
+      matchingTotal = result.pagination.total;
+      // Once a page gains or loses a task, every later page starts at a different task
+      pagesShifted = !haveSameIds(previous, result.tasks);
+    }
+
+    showPages(withoutDuplicates(pageTasks), matchingTotal);
+  }, [fetchTaskPage, countTasks, filters, sortOptions, pageSize, reloadPages, showPages]);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    return subscribeToChanges(change => {
+      refreshQueue.current = refreshQueue.current
+        .then(() => Promise.all([refreshTouchedPages(change), loadCounts()]))
+        .then(() => undefined)
+        .catch(err => {
+          console.error('Failed to refresh task pages:', err);
+          setError('Failed to load tasks');
+        });
+    });
+  }, [isActive, subscribeToChanges, refreshTouchedPages, loadCounts]);
+
+  // Blockers and dependents of the loaded tasks, for their dependency details
+  useEffect(() => {
+    if (!isActive) return;
+
+    let cancelled = false;
+    fetchRelatedTasks(tasks)
+      .then(related => {
+        if (!cancelled) setRelatedTasks([...tasks, ...related]);
+      })
+      .catch(err => {
+        console.error('Failed to load related tasks:', err);
+        if (!cancelled) setRelatedTasks(tasks);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isActive, tasks, fetchRelatedTasks]);
+
+  const loadMore = useCallback(async () => {
+    if (loadingMore || tasks.length >= total) return;
+
+    const version = queryVersion.current;
+    const nextPage = loadedPages.current + 1;
+    setLoadingMore(true);
+    try {
+      const page = await fetchTaskPage(filters, sortOptions, { page: nextPage, limit: pageSize });
+      if (version !== queryVersion.current) return;
+
+      loadedPages.current = nextPage;
+      showPages(withoutDuplicates([...tasksRef.current, ...page.tasks]), page.pagination.total);
+    } catch (err) {
+      console.error('Failed to load more tasks:', err);
+      setError('Failed to load more tasks');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [loadingMore, tasks.length, total, fetchTaskPage, filters, sortOptions, pageSize, showPages]);
+
+  // Retry after an error, keeping the pages loaded so far
+  const reload = useCallback(async () => {
+    setError(null);
+    try {
+      await Promise.all([reloadPages(), loadCounts()]);
+    } catch (err) {
+      console.error('Failed to load task page:', err);
+      setError('Failed to load tasks');
+    }
+  }, [reloadPages, loadCounts]);
+
+  return {
+    tasks,
+    relatedTasks,
+    total,
+    counts,
+    loading,
+    loadingMore,
+    error,
+    hasMore: tasks.length < total,
+    loadMore,
+    reload
+  };
+};
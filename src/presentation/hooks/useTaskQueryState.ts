@@ -0,0 +1,59 @@
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { TaskFilters, TaskSortOptions } from '@/core/domain/entities/Task';
+import { parseTaskQueryParams, serializeTaskQueryParams } from '@/core/application/dto/TaskQueryDTO';
+
+/**
+ * Keeps the task list filters and sort options in the URL query string.
+ * Filter changes push a history entry so back/forward restores the view;
+ * search-only changes replace the entry to avoid one entry per keystroke.
+ */
+export const useTaskQueryState = () => {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const { filters, sortOptions } = useMemo(
+    () => parseTaskQueryParams(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+
+  const navigate = useCallback((
+    nextFilters: TaskFilters,
+    nextSortOptions: TaskSortOptions,
+    mode: 'push' | 'replace' = 'push'
+  ) => {
+    const query = serializeTaskQueryParams(nextFilters, nextSortOptions).toString();
+    const url = query ? `${pathname}?${query}` : pathname;
+
+    if (mode === 'replace') {
+      router.replace(url, { scroll: false });
+    } else {
+      router.push(url, { scroll: false });
+    }
+  }, [pathname, router]);
+
+  const setFilters = useCallback((nextFilters: TaskFilters) => {
+    const changedKeys = (Object.keys({ ...filters, ...nextFilters }) as Array<keyof TaskFilters>)
+      .filter(key => filters[key] !== nextFilters[key]);
+    const searchOnly = changedKeys.length > 0 && changedKeys.every(key => key === 'searchQuery');
+
+    navigate(nextFilters, sortOptions, searchOnly ? 'replace' : 'push');
+  }, [filters, sortOptions, navigate]);
+
+  const setSortOptions = useCallback((nextSortOptions: TaskSortOptions) => {
+    navigate(filters, nextSortOptions);
+  }, [filters, navigate]);
+
+  const resetFilters = useCallback(() => {
+    navigate({}, sortOptions);
+  }, [sortOptions, navigate]);
+
+  return {
+    filters,
+    sortOptions,
+    setFilters,
+    setSortOptions,
+    resetFilters
+  };
+};
@@ -0,0 +1,92 @@
+'use client';
+
+import React, { createContext, useCallback, useEffect, useMemo, useState } from 'react';
+import { Member } from '@/core/domain/entities/Member';
+import { createMemberRepository } from '@/infrastructure/repositories/createMemberRepository';
+import { createTaskRepository } from '@/infrastructure/repositories/createTaskRepository';
+import { GetMembersUseCase } from '@/core/domain/usecases/GetMembersUseCase';
+import { CreateMemberUseCase, CreateMemberParams } from '@/core/domain/usecases/CreateMemberUseCase';
+import { UpdateMemberUseCase, UpdateMemberParams } from '@/core/domain/usecases/UpdateMemberUseCase';
+import { DeleteMemberUseCase } from '@/core/domain/usecases/DeleteMemberUseCase';
+
+interface MemberContextValue {
+  members: Member[];
+  loading: boolean;
+  error: string | null;
+  createMember: (params: CreateMemberParams) => Promise<Member>;
+  updateMember: (id: string, params: UpdateMemberParams) => Promise<Member>;
+  deleteMember: (id: string) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+export const MemberContext = createContext<MemberContextValue | undefined>(undefined);
+
+const sortByName = (members: Member[]): Member[] =>
+  [...members].sort((a, b) => a.name.localeCompare(b.name));
+
+export const MemberProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const memberRepository = useMemo(() => createMemberRepository(), []);
+  const taskRepository = useMemo(() => createTaskRepository(), []);
+  const getMembersUseCase = useMemo(() => new GetMembersUseCase(memberRepository), [memberRepository]);
+  const createMemberUseCase = useMemo(() => new CreateMemberUseCase(memberRepository), [memberRepository]);
+  const updateMemberUseCase = useMemo(() => new UpdateMemberUseCase(memberRepository), [memberRepository]);
+  const deleteMemberUseCase = useMemo(
+    () => new DeleteMemberUseCase(memberRepository, taskRepository),
+    [memberRepository, taskRepository]
+  );
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setMembers(await getMembersUseCase.execute());
+    } catch (err) {
+      console.error('Failed to fetch members:', err);
+      setError('Failed to fetch members');
+    } finally {
+      setLoading(false);
+    }
+  }, [getMembersUseCase]);
+
+  const createMember = useCallback(async (params: CreateMemberParams): Promise<Member> => {
+    const member = await createMemberUseCase.execute(params);
+    setMembers(prev => sortByName([...prev, member]));
+    return member;
+  }, [createMemberUseCase]);
+
+  const updateMember = useCallback(async (id: string, params: UpdateMemberParams): Promise<Member> => {
+    const member = await updateMemberUseCase.execute(id, params);
+    setMembers(prev => sortByName(prev.map(m => m.id === id ? member : m)));
+    return member;
+  }, [updateMemberUseCase]);
+
+  // Errors (e.g. the member still has tasks) are left to the caller to show
+  const deleteMember = useCallback(async (id: string): Promise<void> => {
+    await deleteMemberUseCase.execute(id);
+    setMembers(prev => prev.filter(m => m.id !== id));
+  }, [deleteMemberUseCase]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const value: MemberContextValue = {
+    members,
+    loading,
+    error,
+    createMember,
+    updateMember,
+    deleteMember,
+    refetch: fetchMembers
+  };
+
+  return (
+    <MemberContext.Provider value={value}>
+      {children}
+    </MemberContext.Provider>
+  );
+};
@@ -1,13 +1,75 @@
 'use client';
 
 import React, { createContext, useCallback, useEffect, useMemo, useState, useRef } from 'react';
-import { Task } from '@/core/domain/entities/Task';
-import { LocalStorageTaskRepository } from '@/infrastructure/repositories/LocalStorageTaskRepository';
+import {
+  Task,
+  TaskFilters,
+  TaskPage,
+  TaskPaginationOptions,
+  TaskSortOptions,
+  BulkTaskOperation,
+  BulkTaskOperationResult,
+  BulkTaskOperationType,
+  TaskPriority,
+  ChecklistItem,
+  RecurrenceRule,
+  TaskWorkflow
+} from '@/core/domain/entities/Task';
+import { taskQueryUtils } from '@/core/domain/entities/taskUtils';
+import { Member, buildPicLabels } from '@/core/domain/entities/Member';
+import { ITag, isSameTag } from '@/core/domain/entities/Tag';
+import { createTaskRepository } from '@/infrastructure/repositories/createTaskRepository';
+import { createTagRepository } from '@/infrastructure/repositories/createTagRepository';
+import { createMemberRepository } from '@/infrastructure/repositories/createMemberRepository';
+import { getTaskWorkflow } from '@/infrastructure/config/taskWorkflow';
 import { CreateTaskUseCase } from '@/core/domain/usecases/CreateTaskUseCase';
 import { GetTasksUseCase } from '@/core/domain/usecases/GetTasksUseCase';
-import { UpdateTaskUseCase } from '@/core/domain/usecases/UpdateTaskUseCase';
-import { DeleteTaskUseCase } from '@/core/domain/usecases/DeleteTaskUseCase';
-import { PdfGenerator } from '@/infrastructure/pdf/PdfGenerator';
+import { GetTaskPageUseCase } from '@/core/domain/usecases/GetTaskPageUseCase';
+import { UpdateTaskUseCase, UpdateTaskParams, toUpdateTaskParams } from '@/core/domain/usecases/UpdateTaskUseCase';
+import { DeleteTaskUseCase, DeleteTaskOptions } from '@/core/domain/usecases/DeleteTaskUseCase';
+import { BulkTaskOperationUseCase } from '@/core/domain/usecases/BulkTaskOperationUseCase';
+import { RestoreTaskUseCase } from '@/core/domain/usecases/RestoreTaskUseCase';
+import { GetTagsUseCase } from '@/core/domain/usecases/GetTagsUseCase';
+import { SaveTagUseCase } from '@/core/domain/usecases/SaveTagUseCase';
+import { RegisterTagsUseCase } from '@/core/domain/usecases/RegisterTagsUseCase';
+import { GetMembersUseCase } from '@/core/domain/usecases/GetMembersUseCase';
+import { ExportWorkspaceUseCase } from '@/core/domain/usecases/ExportWorkspaceUseCase';
+import { RestoreWorkspaceUseCase } from '@/core/domain/usecases/RestoreWorkspaceUseCase';
+import { WorkspaceBackup, WorkspaceDiff, WorkspaceRestoreMode } from '@/core/domain/entities/WorkspaceBackup';
+import { PdfGenerator, PdfReport } from '@/infrastructure/pdf/PdfGenerator';
+import { TextReportGenerator, TextReport } from '@/infrastructure/report/TextReportGenerator';
+import { CsvTaskExporter, CsvExport } from '@/infrastructure/csv/CsvTaskExporter';
+import { JsonWorkspaceBackupFile, BackupFile } from '@/infrastructure/backup/JsonWorkspaceBackupFile';
+import { IcsCalendarGenerator, IcsComponentType, IcsFile } from '@/infrastructure/ics/IcsCalendarGenerator';
+import { ReportOptions, DEFAULT_REPORT_OPTIONS, getReportFilters } from '@/core/application/dto/ReportOptionsDTO';
+import { TaskImportResult, TaskImportRow } from '@/core/application/dto/TaskImportDTO';
+
+// An action that can be reverted from the undo toast or with Ctrl+Z
+export interface UndoableAction {
+  id: number;
+  label: string;
+}
+
+// The tasks a change touched, so views holding pages of tasks can refresh only those pages
+export interface TaskChange {
+  saved: Task[]; // Created or updated tasks, as stored now
+  deletedIds: string[];
+  reset?: boolean; // Anything may have changed, e.g. after a failure or a restore
+}
+
+type TaskChangeListener = (change: TaskChange) => void;
+
+interface HistoryEntry extends UndoableAction {
+  undo: () => Promise<void>;
+}
+
+const MAX_UNDO_HISTORY = 50;
+
+const BULK_ACTION_LABELS: Record<BulkTaskOperationType, string> = {
+  complete: 'Completed',
+  delete: 'Deleted',
+  update_pic: 'Reassigned'
+};
 
 interface TaskContextValue {
   tasks: Task[];
@@ -19,11 +81,43 @@ interface TaskContextValue {
     pic?: string;
     startDate?: string;
     endDate?: string;
+    priority?: TaskPriority;
+    tags?: string[];
+    checklist?: ChecklistItem[];
+    blockedBy?: string[];
+    recurrence?: RecurrenceRule | null;
   }) => Promise<void>;
+  updateTask: (id: string, params: UpdateTaskParams) => Promise<Task>;
   toggleTask: (id: string) => Promise<void>;
-  deleteTask: (id: string) => Promise<void>;
-  generateReport: () => Promise<void>;
+  deleteTask: (id: string, options?: DeleteTaskOptions) => Promise<void>;
+  bulkOperation: (operation: BulkTaskOperation) => Promise<BulkTaskOperationResult>;
+  generateReport: (options?: ReportOptions, currentFilters?: TaskFilters) => Promise<PdfReport>;
+  generateTextReport: (options?: ReportOptions, currentFilters?: TaskFilters) => Promise<TextReport>;
+  exportCsv: (filters?: TaskFilters, sortOptions?: TaskSortOptions) => Promise<CsvExport>;
+  importTasks: (rows: TaskImportRow[]) => Promise<TaskImportResult>;
+  exportIcs: (filters?: TaskFilters, type?: IcsComponentType) => Promise<IcsFile>;
+  exportBackup: () => Promise<BackupFile>;
+  readBackup: (text: string) => Promise<WorkspaceBackup>;
+  previewRestore: (backup: WorkspaceBackup, mode: WorkspaceRestoreMode) => Promise<WorkspaceDiff>;
+  restoreBackup: (backup: WorkspaceBackup, mode: WorkspaceRestoreMode) => Promise<WorkspaceDiff>;
+  fetchTaskPage: (
+    filters: TaskFilters,
+    sortOptions?: TaskSortOptions,
+    pagination?: TaskPaginationOptions
+  ) => Promise<TaskPage>;
+  countTasks: (filters?: TaskFilters) => Promise<number>;
+  fetchRelatedTasks: (tasks: Task[]) => Promise<Task[]>;
+  subscribeToChanges: (listener: TaskChangeListener) => () => void;
+  // Load the full task list and keep it fresh until the returned function is called
+  watchAllTasks: () => () => void;
   refetch: () => Promise<void>;
+  tags: ITag[];
+  saveTag: (tag: ITag) => Promise<ITag>;
+  workflow: TaskWorkflow;
+  lastAction: UndoableAction | null;
+  canUndo: boolean;
+  undo: () => Promise<void>;
+  dismissLastAction: () => void;
 }
 
 export const TaskContext = createContext<TaskContextValue | undefined>(undefined);
@@ -32,18 +126,66 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [tags, setTags] = useState<ITag[]>([]);
   
   // Track ongoing operations to prevent race conditions
   const pendingOperations = useRef<Set<string>>(new Set());
   const isInitialized = useRef(false);
 
+  // The full task list is only loaded, and kept in sync, while a view needs it
+  const [allTasksWatchers, setAllTasksWatchers] = useState(0);
+  const isWatchingAllTasks = allTasksWatchers > 0;
+  const changeListeners = useRef<Set<TaskChangeListener>>(new Set());
+
+  // Session undo history, newest entry last
+  const history = useRef<HistoryEntry[]>([]);
+  const nextActionId = useRef(1);
+  const isUndoing = useRef(false);
+  const [historySize, setHistorySize] = useState(0);
+  const [lastAction, setLastAction] = useState<UndoableAction | null>(null);
+
   // Initialize repositories and use cases with useMemo to prevent recreation on every render
-  const taskRepository = useMemo(() => new LocalStorageTaskRepository(), []);
-  const createTaskUseCase = useMemo(() => new CreateTaskUseCase(taskRepository), [taskRepository]);
+  // Task assignments are checked against the member directory
+  const taskRepository = useMemo(() => createTaskRepository(), []);
+  const memberRepository = useMemo(() => createMemberRepository(), []);
+  const createTaskUseCase = useMemo(
+    () => new CreateTaskUseCase(taskRepository, memberRepository),
+    [taskRepository, memberRepository]
+  );
   const getTasksUseCase = useMemo(() => new GetTasksUseCase(taskRepository), [taskRepository]);
-  const updateTaskUseCase = useMemo(() => new UpdateTaskUseCase(taskRepository), [taskRepository]);
+  const getTaskPageUseCase = useMemo(
+    () => new GetTaskPageUseCase(taskRepository, memberRepository),
+    [taskRepository, memberRepository]
+  );
+  const workflow = useMemo(() => getTaskWorkflow(), []);
+  const updateTaskUseCase = useMemo(
+    () => new UpdateTaskUseCase(taskRepository, memberRepository, workflow),
+    [taskRepository, memberRepository, workflow]
+  );
   const deleteTaskUseCase = useMemo(() => new DeleteTaskUseCase(taskRepository), [taskRepository]);
+  const bulkTaskOperationUseCase = useMemo(
+    () => new BulkTaskOperationUseCase(taskRepository, memberRepository, workflow),
+    [taskRepository, memberRepository, workflow]
+  );
+  const getMembersUseCase = useMemo(() => new GetMembersUseCase(memberRepository), [memberRepository]);
+  const restoreTaskUseCase = useMemo(() => new RestoreTaskUseCase(taskRepository), [taskRepository]);
+  const tagRepository = useMemo(() => createTagRepository(), []);
+  const getTagsUseCase = useMemo(() => new GetTagsUseCase(tagRepository), [tagRepository]);
+  const saveTagUseCase = useMemo(() => new SaveTagUseCase(tagRepository), [tagRepository]);
+  const registerTagsUseCase = useMemo(() => new RegisterTagsUseCase(tagRepository), [tagRepository]);
   const pdfGenerator = useMemo(() => new PdfGenerator(), []);
+  const textReportGenerator = useMemo(() => new TextReportGenerator(), []);
+  const csvExporter = useMemo(() => new CsvTaskExporter(), []);
+  const backupFile = useMemo(() => new JsonWorkspaceBackupFile(), []);
+  const icsGenerator = useMemo(() => new IcsCalendarGenerator(), []);
+  const exportWorkspaceUseCase = useMemo(
+    () => new ExportWorkspaceUseCase(taskRepository, memberRepository, tagRepository),
+    [taskRepository, memberRepository, tagRepository]
+  );
+  const restoreWorkspaceUseCase = useMemo(
+    () => new RestoreWorkspaceUseCase(taskRepository, memberRepository, tagRepository, workflow),
+    [taskRepository, memberRepository, tagRepository, workflow]
+  );
 
   // Enhanced fetch tasks with better error handling
   const fetchTasks = useCallback(async () => {
@@ -65,6 +207,35 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [getTasksUseCase]);
 
+  const fetchTags = useCallback(async () => {
+    try {
+      setTags(await getTagsUseCase.execute());
+    } catch (err) {
+      console.error('Failed to fetch tags:', err);
+    }
+  }, [getTagsUseCase]);
+
+  // Add new tag names to the registry; a failure here never fails the task change
+  const registerTags = useCallback(async (names: string[]) => {
+    if (names.length === 0) return;
+
+    try {
+      const registered = await registerTagsUseCase.execute(names);
+      if (registered.length > 0) {
+        setTags(prev => [...prev, ...registered].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+    } catch (err) {
+      console.error('Failed to register tags:', err);
+    }
+  }, [registerTagsUseCase]);
+
+  const saveTag = useCallback(async (tag: ITag): Promise<ITag> => {
+    const savedTag = await saveTagUseCase.execute(tag);
+    setTags(prev => [...prev.filter(t => !isSameTag(t.name, savedTag.name)), savedTag]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+    return savedTag;
+  }, [saveTagUseCase]);
+
   // Validate state consistency with storage
   const validateConsistency = useCallback(async (): Promise<Task[]> => {
     if (!isInitialized.current) return tasks;
@@ -91,12 +262,79 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [tasks, getTasksUseCase]);
 
+  const watchAllTasks = useCallback(() => {
+    setAllTasksWatchers(count => count + 1);
+    return () => setAllTasksWatchers(count => count - 1);
+  }, []);
+
+  const subscribeToChanges = useCallback((listener: TaskChangeListener) => {
+    changeListeners.current.add(listener);
+    return () => {
+      changeListeners.current.delete(listener);
+    };
+  }, []);
+
+  // Apply a change to the full task list, when it is loaded, and pass it on to the listeners
+  const publishChange = useCallback((change: TaskChange) => {
+    if (isInitialized.current) {
+      const savedById = new Map(change.saved.map(t => [t.id, t]));
+      const deletedIds = new Set(change.deletedIds);
+      setTasks(prev => [
+        ...prev.filter(t => !deletedIds.has(t.id)).map(t => savedById.get(t.id) ?? t),
+        ...change.saved.filter(t => !prev.some(p => p.id === t.id))
+      ]);
+    }
+    changeListeners.current.forEach(listener => listener(change));
+  }, []);
+
+  // Reload everything after a failure or a change too broad to describe task by task
+  const resync = useCallback(async () => {
+    publishChange({ saved: [], deletedIds: [], reset: true });
+    if (isInitialized.current) {
+      await fetchTasks();
+    }
+  }, [publishChange, fetchTasks]);
+
+  const recordAction = useCallback((label: string, undo: () => Promise<void>) => {
+    const entry: HistoryEntry = { id: nextActionId.current++, label, undo };
+    history.current = [...history.current, entry].slice(-MAX_UNDO_HISTORY);
+    setHistorySize(history.current.length);
+    setLastAction({ id: entry.id, label });
+  }, []);
+
+  // Inverse operations replayed by undo; these are never recorded themselves
+  const removeTasks = useCallback(async (ids: string[]) => {
+    for (const id of ids) {
+      await deleteTaskUseCase.execute(id);
+      publishChange({ saved: [], deletedIds: [id] });
+    }
+  }, [deleteTaskUseCase, publishChange]);
+
+  const restoreTasks = useCallback(async (deletedTasks: Task[]) => {
+    for (const task of deletedTasks) {
+      const restoredTask = await restoreTaskUseCase.execute(task);
+      publishChange({ saved: [restoredTask], deletedIds: [] });
+    }
+  }, [restoreTaskUseCase, publishChange]);
+
+  const revertTasks = useCallback(async (previousTasks: Task[]) => {
+    for (const previous of previousTasks) {
+      const revertedTask = await updateTaskUseCase.execute(previous.id, toUpdateTaskParams(previous), { revert: true });
+      publishChange({ saved: [revertedTask], deletedIds: [] });
+    }
+  }, [updateTaskUseCase, publishChange]);
+
   const createTask = useCallback(async (params: { 
     title: string; 
     description?: string;
     pic?: string;
     startDate?: string;
     endDate?: string;
+    priority?: TaskPriority;
+    tags?: string[];
+    checklist?: ChecklistItem[];
+    blockedBy?: string[];
+    recurrence?: RecurrenceRule | null;
   }) => {
     try {
       setError(null);
@@ -105,17 +343,15 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const newTask = await createTaskUseCase.execute(params);
       console.log('Task created successfully:', newTask.id);
       
-      // Update state optimistically
-      setTasks(prev => [...prev, newTask]);
-      
-      // Validate consistency after a short delay
-      setTimeout(validateConsistency, 100);
+      publishChange({ saved: [newTask], deletedIds: [] });
+      recordAction(`Created "${newTask.title}"`, () => removeTasks([newTask.id]));
+      await registerTags(newTask.tags);
     } catch (err) {
       console.error('Failed to create task:', err);
       setError('Failed to create task');
       throw err;
     }
-  }, [createTaskUseCase, validateConsistency]);
+  }, [createTaskUseCase, publishChange, recordAction, removeTasks, registerTags]);
 
   const toggleTask = useCallback(async (id: string) => {
     // Prevent multiple concurrent operations on the same task
@@ -129,32 +365,9 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       setError(null);
       console.log('Toggling task:', id);
-      console.log('Current tasks in state:', tasks.map(t => ({ id: t.id, title: t.title, completed: t.completed })));
-      
-      // First, ensure we have the latest state
-      const currentTasks = await validateConsistency();
-      const task = currentTasks.find(t => t.id === id);
-      
-      if (!task) {
-        console.warn('Task not found in current state, attempting refresh...');
-        // Force refresh and try again
-        await fetchTasks();
-        
-        // Get fresh tasks after refetch
-        const refreshedTasks = await getTasksUseCase.execute();
-        const refreshedTask = refreshedTasks.find(t => t.id === id);
-        
-        if (!refreshedTask) {
-          throw new Error(`Task with ID ${id} not found in storage`);
-        }
-        
-        console.log('Task found after refresh:', refreshedTask);
-        // Update state with refreshed tasks
-        setTasks(refreshedTasks);
-      }
-      
-      // Get the task again from the current state
-      const taskToToggle = task || tasks.find(t => t.id === id);
+
+      // Read the task from storage, as the full task list may not be loaded
+      const [taskToToggle] = await getTasksUseCase.executeByIds([id]);
       if (!taskToToggle) {
         throw new Error(`Task with ID ${id} not found`);
       }
@@ -166,14 +379,23 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
       });
       
       // Execute the update
-      const updatedTask = await updateTaskUseCase.execute(id, { 
+      const { task: updatedTask, nextOccurrence } = await updateTaskUseCase.executeWithOccurrence(id, { 
         completed: !taskToToggle.completed 
       });
       
       console.log('Task updated successfully:', updatedTask);
       
-      // Update state with the result
-      setTasks(prev => prev.map(t => t.id === id ? updatedTask : t));
+      // Pass on the result (and the next occurrence of a recurring task)
+      publishChange({ saved: [updatedTask, ...(nextOccurrence ? [nextOccurrence] : [])], deletedIds: [] });
+      recordAction(
+        `${updatedTask.completed ? 'Completed' : 'Reopened'} "${updatedTask.title}"`,
+        async () => {
+          if (nextOccurrence) {
+            await removeTasks([nextOccurrence.id]);
+          }
+          await revertTasks([taskToToggle]);
+        }
+      );
       
     } catch (err) {
       console.error('Toggle task error:', err);
@@ -181,16 +403,57 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
       
       // Try to recover by refreshing the task list
       try {
-        await fetchTasks();
+        await resync();
       } catch (refreshErr) {
         console.error('Failed to refresh tasks after error:', refreshErr);
       }
     } finally {
       pendingOperations.current.delete(id);
     }
-  }, [tasks, updateTaskUseCase, fetchTasks, getTasksUseCase, validateConsistency]);
+  }, [updateTaskUseCase, getTasksUseCase, publishChange, resync, recordAction, removeTasks, revertTasks]);
 
-  const deleteTask = useCallback(async (id: string) => {
+  const updateTask = useCallback(async (id: string, params: UpdateTaskParams): Promise<Task> => {
+    // Prevent multiple concurrent operations on the same task
+    if (pendingOperations.current.has(id)) {
+      throw new Error('Another operation is already in progress for this task');
+    }
+
+    pendingOperations.current.add(id);
+
+    try {
+      setError(null);
+      console.log('Updating task:', id, params);
+
+      const [previousTask] = await getTasksUseCase.executeByIds([id]);
+      const { task: updatedTask, nextOccurrence } = await updateTaskUseCase.executeWithOccurrence(id, params);
+      console.log('Task updated successfully:', updatedTask.id);
+
+      publishChange({ saved: [updatedTask, ...(nextOccurrence ? [nextOccurrence] : [])], deletedIds: [] });
+
+      // Unchanged tasks come back with the same timestamp and need no undo entry
+      if (previousTask && previousTask.updatedAt.getTime() !== updatedTask.updatedAt.getTime()) {
+        recordAction(`Edited "${updatedTask.title}"`, async () => {
+          if (nextOccurrence) {
+            await removeTasks([nextOccurrence.id]);
+          }
+          await revertTasks([previousTask]);
+        });
+      }
+      if (params.tags) {
+        await registerTags(params.tags);
+      }
+
+      return updatedTask;
+    } catch (err) {
+      console.error('Update task error:', err);
+      setError(`Failed to update task: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      throw err;
+    } finally {
+      pendingOperations.current.delete(id);
+    }
+  }, [updateTaskUseCase, getTasksUseCase, publishChange, recordAction, removeTasks, revertTasks, registerTags]);
+
+  const deleteTask = useCallback(async (id: string, options: DeleteTaskOptions = {}) => {
     // Prevent multiple concurrent operations on the same task
     if (pendingOperations.current.has(id)) {
       console.log('Delete operation already in progress for task:', id);
@@ -204,83 +467,340 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.log('Deleting task:', id);
       
       // Verify task exists before attempting deletion
-      const task = tasks.find(t => t.id === id);
+      const [task] = await getTasksUseCase.executeByIds([id]);
       if (!task) {
-        // Try to refresh and check again
-        await fetchTasks();
-        const refreshedTask = tasks.find(t => t.id === id);
-        if (!refreshedTask) {
-          throw new Error(`Task with ID ${id} not found`);
-        }
+        throw new Error(`Task with ID ${id} not found`);
       }
       
-      await deleteTaskUseCase.execute(id);
+      // Tasks blocked by this one, as they were before being unlinked
+      const dependents = await getTasksUseCase.executeDependents([id]);
+
+      await deleteTaskUseCase.execute(id, options);
       console.log('Task deleted successfully:', id);
       
-      // Update state by removing the deleted task
-      setTasks(prev => prev.filter(t => t.id !== id));
+      // Pass on the removal of the task and of any links to it
+      publishChange({
+        saved: dependents.map(t =>
+          Task.fromJSON({ ...t.toJSON(), blockedBy: t.blockedBy.filter(blockerId => blockerId !== id) })
+        ),
+        deletedIds: [id]
+      });
+      recordAction(`Deleted "${task.title}"`, async () => {
+        await restoreTasks([task]);
+        await revertTasks(dependents);
+      });
       
     } catch (err) {
       console.error('Delete task error:', err);
       setError(`Failed to delete task: ${err instanceof Error ? err.message : 'Unknown error'}`);
       
       // Refresh to ensure consistency
-      await fetchTasks();
+      await resync();
     } finally {
       pendingOperations.current.delete(id);
     }
-  }, [tasks, deleteTaskUseCase, fetchTasks]);
+  }, [deleteTaskUseCase, getTasksUseCase, publishChange, resync, recordAction, restoreTasks, revertTasks]);
+
+  const bulkOperation = useCallback(async (operation: BulkTaskOperation): Promise<BulkTaskOperationResult> => {
+    const busyIds = operation.taskIds.filter(id => pendingOperations.current.has(id));
+    if (busyIds.length > 0) {
+      throw new Error('Another operation is already in progress for some of the selected tasks');
+    }
+
+    operation.taskIds.forEach(id => pendingOperations.current.add(id));
 
-  const generateReport = useCallback(async () => {
     try {
       setError(null);
-      console.log('TaskProvider: Starting report generation...');
-      
-      // Get the latest tasks to ensure we have fresh data
-      await validateConsistency();
-      const currentTasks = await getTasksUseCase.execute();
-      
-      console.log('TaskProvider: Generating report for', currentTasks.length, 'tasks');
-      console.log('TaskProvider: Task data for report:', currentTasks.map(t => ({
-        id: t.id,
-        title: t.title?.substring(0, 50) + (t.title?.length > 50 ? '...' : ''),
-        description: t.description?.substring(0, 50) + (t.description?.length > 50 ? '...' : ''),
-        completed: t.completed,
-        pic: t.pic
-      })));
-      
-      // Validate tasks before sending to PDF generator
-      const validTasks = currentTasks.filter(task => {
-        if (!task) {
-          console.warn('TaskProvider: Null task found, skipping');
-          return false;
-        }
-        
-        if (!task.id || !task.title) {
-          console.warn('TaskProvider: Invalid task found:', { id: task.id, title: task.title });
-          return false;
-        }
-        
-        return true;
+      console.log('Applying bulk operation:', operation.operation, 'to', operation.taskIds.length, 'tasks');
+
+      // Snapshot the affected tasks so the whole batch can be undone at once
+      const previousById = new Map((await getTasksUseCase.executeByIds(operation.taskIds)).map(t => [t.id, t]));
+      const result = await bulkTaskOperationUseCase.execute(operation);
+      console.log('Bulk operation finished:', {
+        updated: result.updated.length,
+        created: result.created.length,
+        deleted: result.deleted.length,
+        failed: result.failed.length
       });
+
+      const deletedTasks = result.deleted
+        .map(id => previousById.get(id))
+        .filter((t): t is Task => Boolean(t));
+      const previousTasks = result.updated
+        .map(t => previousById.get(t.id))
+        .filter((t): t is Task => Boolean(t));
+
+      const affectedCount = deletedTasks.length + previousTasks.length;
+      if (affectedCount > 0) {
+        recordAction(
+          `${BULK_ACTION_LABELS[operation.operation]} ${affectedCount} ${affectedCount === 1 ? 'task' : 'tasks'}`,
+          async () => {
+            await removeTasks(result.created.map(t => t.id));
+            await restoreTasks(deletedTasks);
+            await revertTasks(previousTasks);
+          }
+        );
+      }
+
+      publishChange({ saved: [...result.updated, ...result.created], deletedIds: result.deleted });
+
+      if (result.failed.length > 0) {
+        setError(`Bulk operation failed for ${result.failed.length} of ${operation.taskIds.length} tasks`);
+      }
+
+      return result;
+    } catch (err) {
+      console.error('Bulk operation error:', err);
+      setError(`Failed to apply bulk operation: ${err instanceof Error ? err.message : 'Unknown error'}`);
+
+      // Refresh to ensure consistency after a partial failure
+      await resync();
+      throw err;
+    } finally {
+      operation.taskIds.forEach(id => pendingOperations.current.delete(id));
+    }
+  }, [bulkTaskOperationUseCase, getTasksUseCase, publishChange, resync, recordAction, removeTasks, restoreTasks, revertTasks]);
+
+  // Revert the most recent recorded action
+  const undo = useCallback(async () => {
+    if (isUndoing.current) return;
+
+    const entry = history.current.pop();
+    if (!entry) return;
+
+    isUndoing.current = true;
+    setHistorySize(history.current.length);
+    setLastAction(null);
+
+    try {
+      setError(null);
+      console.log('Undoing action:', entry.label);
+      await entry.undo();
+    } catch (err) {
+      console.error('Undo error:', err);
+      setError(`Failed to undo ${entry.label}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+
+      // Refresh to ensure consistency after a partial undo
+      await resync();
+    } finally {
+      isUndoing.current = false;
+    }
+  }, [resync]);
+
+  const dismissLastAction = useCallback(() => setLastAction(null), []);
+
+  // The tasks and members a report covers, shared by every report format
+  const selectReportTasks = useCallback(async (
+    options: ReportOptions,
+    currentFilters: TaskFilters
+  ): Promise<{ tasks: Task[]; members: Member[] }> => {
+    // Get the latest tasks to ensure we have fresh data
+    const allTasks = await getTasksUseCase.execute();
+    const members = await getMembersUseCase.execute();
+    
+    // Narrow to the chosen scope and date range, in the chosen order
+    const currentTasks = taskQueryUtils.applyQuery(
+      allTasks,
+      getReportFilters(options, currentFilters),
+      { sortBy: options.sortBy, sortOrder: options.sortOrder },
+      buildPicLabels(members)
+    );
+    
+    console.log('TaskProvider: Generating report for', currentTasks.length, 'tasks');
+    console.log('TaskProvider: Task data for report:', currentTasks.map(t => ({
+      id: t.id,
+      title: t.title?.substring(0, 50) + (t.title?.length > 50 ? '...' : ''),
+      description: t.description?.substring(0, 50) + (t.description?.length > 50 ? '...' : ''),
+      completed: t.completed,
+      pic: t.pic
+    })));
+    
+    // Validate tasks before sending to the report generator
+    const validTasks = currentTasks.filter(task => {
+      if (!task) {
+        console.warn('TaskProvider: Null task found, skipping');
+        return false;
+      }
       
-      if (validTasks.length === 0) {
-        throw new Error('No valid tasks found to generate report');
+      if (!task.id || !task.title) {
+        console.warn('TaskProvider: Invalid task found:', { id: task.id, title: task.title });
+        return false;
       }
       
-      console.log('TaskProvider: Sending', validTasks.length, 'valid tasks to PDF generator');
+      return true;
+    });
+    
+    if (validTasks.length === 0) {
+      throw new Error('No tasks match the selected report options');
+    }
+    
+    return { tasks: validTasks, members };
+  }, [getTasksUseCase, getMembersUseCase]);
+
+  const generateReport = useCallback(async (
+    options: ReportOptions = DEFAULT_REPORT_OPTIONS,
+    currentFilters: TaskFilters = {}
+  ) => {
+    try {
+      setError(null);
+      console.log('TaskProvider: Starting report generation...');
+      
+      const { tasks: reportTasks, members } = await selectReportTasks(options, currentFilters);
       
-      // Generate the PDF report
-      await pdfGenerator.generateTaskReport(validTasks);
+      console.log('TaskProvider: Sending', reportTasks.length, 'valid tasks to PDF generator');
       
-      console.log('TaskProvider: Report generated successfully');
+      // Generate the PDF report, naming each Person in Charge from the member directory
+      const report = pdfGenerator.generateTaskReport(reportTasks, members, options);
       
+      console.log('TaskProvider: Report generated successfully');
+      return report;
+    } catch (err) {
+      console.error('TaskProvider: Failed to generate report:', err);
+      setError(`Failed to generate report: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      throw err;
+    }
+  }, [pdfGenerator, selectReportTasks]); // Removed 'tasks' dependency
+
+  // Same report as Markdown or plain text, for pasting into chat and wikis
+  const generateTextReport = useCallback(async (
+    options: ReportOptions = DEFAULT_REPORT_OPTIONS,
+    currentFilters: TaskFilters = {}
+  ): Promise<TextReport> => {
+    try {
+      setError(null);
+      const { tasks: reportTasks, members } = await selectReportTasks(options, currentFilters);
+      return textReportGenerator.generateTaskReport(
+        reportTasks,
+        members,
+        options,
+        options.format === 'text' ? 'text' : 'markdown'
+      );
     } catch (err) {
       console.error('TaskProvider: Failed to generate report:', err);
       setError(`Failed to generate report: ${err instanceof Error ? err.message : 'Unknown error'}`);
       throw err;
     }
-  }, [pdfGenerator, getTasksUseCase, validateConsistency]); // Removed 'tasks' dependency
+  }, [textReportGenerator, selectReportTasks]);
+
+  // Export the tasks matching the given view, in its order
+  const exportCsv = useCallback(async (
+    filters: TaskFilters = {},
+    sortOptions?: TaskSortOptions
+  ): Promise<CsvExport> => {
+    const allTasks = await getTasksUseCase.execute();
+    const members = await getMembersUseCase.execute();
+    const picLabels = buildPicLabels(members);
+    return csvExporter.exportTasks(taskQueryUtils.applyQuery(allTasks, filters, sortOptions, picLabels), members);
+  }, [csvExporter, getTasksUseCase, getMembersUseCase]);
+
+  // Calendar file of the tasks matching the given view
+  const exportIcs = useCallback(async (
+    filters: TaskFilters = {},
+    type: IcsComponentType = 'event'
+  ): Promise<IcsFile> => {
+    const allTasks = await getTasksUseCase.execute();
+    const members = await getMembersUseCase.execute();
+    const tasks = taskQueryUtils.applyQuery(allTasks, filters, undefined, buildPicLabels(members));
+    return icsGenerator.toFile(icsGenerator.generate(tasks, members, { type }));
+  }, [icsGenerator, getTasksUseCase, getMembersUseCase]);
+
+  // Create validated import rows. A row blocked by another row in the file waits
+  // until that row exists, so its blocker can point at the new task's ID.
+  const importTasks = useCallback(async (rows: TaskImportRow[]): Promise<TaskImportResult> => {
+    const created: Task[] = [];
+    const failed: TaskImportResult['failed'] = [];
+    const newIds = new Map<string, string>(); // ID in the file -> created task ID
+    const sourceIds = new Set(rows.map(row => row.sourceId).filter(Boolean));
+    let pending = rows.filter(row => row.data);
+
+    setError(null);
+    while (pending.length > 0) {
+      const ready = pending.filter(row =>
+        row.data!.blockedBy.every(id => !sourceIds.has(id) || newIds.has(id))
+      );
+      if (ready.length === 0) {
+        pending.forEach(row => failed.push({
+          rowNumber: row.rowNumber,
+          error: 'Blocked by a row that could not be imported'
+        }));
+        break;
+      }
+
+      for (const row of ready) {
+        try {
+          const task = await createTaskUseCase.execute({
+            ...row.data!,
+            blockedBy: row.data!.blockedBy.map(id => newIds.get(id) || id)
+          });
+          created.push(task);
+          if (row.sourceId) newIds.set(row.sourceId, task.id);
+        } catch (err) {
+          failed.push({ rowNumber: row.rowNumber, error: err instanceof Error ? err.message : 'Failed to create task' });
+        }
+      }
+      pending = pending.filter(row => !ready.includes(row));
+    }
+
+    if (created.length > 0) {
+      publishChange({ saved: created, deletedIds: [] });
+      recordAction(
+        `Imported ${created.length} task${created.length === 1 ? '' : 's'}`,
+        // Dependents were created after their blockers, so remove them first
+        () => removeTasks(created.map(task => task.id).reverse())
+      );
+      await registerTags(Array.from(new Set(created.flatMap(task => task.tags))));
+    }
+
+    return { created, failed: failed.sort((a, b) => a.rowNumber - b.rowNumber) };
+  }, [createTaskUseCase, publishChange, recordAction, removeTasks, registerTags]);
+
+  const exportBackup = useCallback(async (): Promise<BackupFile> => {
+    return backupFile.write(await exportWorkspaceUseCase.execute());
+  }, [backupFile, exportWorkspaceUseCase]);
+
+  const readBackup = useCallback((text: string) => backupFile.read(text), [backupFile]);
+
+  const previewRestore = useCallback(
+    (backup: WorkspaceBackup, mode: WorkspaceRestoreMode) => restoreWorkspaceUseCase.preview(backup, mode),
+    [restoreWorkspaceUseCase]
+  );
+
+  // Undo history refers to tasks as they were before the restore, so it is dropped
+  const restoreBackup = useCallback(async (
+    backup: WorkspaceBackup,
+    mode: WorkspaceRestoreMode
+  ): Promise<WorkspaceDiff> => {
+    setError(null);
+    try {
+      return await restoreWorkspaceUseCase.execute(backup, mode);
+    } finally {
+      history.current = [];
+      setHistorySize(0);
+      setLastAction(null);
+      await Promise.all([resync(), fetchTags()]);
+    }
+  }, [restoreWorkspaceUseCase, resync, fetchTags]);
+
+  // Query a single page of tasks straight from the repository
+  const fetchTaskPage = useCallback(async (
+    filters: TaskFilters,
+    sortOptions?: TaskSortOptions,
+    pagination?: TaskPaginationOptions
+  ): Promise<TaskPage> => {
+    console.log('Fetching task page:', { filters, sortOptions, pagination });
+    return getTaskPageUseCase.execute(filters, sortOptions, pagination);
+  }, [getTaskPageUseCase]);
+
+  const countTasks = useCallback(
+    (filters: TaskFilters = {}) => getTaskPageUseCase.count(filters),
+    [getTaskPageUseCase]
+  );
+
+  // Blockers and dependents of a partial task list, e.g. the loaded pages
+  const fetchRelatedTasks = useCallback(
+    (pageTasks: Task[]) => getTasksUseCase.executeRelated(pageTasks),
+    [getTasksUseCase]
+  );
 
   // Clear error after some time
   useEffect(() => {
@@ -292,14 +812,23 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [error]);
 
-  // Initial fetch on mount
+  // Load the full list when a view starts needing it. Once no view does, it is
+  // no longer kept in sync and is loaded again when next needed.
+  useEffect(() => {
+    if (isWatchingAllTasks) {
+      fetchTasks();
+    } else {
+      isInitialized.current = false;
+    }
+  }, [isWatchingAllTasks, fetchTasks]);
+
   useEffect(() => {
-    fetchTasks();
-  }, [fetchTasks]);
+    fetchTags();
+  }, [fetchTags]);
 
-  // Periodic consistency check (optional - can be removed if not needed)
+  // Periodic consistency check of the full list while it is in use
   useEffect(() => {
-    if (!isInitialized.current) return;
+    if (!isWatchingAllTasks) return;
     
     const interval = setInterval(() => {
       if (pendingOperations.current.size === 0) {
@@ -308,17 +837,39 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }, 30000); // Check every 30 seconds when idle
     
     return () => clearInterval(interval);
-  }, [validateConsistency]);
+  }, [isWatchingAllTasks, validateConsistency]);
 
   const value: TaskContextValue = {
     tasks,
     loading,
     error,
     createTask,
+    updateTask,
     toggleTask,
     deleteTask,
+    bulkOperation,
     generateReport,
+    generateTextReport,
+    exportCsv,
+    importTasks,
+    exportIcs,
+    exportBackup,
+    readBackup,
+    previewRestore,
+    restoreBackup,
+    fetchTaskPage,
+    countTasks,
+    fetchRelatedTasks,
+    subscribeToChanges,
+    watchAllTasks,
     refetch: fetchTasks,
+    tags,
+    saveTag,
+    workflow,
+    lastAction,
+    canUndo: historySize > 0,
+    undo,
+    dismissLastAction,
   };
 
   return <TaskContext.Provider value={value}>{children}</TaskContext.Provider>;
@@ -0,0 +1,12 @@
+/**
+ * Copies text to the clipboard. Returns false when the browser refused,
+ * e.g. outside a secure context or without clipboard permission.
+ */
+export const copyText = async (text: string): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,27 @@
+/**
+ * Saves a blob to the user's device under the given file name
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Opens a blob in a new browser tab. Returns false when a popup blocker stopped it.
+ */
+export const openBlobInNewTab = (blob: Blob): boolean => {
+  const url = URL.createObjectURL(blob);
+  const opened = window.open(url, '_blank');
+
+  // The new tab keeps its own reference once loaded
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  return !!opened;
+};